@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect } from "react";
 import {
   Routes,
   Route,
@@ -16,32 +16,23 @@ import Navbar from "./components/Navbar";
 import AttendanceModal from "./components/AttendanceModal";
 import { useAuthStore } from "./store/authStore";
 import { useAttendanceStore } from "./store/attendanceStore";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "./lib/firebase";
+import { useCurrentUser } from "./hooks/useCurrentUser";
+import { Permission } from "./lib/permissions";
+
+// Where a signed-in user lands by default
+const homePath = (can: (permission: Permission) => boolean) =>
+  !can("dashboard.access") && can("customerPortal.access")
+    ? "/customer"
+    : "/dashboard";
+
 function PrivateRoute({
   children,
-  allowedRoles = ["admin", "member"],
+  permission = "dashboard.access",
 }: {
   children: React.ReactNode;
-  allowedRoles?: string[];
+  permission?: Permission;
 }) {
-  const { user } = useAuthStore();
-  const [isVerified, setIsVerified] = React.useState<boolean | null>(null);
-  const [userRole, setUserRole] = React.useState<string | null>(null);
-  const [loading, setLoading] = React.useState(true);
-
-  React.useEffect(() => {
-    const checkVerification = async () => {
-      if (user) {
-        const userDoc = await getDoc(doc(db, "users", user.uid));
-        const userData = userDoc.data();
-        setIsVerified(userData?.verified || false);
-        setUserRole(userData?.role || null);
-      }
-      setLoading(false);
-    };
-    checkVerification();
-  }, [user]);
+  const { user, verified, loading, can } = useCurrentUser();
 
   if (loading) {
     return (
@@ -55,17 +46,8 @@ function PrivateRoute({
     return <Navigate to="/login" />;
   }
 
-  // If user is a customer, only allow access to customer route
-  if (userRole === "customer") {
-    return allowedRoles.includes("customer") ? (
-      <>{children}</>
-    ) : (
-      <Navigate to="/customer" />
-    );
-  }
-
-  // For non-customer users, check verification
-  if (!isVerified) {
+  // Self sign-ups wait for an admin; customer accounts are created verified
+  if (!verified) {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
         <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full text-center">
@@ -81,7 +63,7 @@ function PrivateRoute({
     );
   }
 
-  if (!allowedRoles.includes(userRole || "")) {
+  if (!can(permission)) {
     return <Navigate to="/" />;
   }
 
@@ -89,62 +71,27 @@ function PrivateRoute({
 }
 
 function AuthenticatedRedirect() {
-  const { user } = useAuthStore();
+  const { user, loading, can } = useCurrentUser();
   const navigate = useNavigate();
-  const [userRole, setUserRole] = useState<string | null>(null);
 
   useEffect(() => {
-    const checkUserRole = async () => {
-      if (user) {
-        const userDoc = await getDoc(doc(db, "users", user.uid));
-        const userData = userDoc.data();
-        setUserRole(userData?.role || null);
-
-        if (userData?.role === "customer") {
-          navigate("/customer");
-        } else {
-          navigate("/dashboard");
-        }
-      }
-    };
-
-    checkUserRole();
-  }, [user, navigate]);
+    if (user && !loading) {
+      navigate(homePath(can));
+    }
+  }, [user, loading, can, navigate]);
 
   return null;
 }
 
 function App() {
-  const { initialize, signIn } = useAuthStore();
+  const { initialize } = useAuthStore();
+  const { can } = useCurrentUser();
   const [initializing, setInitializing] = React.useState(true);
-  const [userRole, setUserRole] = useState<string | null>(null);
+  const home = homePath(can);
 
   useEffect(() => {
-    const initAuth = async () => {
-      await initialize();
-
-      const storedCredentials = localStorage.getItem("userCredentials");
-      if (storedCredentials) {
-        try {
-          const { email, password } = JSON.parse(storedCredentials);
-          const userCredential = await signIn(email, password);
-          if (userCredential) {
-            const userDoc = await getDoc(doc(db, "users", userCredential.uid));
-            const userData = userDoc.data();
-            setUserRole(userData?.role || null);
-          }
-        } catch (error) {
-          console.error("Auto-login failed:", error);
-          localStorage.removeItem("userCredentials");
-        }
-      }
-
-      setInitializing(false);
-    };
-
-    initAuth();
-  }, [initialize, signIn]);
-
+    initialize().then(() => setInitializing(false));
+  }, [initialize]);
 
   if (initializing) {
     return (
@@ -179,7 +126,7 @@ function App() {
         <Route
           path="/dashboard/*"
           element={
-            <PrivateRoute allowedRoles={["admin", "member"]}>
+            <PrivateRoute permission="dashboard.access">
               <Dashboard />
             </PrivateRoute>
           }
@@ -187,7 +134,7 @@ function App() {
         <Route
           path="/admin"
           element={
-            <PrivateRoute allowedRoles={["admin"]}>
+            <PrivateRoute permission="user.manage">
               <AdminPanel />
             </PrivateRoute>
           }
@@ -195,26 +142,18 @@ function App() {
         <Route
           path="/customer"
           element={
-            <PrivateRoute allowedRoles={["customer"]}>
+            <PrivateRoute permission="customerPortal.access">
               <CustomerProject />
             </PrivateRoute>
           }
         />
         <Route
           path="/"
-          element={
-            <Navigate
-              to={userRole === "customer" ? "/customer" : "/dashboard"}
-            />
-          }
+          element={<Navigate to={home} />}
         />
         <Route
           path="*"
-          element={
-            <Navigate
-              to={userRole === "customer" ? "/customer" : "/dashboard"}
-            />
-          }
+          element={<Navigate to={home} />}
         />
       </Routes>
       <Toaster position="top-right" />
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Project, useProjectStore } from '../store/projectStore';
+import { BoardColumn, DEFAULT_BOARD_COLUMNS, getBoardColumns, validateBoardColumns } from '../lib/board';
+
+interface BoardColumnsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+}
+
+export default function BoardColumnsModal({ isOpen, onClose, project }: BoardColumnsModalProps) {
+  const { updateBoardColumns } = useProjectStore();
+  const [columns, setColumns] = useState<BoardColumn[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setColumns(getBoardColumns(project));
+    }
+  }, [isOpen, project]);
+
+  if (!isOpen || !project.id) return null;
+
+  const updateLabel = (id: string, label: string) => {
+    setColumns(prev => prev.map(column => (column.id === id ? { ...column, label } : column)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateBoardColumns(columns);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+    try {
+      setSaving(true);
+      await updateBoardColumns(project.id!, columns);
+      toast.success('Board columns saved');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save board columns:', error);
+      toast.error('Failed to save board columns');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Board Columns</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <p className="text-sm text-gray-500">
+            The last column is the done column. Tasks moved there are marked complete.
+          </p>
+
+          {columns.map((column, index) => (
+            <div key={column.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                required
+                value={column.label}
+                onChange={e => updateLabel(column.id, e.target.value)}
+                className="p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+              <button
+                type="button"
+                disabled={index === 0}
+                onClick={() => moveColumn(index, -1)}
+                className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                disabled={index === columns.length - 1}
+                onClick={() => moveColumn(index, 1)}
+                className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setColumns(prev => prev.filter(item => item.id !== column.id))}
+                className="p-1 text-gray-400 hover:text-red-500"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex justify-between">
+            <button
+              type="button"
+              onClick={() => setColumns(prev => [...prev, { id: crypto.randomUUID(), label: '' }])}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-900"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Column
+            </button>
+            <button
+              type="button"
+              onClick={() => setColumns(DEFAULT_BOARD_COLUMNS)}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Reset to defaults
+            </button>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
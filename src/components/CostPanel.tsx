@@ -0,0 +1,125 @@
+import { useEffect, useMemo } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Task } from '../store/projectStore';
+import { useCostStore } from '../store/costStore';
+import { TaskCost, findOverruns, getBurn, getTaskCost, summariseCosts } from '../lib/costs';
+import { formatCurrency } from '../lib/invoicing';
+
+interface CostPanelProps {
+  // Root(s) of the tree to cost: a project's tasks or a single task
+  tasks: Task[];
+}
+
+const flattenWithDepth = (costs: TaskCost[], depth = 0): { cost: TaskCost; depth: number }[] =>
+  costs.flatMap(cost => [{ cost, depth }, ...flattenWithDepth(cost.children, depth + 1)]);
+
+const BurnBar = ({ burn, overrun }: { burn: number | null; overrun: boolean }) => {
+  if (burn === null) return <span className="text-gray-400">-</span>;
+  return (
+    <div className="flex items-center justify-end space-x-2">
+      <div className="w-20 h-2 bg-gray-100 rounded">
+        <div
+          className={`h-2 rounded ${overrun ? 'bg-red-500' : 'bg-green-500'}`}
+          style={{ width: `${Math.min(burn, 100)}%` }}
+        />
+      </div>
+      <span className={overrun ? 'text-red-600 font-medium' : ''}>{burn}%</span>
+    </div>
+  );
+};
+
+// Estimated hours and value against logged hours and their internal cost
+export default function CostPanel({ tasks }: CostPanelProps) {
+  const { settings, subscribeToCostSettings } = useCostStore();
+
+  useEffect(() => subscribeToCostSettings(), [subscribeToCostSettings]);
+
+  const costs = useMemo(
+    () => tasks.map(task => getTaskCost(task, settings.userRates, settings.overrunThreshold)),
+    [tasks, settings]
+  );
+  const total = summariseCosts(costs);
+  const totalBurn = getBurn(total);
+  const overruns = findOverruns(costs);
+  const rows = flattenWithDepth(costs);
+
+  return (
+    <div className="bg-white border-[1px] rounded-lg">
+      <div className="border-b border-gray-200 px-6 py-3 flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Budget vs Actual</h3>
+        <span className="text-sm text-gray-500">
+          Flagged above {settings.overrunThreshold}% of estimated hours
+        </span>
+      </div>
+      <div className="px-6 py-4 space-y-4">
+        <div className="grid grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-500">Estimated</p>
+            <p className="mt-1">{total.estimatedHours} h · ₹{formatCurrency(total.estimatedCost)}</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-500">Logged</p>
+            <p className="mt-1">{total.loggedHours} h</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-500">Actual Cost</p>
+            <p className="mt-1">₹{formatCurrency(total.actualCost)}</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-500">Hours Burned</p>
+            <p className={`mt-1 ${overruns.length > 0 ? 'text-red-600 font-medium' : ''}`}>
+              {totalBurn === null ? '-' : `${totalBurn}%`}
+            </p>
+          </div>
+        </div>
+
+        {total.unratedHours > 0 && (
+          <p className="text-sm text-yellow-700 bg-yellow-50 rounded px-3 py-2">
+            {total.unratedHours} h were logged by people without an hourly rate and are not in the
+            actual cost.
+          </p>
+        )}
+
+        {overruns.length > 0 && (
+          <div className="text-sm text-red-700 bg-red-50 rounded px-3 py-2 flex items-start">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+            <span>
+              Over budget: {overruns.map(cost => `${cost.task.name} (${cost.burn}%)`).join(', ')}
+            </span>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr>
+                <th className="py-2 text-left font-medium text-gray-500">Task</th>
+                <th className="py-2 text-right font-medium text-gray-500">Est. Hours</th>
+                <th className="py-2 text-right font-medium text-gray-500">Logged</th>
+                <th className="py-2 text-right font-medium text-gray-500">Est. Value</th>
+                <th className="py-2 text-right font-medium text-gray-500">Actual Cost</th>
+                <th className="py-2 text-right font-medium text-gray-500">Burned</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(({ cost, depth }) => (
+                <tr key={cost.task.id} className={cost.overrun ? 'bg-red-50' : ''}>
+                  <td className="py-2" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                    {cost.task.name}
+                  </td>
+                  <td className="py-2 text-right">{cost.estimatedHours}</td>
+                  <td className="py-2 text-right">{cost.loggedHours}</td>
+                  <td className="py-2 text-right">{formatCurrency(cost.estimatedCost)}</td>
+                  <td className="py-2 text-right">{formatCurrency(cost.actualCost)}</td>
+                  <td className="py-2 text-right">
+                    <BurnBar burn={cost.burn} overrun={cost.overrun} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
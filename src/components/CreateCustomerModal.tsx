@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { X, Loader2, Copy } from 'lucide-react';
-import { createUserWithEmailAndPassword } from 'firebase/auth';
+import { createUserWithEmailAndPassword, signOut } from 'firebase/auth';
 import { doc, setDoc, collection, query, where, getDocs } from 'firebase/firestore';
-import { auth, db } from '../lib/firebase';
+import { db, getProvisioningAuth } from '../lib/firebase';
 import toast from 'react-hot-toast';
 
 interface CreateCustomerModalProps {
@@ -84,12 +84,14 @@ export default function CreateCustomerModal({ isOpen, onClose, projectId }: Crea
 
     try {
       setLoading(true);
-      // Create user in Firebase Auth
+      // Create user in Firebase Auth without replacing the admin's session
+      const provisioningAuth = await getProvisioningAuth();
       const { user } = await createUserWithEmailAndPassword(
-        auth, 
+        provisioningAuth, 
         generatedCredentials.email, 
         generatedCredentials.password
       );
+      await signOut(provisioningAuth);
 
       // Create user document in Firestore
       await setDoc(doc(db, 'users', user.uid), {
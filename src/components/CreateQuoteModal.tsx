@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Enquiry } from '../store/enquiryStore';
+import { SupplyType } from '../store/invoiceStore';
+import { Quote, useQuoteStore } from '../store/quoteStore';
+import { DEFAULT_GST_RATE, calculateInvoiceTotals, formatCurrency } from '../lib/invoicing';
+import {
+  DEFAULT_EXCLUSIONS,
+  DEFAULT_PAYMENT_TERMS,
+  DEFAULT_QUOTE_VALIDITY_DAYS,
+  buildQuoteLines,
+  parseListInput
+} from '../lib/quotation';
+import { addDays, toDateInput } from '../lib/utils';
+
+interface CreateQuoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  enquiry: Enquiry;
+  // Terms of the last revision carry over to the next one
+  previousQuote?: Quote | null;
+}
+
+export default function CreateQuoteModal({
+  isOpen,
+  onClose,
+  enquiry,
+  previousQuote
+}: CreateQuoteModalProps) {
+  const { createQuote, loading } = useQuoteStore();
+  const [formData, setFormData] = useState({
+    issueDate: '',
+    validUntil: '',
+    gstRate: DEFAULT_GST_RATE,
+    supplyType: 'intra' as SupplyType,
+    paymentTerms: '',
+    exclusions: ''
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      const today = toDateInput(new Date());
+      setFormData({
+        issueDate: today,
+        validUntil: addDays(today, DEFAULT_QUOTE_VALIDITY_DAYS),
+        gstRate: previousQuote?.gstRate ?? DEFAULT_GST_RATE,
+        supplyType: previousQuote?.supplyType || 'intra',
+        paymentTerms: previousQuote?.paymentTerms || DEFAULT_PAYMENT_TERMS,
+        exclusions: (previousQuote?.exclusions || DEFAULT_EXCLUSIONS).join('\n')
+      });
+    }
+  }, [isOpen, previousQuote]);
+
+  const lines = useMemo(() => buildQuoteLines(enquiry.deliverables), [enquiry.deliverables]);
+  const totals = calculateInvoiceTotals(lines, formData.gstRate, formData.supplyType);
+
+  if (!isOpen || !enquiry.id) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const quote = await createQuote(enquiry.id!, {
+        ...formData,
+        exclusions: parseListInput(formData.exclusions)
+      });
+      toast.success(`Quotation ${quote.number} created`);
+      onClose();
+    } catch (error) {
+      console.error('Failed to create quotation:', error);
+      toast.error('Failed to create quotation');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">
+            New Quotation (Revision {(enquiry.quoteRevision || 0) + 1})
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Quotation Date</label>
+              <input
+                type="date"
+                required
+                value={formData.issueDate}
+                onChange={e => setFormData(prev => ({
+                  ...prev,
+                  issueDate: e.target.value,
+                  validUntil: addDays(e.target.value, DEFAULT_QUOTE_VALIDITY_DAYS)
+                }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Valid Until</label>
+              <input
+                type="date"
+                required
+                min={formData.issueDate}
+                value={formData.validUntil}
+                onChange={e => setFormData(prev => ({ ...prev, validUntil: e.target.value }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">GST Rate (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="28"
+                step="0.01"
+                required
+                value={formData.gstRate}
+                onChange={e => setFormData(prev => ({ ...prev, gstRate: Number(e.target.value) }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Supply</label>
+              <select
+                value={formData.supplyType}
+                onChange={e => setFormData(prev => ({ ...prev, supplyType: e.target.value as SupplyType }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="intra">Within state (CGST + SGST)</option>
+                <option value="inter">Inter-state (IGST)</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Payment Terms</label>
+            <textarea
+              rows={2}
+              required
+              value={formData.paymentTerms}
+              onChange={e => setFormData(prev => ({ ...prev, paymentTerms: e.target.value }))}
+              className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Exclusions (one per line)</label>
+            <textarea
+              rows={3}
+              value={formData.exclusions}
+              onChange={e => setFormData(prev => ({ ...prev, exclusions: e.target.value }))}
+              className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="border rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Deliverable</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.length === 0 ? (
+                  <tr>
+                    <td colSpan={2} className="px-4 py-4 text-center text-gray-500">
+                      Add hours and rates to the deliverables before quoting
+                    </td>
+                  </tr>
+                ) : (
+                  lines.map(line => (
+                    <tr key={line.id}>
+                      <td className="px-4 py-2">{line.description}</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(line.amount)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-4 py-2 text-right text-gray-500">Subtotal</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(totals.subtotal)}</td>
+                </tr>
+                {totals.taxes.map(tax => (
+                  <tr key={tax.label}>
+                    <td className="px-4 py-2 text-right text-gray-500">
+                      {tax.label} @ {tax.rate}%
+                    </td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(tax.amount)}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="px-4 py-2 text-right font-medium">Total (INR)</td>
+                  <td className="px-4 py-2 text-right font-medium">{formatCurrency(totals.total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            Scope and customer details are taken from the enquiry as it is now. Each quotation is
+            kept as a revision and cannot be edited afterwards.
+          </p>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || lines.length === 0}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-black/90 rounded-md hover:bg-black/80 disabled:opacity-50"
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Quotation
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Search, X } from 'lucide-react';
+import { Customer, useCustomerStore } from '../store/customerStore';
+import { formatAddress, getPrimaryContact, searchCustomers } from '../lib/customers';
+
+interface CustomerPickerProps {
+  value: string | null;
+  onChange: (customer: Customer | null) => void;
+  canCreate?: boolean;
+}
+
+const MAX_RESULTS = 8;
+
+export default function CustomerPicker({ value, onChange, canCreate }: CustomerPickerProps) {
+  const { customers, loading, subscribeToCustomers } = useCustomerStore();
+  const [search, setSearch] = useState('');
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => subscribeToCustomers(), [subscribeToCustomers]);
+
+  const selected = customers.find(customer => customer.id === value) || null;
+  const results = useMemo(
+    () => searchCustomers(customers, search).slice(0, MAX_RESULTS),
+    [customers, search]
+  );
+
+  const handleSelect = (customer: Customer) => {
+    onChange(customer);
+    setSearch('');
+    setOpen(false);
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-start justify-between rounded-md border border-gray-300 p-3">
+        <div>
+          <p className="font-medium">{selected?.name || (loading ? 'Loading...' : 'Unknown customer')}</p>
+          {selected && (
+            <p className="text-sm text-gray-500">
+              {[selected.gstin, formatAddress(selected.billingAddress)].filter(Boolean).join(' · ')}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          title="Choose another customer"
+          className="text-gray-500 hover:text-gray-700"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex items-center rounded-md border border-gray-300 px-2">
+        <Search className="h-4 w-4 text-gray-400" />
+        <input
+          type="text"
+          value={search}
+          onChange={e => {
+            setSearch(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          placeholder="Search by company, GSTIN or contact"
+          className="w-full p-2 focus:outline-none"
+        />
+      </div>
+
+      {open && (
+        // Keep focus in the input so a click on a result lands before the list closes
+        <div
+          onMouseDown={e => e.preventDefault()}
+          className="absolute z-10 mt-1 w-full rounded-md border bg-white shadow-lg"
+        >
+          {results.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500">
+              {loading ? 'Loading customers...' : 'No matching customers'}
+            </p>
+          ) : (
+            results.map(customer => (
+              <button
+                type="button"
+                key={customer.id}
+                onClick={() => handleSelect(customer)}
+                className="block w-full px-3 py-2 text-left hover:bg-gray-50"
+              >
+                <p className="text-sm font-medium">{customer.name}</p>
+                <p className="text-xs text-gray-500">
+                  {[customer.gstin, getPrimaryContact(customer)?.name].filter(Boolean).join(' · ')}
+                </p>
+              </button>
+            ))
+          )}
+          {canCreate && (
+            <Link
+              to="/dashboard/customers/new"
+              target="_blank"
+              className="block border-t px-3 py-2 text-sm text-blue-600 hover:bg-gray-50"
+            >
+              Add a new customer
+            </Link>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { DEFAULT_DUPLICATE_OPTIONS, DuplicateTaskOptions } from '../lib/taskTree';
+
+interface DuplicateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  // Name of the original; the copy starts as "<name> (copy)"
+  sourceName: string;
+  onDuplicate: (name: string, options: DuplicateTaskOptions) => Promise<void>;
+}
+
+const OPTION_LABELS: { key: keyof DuplicateTaskOptions; label: string }[] = [
+  { key: 'assignees', label: 'Keep assignees' },
+  { key: 'dates', label: 'Keep start dates and deadlines' },
+  { key: 'completion', label: 'Keep completion state' },
+  { key: 'hours', label: 'Keep hour estimates' }
+];
+
+export default function DuplicateModal({ isOpen, onClose, title, sourceName, onDuplicate }: DuplicateModalProps) {
+  const [name, setName] = useState('');
+  const [options, setOptions] = useState<DuplicateTaskOptions>(DEFAULT_DUPLICATE_OPTIONS);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(`${sourceName} (copy)`);
+      setOptions(DEFAULT_DUPLICATE_OPTIONS);
+    }
+  }, [isOpen, sourceName]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await onDuplicate(name, options);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">{title}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              required
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div className="space-y-2">
+            {OPTION_LABELS.map(({ key, label }) => (
+              <label key={key} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={options[key]}
+                  onChange={e => setOptions({ ...options, [key]: e.target.checked })}
+                  className="mr-2"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500">
+            All subtasks are copied. Logged time and comments stay with the original.
+          </p>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Duplicate
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarClock, User } from 'lucide-react';
+import { Enquiry, EnquiryStatus } from '../store/enquiryStore';
+import { ENQUIRY_STATUSES, getExpectedValue, isFollowUpDue } from '../lib/pipeline';
+import { formatCurrency } from '../lib/invoicing';
+
+interface EnquiryBoardProps {
+  enquiries: Enquiry[];
+  canMove: boolean;
+  onMove: (enquiry: Enquiry, status: EnquiryStatus) => void;
+}
+
+// Pipeline columns; cards are dragged between them to change the status.
+export default function EnquiryBoard({ enquiries, canMove, onMove }: EnquiryBoardProps) {
+  const navigate = useNavigate();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [overColumn, setOverColumn] = useState<EnquiryStatus | null>(null);
+
+  const handleDrop = (status: EnquiryStatus) => {
+    const enquiry = enquiries.find(item => item.id === draggedId);
+    setDraggedId(null);
+    setOverColumn(null);
+    if (enquiry && enquiry.status !== status) onMove(enquiry, status);
+  };
+
+  return (
+    <div className="grid grid-cols-5 gap-4 items-start">
+      {ENQUIRY_STATUSES.map(column => {
+        const cards = enquiries.filter(enquiry => enquiry.status === column.value);
+        const total = cards.reduce((sum, enquiry) => sum + getExpectedValue(enquiry.deliverables), 0);
+        return (
+          <div
+            key={column.value}
+            onDragOver={e => {
+              if (!canMove || !draggedId) return;
+              e.preventDefault();
+              setOverColumn(column.value);
+            }}
+            onDragLeave={() => setOverColumn(null)}
+            onDrop={() => handleDrop(column.value)}
+            className={`rounded-lg bg-gray-50 border-[1px] min-h-[16rem] ${
+              overColumn === column.value ? 'border-blue-400 bg-blue-50' : ''
+            }`}
+          >
+            <div className="px-3 py-2 border-b">
+              <div className="flex justify-between items-center">
+                <span className={`px-2 py-1 rounded text-xs font-medium ${column.color}`}>
+                  {column.label}
+                </span>
+                <span className="text-xs text-gray-500">{cards.length}</span>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">₹{formatCurrency(total)}</p>
+            </div>
+            <div className="p-2 space-y-2">
+              {cards.map(enquiry => (
+                <div
+                  key={enquiry.id}
+                  draggable={canMove && enquiry.status !== 'won'}
+                  onDragStart={() => setDraggedId(enquiry.id!)}
+                  onDragEnd={() => {
+                    setDraggedId(null);
+                    setOverColumn(null);
+                  }}
+                  onClick={() => navigate(`${enquiry.id}`)}
+                  className="bg-white rounded-md border p-3 text-sm cursor-pointer hover:shadow-sm"
+                >
+                  <p className="font-medium text-gray-900">{enquiry.name}</p>
+                  <p className="text-gray-500">{enquiry.customer.name}</p>
+                  <p className="mt-1 font-medium">₹{formatCurrency(getExpectedValue(enquiry.deliverables))}</p>
+                  <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500">
+                    {enquiry.owner && (
+                      <span className="inline-flex items-center">
+                        <User className="h-3 w-3 mr-1" />
+                        {enquiry.owner.name}
+                      </span>
+                    )}
+                    {enquiry.followUpDate && enquiry.status !== 'won' && enquiry.status !== 'lost' && (
+                      <span
+                        className={`inline-flex items-center ${isFollowUpDue(enquiry) ? 'text-red-600' : ''}`}
+                      >
+                        <CalendarClock className="h-3 w-3 mr-1" />
+                        {new Date(enquiry.followUpDate).toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+                  {enquiry.status === 'lost' && enquiry.lossReason && (
+                    <p className="mt-2 text-xs text-red-600">{enquiry.lossReason}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { FilePlus, Loader2 } from 'lucide-react';
+import { Enquiry } from '../store/enquiryStore';
+import { useQuoteStore } from '../store/quoteStore';
+import { formatCurrency } from '../lib/invoicing';
+import QuotationDownloader from './QuotationDocument';
+import CreateQuoteModal from './CreateQuoteModal';
+
+interface EnquiryQuotesProps {
+  enquiry: Enquiry;
+  canCreate: boolean;
+}
+
+export default function EnquiryQuotes({ enquiry, canCreate }: EnquiryQuotesProps) {
+  const { quotes, loading, subscribeToEnquiryQuotes } = useQuoteStore();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  useEffect(() => {
+    if (!enquiry.id) return;
+    return subscribeToEnquiryQuotes(enquiry.id);
+  }, [enquiry.id, subscribeToEnquiryQuotes]);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="bg-white rounded-xl border-[1px] overflow-hidden">
+      <div className="border-b border-gray-200 px-6 py-3 flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Quotations</h3>
+        {canCreate && (
+          <button
+            onClick={() => setIsModalOpen(true)}
+            className="inline-flex items-center px-3 py-1 text-sm font-medium rounded-md text-white bg-black/90 hover:bg-black/80"
+          >
+            <FilePlus className="mr-2 h-4 w-4" />
+            {quotes.length > 0 ? 'New Revision' : 'Create Quotation'}
+          </button>
+        )}
+      </div>
+      <div className="px-6 py-4">
+        {loading && quotes.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+          </div>
+        ) : quotes.length === 0 ? (
+          <p className="text-sm text-gray-500">No quotation has been sent yet</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr>
+                <th className="py-2 text-left font-medium text-gray-500">Number</th>
+                <th className="py-2 text-left font-medium text-gray-500">Date</th>
+                <th className="py-2 text-left font-medium text-gray-500">Valid Until</th>
+                <th className="py-2 text-left font-medium text-gray-500">Prepared By</th>
+                <th className="py-2 text-right font-medium text-gray-500">Total (INR)</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {quotes.map(quote => (
+                <tr key={quote.id}>
+                  <td className="py-2 font-medium">{quote.number}</td>
+                  <td className="py-2">{new Date(quote.issueDate).toLocaleDateString()}</td>
+                  <td className={`py-2 ${quote.validUntil < today ? 'text-red-600' : ''}`}>
+                    {new Date(quote.validUntil).toLocaleDateString()}
+                  </td>
+                  <td className="py-2">{quote.createdBy.name}</td>
+                  <td className="py-2 text-right">{formatCurrency(quote.total)}</td>
+                  <td className="py-2 text-right">
+                    <QuotationDownloader quote={quote} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {canCreate && (
+        <CreateQuoteModal
+          isOpen={isModalOpen}
+          onClose={() => setIsModalOpen(false)}
+          enquiry={enquiry}
+          previousQuote={quotes[0] || null}
+        />
+      )}
+    </div>
+  );
+}
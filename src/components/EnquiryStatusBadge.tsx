@@ -0,0 +1,11 @@
+import { EnquiryStatus } from '../store/enquiryStore';
+import { ENQUIRY_STATUSES } from '../lib/pipeline';
+
+export default function EnquiryStatusBadge({ status }: { status: EnquiryStatus }) {
+  const { label, color } = ENQUIRY_STATUSES.find(item => item.value === status) || ENQUIRY_STATUSES[0];
+  return (
+    <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${color}`}>
+      {label}
+    </span>
+  );
+}
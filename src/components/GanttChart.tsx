@@ -0,0 +1,173 @@
+import { useEffect, useRef } from 'react';
+import GSTC, { Config, GSTCResult, Item, Row } from 'gantt-schedule-timeline-calendar';
+import { Plugin as TimelinePointer } from 'gantt-schedule-timeline-calendar/dist/plugins/timeline-pointer.esm.min.js';
+import { Plugin as Selection } from 'gantt-schedule-timeline-calendar/dist/plugins/selection.esm.min.js';
+import { Plugin as ItemMovement } from 'gantt-schedule-timeline-calendar/dist/plugins/item-movement.esm.min.js';
+import { Plugin as ItemResizing } from 'gantt-schedule-timeline-calendar/dist/plugins/item-resizing.esm.min.js';
+import 'gantt-schedule-timeline-calendar/dist/style.css';
+
+export interface GanttRow {
+  id: string;
+  parentId?: string | null;
+  label: string;
+}
+
+export interface GanttItem {
+  id: string;
+  rowId: string;
+  label: string;
+  start: number;
+  end: number;
+  critical?: boolean;
+}
+
+interface GanttChartProps {
+  rows: GanttRow[];
+  items: GanttItem[];
+  editable?: boolean;
+  onItemChange?: (id: string, start: number, end: number) => void;
+  onItemClick?: (id: string) => void;
+}
+
+const { GSTCID, sourceID, fromArray } = GSTC.api;
+
+type DateTime = ReturnType<typeof GSTC.api.date>;
+
+const toRows = (rows: GanttRow[]) =>
+  fromArray(
+    rows.map((row): Row => ({
+      id: GSTCID(row.id),
+      parentId: row.parentId ? GSTCID(row.parentId) : undefined,
+      expanded: true,
+      label: row.label
+    }))
+  );
+
+const toItems = (items: GanttItem[]) =>
+  fromArray(
+    items.map((item): Item => ({
+      id: GSTCID(item.id),
+      rowId: GSTCID(item.rowId),
+      label: item.label,
+      time: { start: item.start, end: item.end },
+      style: item.critical ? { background: '#dc2626' } : undefined
+    }))
+  );
+
+// Snap dragged and resized bars to whole days
+const snapToDay = {
+  start: ({ startTime }: { startTime: DateTime }) => startTime.startOf('day'),
+  end: ({ endTime }: { endTime: DateTime }) => endTime.endOf('day')
+};
+
+export default function GanttChart({
+  rows,
+  items,
+  editable = false,
+  onItemChange,
+  onItemClick
+}: GanttChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const gstcRef = useRef<GSTCResult | null>(null);
+  // The chart is created once, so props are read through refs to always see
+  // the latest values. Later rows and items are pushed in by the effect below.
+  const rowsRef = useRef(rows);
+  const itemsRef = useRef(items);
+  const onItemChangeRef = useRef(onItemChange);
+  const onItemClickRef = useRef(onItemClick);
+  rowsRef.current = rows;
+  itemsRef.current = items;
+  onItemChangeRef.current = onItemChange;
+  onItemClickRef.current = onItemClick;
+  // Releasing a dragged bar also fires a click, which should not navigate
+  const lastChangeRef = useRef(0);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const notifyChanged = (changed: Item[]) => {
+      lastChangeRef.current = Date.now();
+      changed.forEach(item =>
+        onItemChangeRef.current?.(sourceID(item.id), item.time.start, item.time.end)
+      );
+      return changed;
+    };
+
+    const config: Config = {
+      licenseKey: import.meta.env.VITE_GSTC_LICENSE_KEY || '',
+      plugins: editable
+        ? [
+            TimelinePointer(),
+            Selection(),
+            ItemResizing({
+              snapToTime: snapToDay,
+              events: { onEnd: ({ items }) => notifyChanged(items.after) }
+            }),
+            ItemMovement({
+              snapToTime: { start: snapToDay.start },
+              events: {
+                // Bars only move in time; a task keeps its own row
+                onMove: ({ items }) =>
+                  items.after.map((item, index) => ({ ...item, rowId: items.before[index].rowId })),
+                onEnd: ({ items }) => notifyChanged(items.after)
+              }
+            })
+          ]
+        : [],
+      list: {
+        columns: {
+          data: fromArray([
+            {
+              id: 'label',
+              data: 'label',
+              expander: true,
+              isHTML: false,
+              width: 260,
+              header: { content: 'Name' }
+            }
+          ])
+        },
+        rows: toRows(rowsRef.current)
+      },
+      chart: {
+        items: toItems(itemsRef.current)
+      },
+      actions: {
+        'chart-timeline-items-row-item': [
+          (element, data) => {
+            const handleClick = () => {
+              if (Date.now() - lastChangeRef.current < 500) return;
+              onItemClickRef.current?.(sourceID(data.item.id));
+            };
+            element.addEventListener('click', handleClick);
+            return {
+              update: (_element, newData) => {
+                data = newData as typeof data;
+              },
+              destroy: () => element.removeEventListener('click', handleClick)
+            };
+          }
+        ]
+      }
+    };
+
+    gstcRef.current = GSTC({
+      element: containerRef.current,
+      state: GSTC.api.stateFromConfig(config)
+    });
+
+    return () => {
+      gstcRef.current?.destroy();
+      gstcRef.current = null;
+    };
+  }, [editable]);
+
+  useEffect(() => {
+    const gstc = gstcRef.current;
+    if (!gstc) return;
+    gstc.state.update('config.list.rows', toRows(rows));
+    gstc.state.update('config.chart.items', toItems(items));
+  }, [rows, items]);
+
+  return <div ref={containerRef} />;
+}
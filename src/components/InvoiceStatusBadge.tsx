@@ -0,0 +1,18 @@
+import { InvoiceStatus } from '../store/invoiceStore';
+
+const statusStyles: Record<InvoiceStatus, { label: string; color: string }> = {
+  draft: { label: 'Draft', color: 'bg-gray-100 text-gray-700' },
+  issued: { label: 'Issued', color: 'bg-blue-100 text-blue-700' },
+  'partially-paid': { label: 'Partially Paid', color: 'bg-yellow-100 text-yellow-700' },
+  paid: { label: 'Paid', color: 'bg-green-100 text-green-700' },
+  overdue: { label: 'Overdue', color: 'bg-red-100 text-red-700' }
+};
+
+export default function InvoiceStatusBadge({ status }: { status: InvoiceStatus }) {
+  const { label, color } = statusStyles[status];
+  return (
+    <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${color}`}>
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PaymentMilestone, Project } from '../store/projectStore';
+import { SupplyType, useInvoiceStore } from '../store/invoiceStore';
+import { useCustomerStore } from '../store/customerStore';
+import {
+  DEFAULT_GST_RATE,
+  buildInvoiceLines,
+  buildMilestoneLine,
+  calculateInvoiceTotals,
+  formatCurrency
+} from '../lib/invoicing';
+import { addDays, toDateInput } from '../lib/utils';
+
+interface IssueInvoiceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+  // Bill this milestone instead of every task
+  milestone?: PaymentMilestone | null;
+}
+
+const PAYMENT_TERMS_DAYS = 15;
+
+export default function IssueInvoiceModal({ isOpen, onClose, project, milestone }: IssueInvoiceModalProps) {
+  const { issueInvoice, saveDraftInvoice, loading } = useInvoiceStore();
+  const { fetchCustomer } = useCustomerStore();
+  const [formData, setFormData] = useState({
+    issueDate: '',
+    dueDate: '',
+    gstRate: DEFAULT_GST_RATE,
+    supplyType: 'intra' as SupplyType,
+    customerGstin: ''
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      const today = toDateInput(new Date());
+      setFormData({
+        issueDate: today,
+        dueDate: addDays(today, PAYMENT_TERMS_DAYS),
+        gstRate: DEFAULT_GST_RATE,
+        supplyType: 'intra',
+        customerGstin: ''
+      });
+
+      // Bill to the GSTIN on the customer's master record
+      if (project.customerId) {
+        fetchCustomer(project.customerId).then(customer => {
+          if (customer?.gstin) setFormData(prev => ({ ...prev, customerGstin: customer.gstin }));
+        });
+      }
+    }
+  }, [isOpen, project.customerId, fetchCustomer]);
+
+  const lines = useMemo(
+    () => (milestone ? [buildMilestoneLine(project.tasks, milestone)] : buildInvoiceLines(project.tasks)),
+    [project.tasks, milestone]
+  );
+  const billable = lines.some(line => line.amount > 0);
+  const totals = calculateInvoiceTotals(lines, formData.gstRate, formData.supplyType);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const invoice = await issueInvoice(project, { ...formData, milestoneId: milestone?.id || null });
+      toast.success(`Invoice ${invoice.number} issued`);
+      onClose();
+    } catch (error) {
+      console.error('Failed to issue invoice:', error);
+      toast.error('Failed to issue invoice');
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    try {
+      await saveDraftInvoice(project, { ...formData, milestoneId: milestone?.id || null });
+      toast.success('Draft invoice saved');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save draft invoice:', error);
+      toast.error('Failed to save draft invoice');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">
+            {milestone ? `Invoice ${milestone.name}` : 'Issue Invoice'}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Invoice Date</label>
+              <input
+                type="date"
+                required
+                value={formData.issueDate}
+                onChange={e => setFormData(prev => ({
+                  ...prev,
+                  issueDate: e.target.value,
+                  dueDate: addDays(e.target.value, PAYMENT_TERMS_DAYS)
+                }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Due Date</label>
+              <input
+                type="date"
+                required
+                min={formData.issueDate}
+                value={formData.dueDate}
+                onChange={e => setFormData(prev => ({ ...prev, dueDate: e.target.value }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">GST Rate (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="28"
+                step="0.01"
+                required
+                value={formData.gstRate}
+                onChange={e => setFormData(prev => ({ ...prev, gstRate: Number(e.target.value) }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Supply</label>
+              <select
+                value={formData.supplyType}
+                onChange={e => setFormData(prev => ({ ...prev, supplyType: e.target.value as SupplyType }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="intra">Within state (CGST + SGST)</option>
+                <option value="inter">Inter-state (IGST)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Customer GSTIN</label>
+              <input
+                type="text"
+                placeholder="Optional"
+                maxLength={15}
+                value={formData.customerGstin}
+                onChange={e => setFormData(prev => ({ ...prev, customerGstin: e.target.value }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 uppercase"
+              />
+            </div>
+          </div>
+
+          <div className="border rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Task</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Hours</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Rate</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-4 text-center text-gray-500">
+                      No tasks with hours and a rate to bill
+                    </td>
+                  </tr>
+                ) : (
+                  lines.map(line => (
+                    <tr key={line.id}>
+                      <td className="px-4 py-2">{line.description}</td>
+                      <td className="px-4 py-2 text-right">{line.hours ?? '-'}</td>
+                      <td className="px-4 py-2 text-right">
+                        {line.rate === undefined ? '-' : formatCurrency(line.rate)}
+                      </td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(line.amount)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={3} className="px-4 py-2 text-right text-gray-500">Subtotal</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(totals.subtotal)}</td>
+                </tr>
+                {totals.taxes.map(tax => (
+                  <tr key={tax.label}>
+                    <td colSpan={3} className="px-4 py-2 text-right text-gray-500">
+                      {tax.label} @ {tax.rate}%
+                    </td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(tax.amount)}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <td colSpan={3} className="px-4 py-2 text-right font-medium">Total (INR)</td>
+                  <td className="px-4 py-2 text-right font-medium">{formatCurrency(totals.total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            The invoice number is assigned when it is issued. Issued invoices cannot be edited,
+            drafts can be issued or discarded later.
+          </p>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSaveDraft}
+              disabled={loading || !billable}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              Save Draft
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !billable}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-black/90 rounded-md hover:bg-black/80 disabled:opacity-50"
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Issue Invoice
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ interface ItemDetailsProps {
     assignedTo?: {
       fullName: string;
     }[];
+    startDate?: string;
     deadline?: string;
     completed: boolean;
     hours?: number;
@@ -17,7 +18,7 @@ interface ItemDetailsProps {
   };
   onEditClick?: () => void;
   onToggleComplete?: () => void;
-  isAdmin?: boolean;
+  canEdit?: boolean;
   canComplete?: boolean;
 }
 
@@ -25,7 +26,7 @@ export default function ItemDetails({
   item, 
   onEditClick, 
   onToggleComplete,
-  isAdmin,
+  canEdit,
   canComplete = true
 }: ItemDetailsProps) {
   const allChildrenComplete = item.children?.length 
@@ -42,7 +43,7 @@ export default function ItemDetails({
               <p className="text-gray-700">{item.description || 'No description provided'}</p>
             </div>
             <div className="flex items-center space-x-4">
-              {isAdmin && onEditClick && (
+              {canEdit && onEditClick && (
                 <button
                   onClick={onEditClick}
                   className="px-3 py-2 text-sm font-medium text-blue-600 hover:text-blue-700"
@@ -91,6 +92,16 @@ export default function ItemDetails({
               </div>
             )}
             
+            {item.startDate && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">Start Date</h3>
+                <div className="flex items-center">
+                  <Calendar className="h-4 w-4 text-gray-400 mr-2" />
+                  <p>{new Date(item.startDate).toLocaleString()}</p>
+                </div>
+              </div>
+            )}
+
             {item.deadline && (
               <div>
                 <h3 className="text-sm font-medium text-gray-500 mb-1">Deadline</h3>
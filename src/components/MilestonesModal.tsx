@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PaymentMilestone, Project, useProjectStore } from '../store/projectStore';
+import { formatCurrency, getContractValue } from '../lib/invoicing';
+
+interface MilestonesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+}
+
+export default function MilestonesModal({ isOpen, onClose, project }: MilestonesModalProps) {
+  const { updateProjectMilestones } = useProjectStore();
+  const [milestones, setMilestones] = useState<PaymentMilestone[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMilestones(project.milestones || []);
+    }
+  }, [isOpen, project.milestones]);
+
+  if (!isOpen || !project.id) return null;
+
+  const contractValue = getContractValue(project.tasks);
+  const totalPercentage = milestones.reduce((sum, milestone) => sum + (milestone.percentage || 0), 0);
+
+  const updateMilestone = (id: string, data: Partial<PaymentMilestone>) => {
+    setMilestones(prev => prev.map(milestone => (milestone.id === id ? { ...milestone, ...data } : milestone)));
+  };
+
+  const toggleTask = (milestone: PaymentMilestone, taskId: string) => {
+    updateMilestone(milestone.id, {
+      taskIds: milestone.taskIds.includes(taskId)
+        ? milestone.taskIds.filter(id => id !== taskId)
+        : [...milestone.taskIds, taskId]
+    });
+  };
+
+  const addMilestone = () => {
+    setMilestones(prev => [
+      ...prev,
+      { id: crypto.randomUUID(), name: '', percentage: Math.max(0, 100 - totalPercentage), taskIds: [] }
+    ]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (totalPercentage > 100) {
+      toast.error('Milestones cannot add up to more than 100%');
+      return;
+    }
+    try {
+      setSaving(true);
+      await updateProjectMilestones(project.id!, milestones);
+      toast.success('Milestones saved');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save milestones:', error);
+      toast.error('Failed to save milestones');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Payment Milestones</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {milestones.length === 0 && (
+            <p className="text-sm text-gray-500">
+              No milestones yet. Without milestones the whole project is invoiced at once.
+            </p>
+          )}
+
+          {milestones.map(milestone => (
+            <div key={milestone.id} className="border rounded-md p-4 space-y-3">
+              <div className="flex items-end gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700">Name</label>
+                  <input
+                    type="text"
+                    required
+                    placeholder="e.g. Concept design"
+                    value={milestone.name}
+                    onChange={e => updateMilestone(milestone.id, { name: e.target.value })}
+                    className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div className="w-28">
+                  <label className="block text-sm font-medium text-gray-700">Share (%)</label>
+                  <input
+                    type="number"
+                    min="0.01"
+                    max="100"
+                    step="0.01"
+                    required
+                    value={milestone.percentage || ''}
+                    onChange={e => updateMilestone(milestone.id, { percentage: Number(e.target.value) })}
+                    className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setMilestones(prev => prev.filter(item => item.id !== milestone.id))}
+                  className="p-2 text-gray-400 hover:text-red-500"
+                >
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-1">Covers</p>
+                {project.tasks.length === 0 ? (
+                  <p className="text-sm text-gray-500">The project has no tasks yet</p>
+                ) : (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {project.tasks.map(task => (
+                      <label key={task.id} className="inline-flex items-center text-sm">
+                        <input
+                          type="checkbox"
+                          checked={milestone.taskIds.includes(task.id)}
+                          onChange={() => toggleTask(milestone, task.id)}
+                          className="mr-2 rounded border-gray-300"
+                        />
+                        {task.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <p className="text-sm text-gray-500">
+                {formatCurrency((contractValue * (milestone.percentage || 0)) / 100)} of{' '}
+                {formatCurrency(contractValue)} before tax
+              </p>
+            </div>
+          ))}
+
+          <div className="flex justify-between items-center">
+            <button
+              type="button"
+              onClick={addMilestone}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-black bg-white border-[1px] hover:opacity-70"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Milestone
+            </button>
+            <span className={`text-sm ${totalPercentage > 100 ? 'text-red-600' : 'text-gray-500'}`}>
+              Total {totalPercentage}%
+            </span>
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
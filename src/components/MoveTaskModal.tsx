@@ -0,0 +1,109 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { Task } from '../store/projectStore';
+import { collectSubtreeIds, flattenTaskTree } from '../lib/taskTree';
+
+interface MoveTaskModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  task: Task | null;
+  // The whole project tree, so the task can go under any other task
+  projectTasks: Task[];
+  onMove: (task: Task, newParentId: string | null) => Promise<void>;
+}
+
+const TOP_LEVEL = '';
+
+export default function MoveTaskModal({ isOpen, onClose, task, projectTasks, onMove }: MoveTaskModalProps) {
+  const [parentId, setParentId] = useState(TOP_LEVEL);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setParentId(task?.parentId ?? TOP_LEVEL);
+  }, [isOpen, task]);
+
+  // Every task with its depth, leaving out the task itself and its subtasks
+  const options = useMemo(() => {
+    if (!task) return [];
+    const excluded = collectSubtreeIds(flattenTaskTree(projectTasks), task.id);
+    const withDepth = (tasks: Task[], depth: number): { task: Task; depth: number }[] =>
+      tasks
+        .filter(item => !excluded.includes(item.id))
+        .flatMap(item => [{ task: item, depth }, ...withDepth(item.children || [], depth + 1)]);
+    return withDepth(projectTasks, 0);
+  }, [task, projectTasks]);
+
+  if (!isOpen || !task) return null;
+
+  const handleMove = async () => {
+    try {
+      setSaving(true);
+      await onMove(task, parentId || null);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Move "{task.name}"</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-3">
+          Choose the task to move it under. It keeps its subtasks and logged time.
+        </p>
+        <div className="max-h-80 overflow-y-auto border rounded-md divide-y text-sm">
+          <label className="flex items-center px-3 py-2 cursor-pointer hover:bg-gray-50">
+            <input
+              type="radio"
+              name="parent"
+              checked={parentId === TOP_LEVEL}
+              onChange={() => setParentId(TOP_LEVEL)}
+              className="mr-2"
+            />
+            Top level of the project
+          </label>
+          {options.map(({ task: option, depth }) => (
+            <label
+              key={option.id}
+              className="flex items-center px-3 py-2 cursor-pointer hover:bg-gray-50"
+              style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}
+            >
+              <input
+                type="radio"
+                name="parent"
+                checked={parentId === option.id}
+                onChange={() => setParentId(option.id)}
+                className="mr-2"
+              />
+              {option.name}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleMove}
+            disabled={saving || parentId === (task.parentId ?? TOP_LEVEL)}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Move
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,14 @@
-import React from 'react';
 import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { Ship, LogOut } from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
-import { doc, getDoc } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import TimerChip from './TimerChip';
 
 export default function Navbar() {
-  const { user, signOut } = useAuthStore();
+  const { signOut } = useAuthStore();
+  const { user, can } = useCurrentUser();
   const navigate = useNavigate();
   const location = useLocation();
-  const [isAdmin, setIsAdmin] = React.useState(false);
-  const [isCustomer, setIsCustomer] = React.useState(false);
-
-  React.useEffect(() => {
-    const checkUserRole = async () => {
-      if (user) {
-        const userDoc = await getDoc(doc(db, 'users', user.uid));
-        const userData = userDoc.data();
-        setIsAdmin(userData?.role === 'admin');
-        setIsCustomer(userData?.role === 'customer');
-      }
-    };
-    checkUserRole();
-  }, [user]);
 
   // Don't show navbar on login or signup pages
   if (location.pathname === '/login' || location.pathname === '/signup') {
@@ -46,7 +32,9 @@ export default function Navbar() {
           </div>
 
           <div className="flex items-center space-x-4">
-            {user && !isCustomer && (
+            {user && can('dashboard.access') && <TimerChip />}
+
+            {user && can('dashboard.access') && (
               <Link
                 to="/dashboard"
                 className={`px-3 py-2 rounded-full text-sm font-medium ${
@@ -59,7 +47,7 @@ export default function Navbar() {
               </Link>
             )}
             
-            {isAdmin && (
+            {can('user.manage') && (
               <Link
                 to="/admin"
                 className={`px-3 py-2 rounded-full text-sm font-medium ${
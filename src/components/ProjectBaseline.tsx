@@ -0,0 +1,47 @@
+import { ProjectBaseline as Baseline } from '../store/projectStore';
+import { formatCurrency } from '../lib/invoicing';
+
+// The deliverables as priced in the enquiry the project was won from.
+export default function ProjectBaseline({ baseline }: { baseline: Baseline }) {
+  return (
+    <div className="bg-white border-[1px] rounded-lg">
+      <div className="border-b border-gray-200 px-6 py-3 flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Baseline Budget</h3>
+        <span className="text-sm text-gray-500">
+          Agreed {new Date(baseline.capturedAt).toLocaleDateString()}
+        </span>
+      </div>
+      <div className="px-6 py-4">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr>
+              <th className="py-2 text-left font-medium text-gray-500">Deliverable</th>
+              <th className="py-2 text-right font-medium text-gray-500">Hours</th>
+              <th className="py-2 text-right font-medium text-gray-500">Rate</th>
+              <th className="py-2 text-right font-medium text-gray-500">Total (INR)</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {baseline.lines.map(line => (
+              <tr key={line.id}>
+                <td className="py-2">
+                  <p className="font-medium">{line.name}</p>
+                  {line.description && <p className="text-gray-500">{line.description}</p>}
+                </td>
+                <td className="py-2 text-right">{line.hours}</td>
+                <td className="py-2 text-right">{formatCurrency(line.costPerHour)}</td>
+                <td className="py-2 text-right">{formatCurrency(line.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td colSpan={3} className="py-2 text-right font-medium">Total</td>
+              <td className="py-2 text-right font-medium">{formatCurrency(baseline.total)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
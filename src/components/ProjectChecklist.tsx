@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ChecklistItem, Project, useProjectStore } from '../store/projectStore';
+
+interface ProjectChecklistProps {
+  project: Project;
+  canEdit: boolean;
+}
+
+export default function ProjectChecklist({ project, canEdit }: ProjectChecklistProps) {
+  const { updateProjectChecklist } = useProjectStore();
+  const [newItem, setNewItem] = useState('');
+  const checklist = project.checklist || [];
+  const doneCount = checklist.filter(item => item.done).length;
+
+  const save = async (items: ChecklistItem[]) => {
+    try {
+      await updateProjectChecklist(project.id!, items);
+    } catch (error) {
+      console.error('Failed to update checklist:', error);
+      toast.error('Failed to update checklist');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+    await save([...checklist, { id: crypto.randomUUID(), text: newItem, done: false }]);
+    setNewItem('');
+  };
+
+  if (checklist.length === 0 && !canEdit) return null;
+
+  return (
+    <div className="bg-white border-[1px] rounded-lg">
+      <div className="border-b border-gray-200 px-6 py-3 flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Requirements Checklist</h3>
+        {checklist.length > 0 && (
+          <span className="text-sm text-gray-500">
+            {doneCount} of {checklist.length} met
+          </span>
+        )}
+      </div>
+      <div className="px-6 py-4 space-y-2">
+        {checklist.length === 0 && (
+          <p className="text-sm text-gray-500">No requirements recorded</p>
+        )}
+        {checklist.map(item => (
+          <div key={item.id} className="flex items-center justify-between group">
+            <label className="inline-flex items-center text-sm">
+              <input
+                type="checkbox"
+                checked={item.done}
+                disabled={!canEdit}
+                onChange={() =>
+                  save(checklist.map(other => (other.id === item.id ? { ...other, done: !other.done } : other)))
+                }
+                className="mr-3 rounded border-gray-300"
+              />
+              <span className={item.done ? 'line-through text-gray-400' : 'text-gray-700'}>{item.text}</span>
+            </label>
+            {canEdit && (
+              <button
+                onClick={() => save(checklist.filter(other => other.id !== item.id))}
+                className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        {canEdit && (
+          <form onSubmit={handleAdd} className="flex items-center gap-2 pt-2">
+            <input
+              type="text"
+              placeholder="Add a requirement"
+              value={newItem}
+              onChange={e => setNewItem(e.target.value)}
+              className="flex-1 p-2 text-sm rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md text-black bg-white border-[1px] hover:opacity-70"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
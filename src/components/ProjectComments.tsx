@@ -11,9 +11,7 @@ import {
 } from "lucide-react";
 import toast from "react-hot-toast";
 // import { uploadToCloudinary } from "../lib/cloudinary";
-import { useAuthStore } from "../store/authStore";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "../lib/firebase";
+import { useCurrentUser } from "../hooks/useCurrentUser";
 import { uploadToGitHub } from "@/lib/github";
 
 interface ProjectCommentsProps {
@@ -21,34 +19,20 @@ interface ProjectCommentsProps {
 }
 
 export default function ProjectComments({ projectId }: ProjectCommentsProps) {
-  const { comments, loading, fetchComments, addComment } = useCommentStore();
-  const { user } = useAuthStore();
+  const { comments, loading, subscribeToComments, addComment } =
+    useCommentStore();
+  const { can } = useCurrentUser();
   const [newComment, setNewComment] = useState("");
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<number[]>([]);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [isMember, setIsMember] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   let revisionNo = 0;
 
   useEffect(() => {
-    if (projectId) {
-      fetchComments(projectId);
-    }
-  }, [projectId, fetchComments]);
-
-  useEffect(() => {
-    const checkUserRole = async () => {
-      if (user) {
-        const userDoc = await getDoc(doc(db, "users", user.uid));
-        const userData = userDoc.data();
-        setIsAdmin(userData?.role === "admin");
-        setIsMember(userData?.role === "member");
-      }
-    };
-    checkUserRole();
-  }, [user]);
+    if (!projectId) return;
+    return subscribeToComments(projectId);
+  }, [projectId, subscribeToComments]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -59,7 +43,7 @@ export default function ProjectComments({ projectId }: ProjectCommentsProps) {
       let attachments: { url: string; name: string }[] = [];
 
       // Upload files one by one
-      if (selectedFiles.length > 0 && (isAdmin || isMember)) {
+      if (selectedFiles.length > 0 && can("comment.attach")) {
         try {
           for (let index = 0; index < selectedFiles.length; index++) {
             const file = selectedFiles[index];
@@ -113,7 +97,7 @@ export default function ProjectComments({ projectId }: ProjectCommentsProps) {
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!isAdmin && !isMember) {
+    if (!can("comment.attach")) {
       toast.error("Only admin and members can add attachments");
       return;
     }
@@ -263,7 +247,7 @@ export default function ProjectComments({ projectId }: ProjectCommentsProps) {
           )}
 
           <div className="flex justify-between items-center">
-            {(isAdmin || isMember) && (
+            {can("comment.attach") && (
               <button
                 type="button"
                 onClick={() => fileInputRef.current?.click()}
@@ -351,7 +335,7 @@ export default function ProjectComments({ projectId }: ProjectCommentsProps) {
                             <span className="text-sm text-white">
                               {attachment.name}
                             </span>
-                            {(isAdmin || isMember || cmtIndex == 0) && (
+                            {(can("comment.viewAllAttachments") || cmtIndex == 0) && (
                               <div className="flex space-x-3 flex-1">
                                 <a
                                   target="_blank"
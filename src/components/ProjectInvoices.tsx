@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, FilePlus, Flag, IndianRupee, Loader2, Pencil, Send, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { PaymentMilestone, Project } from '../store/projectStore';
+import { Invoice, useInvoiceStore } from '../store/invoiceStore';
+import {
+  formatCurrency,
+  getAmountDue,
+  getInvoiceStatus,
+  getMilestoneAmount,
+  isMilestoneComplete
+} from '../lib/invoicing';
+import InvoiceDownloader from './InvoiceDocument';
+import InvoiceStatusBadge from './InvoiceStatusBadge';
+import IssueInvoiceModal from './IssueInvoiceModal';
+import MilestonesModal from './MilestonesModal';
+import RecordPaymentModal from './RecordPaymentModal';
+
+interface ProjectInvoicesProps {
+  project: Project;
+  canIssue: boolean;
+  canEditMilestones: boolean;
+  canRecordPayments: boolean;
+}
+
+export default function ProjectInvoices({
+  project,
+  canIssue,
+  canEditMilestones,
+  canRecordPayments
+}: ProjectInvoicesProps) {
+  const { invoices, loading, subscribeToProjectInvoices, issueDraftInvoice, deleteDraftInvoice } =
+    useInvoiceStore();
+  const [isInvoiceModalOpen, setIsInvoiceModalOpen] = useState(false);
+  const [invoiceMilestone, setInvoiceMilestone] = useState<PaymentMilestone | null>(null);
+  const [isMilestonesModalOpen, setIsMilestonesModalOpen] = useState(false);
+  const [payingInvoice, setPayingInvoice] = useState<Invoice | null>(null);
+
+  useEffect(() => {
+    if (!project.id) return;
+    return subscribeToProjectInvoices(project.id);
+  }, [project.id, subscribeToProjectInvoices]);
+
+  const milestones = project.milestones || [];
+
+  const openInvoiceModal = (milestone: PaymentMilestone | null) => {
+    setInvoiceMilestone(milestone);
+    setIsInvoiceModalOpen(true);
+  };
+
+  const handleIssueDraft = async (invoice: Invoice) => {
+    try {
+      const issued = await issueDraftInvoice(invoice.id);
+      toast.success(`Invoice ${issued.number} issued`);
+    } catch (error) {
+      console.error('Failed to issue invoice:', error);
+      toast.error('Failed to issue invoice');
+    }
+  };
+
+  const handleDeleteDraft = async (invoice: Invoice) => {
+    if (!window.confirm('Discard this draft invoice?')) return;
+    try {
+      await deleteDraftInvoice(invoice.id);
+      toast.success('Draft discarded');
+    } catch (error) {
+      console.error('Failed to discard draft:', error);
+      toast.error('Failed to discard draft');
+    }
+  };
+
+  // The latest invoice raised for a milestone, drafts included
+  const milestoneInvoice = (milestone: PaymentMilestone) =>
+    invoices.find(invoice => invoice.milestoneId === milestone.id);
+
+  return (
+    <div className="bg-white border-[1px] rounded-lg">
+      <div className="border-b border-gray-200 px-6 py-3 flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Invoices</h3>
+        <div className="flex space-x-2">
+          {canEditMilestones && (
+            <button
+              onClick={() => setIsMilestonesModalOpen(true)}
+              className="inline-flex items-center px-3 py-1 text-sm font-medium rounded-md text-black bg-white border-[1px] hover:opacity-70"
+            >
+              <Pencil className="mr-2 h-4 w-4" />
+              Milestones
+            </button>
+          )}
+          {canIssue && (
+            <button
+              onClick={() => openInvoiceModal(null)}
+              className="inline-flex items-center px-3 py-1 text-sm font-medium rounded-md text-white bg-black/90 hover:bg-black/80"
+            >
+              <FilePlus className="mr-2 h-4 w-4" />
+              Invoice Whole Project
+            </button>
+          )}
+        </div>
+      </div>
+
+      {milestones.length > 0 && (
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h4 className="text-sm font-medium text-gray-500 mb-2">Payment Milestones</h4>
+          <ul className="divide-y divide-gray-100">
+            {milestones.map(milestone => {
+              const invoice = milestoneInvoice(milestone);
+              const complete = isMilestoneComplete(project.tasks, milestone);
+              const coveredTasks = project.tasks.filter(task => milestone.taskIds.includes(task.id));
+              return (
+                <li key={milestone.id} className="py-2 flex items-center justify-between text-sm">
+                  <div className="flex items-center">
+                    <Flag className={`h-4 w-4 mr-2 ${complete ? 'text-green-600' : 'text-gray-400'}`} />
+                    <div>
+                      <p className="font-medium">
+                        {milestone.name} · {milestone.percentage}% ·{' '}
+                        {formatCurrency(getMilestoneAmount(project.tasks, milestone))}
+                      </p>
+                      <p className="text-gray-500">
+                        {coveredTasks.length > 0
+                          ? coveredTasks.map(task => task.name).join(', ')
+                          : 'No tasks linked'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {invoice ? (
+                      <>
+                        <span className="text-gray-500">{invoice.number || 'Draft'}</span>
+                        <InvoiceStatusBadge status={getInvoiceStatus(invoice)} />
+                      </>
+                    ) : complete ? (
+                      <span className="flex items-center text-green-600">
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Ready to bill
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">In progress</span>
+                    )}
+                    {canIssue && !invoice && (
+                      <button
+                        onClick={() => openInvoiceModal(milestone)}
+                        className="inline-flex items-center px-3 py-1 text-sm font-medium rounded-md text-black bg-white border-[1px] hover:opacity-70"
+                      >
+                        <FilePlus className="mr-2 h-4 w-4" />
+                        Invoice
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="px-6 py-4">
+        {loading && invoices.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+          </div>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-gray-500">No invoices yet</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr>
+                <th className="py-2 text-left font-medium text-gray-500">Number</th>
+                <th className="py-2 text-left font-medium text-gray-500">For</th>
+                <th className="py-2 text-left font-medium text-gray-500">Due</th>
+                <th className="py-2 text-left font-medium text-gray-500">Status</th>
+                <th className="py-2 text-right font-medium text-gray-500">Total (INR)</th>
+                <th className="py-2 text-right font-medium text-gray-500">Balance</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invoices.map(invoice => {
+                const status = getInvoiceStatus(invoice);
+                const milestone = milestones.find(item => item.id === invoice.milestoneId);
+                return (
+                  <tr key={invoice.id}>
+                    <td className="py-2 font-medium">{invoice.number || '—'}</td>
+                    <td className="py-2">
+                      {invoice.milestoneId ? milestone?.name || 'Milestone' : 'Whole project'}
+                    </td>
+                    <td className="py-2">{new Date(invoice.dueDate).toLocaleDateString()}</td>
+                    <td className="py-2">
+                      <InvoiceStatusBadge status={status} />
+                    </td>
+                    <td className="py-2 text-right">{formatCurrency(invoice.total)}</td>
+                    <td className="py-2 text-right">{formatCurrency(getAmountDue(invoice))}</td>
+                    <td className="py-2">
+                      <div className="flex justify-end items-center space-x-2">
+                        {invoice.status === 'draft' && canIssue && (
+                          <>
+                            <button
+                              onClick={() => handleIssueDraft(invoice)}
+                              title="Issue"
+                              className="p-1 text-gray-500 hover:text-blue-600"
+                            >
+                              <Send className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDeleteDraft(invoice)}
+                              title="Discard draft"
+                              className="p-1 text-gray-500 hover:text-red-500"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                        {canRecordPayments && getAmountDue(invoice) > 0 && (
+                          <button
+                            onClick={() => setPayingInvoice(invoice)}
+                            title="Record payment"
+                            className="p-1 text-gray-500 hover:text-green-600"
+                          >
+                            <IndianRupee className="h-4 w-4" />
+                          </button>
+                        )}
+                        <InvoiceDownloader invoice={invoice} />
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {canIssue && (
+        <IssueInvoiceModal
+          isOpen={isInvoiceModalOpen}
+          onClose={() => setIsInvoiceModalOpen(false)}
+          project={project}
+          milestone={invoiceMilestone}
+        />
+      )}
+      {canEditMilestones && (
+        <MilestonesModal
+          isOpen={isMilestonesModalOpen}
+          onClose={() => setIsMilestonesModalOpen(false)}
+          project={project}
+        />
+      )}
+      {canRecordPayments && (
+        <RecordPaymentModal invoice={payingInvoice} onClose={() => setPayingInvoice(null)} />
+      )}
+    </div>
+  );
+}
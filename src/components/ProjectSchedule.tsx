@@ -0,0 +1,116 @@
+import { AlertTriangle, GitBranch } from 'lucide-react';
+import { Project, Task } from '../store/projectStore';
+import { ProjectSchedule as Schedule, offsetToDate } from '../lib/schedule';
+import { flattenTaskTree } from '../lib/taskTree';
+
+interface ProjectScheduleProps {
+  project: Project;
+  schedule: Schedule;
+  onTaskClick: (task: Task) => void;
+}
+
+const formatDays = (days: number) => `${Math.round(days * 10) / 10}d`;
+
+export default function ProjectSchedule({ project, schedule, onTaskClick }: ProjectScheduleProps) {
+  const tasks = flattenTaskTree(project.tasks);
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+  const startDate = project.project_start_date;
+
+  const formatOffset = (days: number) =>
+    startDate ? offsetToDate(startDate, days).toLocaleDateString() : `Day ${formatDays(days)}`;
+
+  const scheduledTasks = tasks
+    .filter(task => schedule.tasks[task.id])
+    .sort((a, b) => schedule.tasks[a.id].earlyStart - schedule.tasks[b.id].earlyStart);
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <div className="bg-white border-[1px] rounded-lg overflow-hidden">
+      <div className="border-b border-gray-200 px-6 py-3 flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Schedule</h3>
+        <span className="text-sm text-gray-500">
+          {startDate
+            ? `Earliest finish: ${formatOffset(schedule.duration)}`
+            : `Duration: ${formatDays(schedule.duration)} (set a start date to see dates)`}
+        </span>
+      </div>
+
+      <div className="px-6 py-4 space-y-4">
+        {schedule.cycleTaskIds.length > 0 && (
+          <div className="flex items-start p-3 rounded-md bg-red-50 text-red-700 text-sm">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>
+              Circular dependencies between{' '}
+              {schedule.cycleTaskIds.map(taskId => taskById.get(taskId)?.name).join(', ')}.
+              These tasks are left out of the schedule.
+            </span>
+          </div>
+        )}
+
+        {schedule.warnings.length > 0 && (
+          <div className="p-3 rounded-md bg-yellow-50 text-yellow-800 text-sm space-y-1">
+            {schedule.warnings.map(warning => (
+              <div key={warning.taskId} className="flex items-start">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>
+                  <span className="font-medium">{taskById.get(warning.taskId)?.name}</span>{' '}
+                  finishes {warning.finishDate.toLocaleDateString()}, after the project due date
+                  {' '}(waiting on {taskById.get(warning.drivenBy)?.name})
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {schedule.criticalPath.length > 0 && (
+          <div className="flex items-start text-sm text-gray-700">
+            <GitBranch className="h-4 w-4 mr-2 mt-0.5 text-red-500 flex-shrink-0" />
+            <span>
+              <span className="font-medium">Critical path: </span>
+              {schedule.criticalPath.map(taskId => taskById.get(taskId)?.name).join(' → ')}
+            </span>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Task</th>
+                <th className="py-2 pr-4 font-medium">Duration</th>
+                <th className="py-2 pr-4 font-medium">Earliest Start</th>
+                <th className="py-2 pr-4 font-medium">Earliest Finish</th>
+                <th className="py-2 pr-4 font-medium">Latest Start</th>
+                <th className="py-2 pr-4 font-medium">Latest Finish</th>
+                <th className="py-2 font-medium">Slack</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scheduledTasks.map(task => {
+                const entry = schedule.tasks[task.id];
+                return (
+                  <tr
+                    key={task.id}
+                    onClick={() => onTaskClick(task)}
+                    className={`border-b last:border-0 cursor-pointer hover:bg-gray-50 ${
+                      entry.critical ? 'text-red-700 font-medium' : 'text-gray-700'
+                    }`}
+                  >
+                    <td className="py-2 pr-4">{task.name}</td>
+                    <td className="py-2 pr-4">{formatDays(entry.duration)}</td>
+                    <td className="py-2 pr-4">{formatOffset(entry.earlyStart)}</td>
+                    <td className="py-2 pr-4">{formatOffset(entry.earlyFinish)}</td>
+                    <td className="py-2 pr-4">{formatOffset(entry.lateStart)}</td>
+                    <td className="py-2 pr-4">{formatOffset(entry.lateFinish)}</td>
+                    <td className="py-2">{entry.critical ? 'Critical' : formatDays(entry.slack)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
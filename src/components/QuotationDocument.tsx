@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { Page, Text, View, Document, Image, StyleSheet } from "@react-pdf/renderer";
+import { FileDown, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { Quote } from "@/store/quoteStore";
+import { formatCurrency } from "@/lib/invoicing";
+import { downloadPdf, formatPdfDate as formatDate, pdfStyles as styles } from "@/lib/pdf";
+
+const quoteStyles = StyleSheet.create({
+  section: {
+    marginTop: 15,
+  },
+  sectionTitle: {
+    fontSize: 11,
+    fontWeight: "bold",
+    color: "#2562EF",
+    marginBottom: 4,
+  },
+  paragraph: {
+    fontSize: 10,
+  },
+  listItem: {
+    fontSize: 10,
+    flexDirection: "row",
+  },
+  bullet: {
+    width: 10,
+  },
+});
+
+const List = ({ items }: { items: string[] }) => (
+  <View>
+    {items.map((item, index) => (
+      <View style={quoteStyles.listItem} key={index}>
+        <Text style={quoteStyles.bullet}>•</Text>
+        <Text>{item}</Text>
+      </View>
+    ))}
+  </View>
+);
+
+// Renders a quote revision exactly as it was sent
+export const QuotationDocument = ({ quote }: { quote: Quote }) => (
+  <Document title={quote.number}>
+    <Page size="A4" style={styles.page}>
+      {/* Header */}
+      <View style={styles.header}>
+        <View style={styles.logoSection}>
+          <Image src={"/images/logo.png"} style={styles.logo} />
+          <View style={styles.logoInfo}>
+            <Text style={styles.title}>{quote.seller.name}</Text>
+            <Text style={styles.subtitle}>{quote.seller.address}</Text>
+            {!!quote.seller.gstin && (
+              <Text style={styles.subtitle}>GSTIN {quote.seller.gstin}</Text>
+            )}
+          </View>
+        </View>
+        <View style={styles.businessAddress}>
+          <Text style={styles.title}>QUOTATION</Text>
+          <Text>{quote.number}</Text>
+          <Text>Revision {quote.revision}</Text>
+        </View>
+      </View>
+
+      {/* quotation body */}
+      <View style={styles.invoiceBody}>
+        <View style={styles.invoiceInfo}>
+          <View style={styles.infoColumn}>
+            <Text style={styles.boldText}>Prepared for</Text>
+            <Text style={styles.valueText}>{quote.customer.name}</Text>
+            <Text style={styles.grayText}>{quote.customer.address}</Text>
+            {!!quote.customer.phone && (
+              <Text style={styles.grayText}>{quote.customer.phone}</Text>
+            )}
+          </View>
+          <View style={styles.infoColumn}>
+            <Text style={styles.boldText}>Date</Text>
+            <Text style={styles.valueText}>{formatDate(quote.issueDate)}</Text>
+            <Text style={styles.boldText}>Valid until</Text>
+            <Text style={styles.valueText}>{formatDate(quote.validUntil)}</Text>
+            <Text style={styles.boldText}>Enquiry</Text>
+            <Text style={styles.valueText}>{quote.enquiryRef}</Text>
+          </View>
+          <View>
+            <Text style={styles.boldText}>Quoted amount (INR)</Text>
+            <Text style={styles.amountText}>{formatCurrency(quote.total)}</Text>
+          </View>
+        </View>
+
+        <View style={quoteStyles.section}>
+          <Text style={quoteStyles.sectionTitle}>{quote.title}</Text>
+          {!!quote.scope && <Text style={quoteStyles.paragraph}>{quote.scope}</Text>}
+        </View>
+
+        {quote.requirements.length > 0 && (
+          <View style={quoteStyles.section}>
+            <Text style={quoteStyles.sectionTitle}>Scope of work</Text>
+            <List items={quote.requirements} />
+          </View>
+        )}
+
+        {/* Table */}
+        <View style={styles.table}>
+          <View style={styles.tableHeader}>
+            <Text style={styles.descriptionColumn}>Deliverable</Text>
+            <Text style={styles.column}>Hours</Text>
+            <Text style={styles.column}>Rate</Text>
+            <Text style={styles.column}>Amount</Text>
+          </View>
+
+          {quote.lines.map((line) => (
+            <View style={styles.tableRow} key={line.id} wrap={false}>
+              <Text style={styles.descriptionColumn}>{line.description}</Text>
+              <Text style={styles.column}>{line.hours ?? "-"}</Text>
+              <Text style={styles.column}>
+                {line.rate === undefined ? "-" : formatCurrency(line.rate)}
+              </Text>
+              <Text style={styles.column}>{formatCurrency(line.amount)}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Total */}
+        <View style={styles.totalSection} wrap={false}>
+          <View style={styles.totalBox}>
+            <View style={styles.totalRow}>
+              <Text>Subtotal</Text>
+              <Text>{formatCurrency(quote.subtotal)}</Text>
+            </View>
+            {quote.taxes.map((tax) => (
+              <View style={styles.totalRow} key={tax.label}>
+                <Text>
+                  {tax.label} @ {tax.rate}%
+                </Text>
+                <Text>{formatCurrency(tax.amount)}</Text>
+              </View>
+            ))}
+            <View style={styles.grandTotalRow}>
+              <Text style={styles.valueText}>Total (INR)</Text>
+              <Text style={styles.amountText}>{formatCurrency(quote.total)}</Text>
+            </View>
+          </View>
+        </View>
+
+        {quote.exclusions.length > 0 && (
+          <View style={quoteStyles.section} wrap={false}>
+            <Text style={quoteStyles.sectionTitle}>Exclusions</Text>
+            <List items={quote.exclusions} />
+          </View>
+        )}
+
+        {!!quote.paymentTerms && (
+          <View style={quoteStyles.section} wrap={false}>
+            <Text style={quoteStyles.sectionTitle}>Payment terms</Text>
+            <Text style={quoteStyles.paragraph}>{quote.paymentTerms}</Text>
+          </View>
+        )}
+      </View>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <Text>This quotation is valid until {formatDate(quote.validUntil)}.</Text>
+        <Text>Prepared by {quote.createdBy.name}</Text>
+      </View>
+    </Page>
+  </Document>
+);
+
+const QuotationDownloader = ({ quote }: { quote: Quote }) => {
+  const [downloading, setDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    try {
+      setDownloading(true);
+      await downloadPdf(
+        <QuotationDocument quote={quote} />,
+        `${quote.number.replace(/\//g, "-")}.pdf`
+      );
+    } catch (error) {
+      console.error("Failed to download quotation:", error);
+      toast.error("Failed to download quotation");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <button
+      className="inline-flex items-center px-3 py-1 text-sm font-medium rounded-md text-black bg-white border-[1px] hover:opacity-70 disabled:opacity-50"
+      onClick={handleDownload}
+      disabled={downloading}
+    >
+      {downloading ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <FileDown className="mr-2 h-4 w-4" />
+      )}
+      PDF
+    </button>
+  );
+};
+
+export default QuotationDownloader;
@@ -0,0 +1,60 @@
+import { useEffect, useMemo } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useInvoiceStore } from '../store/invoiceStore';
+import { formatCurrency, roundCurrency, summariseReceivables } from '../lib/invoicing';
+
+export default function Receivables() {
+  const { allInvoices, loading, subscribeToInvoices } = useInvoiceStore();
+
+  useEffect(() => subscribeToInvoices(), [subscribeToInvoices]);
+
+  const receivables = useMemo(() => summariseReceivables(allInvoices), [allInvoices]);
+  const totalOutstanding = roundCurrency(receivables.reduce((sum, row) => sum + row.outstanding, 0));
+  const totalOverdue = roundCurrency(receivables.reduce((sum, row) => sum + row.overdue, 0));
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-baseline mb-4">
+        <h3 className="text-lg font-semibold">Receivables</h3>
+        <p className="text-sm text-gray-500">
+          INR {formatCurrency(totalOutstanding)} outstanding
+          {totalOverdue > 0 && (
+            <span className="text-red-600"> · {formatCurrency(totalOverdue)} overdue</span>
+          )}
+        </p>
+      </div>
+      {loading && allInvoices.length === 0 ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+        </div>
+      ) : receivables.length === 0 ? (
+        <p className="font-medium text-gray-500">Nothing outstanding</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr>
+              <th className="py-2 text-left font-medium text-gray-500">Customer</th>
+              <th className="py-2 text-right font-medium text-gray-500">Invoices</th>
+              <th className="py-2 text-right font-medium text-gray-500">Outstanding</th>
+              <th className="py-2 text-right font-medium text-gray-500">Overdue</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {receivables.map(row => (
+              <tr key={row.customer}>
+                <td className="py-2 font-medium">{row.customer}</td>
+                <td className="py-2 text-right">{row.invoiceCount}</td>
+                <td className="py-2 text-right">{formatCurrency(row.outstanding)}</td>
+                <td className={`py-2 text-right ${row.overdue > 0 ? 'text-red-600' : ''}`}>
+                  {row.overdue > 0
+                    ? `${formatCurrency(row.overdue)} (${row.overdueCount})`
+                    : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Invoice, PaymentMode, useInvoiceStore } from '../store/invoiceStore';
+import { formatCurrency, getAmountDue } from '../lib/invoicing';
+
+interface RecordPaymentModalProps {
+  invoice: Invoice | null;
+  onClose: () => void;
+}
+
+const paymentModes: { value: PaymentMode; label: string }[] = [
+  { value: 'bank-transfer', label: 'Bank transfer' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'other', label: 'Other' }
+];
+
+export default function RecordPaymentModal({ invoice, onClose }: RecordPaymentModalProps) {
+  const { recordPayment, loading } = useInvoiceStore();
+  const [formData, setFormData] = useState({
+    amount: 0,
+    date: '',
+    mode: 'bank-transfer' as PaymentMode,
+    reference: ''
+  });
+
+  useEffect(() => {
+    if (invoice) {
+      setFormData({
+        amount: getAmountDue(invoice),
+        date: new Date().toISOString().slice(0, 10),
+        mode: 'bank-transfer',
+        reference: ''
+      });
+    }
+  }, [invoice]);
+
+  if (!invoice) return null;
+
+  const amountDue = getAmountDue(invoice);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await recordPayment(invoice.id, formData);
+      toast.success('Payment recorded');
+      onClose();
+    } catch (error) {
+      console.error('Failed to record payment:', error);
+      toast.error('Failed to record payment');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Record Payment</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-4">
+          {invoice.number}: {formatCurrency(amountDue)} due of {formatCurrency(invoice.total)}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Amount (INR)</label>
+              <input
+                type="number"
+                min="0.01"
+                max={amountDue}
+                step="0.01"
+                required
+                value={formData.amount || ''}
+                onChange={e => setFormData(prev => ({ ...prev, amount: Number(e.target.value) }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Received On</label>
+              <input
+                type="date"
+                required
+                value={formData.date}
+                onChange={e => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Mode</label>
+            <select
+              value={formData.mode}
+              onChange={e => setFormData(prev => ({ ...prev, mode: e.target.value as PaymentMode }))}
+              className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {paymentModes.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Reference</label>
+            <input
+              type="text"
+              placeholder="UTR, cheque number..."
+              value={formData.reference}
+              onChange={e => setFormData(prev => ({ ...prev, reference: e.target.value }))}
+              className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
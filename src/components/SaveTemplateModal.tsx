@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Project } from '../store/projectStore';
+import { useTemplateStore } from '../store/templateStore';
+
+interface SaveTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+}
+
+export default function SaveTemplateModal({ isOpen, onClose, project }: SaveTemplateModalProps) {
+  const { saveProjectAsTemplate } = useTemplateStore();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(project.name);
+      setDescription('');
+    }
+  }, [isOpen, project.name]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await saveProjectAsTemplate(project, name, description);
+      toast.success('Template saved');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      toast.error(project.tasks.length ? 'Failed to save template' : 'The project has no tasks to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Save as Template</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-500">
+            Saves the task tree with its estimates and dates relative to the project start. Assignees and
+            logged time are not included.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              type="text"
+              required
+              placeholder="e.g. Basic Design - Tug"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Description</label>
+            <textarea
+              rows={3}
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Template
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react';
+import { Calendar, Columns3, ListTree } from 'lucide-react';
+import { Project, Task } from '../store/projectStore';
+import { BoardColumn, getBoardColumns, getDoneColumnId, getSwimlanes, getTaskColumnId } from '../lib/board';
+import { flattenTaskTree } from '../lib/taskTree';
+
+interface TaskBoardProps {
+  project: Project;
+  currentUserId: string | null;
+  canManage: boolean;
+  onMove: (task: Task, columnId: string, columns: BoardColumn[]) => void;
+  onTaskClick: (task: Task) => void;
+  onEditColumns?: () => void;
+}
+
+// Every task in the tree as a card, in one lane per assignee. Cards are
+// dragged between columns to change the task's status.
+export default function TaskBoard({
+  project,
+  currentUserId,
+  canManage,
+  onMove,
+  onTaskClick,
+  onEditColumns
+}: TaskBoardProps) {
+  const [dragged, setDragged] = useState<Task | null>(null);
+  const [over, setOver] = useState<string | null>(null);
+  const columns = getBoardColumns(project);
+  const doneId = getDoneColumnId(columns);
+  const tasks = useMemo(() => flattenTaskTree(project.tasks), [project.tasks]);
+  const lanes = useMemo(() => getSwimlanes(tasks), [tasks]);
+  const taskNames = useMemo(() => new Map(tasks.map(task => [task.id, task.name])), [tasks]);
+  const gridStyle = { gridTemplateColumns: `repeat(${columns.length}, minmax(12rem, 1fr))` };
+
+  // Assignees may move their own cards, as they may tick their own tasks off
+  const canMove = (task: Task) =>
+    canManage || (!!currentUserId && (task.assignedTo || []).some(user => user.id === currentUserId));
+
+  const handleDrop = (columnId: string) => {
+    const task = dragged;
+    setDragged(null);
+    setOver(null);
+    if (task && getTaskColumnId(task, columns) !== columnId) onMove(task, columnId, columns);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border-[1px]">
+      <div className="px-6 py-4 border-b flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Task Board</h3>
+        {onEditColumns && (
+          <button
+            onClick={onEditColumns}
+            className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+          >
+            <Columns3 className="h-4 w-4 mr-1" />
+            Edit Columns
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 overflow-x-auto">
+        <div className="grid gap-3 mb-2" style={gridStyle}>
+          {columns.map(column => (
+            <div key={column.id} className="px-2 text-sm font-medium text-gray-700">
+              {column.label}
+              <span className="ml-2 text-xs text-gray-400">
+                {tasks.filter(task => getTaskColumnId(task, columns) === column.id).length}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {lanes.length === 0 && <p className="text-sm text-gray-500 px-2 py-6">No tasks yet</p>}
+
+        {lanes.map(lane => (
+          <div key={lane.id} className="mb-4">
+            <p className="px-2 mb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">{lane.label}</p>
+            <div className="grid gap-3" style={gridStyle}>
+              {columns.map(column => {
+                const cellKey = `${lane.id}/${column.id}`;
+                return (
+                  <div
+                    key={column.id}
+                    onDragOver={e => {
+                      if (!dragged) return;
+                      e.preventDefault();
+                      setOver(cellKey);
+                    }}
+                    onDragLeave={() => setOver(null)}
+                    onDrop={() => handleDrop(column.id)}
+                    className={`rounded-lg bg-gray-50 border-[1px] min-h-[5rem] p-2 space-y-2 ${
+                      over === cellKey ? 'border-blue-400 bg-blue-50' : ''
+                    }`}
+                  >
+                    {lane.tasks
+                      .filter(task => getTaskColumnId(task, columns) === column.id)
+                      .map(task => (
+                        <div
+                          key={task.id}
+                          draggable={canMove(task)}
+                          onDragStart={() => setDragged(task)}
+                          onDragEnd={() => {
+                            setDragged(null);
+                            setOver(null);
+                          }}
+                          onClick={() => onTaskClick(task)}
+                          className={`bg-white rounded-md border p-3 text-sm cursor-pointer hover:shadow-sm ${
+                            column.id === doneId ? 'opacity-75' : ''
+                          }`}
+                        >
+                          <p className={`font-medium text-gray-900 ${task.completed ? 'line-through' : ''}`}>
+                            {task.name}
+                          </p>
+                          {task.parentId && (
+                            <p className="text-xs text-gray-500 truncate">in {taskNames.get(task.parentId)}</p>
+                          )}
+                          <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500">
+                            {task.children.length > 0 && (
+                              <span className="inline-flex items-center">
+                                <ListTree className="h-3 w-3 mr-1" />
+                                {task.children.filter(child => child.completed).length}/{task.children.length}
+                              </span>
+                            )}
+                            {task.deadline && (
+                              <span className="inline-flex items-center">
+                                <Calendar className="h-3 w-3 mr-1" />
+                                {new Date(task.deadline).toLocaleDateString()}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
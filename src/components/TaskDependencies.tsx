@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Link2, Plus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Task, TaskConflictError, useProjectStore } from '../store/projectStore';
+import { flattenTaskTree } from '../lib/taskTree';
+import { wouldCreateCycle } from '../lib/schedule';
+
+interface TaskDependenciesProps {
+  projectId: string;
+  task: Task;
+  projectTasks: Task[];
+  canEdit: boolean;
+}
+
+export default function TaskDependencies({ projectId, task, projectTasks, canEdit }: TaskDependenciesProps) {
+  const { addTaskDependency, removeTaskDependency } = useProjectStore();
+  const [predecessorId, setPredecessorId] = useState('');
+  const [lagDays, setLagDays] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  const allTasks = flattenTaskTree(projectTasks);
+  const taskById = new Map(allTasks.map(item => [item.id, item]));
+  const predecessors = (task.dependencies || []).filter(dependency => taskById.has(dependency.taskId));
+  const successors = allTasks.filter(item =>
+    (item.dependencies || []).some(dependency => dependency.taskId === task.id)
+  );
+  const candidates = allTasks.filter(item =>
+    !predecessors.some(dependency => dependency.taskId === item.id) &&
+    !wouldCreateCycle(projectTasks, task.id, item.id)
+  );
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!predecessorId) return;
+    try {
+      setSaving(true);
+      await addTaskDependency(projectId, task.id, predecessorId, lagDays);
+      setPredecessorId('');
+      setLagDays(0);
+      toast.success('Dependency added');
+    } catch (error) {
+      console.error('Failed to add dependency:', error);
+      toast.error(error instanceof TaskConflictError ? error.message : 'Failed to add dependency');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (dependencyId: string) => {
+    try {
+      await removeTaskDependency(projectId, task.id, dependencyId);
+      toast.success('Dependency removed');
+    } catch (error) {
+      console.error('Failed to remove dependency:', error);
+      toast.error(error instanceof TaskConflictError ? error.message : 'Failed to remove dependency');
+    }
+  };
+
+  return (
+    <div className="bg-white border-[1px] rounded-lg mb-6">
+      <div className="border-b border-gray-200 px-6 py-3">
+        <h3 className="text-lg font-medium text-gray-900">Dependencies</h3>
+      </div>
+      <div className="px-6 py-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-medium text-gray-500 mb-2">Starts after</h4>
+          {predecessors.length === 0 ? (
+            <p className="text-sm text-gray-500">No predecessors</p>
+          ) : (
+            <ul className="space-y-2">
+              {predecessors.map(dependency => (
+                <li key={dependency.taskId} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center">
+                    <Link2 className="h-4 w-4 mr-2 text-gray-400" />
+                    {taskById.get(dependency.taskId)?.name}
+                    {!!dependency.lagDays && (
+                      <span className="ml-2 text-gray-500">
+                        {dependency.lagDays > 0 ? '+' : ''}{dependency.lagDays}d lag
+                      </span>
+                    )}
+                  </span>
+                  {canEdit && (
+                    <button
+                      onClick={() => handleRemove(dependency.taskId)}
+                      className="p-1 text-gray-400 hover:text-red-500"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {canEdit && (
+            <form onSubmit={handleAdd} className="mt-4 flex items-center gap-2">
+              <select
+                value={predecessorId}
+                onChange={(e) => setPredecessorId(e.target.value)}
+                className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+              >
+                <option value="">Select a task</option>
+                {candidates.map(item => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step="0.5"
+                value={lagDays}
+                onChange={(e) => setLagDays(Number(e.target.value))}
+                title="Lag in days"
+                className="w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+              />
+              <button
+                type="submit"
+                disabled={!predecessorId || saving}
+                className="inline-flex items-center px-3 py-2 rounded-md text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </form>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-500 mb-2">Blocks</h4>
+          {successors.length === 0 ? (
+            <p className="text-sm text-gray-500">No dependent tasks</p>
+          ) : (
+            <ul className="space-y-2">
+              {successors.map(item => (
+                <li key={item.id} className="flex items-center text-sm">
+                  <Link2 className="h-4 w-4 mr-2 text-gray-400" />
+                  {item.name}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,24 @@
-import React from 'react';
-import { Plus, Pencil, Trash2, User, Calendar, Clock, CheckCircle, XCircle } from 'lucide-react';
-import { Task } from '../store/projectStore';
+import React, { useMemo, useState } from 'react';
+import {
+  Plus,
+  Pencil,
+  Trash2,
+  User,
+  Calendar,
+  Clock,
+  CheckCircle,
+  XCircle,
+  GitBranch,
+  GripVertical,
+  Indent,
+  Outdent,
+  FolderInput,
+  Copy
+} from 'lucide-react';
+import { PathItem, Task } from '../store/projectStore';
+import { DuplicateTaskOptions, flattenTaskTree, getTaskPathIds } from '../lib/taskTree';
+import MoveTaskModal from './MoveTaskModal';
+import DuplicateModal from './DuplicateModal';
 
 interface TaskListProps {
   tasks: Task[];
@@ -8,17 +26,99 @@ interface TaskListProps {
   onEditClick: (task: Task) => void;
   onDeleteClick: (taskId: string) => void;
   onTaskClick: (task: Task) => void;
-  isAdmin: boolean;
+  canManage: boolean;
+  criticalTaskIds?: string[];
+  // With onMoveTask, managers can drag tasks to reorder or nest them and
+  // move them anywhere in projectTasks (the whole project tree)
+  parentPath?: PathItem[];
+  projectTasks?: Task[];
+  onMoveTask?: (task: Task, newParentPath: PathItem[], index: number) => Promise<void>;
+  // Copies the task and its subtasks just after it
+  onDuplicateTask?: (task: Task, name: string, options: DuplicateTaskOptions) => Promise<void>;
 }
 
+type DropPosition = 'before' | 'inside' | 'after';
+
 export default function TaskList({
   tasks = [], // Provide default empty array
   onAddClick,
   onEditClick,
   onDeleteClick,
   onTaskClick,
-  isAdmin
+  canManage,
+  criticalTaskIds = [],
+  parentPath = [],
+  projectTasks = [],
+  onMoveTask,
+  onDuplicateTask
 }: TaskListProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ taskId: string; position: DropPosition } | null>(null);
+  const [movingTask, setMovingTask] = useState<Task | null>(null);
+  const [duplicatingTask, setDuplicatingTask] = useState<Task | null>(null);
+  const allTasks = useMemo(() => flattenTaskTree(projectTasks), [projectTasks]);
+  const canMove = canManage && !!onMoveTask;
+  const parentId = parentPath.length ? parentPath[parentPath.length - 1].id : null;
+
+  const pathTo = (taskId: string | null): PathItem[] =>
+    taskId ? getTaskPathIds(allTasks, taskId).map(id => ({ id })) : [];
+
+  // The middle of a card nests the dragged task inside it, the edges place
+  // it before or after
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, task: Task) => {
+    if (!draggedId || draggedId === task.id) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    setDropTarget({ taskId: task.id, position: offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside' });
+  };
+
+  const handleDrop = (target: Task) => {
+    const dragged = tasks.find(task => task.id === draggedId);
+    const position = dropTarget?.position;
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!onMoveTask || !dragged || !position || dragged.id === target.id) return;
+
+    if (position === 'inside') {
+      onMoveTask(dragged, [...parentPath, { id: target.id }], target.children.length);
+      return;
+    }
+    const siblings = tasks.filter(task => task.id !== dragged.id);
+    const index = siblings.findIndex(task => task.id === target.id) + (position === 'after' ? 1 : 0);
+    onMoveTask(dragged, parentPath, index);
+  };
+
+  // Into the end of the task above it
+  const handleIndent = (task: Task, index: number) => {
+    const previous = tasks[index - 1];
+    if (onMoveTask && previous) {
+      onMoveTask(task, [...parentPath, { id: previous.id }], previous.children.length);
+    }
+  };
+
+  // Up a level, just after the task it was under
+  const handleOutdent = (task: Task) => {
+    if (!onMoveTask || !parentId) return;
+    const grandparentId = allTasks.find(item => item.id === parentId)?.parentId ?? null;
+    const parentIndex = allTasks
+      .filter(item => (item.parentId ?? null) === grandparentId)
+      .findIndex(item => item.id === parentId);
+    onMoveTask(task, parentPath.slice(0, -1), parentIndex + 1);
+  };
+
+  const handleMoveTo = async (task: Task, newParentId: string | null) => {
+    if (!onMoveTask) return;
+    const index = allTasks.filter(item => (item.parentId ?? null) === newParentId).length;
+    await onMoveTask(task, pathTo(newParentId), index);
+  };
+
+  const dropClass = (taskId: string) => {
+    if (dropTarget?.taskId !== taskId) return '';
+    if (dropTarget.position === 'inside') return 'bg-blue-50 border-blue-400';
+    return dropTarget.position === 'before' ? 'border-t-4 border-t-blue-400' : 'border-b-4 border-b-blue-400';
+  };
+
   const getTaskStatus = (task: Task) => {
     if (task.completed) {
       return {
@@ -71,7 +171,7 @@ export default function TaskList({
       <div className="border-b border-gray-200 px-6 py-3">
         <div className="flex justify-between items-center">
           <h3 className="text-lg font-medium text-gray-900">Tasks</h3>
-          {isAdmin && (
+          {canManage && (
             <button
               onClick={onAddClick}
               className="inline-flex items-center px-3 py-2 rounded-md text-sm font-medium text-white bg-black/90 hover:bg-black/80"
@@ -90,21 +190,43 @@ export default function TaskList({
               No tasks yet. Add your first task!
             </p>
           ) : (
-            tasks.map(task => {
+            tasks.map((task, index) => {
               const status = getTaskStatus(task);
               return (
                 <div 
                   key={task.id}
-                  className={`border rounded-lg hover:border-black transition-colors duration-200 ${status.borderColor}`}
+                  draggable={canMove}
+                  onDragStart={() => setDraggedId(task.id)}
+                  onDragEnd={() => {
+                    setDraggedId(null);
+                    setDropTarget(null);
+                  }}
+                  onDragOver={e => handleDragOver(e, task)}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={() => handleDrop(task)}
+                  className={`border rounded-lg hover:border-black transition-colors duration-200 ${status.borderColor} ${
+                    draggedId === task.id ? 'opacity-50' : ''
+                  } ${dropClass(task.id)}`}
                 >
                   <div className="p-4">
                     <div className="flex justify-between items-start">
+                      {canMove && (
+                        <GripVertical className="h-5 w-5 mr-2 mt-1 text-gray-300 cursor-grab flex-shrink-0" />
+                      )}
                       <div 
                         className="flex-1 cursor-pointer"
                         onClick={() => onTaskClick(task)}
                       >
                         <div className="flex items-center justify-between mb-2">
-                          <h4 className="text-lg font-medium">{task.name}</h4>
+                          <div className="flex items-center gap-2">
+                            <h4 className="text-lg font-medium">{task.name}</h4>
+                            {criticalTaskIds.includes(task.id) && (
+                              <span className="flex items-center px-2 py-0.5 rounded-full bg-red-50 text-red-700 text-xs font-medium">
+                                <GitBranch className="h-3 w-3 mr-1" />
+                                Critical
+                              </span>
+                            )}
+                          </div>
                           <div className={`flex items-center space-x-2 px-3 py-1 rounded-full ${status.bgColor} ${status.textColor}`}>
                             {status.icon}
                             <span className="text-sm font-medium">{status.text}</span>
@@ -144,8 +266,45 @@ export default function TaskList({
                           )}
                         </div>
                       </div>
-                      {isAdmin && (
+                      {canManage && (
                         <div className="flex space-x-2 ml-4">
+                          {canMove && (
+                            <>
+                              <button
+                                onClick={() => handleIndent(task, index)}
+                                disabled={index === 0}
+                                title="Move under the task above"
+                                className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                              >
+                                <Indent className="h-5 w-5" />
+                              </button>
+                              {parentId && (
+                                <button
+                                  onClick={() => handleOutdent(task)}
+                                  title="Move up a level"
+                                  className="p-1 text-gray-400 hover:text-gray-700"
+                                >
+                                  <Outdent className="h-5 w-5" />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => setMovingTask(task)}
+                                title="Move to another task"
+                                className="p-1 text-gray-400 hover:text-gray-700"
+                              >
+                                <FolderInput className="h-5 w-5" />
+                              </button>
+                            </>
+                          )}
+                          {onDuplicateTask && (
+                            <button
+                              onClick={() => setDuplicatingTask(task)}
+                              title="Duplicate task"
+                              className="p-1 text-gray-400 hover:text-gray-700"
+                            >
+                              <Copy className="h-5 w-5" />
+                            </button>
+                          )}
                           <button
                             onClick={() => onEditClick(task)}
                             className="p-1 text-gray-400 hover:text-blue-500"
@@ -168,6 +327,24 @@ export default function TaskList({
           )}
         </div>
       </div>
+
+      <MoveTaskModal
+        isOpen={!!movingTask}
+        onClose={() => setMovingTask(null)}
+        task={movingTask}
+        projectTasks={projectTasks}
+        onMove={handleMoveTo}
+      />
+
+      <DuplicateModal
+        isOpen={!!duplicatingTask}
+        onClose={() => setDuplicatingTask(null)}
+        title="Duplicate Task"
+        sourceName={duplicatingTask?.name || ''}
+        onDuplicate={async (name, options) => {
+          if (duplicatingTask && onDuplicateTask) await onDuplicateTask(duplicatingTask, name, options);
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
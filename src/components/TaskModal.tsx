@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
 import { doc, getDocs, collection } from 'firebase/firestore';
 import { db } from '../lib/firebase';
+import { can } from '../lib/permissions';
 
 interface User {
   id: string;
@@ -18,6 +19,7 @@ interface TaskModalProps {
     hours?: number;
     costPerHour?: number;
     assignedTo?: User[];
+    startDate?: string;
     deadline?: string;
   }) => void;
   initialData?: {
@@ -26,6 +28,7 @@ interface TaskModalProps {
     hours?: number;
     costPerHour?: number;
     assignedTo?: User[];
+    startDate?: string;
     deadline?: string;
   };
 }
@@ -42,6 +45,7 @@ export default function TaskModal({
     hours: undefined as number | undefined,
     costPerHour: undefined as number | undefined,
     assignedTo: [] as User[],
+    startDate: '',
     deadline: ''
   });
   const [users, setUsers] = useState<User[]>([]);
@@ -54,6 +58,7 @@ export default function TaskModal({
         hours: initialData.hours,
         costPerHour: initialData.costPerHour,
         assignedTo: initialData.assignedTo || [],
+        startDate: initialData.startDate || '',
         deadline: initialData.deadline || ''
       });
     } else {
@@ -63,6 +68,7 @@ export default function TaskModal({
         hours: undefined,
         costPerHour: undefined,
         assignedTo: [],
+        startDate: '',
         deadline: ''
       });
     }
@@ -73,7 +79,7 @@ export default function TaskModal({
     const querySnapshot = await getDocs(collection(db, 'users'));
     const verifiedUsers = querySnapshot.docs
       .map(doc => ({ id: doc.id, ...doc.data() }))
-      .filter(user => user.verified && user.role !== 'customer') as User[]; // Add condition for role
+      .filter(user => user.verified && can(user.role, 'dashboard.access')) as User[];
     setUsers(verifiedUsers);
   };
   if (isOpen) {
@@ -186,6 +192,16 @@ export default function TaskModal({
             <p className="mt-1 text-sm text-gray-500">Hold Ctrl/Cmd to select multiple users</p>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Start Date</label>
+            <input
+              type="datetime-local"
+              value={formData.startDate}
+              onChange={e => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+              className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700">Deadline</label>
             <input
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useProjectStore } from '../store/projectStore';
+import { EntryTarget, TimesheetEntry, useTimesheetStore } from '../store/timesheetStore';
+import { combineDateTime, toTimeInput } from '../lib/timesheets';
+import { toDateInput } from '../lib/utils';
+
+export type TimeEntryModalMode = 'add' | 'edit' | 'split';
+
+interface TimeEntryModalProps {
+  mode: TimeEntryModalMode;
+  // The entry being edited or split; null when adding
+  row: TimesheetEntry | null;
+  defaultDate: string;
+  onClose: () => void;
+}
+
+const titles: Record<TimeEntryModalMode, string> = {
+  add: 'Add Time',
+  edit: 'Edit Time',
+  split: 'Split Time'
+};
+
+const toTaskKey = ({ projectId, taskId }: EntryTarget) => `${projectId}/${taskId}`;
+
+const fromTaskKey = (key: string): EntryTarget => {
+  const [projectId, taskId] = key.split('/');
+  return { projectId, taskId };
+};
+
+const inputClass =
+  'mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500';
+
+export default function TimeEntryModal({ mode, row, defaultDate, onClose }: TimeEntryModalProps) {
+  const { userTasks } = useProjectStore();
+  const { addEntry, updateEntry, splitEntry, loading } = useTimesheetStore();
+  const [formData, setFormData] = useState({
+    task: '',
+    date: defaultDate,
+    startTime: '09:00',
+    endTime: '',
+    splitDate: defaultDate,
+    splitTime: ''
+  });
+
+  useEffect(() => {
+    if (!row) {
+      const [firstTask] = userTasks;
+      setFormData(prev => ({
+        ...prev,
+        task: firstTask ? toTaskKey({ projectId: firstTask.projectId!, taskId: firstTask.id }) : ''
+      }));
+      return;
+    }
+    const { startTime, endTime } = row.entry;
+    // Split in the middle by default
+    const middle = endTime
+      ? new Date((new Date(startTime).getTime() + new Date(endTime).getTime()) / 2).toISOString()
+      : startTime;
+    setFormData({
+      task: toTaskKey(row),
+      date: toDateInput(new Date(startTime)),
+      startTime: toTimeInput(startTime),
+      endTime: endTime ? toTimeInput(endTime) : '',
+      splitDate: toDateInput(new Date(middle)),
+      splitTime: toTimeInput(middle)
+    });
+  }, [row, userTasks]);
+
+  // The entry's own task stays selectable even if it is no longer assigned
+  const taskOptions = [
+    ...(row && !userTasks.some(task => task.id === row.taskId)
+      ? [{ key: toTaskKey(row), name: row.taskName }]
+      : []),
+    ...userTasks.map(task => ({
+      key: toTaskKey({ projectId: task.projectId!, taskId: task.id }),
+      name: task.name
+    }))
+  ];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const target = fromTaskKey(formData.task);
+      if (mode === 'split' && row) {
+        await splitEntry(row, combineDateTime(formData.splitDate, formData.splitTime), target);
+        toast.success('Time entry split');
+      } else {
+        const times = {
+          startTime: combineDateTime(formData.date, formData.startTime),
+          endTime: combineDateTime(formData.date, formData.endTime)
+        };
+        if (mode === 'edit' && row) {
+          await updateEntry(row, target, times);
+          toast.success('Time entry updated');
+        } else {
+          await addEntry(target, times);
+          toast.success('Time entry added');
+        }
+      }
+      onClose();
+    } catch (error) {
+      console.error('Failed to save time entry:', error);
+      toast.error((error as Error).message || 'Failed to save time entry');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">{titles[mode]}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {mode === 'split' && row && (
+          <p className="text-sm text-gray-500 mb-4">
+            {row.taskName}: {toTimeInput(row.entry.startTime)} to{' '}
+            {row.entry.endTime ? toTimeInput(row.entry.endTime) : 'now'}
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              {mode === 'split' ? 'Task for the Second Part' : 'Task'}
+            </label>
+            <select
+              required
+              value={formData.task}
+              onChange={e => setFormData(prev => ({ ...prev, task: e.target.value }))}
+              className={inputClass}
+            >
+              {taskOptions.length === 0 && <option value="">No assigned tasks</option>}
+              {taskOptions.map(option => (
+                <option key={option.key} value={option.key}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {mode === 'split' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Split On</label>
+                <input
+                  type="date"
+                  required
+                  value={formData.splitDate}
+                  onChange={e => setFormData(prev => ({ ...prev, splitDate: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">At</label>
+                <input
+                  type="time"
+                  required
+                  value={formData.splitTime}
+                  onChange={e => setFormData(prev => ({ ...prev, splitTime: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Date</label>
+                <input
+                  type="date"
+                  required
+                  value={formData.date}
+                  onChange={e => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">From</label>
+                  <input
+                    type="time"
+                    required
+                    value={formData.startTime}
+                    onChange={e => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">To</label>
+                  <input
+                    type="time"
+                    required
+                    value={formData.endTime}
+                    onChange={e => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !formData.task}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, Clock, Loader2, Square } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useProjectStore, ActiveTimerError, TaskConflictError } from '../store/projectStore';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { formatElapsed } from '../lib/timers';
+
+// The running timer, shown in the navbar on every page so it can be stopped
+// or moved to another task without opening the task first.
+export default function TimerChip() {
+  const { user } = useCurrentUser();
+  const { activeTimer, userTasks, subscribeToActiveTimer, stopTimer, switchTimer, fetchUserTasks } =
+    useProjectStore();
+  const [now, setNow] = useState(Date.now());
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const originalTitle = useRef(document.title);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToActiveTimer();
+  }, [user, subscribeToActiveTimer]);
+
+  useEffect(() => {
+    if (!activeTimer.startTime) return;
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [activeTimer.startTime]);
+
+  // Keep the running time in the tab title and put the title back afterwards
+  useEffect(() => {
+    const title = originalTitle.current;
+    if (!activeTimer.startTime) return;
+    document.title = `${formatElapsed(activeTimer.startTime, now)} · ${activeTimer.taskName || 'Timer'} | ${title}`;
+    return () => {
+      document.title = title;
+    };
+  }, [activeTimer.startTime, activeTimer.taskName, now]);
+
+  if (!activeTimer.taskId || !activeTimer.projectId || !activeTimer.startTime) return null;
+
+  const handleStop = async () => {
+    try {
+      setBusy(true);
+      await stopTimer(activeTimer.projectId!, activeTimer.taskId!);
+      toast.success('Timer stopped');
+    } catch (error) {
+      console.error('Failed to stop timer:', error);
+      toast.error('Failed to stop timer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggleMenu = () => {
+    if (!menuOpen) fetchUserTasks();
+    setMenuOpen(!menuOpen);
+  };
+
+  const handleSwitch = async (projectId: string, taskId: string) => {
+    try {
+      setMenuOpen(false);
+      setBusy(true);
+      await switchTimer(projectId, taskId);
+      toast.success('Timer switched');
+    } catch (error) {
+      console.error('Failed to switch timer:', error);
+      toast.error(
+        error instanceof TaskConflictError || error instanceof ActiveTimerError
+          ? error.message
+          : 'Failed to switch timer'
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const otherTasks = userTasks.filter(
+    (task) => task.projectId && !(task.id === activeTimer.taskId && task.projectId === activeTimer.projectId)
+  );
+
+  return (
+    <div className="relative flex items-center space-x-2 px-3 py-1.5 rounded-full bg-green-50 border border-green-200 text-sm">
+      <Clock className="h-4 w-4 text-green-700" />
+      <span className="font-mono text-green-800">{formatElapsed(activeTimer.startTime, now)}</span>
+      <Link
+        to={`/dashboard/projects/${activeTimer.projectId}/task/${activeTimer.taskPath || activeTimer.taskId}`}
+        className="max-w-[14rem] truncate text-gray-700 hover:text-black"
+        title={[activeTimer.taskName, activeTimer.projectName].filter(Boolean).join(' · ')}
+      >
+        <span className="font-medium">{activeTimer.taskName || 'Task'}</span>
+        {activeTimer.projectName && <span className="text-gray-500"> · {activeTimer.projectName}</span>}
+      </Link>
+      <button
+        onClick={handleToggleMenu}
+        disabled={busy}
+        className="p-1 rounded-full text-gray-600 hover:bg-green-100 disabled:opacity-50"
+        title="Switch task"
+      >
+        <ChevronDown className="h-4 w-4" />
+      </button>
+      <button
+        onClick={handleStop}
+        disabled={busy}
+        className="p-1 rounded-full text-red-600 hover:bg-red-50 disabled:opacity-50"
+        title="Stop timer"
+      >
+        {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Square className="h-4 w-4" />}
+      </button>
+
+      {menuOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 max-h-80 overflow-y-auto bg-white border rounded-md shadow-lg z-50">
+          {otherTasks.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">No other assigned tasks</p>
+          ) : (
+            otherTasks.map((task) => (
+              <button
+                key={`${task.projectId}/${task.id}`}
+                onClick={() => handleSwitch(task.projectId!, task.id)}
+                className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                {task.name}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
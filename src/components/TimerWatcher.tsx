@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from 'react';
+import { Clock, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useProjectStore } from '../store/projectStore';
+import { useTimerSettingsStore } from '../store/timerSettingsStore';
+import { getAutoStopTime, isLongAbsence } from '../lib/timers';
+import { formatMinutes, toTimeInput } from '../lib/timesheets';
+
+// Applies the timer rules while the app is open: stops the running timer at
+// the end of the day and asks what to do with time spent away from the tab.
+export default function TimerWatcher() {
+  const { activeTimer, checkActiveTimer, stopTimer } = useProjectStore();
+  const { settings, subscribeToTimerSettings } = useTimerSettingsStore();
+  const hiddenAt = useRef<number | null>(null);
+  const [awaySince, setAwaySince] = useState<number | null>(null);
+  const [stopping, setStopping] = useState(false);
+
+  useEffect(() => subscribeToTimerSettings(), [subscribeToTimerSettings]);
+
+  // Also closes a timer left running since an earlier visit
+  useEffect(() => {
+    checkActiveTimer();
+  }, [checkActiveTimer]);
+
+  useEffect(() => {
+    if (!activeTimer.startTime) return;
+    const delay = new Date(getAutoStopTime(activeTimer.startTime, settings.endOfDay)).getTime() - Date.now();
+    const timeoutId = setTimeout(async () => {
+      await checkActiveTimer();
+      if (!useProjectStore.getState().activeTimer.taskId) {
+        toast(`Your timer was stopped at ${settings.endOfDay}. Check it on your timesheet.`);
+      }
+    }, Math.max(0, delay));
+    return () => clearTimeout(timeoutId);
+  }, [activeTimer.startTime, settings.endOfDay, checkActiveTimer]);
+
+  useEffect(() => {
+    const handleVisibilityChange = async () => {
+      if (document.hidden) {
+        hiddenAt.current = Date.now();
+        return;
+      }
+      const since = hiddenAt.current;
+      hiddenAt.current = null;
+      // The timer may have been stopped in another tab or passed the end of day
+      await checkActiveTimer();
+      if (
+        since &&
+        useProjectStore.getState().activeTimer.taskId &&
+        isLongAbsence(since, Date.now(), settings.idleMinutes)
+      ) {
+        setAwaySince(since);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [checkActiveTimer, settings.idleMinutes]);
+
+  if (!awaySince || !activeTimer.taskId || !activeTimer.projectId) return null;
+
+  const awayFrom = new Date(awaySince).toISOString();
+
+  const handleStopWhenLeft = async () => {
+    try {
+      setStopping(true);
+      await stopTimer(activeTimer.projectId!, activeTimer.taskId!, { endTime: awayFrom, reviewFlag: 'idle' });
+      toast.success(`Timer stopped at ${toTimeInput(awayFrom)}`);
+      setAwaySince(null);
+    } catch (error) {
+      console.error('Failed to stop timer:', error);
+      toast.error('Failed to stop timer');
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-md p-6">
+        <div className="flex items-center mb-4">
+          <Clock className="w-5 h-5 mr-2 text-yellow-600" />
+          <h2 className="text-xl font-semibold">Still working?</h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          You have been away since {toTimeInput(awayFrom)} (
+          {formatMinutes(Math.round((Date.now() - awaySince) / 60000))}) with a timer running.
+        </p>
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={() => setAwaySince(null)}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Keep the Time
+          </button>
+          <button
+            onClick={handleStopWhenLeft}
+            disabled={stopping}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+          >
+            {stopping && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Stop at {toTimeInput(awayFrom)}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
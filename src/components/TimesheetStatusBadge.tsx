@@ -0,0 +1,17 @@
+import { TimesheetStatus } from '../store/timesheetStore';
+
+const statusStyles: Record<TimesheetStatus, { label: string; color: string }> = {
+  draft: { label: 'Draft', color: 'bg-gray-100 text-gray-700' },
+  submitted: { label: 'Submitted', color: 'bg-blue-100 text-blue-700' },
+  approved: { label: 'Approved', color: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Rejected', color: 'bg-red-100 text-red-700' }
+};
+
+export default function TimesheetStatusBadge({ status }: { status: TimesheetStatus }) {
+  const { label, color } = statusStyles[status];
+  return (
+    <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${color}`}>
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { can as roleCan, Permission } from '@/lib/permissions';
+
+// The signed-in user, their profile and permission checks, all read from
+// the profile `useAuthStore` keeps loaded.
+export function useCurrentUser() {
+  const user = useAuthStore((state) => state.user);
+  const profile = useAuthStore((state) => state.profile);
+  const profileLoading = useAuthStore((state) => state.profileLoading);
+  const role = profile?.role ?? null;
+
+  const can = useCallback(
+    (permission: Permission) => roleCan(role, permission),
+    [role]
+  );
+
+  return {
+    user,
+    profile,
+    role,
+    verified: Boolean(profile?.verified),
+    loading: profileLoading,
+    can,
+  };
+}
@@ -0,0 +1,83 @@
+import type { Project, Task } from "@/store/projectStore";
+
+// A column of the task board. The last column of a board is always the
+// done column: moving a card there completes the task.
+export interface BoardColumn {
+  id: string;
+  label: string;
+}
+
+export const DEFAULT_BOARD_COLUMNS: BoardColumn[] = [
+  { id: "todo", label: "To Do" },
+  { id: "in-progress", label: "In Progress" },
+  { id: "in-review", label: "In Review" },
+  { id: "done", label: "Done" },
+];
+
+export const UNASSIGNED_LANE = "unassigned";
+
+export interface Swimlane {
+  id: string;
+  label: string;
+  tasks: Task[];
+}
+
+export const getBoardColumns = (project: Pick<Project, "boardColumns">) =>
+  project.boardColumns?.length ? project.boardColumns : DEFAULT_BOARD_COLUMNS;
+
+export const getDoneColumnId = (columns: BoardColumn[]) => columns[columns.length - 1].id;
+
+// Completed tasks are always in the done column, whatever their status says,
+// so ticking a task off elsewhere moves its card too. Tasks without a status,
+// or with one from a column that was removed, start in the first column.
+export const getTaskColumnId = (task: Task, columns: BoardColumn[]) => {
+  const doneId = getDoneColumnId(columns);
+  if (task.completed) return doneId;
+  return columns.some((column) => column.id === task.status && column.id !== doneId)
+    ? task.status!
+    : columns[0].id;
+};
+
+export const hasOpenSubtasks = (task: Task) => (task.children || []).some((child) => !child.completed);
+
+// Returns why the card can't go to that column, or null if it can
+export const getMoveError = (task: Task, columnId: string, columns: BoardColumn[]) => {
+  if (!columns.some((column) => column.id === columnId)) return "That column no longer exists";
+  if (columnId === getDoneColumnId(columns) && hasOpenSubtasks(task)) {
+    return "Cannot complete task - some subtasks are still pending";
+  }
+  return null;
+};
+
+// One lane per assignee, ordered by name, with unassigned tasks last. A task
+// shared by several people shows up in each of their lanes.
+export const getSwimlanes = (tasks: Task[]): Swimlane[] => {
+  const lanes = new Map<string, Swimlane>();
+  const unassigned: Task[] = [];
+
+  tasks.forEach((task) => {
+    if (!task.assignedTo?.length) {
+      unassigned.push(task);
+      return;
+    }
+    task.assignedTo.forEach((user) => {
+      const lane = lanes.get(user.id) ?? { id: user.id, label: user.fullName || user.email, tasks: [] };
+      lane.tasks.push(task);
+      lanes.set(user.id, lane);
+    });
+  });
+
+  return [
+    ...[...lanes.values()].sort((a, b) => a.label.localeCompare(b.label)),
+    ...(unassigned.length ? [{ id: UNASSIGNED_LANE, label: "Unassigned", tasks: unassigned }] : []),
+  ];
+};
+
+// Returns a message for the first problem, or null if the columns are usable
+export const validateBoardColumns = (columns: BoardColumn[]) => {
+  if (columns.length < 2) return "A board needs at least two columns";
+  const labels = columns.map((column) => column.label.trim().toLowerCase());
+  if (labels.some((label) => !label)) return "Every column needs a name";
+  if (new Set(labels).size !== labels.length) return "Column names must be different";
+  return null;
+};
@@ -0,0 +1,107 @@
+import type { Task, TimeEntry } from "@/store/projectStore";
+import { roundCurrency } from "./invoicing";
+
+// Tasks are flagged once logged hours pass this share of the estimate,
+// unless the costing settings say otherwise.
+export const DEFAULT_OVERRUN_THRESHOLD = 80;
+
+// Internal cost of an hour of each user's time, by user id
+export type UserRates = Record<string, number>;
+
+export interface CostSummary {
+  estimatedHours: number;
+  estimatedCost: number;
+  loggedHours: number;
+  actualCost: number;
+  // Logged by users who have no rate yet, so missing from actualCost
+  unratedHours: number;
+}
+
+export interface TaskCost extends CostSummary {
+  task: Task;
+  // Logged hours as a percentage of the estimate; null without an estimate
+  burn: number | null;
+  overrun: boolean;
+  children: TaskCost[];
+}
+
+const EMPTY_SUMMARY: CostSummary = {
+  estimatedHours: 0,
+  estimatedCost: 0,
+  loggedHours: 0,
+  actualCost: 0,
+  unratedHours: 0,
+};
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+// Running timers have no duration yet and are left out until stopped
+export const getEntryHours = (entry: TimeEntry) => {
+  if (typeof entry.duration === "number") return entry.duration / 60;
+  if (!entry.endTime) return 0;
+  return Math.max(0, new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime()) / 3600000;
+};
+
+const addSummaries = (a: CostSummary, b: CostSummary): CostSummary => ({
+  estimatedHours: a.estimatedHours + b.estimatedHours,
+  estimatedCost: a.estimatedCost + b.estimatedCost,
+  loggedHours: a.loggedHours + b.loggedHours,
+  actualCost: a.actualCost + b.actualCost,
+  unratedHours: a.unratedHours + b.unratedHours,
+});
+
+const roundSummary = (summary: CostSummary): CostSummary => ({
+  estimatedHours: roundHours(summary.estimatedHours),
+  estimatedCost: roundCurrency(summary.estimatedCost),
+  loggedHours: roundHours(summary.loggedHours),
+  actualCost: roundCurrency(summary.actualCost),
+  unratedHours: roundHours(summary.unratedHours),
+});
+
+// The task's own estimate and time, without its subtasks
+const getOwnCost = (task: Task, rates: UserRates): CostSummary =>
+  (task.timeEntries || []).reduce(
+    (summary, entry) => {
+      const hours = getEntryHours(entry);
+      const rate = rates[entry.userId];
+      return {
+        ...summary,
+        loggedHours: summary.loggedHours + hours,
+        actualCost: summary.actualCost + (rate === undefined ? 0 : hours * rate),
+        unratedHours: summary.unratedHours + (rate === undefined ? hours : 0),
+      };
+    },
+    {
+      ...EMPTY_SUMMARY,
+      estimatedHours: task.hours || 0,
+      estimatedCost: (task.hours || 0) * (task.costPerHour || 0),
+    }
+  );
+
+export const getBurn = (summary: CostSummary) =>
+  summary.estimatedHours > 0
+    ? Math.round((summary.loggedHours / summary.estimatedHours) * 100)
+    : null;
+
+export const isOverrun = (summary: CostSummary, threshold: number) =>
+  summary.estimatedHours > 0 && summary.loggedHours > (summary.estimatedHours * threshold) / 100;
+
+// Rolls a task's estimate and logged time up through its nested children
+export const getTaskCost = (task: Task, rates: UserRates, threshold = DEFAULT_OVERRUN_THRESHOLD): TaskCost => {
+  const children = (task.children || []).map((child) => getTaskCost(child, rates, threshold));
+  const summary = roundSummary(children.reduce(addSummaries, getOwnCost(task, rates)));
+  return {
+    ...summary,
+    task,
+    burn: getBurn(summary),
+    overrun: isOverrun(summary, threshold),
+    children,
+  };
+};
+
+export const summariseCosts = (costs: TaskCost[]): CostSummary =>
+  roundSummary(costs.reduce<CostSummary>(addSummaries, EMPTY_SUMMARY));
+
+// Every flagged task at any depth, in tree order
+export const findOverruns = (costs: TaskCost[]): TaskCost[] =>
+  costs.flatMap((cost) => [...(cost.overrun ? [cost] : []), ...findOverruns(cost.children)]);
@@ -0,0 +1,53 @@
+import { collection, doc, getDocs, runTransaction, Transaction } from "firebase/firestore";
+import { db } from "./firebase";
+import {
+  NUMBERING_FORMATS,
+  NumberedRecord,
+  RECORD_COLLECTIONS,
+  formatRecordNumber,
+  getCounterId,
+  isRecordNumber,
+} from "./numbering";
+
+// Reads and bumps the counter inside the caller's transaction, so two
+// records created at the same moment can never share a number. Callers must
+// do their own reads first; Firestore wants every read before any write.
+export const assignRecordNumber = async (
+  transaction: Transaction,
+  record: NumberedRecord,
+  date = new Date()
+) => {
+  const format = NUMBERING_FORMATS[record];
+  const year = date.getFullYear();
+  const counterRef = doc(db, "counters", getCounterId(record, format, year));
+  const counterSnap = await transaction.get(counterRef);
+  const sequence = ((counterSnap.data()?.last as number) || 0) + 1;
+  transaction.set(counterRef, { last: sequence });
+  return formatRecordNumber(format, year, sequence);
+};
+
+// Numbers records created before numbering existed, oldest first, and keeps
+// their old id as `legacyId` for search. Already numbered records are
+// skipped, so it is safe to run again.
+export const numberExistingRecords = async (record: NumberedRecord) => {
+  const format = NUMBERING_FORMATS[record];
+  const snapshot = await getDocs(collection(db, RECORD_COLLECTIONS[record]));
+  const pending = snapshot.docs
+    .filter((recordDoc) => !isRecordNumber(format, recordDoc.data().__id || ""))
+    .sort((a, b) => (a.data().createdAt || "").localeCompare(b.data().createdAt || ""));
+
+  let numbered = 0;
+  for (const recordDoc of pending) {
+    const assigned = await runTransaction(db, async (transaction) => {
+      const current = (await transaction.get(recordDoc.ref)).data();
+      if (!current || isRecordNumber(format, current.__id || "")) return false;
+
+      const createdAt = current.createdAt ? new Date(current.createdAt) : new Date();
+      const number = await assignRecordNumber(transaction, record, createdAt);
+      transaction.update(recordDoc.ref, { __id: number, legacyId: current.__id || null });
+      return true;
+    });
+    if (assigned) numbered++;
+  }
+  return numbered;
+};
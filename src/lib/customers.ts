@@ -0,0 +1,57 @@
+import type { Customer, CustomerAddress, CustomerContact } from "../store/customerStore";
+
+// 2 digit state code, PAN, entity number, 'Z', checksum character
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const EMPTY_ADDRESS: CustomerAddress = {
+  line1: "",
+  line2: "",
+  city: "",
+  state: "",
+  pincode: "",
+};
+
+export const normaliseGstin = (gstin: string) => gstin.replace(/\s/g, "").toUpperCase();
+
+// A blank GSTIN is allowed for unregistered customers
+export const isValidGstin = (gstin: string) => {
+  const value = normaliseGstin(gstin);
+  return value === "" || GSTIN_PATTERN.test(value);
+};
+
+export const formatAddress = (address: CustomerAddress) => {
+  const cityLine = [address.city, address.state].filter(Boolean).join(", ");
+  return [
+    address.line1,
+    address.line2,
+    [cityLine, address.pincode].filter(Boolean).join(" - "),
+  ]
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(", ");
+};
+
+export const getPrimaryContact = (customer: Pick<Customer, "contacts">): CustomerContact | null =>
+  customer.contacts.find((contact) => contact.isPrimary) || customer.contacts[0] || null;
+
+// Enquiries, projects, quotes and invoices keep a copy of the customer as it
+// was, so later edits to the master record do not rewrite history
+export const toCustomerSnapshot = (customer: Customer) => ({
+  name: customer.name,
+  phone: getPrimaryContact(customer)?.phone || "",
+  address: formatAddress(customer.billingAddress),
+});
+
+// Matches the company name, GSTIN or any contact's name, email or phone
+export const searchCustomers = (customers: Customer[], term: string) => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return customers;
+
+  return customers.filter((customer) =>
+    [
+      customer.name,
+      customer.gstin,
+      ...customer.contacts.flatMap((contact) => [contact.name, contact.email, contact.phone]),
+    ].some((value) => value?.toLowerCase().includes(needle))
+  );
+};
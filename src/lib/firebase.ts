@@ -1,6 +1,6 @@
-import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { initializeApp, getApps } from 'firebase/app';
+import { Auth, connectAuthEmulator, getAuth, inMemoryPersistence, setPersistence } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -11,6 +11,34 @@ const firebaseConfig = {
   appId: import.meta.env.VITE_FIREBASE_APP_ID
 };
 
+// Set VITE_USE_FIREBASE_EMULATOR=true to run against the local emulators
+// started by `firebase emulators:start` (ports from firebase.json)
+const useEmulator = import.meta.env.VITE_USE_FIREBASE_EMULATOR === 'true';
+const emulatorHost = import.meta.env.VITE_FIREBASE_EMULATOR_HOST || '127.0.0.1';
+
+const connectAuth = (authInstance: Auth) => {
+  if (useEmulator) {
+    connectAuthEmulator(authInstance, `http://${emulatorHost}:9099`, { disableWarnings: true });
+  }
+  return authInstance;
+};
+
 const app = initializeApp(firebaseConfig);
-export const auth = getAuth(app);
-export const db = getFirestore(app);
\ No newline at end of file
+export const auth = connectAuth(getAuth(app));
+export const db = getFirestore(app);
+
+if (useEmulator) {
+  connectFirestoreEmulator(db, emulatorHost, 8080);
+}
+
+// Creating an account signs the new user in on whichever Auth instance made
+// it. Accounts created on someone else's behalf go through this separate app
+// so the current user's session is left alone.
+export const getProvisioningAuth = async () => {
+  const existingApp = getApps().find(existing => existing.name === 'provisioning');
+  const provisioningAuth = existingApp
+    ? getAuth(existingApp)
+    : connectAuth(getAuth(initializeApp(firebaseConfig, 'provisioning')));
+  await setPersistence(provisioningAuth, inMemoryPersistence);
+  return provisioningAuth;
+};
@@ -0,0 +1,149 @@
+import type { PaymentMilestone, Task } from "@/store/projectStore";
+import type {
+  Invoice,
+  InvoiceLine,
+  InvoiceStatus,
+  SupplyType,
+  TaxLine,
+} from "@/store/invoiceStore";
+import { flattenTaskTree } from "./taskTree";
+
+export const DEFAULT_GST_RATE = 18;
+
+// Printed on every invoice; a snapshot is stored with each issued invoice so
+// later changes here never alter an invoice that has already gone out.
+export const SELLER = {
+  name: "ShipTech-ICON",
+  address:
+    "Center for Innovation Technology Transfer & Industrial Collaboration, CITTIC, CUSAT, Kochi, Kerala 682022",
+  gstin: import.meta.env.VITE_COMPANY_GSTIN || "",
+};
+
+export const roundCurrency = (value: number) =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const formatCurrency = (value: number) =>
+  value.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+// Indian financial years run April to March, e.g. "2026-27".
+export const getFinancialYear = (date: Date) => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String(startYear + 1).slice(-2)}`;
+};
+
+export const formatInvoiceNumber = (financialYear: string, sequence: number) =>
+  `INV/${financialYear}/${String(sequence).padStart(4, "0")}`;
+
+// Every task (at any depth) with hours and a rate becomes a line, in the
+// order the task tree shows them.
+export const buildInvoiceLines = (tasks: Task[]): InvoiceLine[] =>
+  flattenTaskTree(tasks)
+    .filter((task) => (task.hours || 0) > 0 && (task.costPerHour || 0) > 0)
+    .map((task) => ({
+      id: task.id,
+      description: task.name,
+      hours: task.hours || 0,
+      rate: task.costPerHour || 0,
+      amount: roundCurrency((task.hours || 0) * (task.costPerHour || 0)),
+    }));
+
+// The contract value milestones are a share of: every billable task.
+export const getContractValue = (tasks: Task[]) =>
+  roundCurrency(buildInvoiceLines(tasks).reduce((sum, line) => sum + line.amount, 0));
+
+export const getMilestoneAmount = (tasks: Task[], milestone: PaymentMilestone) =>
+  roundCurrency((getContractValue(tasks) * milestone.percentage) / 100);
+
+export const buildMilestoneLine = (
+  tasks: Task[],
+  milestone: PaymentMilestone
+): InvoiceLine => ({
+  id: milestone.id,
+  description: `${milestone.name} (${milestone.percentage}% of contract value)`,
+  amount: getMilestoneAmount(tasks, milestone),
+});
+
+// A milestone is ready to bill once every top-level task it covers is done.
+export const isMilestoneComplete = (tasks: Task[], milestone: PaymentMilestone) =>
+  milestone.taskIds.length > 0 &&
+  milestone.taskIds.every((taskId) => tasks.find((task) => task.id === taskId)?.completed);
+
+// Intra-state supplies split the rate equally between CGST and SGST;
+// inter-state supplies carry the full rate as IGST.
+export const buildTaxLines = (
+  subtotal: number,
+  gstRate: number,
+  supplyType: SupplyType
+): TaxLine[] => {
+  if (gstRate <= 0) return [];
+  if (supplyType === "inter") {
+    return [{ label: "IGST", rate: gstRate, amount: roundCurrency((subtotal * gstRate) / 100) }];
+  }
+  const halfRate = gstRate / 2;
+  const halfAmount = roundCurrency((subtotal * halfRate) / 100);
+  return [
+    { label: "CGST", rate: halfRate, amount: halfAmount },
+    { label: "SGST", rate: halfRate, amount: halfAmount },
+  ];
+};
+
+export const calculateInvoiceTotals = (
+  lines: InvoiceLine[],
+  gstRate: number,
+  supplyType: SupplyType
+) => {
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+  const taxes = buildTaxLines(subtotal, gstRate, supplyType);
+  const taxTotal = roundCurrency(taxes.reduce((sum, tax) => sum + tax.amount, 0));
+  return { subtotal, taxes, taxTotal, total: roundCurrency(subtotal + taxTotal) };
+};
+
+export const getAmountDue = (invoice: Invoice) =>
+  invoice.status === "draft" ? 0 : roundCurrency(invoice.total - (invoice.amountPaid || 0));
+
+// Issued invoices that are not fully paid become overdue the day after they
+// fall due.
+export const getInvoiceStatus = (invoice: Invoice, today = new Date()): InvoiceStatus => {
+  if (invoice.status === "draft" || invoice.status === "paid") return invoice.status;
+  const endOfDueDate = new Date(`${invoice.dueDate}T23:59:59.999`);
+  return endOfDueDate < today ? "overdue" : invoice.status;
+};
+
+export interface CustomerReceivable {
+  customer: string;
+  outstanding: number;
+  overdue: number;
+  overdueCount: number;
+  invoiceCount: number;
+}
+
+// Unpaid balances on issued invoices, grouped by customer, largest first.
+export const summariseReceivables = (
+  invoices: Invoice[],
+  today = new Date()
+): CustomerReceivable[] => {
+  const byCustomer = new Map<string, CustomerReceivable>();
+  invoices.forEach((invoice) => {
+    const due = getAmountDue(invoice);
+    if (due <= 0) return;
+    const customer = invoice.customer.name || "Unknown customer";
+    const entry = byCustomer.get(customer) || {
+      customer,
+      outstanding: 0,
+      overdue: 0,
+      overdueCount: 0,
+      invoiceCount: 0,
+    };
+    entry.outstanding = roundCurrency(entry.outstanding + due);
+    entry.invoiceCount += 1;
+    if (getInvoiceStatus(invoice, today) === "overdue") {
+      entry.overdue = roundCurrency(entry.overdue + due);
+      entry.overdueCount += 1;
+    }
+    byCustomer.set(customer, entry);
+  });
+  return [...byCustomer.values()].sort((a, b) => b.outstanding - a.outstanding);
+};
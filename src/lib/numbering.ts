@@ -0,0 +1,57 @@
+// Human-readable numbers for projects and enquiries, e.g. STI-P-2026-0042.
+export type NumberedRecord = "project" | "enquiry";
+
+// `{year}` and `{seq}` are filled in when a number is assigned. A template
+// without `{year}` keeps one sequence running across years.
+export interface NumberingFormat {
+  template: string;
+  padding: number;
+}
+
+const NUMBER_PREFIX = import.meta.env.VITE_RECORD_NUMBER_PREFIX || "STI";
+
+export const NUMBERING_FORMATS: Record<NumberedRecord, NumberingFormat> = {
+  project: { template: `${NUMBER_PREFIX}-P-{year}-{seq}`, padding: 4 },
+  enquiry: { template: `${NUMBER_PREFIX}-E-{year}-{seq}`, padding: 4 },
+};
+
+export const RECORD_COLLECTIONS: Record<NumberedRecord, string> = {
+  project: "projects",
+  enquiry: "enquiries",
+};
+
+export const formatRecordNumber = (format: NumberingFormat, year: number, sequence: number) =>
+  format.template
+    .replace("{year}", String(year))
+    .replace("{seq}", String(sequence).padStart(format.padding, "0"));
+
+// Counter document (in `counters`) holding the last sequence handed out
+export const getCounterId = (record: NumberedRecord, format: NumberingFormat, year: number) =>
+  format.template.includes("{year}")
+    ? `${RECORD_COLLECTIONS[record]}-${year}`
+    : RECORD_COLLECTIONS[record];
+
+export const isRecordNumber = (format: NumberingFormat, value: string) => {
+  const pattern = format.template
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace("\\{year\\}", "\\d{4}")
+    .replace("\\{seq\\}", "\\d+");
+  return new RegExp(`^${pattern}$`).test(value);
+};
+
+interface SearchableRecord {
+  __id: string;
+  legacyId?: string | null;
+  name: string;
+  customer: { name: string };
+}
+
+// Records stay findable by the id they had before they were numbered
+export const matchesRecordSearch = (record: SearchableRecord, term: string) => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return true;
+
+  return [record.__id, record.legacyId, record.name, record.customer?.name].some((value) =>
+    value?.toLowerCase().includes(needle)
+  );
+};
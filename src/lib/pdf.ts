@@ -0,0 +1,178 @@
+import { Font, StyleSheet, pdf } from "@react-pdf/renderer";
+
+Font.register({
+  family: "Poppins",
+  fonts: [
+    {
+      src: "/fonts/Poppins-Regular.ttf",
+    },
+    {
+      src: "/fonts/Poppins-Bold.ttf",
+      fontWeight: "bold",
+    },
+    {
+      src: "/fonts/Poppins-Medium.ttf",
+      fontWeight: "medium",
+    },
+  ],
+});
+
+// Shared by every generated document (invoices, quotations)
+export const pdfStyles = StyleSheet.create({
+  page: {
+    padding: 30,
+    fontSize: 12,
+    fontFamily: "Poppins",
+    backgroundColor: "#F8FBFC",
+  },
+  header: {
+    display: "flex",
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+  },
+  logoSection: {
+    display: "flex",
+    flexDirection: "row",
+    gap: 10,
+    alignItems: "flex-start",
+  },
+  logoInfo: {
+    display: "flex",
+    flexDirection: "column",
+    alignItems: "flex-start",
+    maxWidth: 260,
+  },
+  logo: {
+    width: 40,
+    height: 40,
+  },
+  businessAddress: {
+    textAlign: "right",
+    fontSize: 10,
+    color: "#777",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#2562EF",
+  },
+  subtitle: {
+    fontSize: 10,
+    color: "#777",
+  },
+  invoiceBody: {
+    backgroundColor: "#FFFFFF",
+    paddingVertical: 30,
+    paddingHorizontal: 20,
+    border: 1,
+    borderColor: "#F3F4F6",
+    borderRadius: 20,
+    marginVertical: 20,
+  },
+  invoiceInfo: {
+    display: "flex",
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 10,
+  },
+  infoColumn: {
+    maxWidth: "34%",
+  },
+  boldText: {
+    color: "#777",
+    fontSize: 10,
+    fontWeight: "medium",
+  },
+  grayText: {
+    fontSize: 10,
+    color: "#777",
+  },
+  valueText: {
+    fontSize: 10,
+    fontWeight: "medium",
+  },
+  amountText: {
+    fontSize: 16,
+    color: "#2562EF",
+    fontWeight: "bold",
+  },
+  table: {
+    width: "100%",
+    marginTop: 15,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    backgroundColor: "#f3f3f3",
+    padding: 5,
+    fontSize: 10,
+    fontWeight: "bold",
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottom: "1 solid #ddd",
+    paddingVertical: 5,
+    fontSize: 10,
+  },
+  descriptionColumn: {
+    width: "46%",
+    textAlign: "left",
+    padding: 5,
+  },
+  column: {
+    width: "18%",
+    textAlign: "right",
+    padding: 5,
+  },
+  totalSection: {
+    marginTop: 15,
+    display: "flex",
+    flexDirection: "row",
+    justifyContent: "flex-end",
+  },
+  totalBox: {
+    width: "45%",
+    padding: 10,
+    border: "1 solid #ddd",
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    fontSize: 10,
+    marginBottom: 3,
+  },
+  grandTotalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 5,
+  },
+  footer: {
+    marginTop: 20,
+    fontSize: 10,
+    textAlign: "center",
+    color: "#777",
+  },
+});
+
+export const formatPdfDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+
+export const downloadPdf = async (
+  element: Parameters<typeof pdf>[0],
+  fileName: string
+) => {
+  const blob = await pdf(element).toBlob();
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,90 @@
+// Single source of truth for what each role may do. Adding a role (e.g. a
+// project manager or accounts user) means adding it here and to
+// rolePermissions() in firestore.rules; components only ever ask
+// `can(permission)`.
+export const ROLES = ['admin', 'member', 'customer'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | 'dashboard.access'
+  | 'dashboard.overview'
+  | 'customerPortal.access'
+  | 'user.manage'
+  | 'project.view'
+  | 'project.create'
+  | 'project.edit'
+  | 'project.delete'
+  | 'task.manage'
+  | 'task.completeAny'
+  | 'customer.view'
+  | 'customer.manage'
+  | 'customer.createAccount'
+  | 'invoice.download'
+  | 'invoice.issue'
+  | 'invoice.recordPayment'
+  | 'cost.view'
+  | 'cost.manage'
+  | 'enquiry.view'
+  | 'enquiry.create'
+  | 'enquiry.manage'
+  | 'comment.attach'
+  | 'comment.viewAllAttachments'
+  | 'leave.approve'
+  | 'timesheet.approve'
+  | 'timer.manage'
+  | 'report.view'
+  | 'template.manage'
+  | 'attendance.viewAll';
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: [
+    'dashboard.access',
+    'dashboard.overview',
+    'user.manage',
+    'project.view',
+    'project.create',
+    'project.edit',
+    'project.delete',
+    'task.manage',
+    'task.completeAny',
+    'customer.view',
+    'customer.manage',
+    'customer.createAccount',
+    'invoice.download',
+    'invoice.issue',
+    'invoice.recordPayment',
+    'cost.view',
+    'cost.manage',
+    'enquiry.view',
+    'enquiry.create',
+    'enquiry.manage',
+    'comment.attach',
+    'comment.viewAllAttachments',
+    'leave.approve',
+    'timesheet.approve',
+    'timer.manage',
+    'report.view',
+    'template.manage',
+    'attendance.viewAll',
+  ],
+  member: [
+    'dashboard.access',
+    'project.view',
+    'customer.view',
+    'invoice.download',
+    'enquiry.view',
+    'enquiry.create',
+    'comment.attach',
+    'comment.viewAllAttachments',
+  ],
+  customer: [
+    'customerPortal.access',
+  ],
+};
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+
+export const can = (role: string | null | undefined, permission: Permission) =>
+  isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
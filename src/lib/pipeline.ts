@@ -0,0 +1,65 @@
+import type { Deliverable, Enquiry, EnquiryStatus } from "@/store/enquiryStore";
+import type { ChecklistItem, ProjectBaseline } from "@/store/projectStore";
+import { roundCurrency } from "./invoicing";
+import { toDateInput } from "./utils";
+
+export const ENQUIRY_STATUSES: { value: EnquiryStatus; label: string; color: string }[] = [
+  { value: "new", label: "New", color: "bg-gray-100 text-gray-700" },
+  { value: "quoted", label: "Quoted", color: "bg-blue-100 text-blue-700" },
+  { value: "negotiating", label: "Negotiating", color: "bg-yellow-100 text-yellow-700" },
+  { value: "won", label: "Won", color: "bg-green-100 text-green-700" },
+  { value: "lost", label: "Lost", color: "bg-red-100 text-red-700" },
+];
+
+export const isOpenEnquiry = (enquiry: Pick<Enquiry, "status">) =>
+  enquiry.status !== "won" && enquiry.status !== "lost";
+
+export const getExpectedValue = (deliverables: Deliverable[]) =>
+  roundCurrency(deliverables.reduce((sum, deliverable) => sum + (deliverable.total || 0), 0));
+
+// Due on the follow-up date and every day after; follow-ups only matter
+// while the enquiry is still open.
+export const isFollowUpDue = (enquiry: Enquiry, today = new Date()) =>
+  isOpenEnquiry(enquiry) && !!enquiry.followUpDate && enquiry.followUpDate <= toDateInput(today);
+
+// Conversion rate counts closed enquiries only; open ones may still go
+// either way.
+export const getPipelineStats = (enquiries: Enquiry[]) => {
+  const open = enquiries.filter(isOpenEnquiry);
+  const won = enquiries.filter((enquiry) => enquiry.status === "won").length;
+  const lost = enquiries.filter((enquiry) => enquiry.status === "lost").length;
+  return {
+    openCount: open.length,
+    openValue: roundCurrency(
+      open.reduce((sum, enquiry) => sum + getExpectedValue(enquiry.deliverables), 0)
+    ),
+    won,
+    lost,
+    conversionRate: won + lost > 0 ? Math.round((won / (won + lost)) * 100) : null,
+  };
+};
+
+// Used when an enquiry is won: every customer requirement becomes an open
+// checklist item on the project.
+export const buildChecklist = (requirements: Enquiry["requirements"]): ChecklistItem[] =>
+  requirements
+    .filter((requirement) => requirement.text.trim())
+    .map((requirement) => ({ id: requirement.id, text: requirement.text.trim(), done: false }));
+
+// The deliverables as priced in the enquiry become the project's baseline
+// budget.
+export const buildBaseline = (deliverables: Deliverable[], capturedAt: string): ProjectBaseline => {
+  const lines = deliverables.map((deliverable) => ({
+    id: deliverable.id,
+    name: deliverable.name,
+    description: deliverable.description || "",
+    hours: deliverable.hours || 0,
+    costPerHour: deliverable.costPerHour || 0,
+    total: roundCurrency(deliverable.total || 0),
+  }));
+  return {
+    lines,
+    total: roundCurrency(lines.reduce((sum, line) => sum + line.total, 0)),
+    capturedAt,
+  };
+};
@@ -0,0 +1,47 @@
+import type { Deliverable } from "@/store/enquiryStore";
+import type { InvoiceLine } from "@/store/invoiceStore";
+import { roundCurrency } from "./invoicing";
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
+
+export const DEFAULT_PAYMENT_TERMS =
+  "50% advance on acceptance of this quotation and the balance on delivery. Invoices are payable within 15 days.";
+
+export const DEFAULT_EXCLUSIONS = [
+  "Classification society and statutory approval fees",
+  "Travel and stay for site visits outside Kochi",
+  "Work outside the scope described above",
+];
+
+// One number per enquiry, bumped on every revision, e.g. "QT/e-123456/R2".
+export const formatQuoteNumber = (enquiryRef: string, revision: number) =>
+  `QT/${enquiryRef}/R${revision}`;
+
+// Priced deliverables become quote lines. The amount is the deliverable's
+// total, as in the pipeline's expected value; hours and rate are only shown
+// when they add up to it, since totals can be edited by hand or come from a
+// template's averaged rate.
+export const buildQuoteLines = (deliverables: Deliverable[]): InvoiceLine[] =>
+  deliverables
+    .map((deliverable) => {
+      const hours = deliverable.hours || 0;
+      const rate = deliverable.costPerHour || 0;
+      const amount = roundCurrency(deliverable.total || 0);
+      const priced = hours > 0 && rate > 0 && roundCurrency(hours * rate) === amount;
+      return {
+        id: deliverable.id,
+        description: deliverable.description
+          ? `${deliverable.name} - ${deliverable.description}`
+          : deliverable.name,
+        ...(priced ? { hours, rate } : {}),
+        amount,
+      };
+    })
+    .filter((line) => line.amount > 0);
+
+// Free-text lists (exclusions) are entered one item per line.
+export const parseListInput = (value: string) =>
+  value
+    .split("\n")
+    .map((item) => item.trim())
+    .filter(Boolean);
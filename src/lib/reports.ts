@@ -0,0 +1,175 @@
+import type { Task } from "@/store/projectStore";
+import { getEntryDate, getWeekStart } from "./timesheets";
+import { getEntryHours } from "./costs";
+import { getTaskPathIds } from "./taskTree";
+
+// A day checked in on the attendance page counts as this many working hours
+export const HOURS_PER_WORKING_DAY = 8;
+
+// One stopped time entry with everything the reports group by
+export interface ReportEntry {
+  userId: string;
+  userName: string;
+  projectId: string;
+  projectName: string;
+  taskId: string;
+  taskName: string;
+  // The root task the entry was logged under, at any depth
+  topTaskId: string;
+  topTaskName: string;
+  // yyyy-mm-dd the entry started on
+  date: string;
+  minutes: number;
+}
+
+export type ReportGrouping = "user" | "project" | "task" | "week" | "month";
+
+export interface ReportFilters {
+  // Inclusive yyyy-mm-dd range
+  from: string;
+  to: string;
+  userId?: string;
+  projectId?: string;
+}
+
+export interface ReportRow {
+  key: string;
+  label: string;
+  minutes: number;
+  // Minutes per user, so a row can be broken down by person
+  byUser: Record<string, number>;
+}
+
+export interface UtilisationRow {
+  userId: string;
+  userName: string;
+  minutes: number;
+  workingDays: number;
+  // Logged time as a percentage of the working days; null without any
+  utilisation: number | null;
+}
+
+// Attendance documents are one per day with a map of user id to check-in
+export interface AttendanceDay {
+  date: string;
+  attendance: Record<string, string>;
+}
+
+// Flattens a project's (flat) task list into report entries. Running timers
+// are left out until stopped.
+export const collectReportEntries = (
+  project: { id: string; name: string },
+  tasks: Task[]
+): ReportEntry[] => {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+
+  return tasks.flatMap((task) => {
+    const topTask = byId.get(getTaskPathIds(tasks, task.id)[0]) ?? task;
+    return (task.timeEntries || [])
+      .filter((entry) => entry.endTime)
+      .map((entry) => ({
+        userId: entry.userId,
+        userName: entry.userName,
+        projectId: project.id,
+        projectName: project.name,
+        taskId: task.id,
+        taskName: task.name,
+        topTaskId: topTask.id,
+        topTaskName: topTask.name,
+        date: getEntryDate(entry),
+        minutes: Math.round(getEntryHours(entry) * 60),
+      }));
+  });
+};
+
+export const filterReportEntries = (entries: ReportEntry[], filters: ReportFilters) =>
+  entries.filter(
+    (entry) =>
+      entry.date >= filters.from &&
+      entry.date <= filters.to &&
+      (!filters.userId || entry.userId === filters.userId) &&
+      (!filters.projectId || entry.projectId === filters.projectId)
+  );
+
+const getGroup = (entry: ReportEntry, grouping: ReportGrouping) => {
+  switch (grouping) {
+    case "user":
+      return { key: entry.userId, label: entry.userName };
+    case "project":
+      return { key: entry.projectId, label: entry.projectName };
+    case "task":
+      return {
+        key: `${entry.projectId}/${entry.topTaskId}`,
+        label: `${entry.projectName} / ${entry.topTaskName}`,
+      };
+    case "week": {
+      const weekStart = getWeekStart(new Date(`${entry.date}T00:00:00`));
+      return { key: weekStart, label: `Week of ${weekStart}` };
+    }
+    case "month":
+      return { key: entry.date.slice(0, 7), label: entry.date.slice(0, 7) };
+  }
+};
+
+// Weeks and months come out in date order, everything else by name
+export const groupReportEntries = (entries: ReportEntry[], grouping: ReportGrouping): ReportRow[] => {
+  const rows = new Map<string, ReportRow>();
+
+  entries.forEach((entry) => {
+    const { key, label } = getGroup(entry, grouping);
+    const row = rows.get(key) ?? { key, label, minutes: 0, byUser: {} };
+    row.minutes += entry.minutes;
+    row.byUser[entry.userId] = (row.byUser[entry.userId] ?? 0) + entry.minutes;
+    rows.set(key, row);
+  });
+
+  const chronological = grouping === "week" || grouping === "month";
+  return [...rows.values()].sort((a, b) =>
+    chronological ? a.key.localeCompare(b.key) : a.label.localeCompare(b.label)
+  );
+};
+
+export const countWorkingDays = (days: AttendanceDay[], userId: string, from: string, to: string) =>
+  days.filter((day) => day.date >= from && day.date <= to && day.attendance?.[userId]).length;
+
+// Everyone who logged time or checked in during the range
+export const getUtilisation = (
+  entries: ReportEntry[],
+  days: AttendanceDay[],
+  userNames: Record<string, string>,
+  filters: ReportFilters
+): UtilisationRow[] => {
+  const userIds = new Set(entries.map((entry) => entry.userId));
+  days
+    .filter((day) => day.date >= filters.from && day.date <= filters.to)
+    .forEach((day) => Object.keys(day.attendance || {}).forEach((userId) => userIds.add(userId)));
+
+  return [...userIds]
+    .filter((userId) => !filters.userId || userId === filters.userId)
+    .map((userId) => {
+      const minutes = entries
+        .filter((entry) => entry.userId === userId)
+        .reduce((total, entry) => total + entry.minutes, 0);
+      const workingDays = countWorkingDays(days, userId, filters.from, filters.to);
+      return {
+        userId,
+        userName:
+          userNames[userId] ?? entries.find((entry) => entry.userId === userId)?.userName ?? userId,
+        minutes,
+        workingDays,
+        utilisation:
+          workingDays > 0 ? Math.round((minutes / (workingDays * HOURS_PER_WORKING_DAY * 60)) * 100) : null,
+      };
+    })
+    .sort((a, b) => a.userName.localeCompare(b.userName));
+};
+
+export const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+const escapeCsvValue = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]) =>
+  rows.map((row) => row.map(escapeCsvValue).join(",")).join("\n");
@@ -0,0 +1,210 @@
+import { Task } from "@/store/projectStore";
+import { flattenTaskTree } from "./taskTree";
+
+// Estimated hours are converted to working days for scheduling.
+export const HOURS_PER_DAY = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TaskSchedule {
+  taskId: string;
+  // All values below are in days from the project start date. A parent's
+  // duration runs until the last of its subtasks finishes.
+  duration: number;
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  slack: number;
+  critical: boolean;
+  // Predecessor that determines the early start, if any
+  drivenBy: string | null;
+}
+
+export interface ScheduleWarning {
+  taskId: string;
+  // The predecessor that pushed the task back
+  drivenBy: string;
+  finishDate: Date;
+}
+
+export interface ProjectSchedule {
+  tasks: Record<string, TaskSchedule>;
+  criticalPath: string[];
+  duration: number;
+  cycleTaskIds: string[];
+  warnings: ScheduleWarning[];
+}
+
+const EPSILON = 1e-6;
+
+export const getTaskDuration = (task: Task) =>
+  Math.max(0, (task.hours || 0) / HOURS_PER_DAY);
+
+export const offsetToDate = (startDate: string, offsetDays: number) =>
+  new Date(new Date(startDate).getTime() + offsetDays * DAY_MS);
+
+export const dateToOffset = (startDate: string, date: string) =>
+  (new Date(date).getTime() - new Date(startDate).getTime()) / DAY_MS;
+
+// Dependencies pointing at deleted tasks are ignored.
+const getPredecessors = (task: Task, taskIds: Set<string>) =>
+  (task.dependencies || []).filter(
+    (dependency) => dependency.taskId !== task.id && taskIds.has(dependency.taskId)
+  );
+
+// True when making `predecessorId` a predecessor of `taskId` would close a
+// loop, i.e. `taskId` is already (transitively) upstream of `predecessorId`.
+// Subtasks count as upstream of their parent, which finishes after them.
+export const wouldCreateCycle = (
+  tasks: Task[],
+  taskId: string,
+  predecessorId: string
+) => {
+  if (taskId === predecessorId) return true;
+  const byId = new Map(flattenTaskTree(tasks).map((task) => [task.id, task]));
+  const visited = new Set<string>();
+  const stack = [predecessorId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    (byId.get(current)?.dependencies || []).forEach((dependency) =>
+      stack.push(dependency.taskId)
+    );
+    (byId.get(current)?.children || []).forEach((child) => stack.push(child.id));
+  }
+
+  return false;
+};
+
+// Critical path method over every task in the tree. Each task is an activity
+// lasting its estimated hours; dependency lags are in days. Late dates are
+// measured against the latest early finish, so critical tasks have no slack.
+// A task's own start date acts as a start-no-earlier-than constraint, and a
+// parent finishes no earlier than its subtasks, so anything depending on the
+// parent waits for them.
+export const computeSchedule = (
+  taskTree: Task[],
+  projectStartDate?: string | null,
+  projectDueDate?: string | null
+): ProjectSchedule => {
+  const tasks = flattenTaskTree(taskTree);
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const taskIds = new Set(byId.keys());
+
+  // `toFinish` links a subtask to its parent's finish rather than its start
+  const successors = new Map<string, { taskId: string; lag: number; toFinish: boolean }[]>();
+  const inDegree = new Map<string, number>();
+  const addSuccessor = (predecessorId: string, taskId: string, lag: number, toFinish: boolean) => {
+    successors.set(predecessorId, [...(successors.get(predecessorId) || []), { taskId, lag, toFinish }]);
+    inDegree.set(taskId, (inDegree.get(taskId) || 0) + 1);
+  };
+  tasks.forEach((task) => inDegree.set(task.id, 0));
+  tasks.forEach((task) => {
+    getPredecessors(task, taskIds).forEach((dependency) =>
+      addSuccessor(dependency.taskId, task.id, dependency.lagDays || 0, false)
+    );
+    (task.children || []).forEach((child) => addSuccessor(child.id, task.id, 0, true));
+  });
+
+  // Kahn's algorithm; tasks never reaching in-degree 0 sit on a cycle
+  const order: string[] = [];
+  const queue = tasks.filter((task) => inDegree.get(task.id) === 0).map((task) => task.id);
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    order.push(current);
+    (successors.get(current) || []).forEach(({ taskId }) => {
+      const remaining = inDegree.get(taskId)! - 1;
+      inDegree.set(taskId, remaining);
+      if (remaining === 0) queue.push(taskId);
+    });
+  }
+  const ordered = new Set(order);
+  const cycleTaskIds = tasks.map((task) => task.id).filter((id) => !ordered.has(id));
+
+  const schedule: Record<string, TaskSchedule> = {};
+
+  order.forEach((taskId) => {
+    const task = byId.get(taskId)!;
+    // A task with its own start date cannot start before it
+    let earlyStart =
+      projectStartDate && task.startDate
+        ? Math.max(0, dateToOffset(projectStartDate, task.startDate))
+        : 0;
+    let drivenBy: string | null = null;
+    getPredecessors(task, taskIds).forEach((dependency) => {
+      const predecessor = schedule[dependency.taskId];
+      if (!predecessor) return;
+      const start = predecessor.earlyFinish + (dependency.lagDays || 0);
+      if (start > earlyStart + EPSILON) {
+        earlyStart = start;
+        drivenBy = dependency.taskId;
+      }
+    });
+    const earlyFinish = Math.max(
+      earlyStart + getTaskDuration(task),
+      ...(task.children || []).map((child) => schedule[child.id].earlyFinish)
+    );
+    schedule[taskId] = {
+      taskId,
+      duration: earlyFinish - earlyStart,
+      earlyStart,
+      earlyFinish,
+      lateStart: 0,
+      lateFinish: 0,
+      slack: 0,
+      critical: false,
+      drivenBy,
+    };
+  });
+
+  const projectDuration = Math.max(
+    0,
+    ...Object.values(schedule).map((entry) => entry.earlyFinish)
+  );
+
+  [...order].reverse().forEach((taskId) => {
+    const entry = schedule[taskId];
+    const lateFinish = Math.min(
+      projectDuration,
+      ...(successors.get(taskId) || [])
+        .filter(({ taskId: successorId }) => schedule[successorId])
+        .map(({ taskId: successorId, lag, toFinish }) =>
+          toFinish ? schedule[successorId].lateFinish : schedule[successorId].lateStart - lag
+        )
+    );
+    entry.lateFinish = lateFinish;
+    entry.lateStart = lateFinish - entry.duration;
+    entry.slack = entry.lateStart - entry.earlyStart;
+    entry.critical = Math.abs(entry.slack) < EPSILON && projectDuration > 0;
+  });
+
+  const criticalPath = order
+    .filter((taskId) => schedule[taskId].critical)
+    .sort((a, b) => schedule[a].earlyStart - schedule[b].earlyStart);
+
+  // Only tasks a dependency pushed past their own planned dates are warned
+  // about; a task already late on its own start date is not
+  const warnings: ScheduleWarning[] = [];
+  if (projectStartDate && projectDueDate) {
+    const dueTime = new Date(projectDueDate).getTime();
+    order.forEach((taskId) => {
+      const { drivenBy, earlyFinish } = schedule[taskId];
+      const finishDate = offsetToDate(projectStartDate, earlyFinish);
+      if (drivenBy && finishDate.getTime() > dueTime) {
+        warnings.push({ taskId, drivenBy, finishDate });
+      }
+    });
+  }
+
+  return {
+    tasks: schedule,
+    criticalPath,
+    duration: projectDuration,
+    cycleTaskIds,
+    warnings,
+  };
+};
@@ -0,0 +1,155 @@
+import { Task } from "@/store/projectStore";
+
+// Tasks are stored flat (one document per task, linked by parentId) and
+// assembled into the nested `children` tree the pages work with.
+export const buildTaskTree = (tasks: Task[]): Task[] => {
+  const byParent = new Map<string | null, Task[]>();
+
+  tasks.forEach((task) => {
+    const parentId = task.parentId ?? null;
+    const siblings = byParent.get(parentId) || [];
+    siblings.push(task);
+    byParent.set(parentId, siblings);
+  });
+
+  const attachChildren = (parentId: string | null): Task[] =>
+    (byParent.get(parentId) || [])
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map((task) => ({
+        ...task,
+        children: attachChildren(task.id),
+      }));
+
+  return attachChildren(null);
+};
+
+export const flattenTaskTree = (tasks: Task[]): Task[] =>
+  tasks.reduce(
+    (acc: Task[], task) => [...acc, task, ...flattenTaskTree(task.children || [])],
+    []
+  );
+
+export const findTaskById = (tasks: Task[], taskId: string): Task | null => {
+  for (const task of tasks) {
+    if (task.id === taskId) return task;
+    const found = findTaskById(task.children || [], taskId);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Returns the ids from the root down to (and including) the given task.
+export const getTaskPathIds = (tasks: Task[], taskId: string): string[] => {
+  const parentById = new Map(tasks.map((task) => [task.id, task.parentId ?? null]));
+  const ids: string[] = [];
+  let current: string | null = taskId;
+
+  while (current && parentById.has(current)) {
+    ids.unshift(current);
+    current = parentById.get(current) ?? null;
+  }
+
+  return ids;
+};
+
+export const collectSubtreeIds = (tasks: Task[], taskId: string): string[] => {
+  const childIds = tasks
+    .filter((task) => task.parentId === taskId)
+    .flatMap((task) => collectSubtreeIds(tasks, task.id));
+  return [taskId, ...childIds];
+};
+
+// Returns why the task can't be moved under the new parent (null for the top
+// level), or null if it can
+export const getMoveTaskError = (tasks: Task[], taskId: string, newParentId: string | null) => {
+  if (!tasks.some((task) => task.id === taskId)) return "Task not found";
+  if (newParentId === null) return null;
+  if (!tasks.some((task) => task.id === newParentId)) return "Parent task not found";
+  if (collectSubtreeIds(tasks, taskId).includes(newParentId)) {
+    return "A task can't be moved under itself or one of its subtasks";
+  }
+  return null;
+};
+
+// The order of every child of the new parent once the task is placed at
+// `index` among them, counted without the task itself
+export const getMovedTaskOrders = (
+  tasks: Task[],
+  taskId: string,
+  newParentId: string | null,
+  index: number
+): { id: string; order: number }[] => {
+  const siblings = tasks
+    .filter((task) => (task.parentId ?? null) === newParentId && task.id !== taskId)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map((task) => task.id);
+  siblings.splice(Math.max(0, Math.min(index, siblings.length)), 0, taskId);
+  return siblings.map((id, order) => ({ id, order }));
+};
+
+// What a duplicate keeps from the original. Time entries and comments always
+// stay behind, since they belong to the original task ids.
+export interface DuplicateTaskOptions {
+  assignees: boolean;
+  dates: boolean;
+  completion: boolean;
+  hours: boolean;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateTaskOptions = {
+  assignees: false,
+  dates: false,
+  completion: false,
+  hours: true,
+};
+
+export interface CopiedTask {
+  id: string;
+  sourceId: string;
+  parentId: string | null;
+  order: number;
+  task: Partial<Task>;
+}
+
+// Deep-copies the tasks under fresh ids, flattened with parents before their
+// children. Dependencies on copied tasks are pointed at the copies.
+export const copyTaskTree = (
+  tasks: Task[],
+  options: DuplicateTaskOptions,
+  newId: () => string,
+  parentId: string | null = null
+): CopiedTask[] => {
+  const idMap = new Map(flattenTaskTree(tasks).map((task) => [task.id, newId()]));
+
+  const copy = (items: Task[], copyParentId: string | null): CopiedTask[] =>
+    items.flatMap((task, index) => {
+      const id = idMap.get(task.id)!;
+      return [
+        {
+          id,
+          sourceId: task.id,
+          parentId: copyParentId,
+          order: index,
+          task: {
+            name: task.name,
+            description: task.description,
+            hours: options.hours ? task.hours : 0,
+            costPerHour: task.costPerHour,
+            assignedTo: options.assignees ? task.assignedTo : [],
+            startDate: options.dates ? task.startDate : undefined,
+            deadline: options.dates ? task.deadline : undefined,
+            completed: options.completion ? task.completed : false,
+            status: options.completion ? task.status : null,
+            timeEntries: [],
+            dependencies: (task.dependencies || []).map((dependency) => ({
+              ...dependency,
+              taskId: idMap.get(dependency.taskId) ?? dependency.taskId,
+            })),
+          },
+        },
+        ...copy(task.children || [], id),
+      ];
+    });
+
+  return copy(tasks, parentId);
+};
@@ -0,0 +1,125 @@
+import type { Task } from "@/store/projectStore";
+import type { Deliverable } from "@/store/enquiryStore";
+import { dateToOffset, offsetToDate } from "./schedule";
+import { flattenTaskTree } from "./taskTree";
+import { roundCurrency } from "./invoicing";
+
+// A task in a template: the structure and estimates only, without assignees,
+// time entries or progress. Dates are kept as days from the project start.
+export interface TemplateTask {
+  id: string;
+  name: string;
+  description: string;
+  hours: number;
+  costPerHour: number;
+  startOffsetDays: number | null;
+  deadlineOffsetDays: number | null;
+  children: TemplateTask[];
+}
+
+// A task ready to be written under a new project or deliverable
+export interface TemplateTaskInstance {
+  id: string;
+  parentId: string | null;
+  order: number;
+  task: Pick<Task, "name" | "description" | "hours" | "costPerHour" | "startDate" | "deadline" | "completed">;
+}
+
+const toDate = (value: Date) => value.toISOString().slice(0, 10);
+
+// Offsets are measured from the project start, or from the earliest task
+// date when the project has none
+const getAnchorDate = (tasks: Task[], projectStart?: string | null) => {
+  if (projectStart) return projectStart;
+  const dates = flattenTaskTree(tasks)
+    .flatMap((task) => [task.startDate, task.deadline])
+    .filter((date): date is string => !!date)
+    .sort();
+  return dates[0] ?? null;
+};
+
+export const toTemplateTasks = (tasks: Task[], projectStart?: string | null): TemplateTask[] => {
+  const anchor = getAnchorDate(tasks, projectStart);
+  const toOffset = (date?: string | null) =>
+    anchor && date ? Math.round(dateToOffset(anchor, date)) : null;
+
+  const convert = (items: Task[]): TemplateTask[] =>
+    items.map((task) => ({
+      id: task.id,
+      name: task.name,
+      description: task.description || "",
+      hours: task.hours || 0,
+      costPerHour: task.costPerHour || 0,
+      startOffsetDays: toOffset(task.startDate),
+      deadlineOffsetDays: toOffset(task.deadline),
+      children: convert(task.children || []),
+    }));
+
+  return convert(tasks);
+};
+
+// Flattens the template into new tasks in tree order, parents before their
+// children. Dates are only set when a start date is given.
+export const instantiateTemplate = (
+  tasks: TemplateTask[],
+  startDate: string | null,
+  newId: () => string,
+  parentId: string | null = null
+): TemplateTaskInstance[] => {
+  const toDateFromStart = (offset: number | null) =>
+    startDate && offset !== null ? toDate(offsetToDate(startDate, offset)) : undefined;
+
+  return tasks.flatMap((task, order) => {
+    const id = newId();
+    return [
+      {
+        id,
+        parentId,
+        order,
+        task: {
+          name: task.name,
+          description: task.description,
+          hours: task.hours,
+          costPerHour: task.costPerHour,
+          startDate: toDateFromStart(task.startOffsetDays),
+          deadline: toDateFromStart(task.deadlineOffsetDays),
+          completed: false,
+        },
+      },
+      ...instantiateTemplate(task.children, startDate, newId, id),
+    ];
+  });
+};
+
+export const countTemplateTasks = (tasks: TemplateTask[]): number =>
+  tasks.reduce((count, task) => count + 1 + countTemplateTasks(task.children), 0);
+
+const sumTemplate = (task: TemplateTask): { hours: number; cost: number } =>
+  task.children.map(sumTemplate).reduce(
+    (sum, child) => ({ hours: sum.hours + child.hours, cost: sum.cost + child.cost }),
+    { hours: task.hours, cost: task.hours * task.costPerHour }
+  );
+
+export const getTemplateHours = (tasks: TemplateTask[]) =>
+  tasks.reduce((total, task) => total + sumTemplate(task).hours, 0);
+
+// Each top-level task becomes a deliverable priced at its whole subtree; the
+// subtasks travel with it and are created when the enquiry is converted.
+export const toDeliverables = (tasks: TemplateTask[], newId: () => string): Deliverable[] =>
+  tasks.map((task) => {
+    const { hours, cost } = sumTemplate(task);
+    return {
+      id: newId(),
+      name: task.name,
+      description: task.description,
+      hours,
+      costPerHour: hours > 0 ? roundCurrency(cost / hours) : task.costPerHour,
+      total: roundCurrency(cost),
+      subtasks: task.children,
+    };
+  });
+
+// A converted deliverable's subtasks carry their own estimates, so only the
+// hours left over stay on the deliverable's task itself
+export const getDeliverableOwnHours = (deliverable: Deliverable) =>
+  Math.max(0, (deliverable.hours || 0) - getTemplateHours(deliverable.subtasks || []));
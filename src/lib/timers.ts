@@ -0,0 +1,47 @@
+export interface TimerSettings {
+  // HH:mm after which running timers are stopped
+  endOfDay: string;
+  // Away from the tab at least this long before asking about the time
+  idleMinutes: number;
+}
+
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  endOfDay: "19:00",
+  idleMinutes: 30,
+};
+
+// Timers stop at the end of the working day they started on, or at midnight
+// when started after it, so none can run overnight.
+export const getAutoStopTime = (startTime: string, endOfDay: string) => {
+  const start = new Date(startTime);
+  const [hours, minutes] = endOfDay.split(":").map(Number);
+  const cutoff = new Date(start);
+  cutoff.setHours(hours, minutes, 0, 0);
+  if (cutoff <= start) {
+    cutoff.setHours(24, 0, 0, 0);
+  }
+  return cutoff.toISOString();
+};
+
+// When a timer stopped at `requested` actually ends, and whether the
+// end-of-day rule cut it short
+export const resolveStopTime = (startTime: string, endOfDay: string, requested: Date) => {
+  const cutoff = getAutoStopTime(startTime, endOfDay);
+  if (new Date(cutoff) < requested) return { endTime: cutoff, autoStopped: true };
+  const end = requested < new Date(startTime) ? new Date(startTime) : requested;
+  return { endTime: end.toISOString(), autoStopped: false };
+};
+
+export const isLongAbsence = (hiddenAt: number, returnedAt: number, idleMinutes: number) =>
+  returnedAt - hiddenAt >= idleMinutes * 60000;
+
+export const isValidEndOfDay = (value: string) => /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+// Running time as HH:MM:SS
+export const formatElapsed = (startTime: string, now: number) => {
+  const elapsed = Math.max(0, Math.floor((now - new Date(startTime).getTime()) / 1000));
+  const hours = Math.floor(elapsed / 3600);
+  const minutes = Math.floor((elapsed % 3600) / 60);
+  const seconds = elapsed % 60;
+  return [hours, minutes, seconds].map((part) => part.toString().padStart(2, "0")).join(":");
+};
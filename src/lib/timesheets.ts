@@ -0,0 +1,104 @@
+import type { TimeEntry } from "@/store/projectStore";
+import { toDateInput } from "./utils";
+
+// Manual entries longer than this are almost certainly typing mistakes
+export const MAX_ENTRY_MINUTES = 24 * 60;
+
+// Weeks run Monday to Sunday and are identified by their Monday, yyyy-mm-dd
+export const getWeekStart = (date: Date) => {
+  const monday = new Date(date);
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return toDateInput(monday);
+};
+
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`);
+
+export const shiftWeek = (weekStart: string, weeks: number) => {
+  const date = fromDateInput(weekStart);
+  date.setDate(date.getDate() + weeks * 7);
+  return toDateInput(date);
+};
+
+export const getWeekDays = (weekStart: string) =>
+  Array.from({ length: 7 }, (_, index) => {
+    const date = fromDateInput(weekStart);
+    date.setDate(date.getDate() + index);
+    return toDateInput(date);
+  });
+
+// One timesheet per user per week
+export const getTimesheetId = (userId: string, weekStart: string) => `${userId}_${weekStart}`;
+
+export const getEntryDate = (entry: TimeEntry) => toDateInput(new Date(entry.startTime));
+
+export const isEntryInWeek = (entry: TimeEntry, weekStart: string) =>
+  getWeekStart(new Date(entry.startTime)) === weekStart;
+
+export const getDurationMinutes = (startTime: string, endTime: string) =>
+  Math.round((new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000);
+
+export const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+// Returns why the times can't be saved, or null when they can
+export const validateEntryTimes = (startTime: string, endTime: string, now = new Date()) => {
+  const start = new Date(startTime);
+  const end = new Date(endTime);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return "Enter a start and end time";
+  if (end <= start) return "End time must be after the start time";
+  if (end > now) return "Time can't be logged in the future";
+  if (getDurationMinutes(startTime, endTime) > MAX_ENTRY_MINUTES) {
+    return "An entry can't be longer than 24 hours";
+  }
+  return null;
+};
+
+// Another of the user's stopped entries that shares some of the same time
+export const findOverlappingEntry = (
+  entries: TimeEntry[],
+  startTime: string,
+  endTime: string,
+  ignoreId?: string
+) =>
+  entries.find(
+    (entry) =>
+      entry.id !== ignoreId &&
+      entry.endTime &&
+      new Date(entry.startTime) < new Date(endTime) &&
+      new Date(entry.endTime) > new Date(startTime)
+  );
+
+// Cuts a stopped entry in two at `at`; the second part gets `newId`
+export const splitTimeEntry = (entry: TimeEntry, at: string, newId: string): [TimeEntry, TimeEntry] => {
+  if (!entry.endTime) throw new Error("Stop the timer before splitting this entry");
+  if (new Date(at) <= new Date(entry.startTime) || new Date(at) >= new Date(entry.endTime)) {
+    throw new Error("Split time must fall inside the entry");
+  }
+  return [
+    { ...entry, endTime: at, duration: getDurationMinutes(entry.startTime, at) },
+    { ...entry, id: newId, startTime: at, duration: getDurationMinutes(at, entry.endTime) },
+  ];
+};
+
+// Minutes per day of the week and in total; running timers count once stopped
+export const summariseWeek = (entries: TimeEntry[], weekStart: string) => {
+  const days = Object.fromEntries(getWeekDays(weekStart).map((day) => [day, 0]));
+  let total = 0;
+  entries.forEach((entry) => {
+    const day = getEntryDate(entry);
+    if (!(day in days) || typeof entry.duration !== "number") return;
+    days[day] += entry.duration;
+    total += entry.duration;
+  });
+  return { days, total };
+};
+
+const padTime = (value: number) => String(value).padStart(2, "0");
+
+// HH:mm in local time, as <input type="time"> expects
+export const toTimeInput = (value: string) => {
+  const date = new Date(value);
+  return `${padTime(date.getHours())}:${padTime(date.getMinutes())}`;
+};
+
+// A local date and time from a form, as an ISO timestamp
+export const combineDateTime = (date: string, time: string) => new Date(`${date}T${time}`).toISOString();
@@ -1,5 +1,6 @@
 import React from 'react';
 import ProjectCalendar from '../components/ProjectCalendar';
+import Receivables from '../components/Receivables';
 
 export default function AdminBasics() {
   return (
@@ -9,7 +10,9 @@ export default function AdminBasics() {
         <div className="lg:col-span-2">
           <ProjectCalendar />
         </div>
-        
+
+        <Receivables />
+
         <div className="bg-white rounded-lg shadow p-6">
           <h3 className="text-lg font-semibold mb-4">Incoming Mails</h3>
           <div className="space-y-4">
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { db } from '../lib/firebase';
 import { collection, getDocs, updateDoc, doc } from 'firebase/firestore';
-import { Users, UserCheck, Loader2, UserX } from 'lucide-react';
+import { Users, UserCheck, Loader2, UserX, DatabaseZap, Hash } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { useProjectStore } from '../store/projectStore';
+import { numberExistingRecords } from '../lib/counters';
+import { useCostStore } from '../store/costStore';
+import { useTimerSettingsStore } from '../store/timerSettingsStore';
+import { TimerSettings } from '../lib/timers';
 
 interface User {
   id: string;
@@ -18,11 +23,19 @@ export default function AdminPanel() {
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'all' | 'unverified'>('all');
   const [processingUser, setProcessingUser] = useState<string | null>(null);
+  const [migrating, setMigrating] = useState(false);
+  const [numbering, setNumbering] = useState(false);
+  const { migrateAllProjectTasks } = useProjectStore();
+  const { settings: costSettings, subscribeToCostSettings, updateUserRate, updateOverrunThreshold } = useCostStore();
+  const { settings: timerSettings, subscribeToTimerSettings, updateTimerSettings } = useTimerSettingsStore();
 
   useEffect(() => {
     fetchUsers();
   }, []);
 
+  useEffect(() => subscribeToCostSettings(), [subscribeToCostSettings]);
+  useEffect(() => subscribeToTimerSettings(), [subscribeToTimerSettings]);
+
   const fetchUsers = async () => {
     try {
       const querySnapshot = await getDocs(collection(db, 'users'));
@@ -38,6 +51,43 @@ export default function AdminPanel() {
     }
   };
 
+  // Rates and the threshold save when the field loses focus
+  const saveUserRate = async (userId: string, value: string) => {
+    if (value.trim() === '') return;
+    const rate = Number(value);
+    if (rate === costSettings.userRates[userId]) return;
+    try {
+      await updateUserRate(userId, rate);
+      toast.success('Hourly rate updated');
+    } catch (error) {
+      console.error('Error updating hourly rate:', error);
+      toast.error('Failed to update hourly rate');
+    }
+  };
+
+  const saveOverrunThreshold = async (value: string) => {
+    const threshold = Number(value);
+    if (threshold === costSettings.overrunThreshold) return;
+    try {
+      await updateOverrunThreshold(threshold);
+      toast.success('Overrun threshold updated');
+    } catch (error) {
+      console.error('Error updating overrun threshold:', error);
+      toast.error('Failed to update overrun threshold');
+    }
+  };
+
+  const saveTimerSettings = async (changes: Partial<TimerSettings>) => {
+    if (Object.entries(changes).every(([key, value]) => timerSettings[key as keyof TimerSettings] === value)) return;
+    try {
+      await updateTimerSettings(changes);
+      toast.success('Timer settings updated');
+    } catch (error) {
+      console.error('Error updating timer settings:', error);
+      toast.error((error as Error).message || 'Failed to update timer settings');
+    }
+  };
+
   const verifyUser = async (userId: string) => {
     try {
       setProcessingUser(userId);
@@ -72,6 +122,41 @@ export default function AdminPanel() {
     }
   };
 
+  const migrateTasks = async () => {
+    try {
+      setMigrating(true);
+      const migrated = await migrateAllProjectTasks();
+      toast.success(
+        migrated > 0
+          ? `Migrated tasks and time entries for ${migrated} project(s)`
+          : 'All projects already use the new task storage'
+      );
+    } catch (error) {
+      console.error('Error migrating tasks:', error);
+      toast.error('Failed to migrate project tasks');
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  const numberRecords = async () => {
+    try {
+      setNumbering(true);
+      const projects = await numberExistingRecords('project');
+      const enquiries = await numberExistingRecords('enquiry');
+      toast.success(
+        projects + enquiries > 0
+          ? `Numbered ${projects} project(s) and ${enquiries} enquiry(s)`
+          : 'All projects and enquiries already have numbers'
+      );
+    } catch (error) {
+      console.error('Error numbering records:', error);
+      toast.error('Failed to number existing records');
+    } finally {
+      setNumbering(false);
+    }
+  };
+
   const displayedUsers = activeTab === 'all' 
     ? users.filter(user => user.verified)
     : users.filter(user => !user.verified);
@@ -81,7 +166,7 @@ export default function AdminPanel() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="bg-white rounded-xl overflow-hidden shadow-md">
           {/* Header */}
-          <div className="border-b border-gray-200">
+          <div className="border-b border-gray-200 flex justify-between items-center pr-6">
             <div className="flex space-x-8 px-6">
               <button
                 onClick={() => setActiveTab('all')}
@@ -106,6 +191,70 @@ export default function AdminPanel() {
                 <span>Unverified ({users.filter(u => !u.verified).length})</span>
               </button>
             </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={numberRecords}
+                disabled={numbering}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {numbering ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Hash className="h-4 w-4 mr-2" />
+                )}
+                Number Existing Records
+              </button>
+              <button
+                onClick={migrateTasks}
+                disabled={migrating}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {migrating ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <DatabaseZap className="h-4 w-4 mr-2" />
+                )}
+                Migrate Task Storage
+              </button>
+            </div>
+          </div>
+
+          {/* Time tracking settings */}
+          <div className="border-b border-gray-200 px-6 py-3 flex flex-wrap items-center gap-6 text-sm text-gray-700">
+            <label className="flex items-center">
+              Stop timers at
+              <input
+                key={timerSettings.endOfDay}
+                type="time"
+                defaultValue={timerSettings.endOfDay}
+                onBlur={(e) => saveTimerSettings({ endOfDay: e.target.value })}
+                className="ml-2 rounded-md border border-gray-300 px-2 py-1 text-sm"
+              />
+            </label>
+            <label className="flex items-center">
+              Ask about time away after
+              <input
+                key={timerSettings.idleMinutes}
+                type="number"
+                min="1"
+                defaultValue={timerSettings.idleMinutes}
+                onBlur={(e) => saveTimerSettings({ idleMinutes: Number(e.target.value) })}
+                className="mx-2 w-16 rounded-md border border-gray-300 px-2 py-1 text-sm"
+              />
+              min
+            </label>
+            <label className="flex items-center">
+              Flag tasks at
+              <input
+                key={costSettings.overrunThreshold}
+                type="number"
+                min="1"
+                defaultValue={costSettings.overrunThreshold}
+                onBlur={(e) => saveOverrunThreshold(e.target.value)}
+                className="mx-2 w-16 rounded-md border border-gray-300 px-2 py-1 text-sm"
+              />
+              % of estimate
+            </label>
           </div>
 
           {/* Content */}
@@ -132,6 +281,11 @@ export default function AdminPanel() {
                         Status
                       </th>
                     )}
+                    {activeTab === 'all' && (
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Hourly Rate (₹)
+                      </th>
+                    )}
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Joined
                     </th>
@@ -161,6 +315,20 @@ export default function AdminPanel() {
                           </span>
                         </td>
                       )}
+                      {activeTab === 'all' && (
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <input
+                            key={costSettings.userRates[user.id] ?? ''}
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            defaultValue={costSettings.userRates[user.id] ?? ''}
+                            onBlur={(e) => saveUserRate(user.id, e.target.value)}
+                            placeholder="Not set"
+                            className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                          />
+                        </td>
+                      )}
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {new Date(user.createdAt).toLocaleDateString()}
                       </td>
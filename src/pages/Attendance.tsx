@@ -1,9 +1,10 @@
 import React, { useEffect, useState } from "react";
 import { useAttendanceStore } from "../store/attendanceStore";
 import { useAuthStore } from "../store/authStore";
+import { useCurrentUser } from "../hooks/useCurrentUser";
 import { useLeaveStore } from "../store/leaveStore";
 import { useWorkFromStore } from "../store/workfromhomestore";
-import { doc, getDoc, collection, getDocs } from "firebase/firestore";
+import { collection, getDocs } from "firebase/firestore";
 import { db } from "../lib/firebase";
 import { Loader2, ChevronDown } from "lucide-react";
 import toast from "react-hot-toast";
@@ -37,7 +38,8 @@ export default function Attendance() {
     useLeaveStore();
   const { requestWorkFrom, fetchUserWorkFromRequests, allWorkFromRequests, fetchAllWorkFromRequests } =
     useWorkFromStore();
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { can } = useCurrentUser();
+  const canViewAll = can("attendance.viewAll");
   const [users, setUsers] = useState<Record<string, User>>({});
   const [selectedUser, setSelectedUser] = useState<string | null>(null);
   const [monthlyAttendance, setMonthlyAttendance] = useState<
@@ -60,14 +62,6 @@ export default function Attendance() {
   });
 
   useEffect(() => {
-    const checkUserRole = async () => {
-      if (user) {
-        const userDoc = await getDoc(doc(db, "users", user.uid));
-        const userData = userDoc.data();
-        setIsAdmin(userData?.role === "admin");
-      }
-    };
-
     const loadUsers = async () => {
       const querySnapshot = await getDocs(collection(db, "users"));
       const usersData = querySnapshot.docs.reduce((acc, doc) => {
@@ -83,33 +77,32 @@ export default function Attendance() {
       setUsers(usersData);
     };
 
-    checkUserRole();
     loadUsers();
   }, [user]);
 
   useEffect(() => {
-    if (isAdmin) {
+    if (canViewAll) {
       fetchAllUsersAttendance();
       fetchAllLeaveRequests();
       fetchAllWorkFromRequests();
     } else {
       fetchAttendanceRecords();
     }
-  }, [isAdmin, fetchAttendanceRecords, fetchAllUsersAttendance]);
+  }, [canViewAll, fetchAttendanceRecords, fetchAllUsersAttendance]);
 
   useEffect(() => {
     const userId = selectedUser || user?.uid;
     if (userId) {
       // Fetch leave and work from home requests for selected user
-      if (isAdmin && selectedUser) {
+      if (canViewAll && selectedUser) {
         fetchUserLeaveRequests(selectedUser);
         fetchUserWorkFromRequests(selectedUser);
-      } else if (!isAdmin) {
+      } else if (!canViewAll) {
         fetchUserLeaveRequests();
         fetchUserWorkFromRequests();
       }
     }
-  }, [selectedUser, isAdmin]);
+  }, [selectedUser, canViewAll]);
 
   useEffect(() => {
     const processRecords = () => {
@@ -386,7 +379,7 @@ export default function Attendance() {
       )}
 
       <div className="px-[10%] mt-10">
-        {isAdmin && (
+        {canViewAll && (
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Select Employee
@@ -0,0 +1,274 @@
+import { ReactNode, useEffect, useState } from "react";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import { Loader2, Pencil, ArrowLeft } from "lucide-react";
+import { Customer, CustomerRecords, useCustomerStore } from "../store/customerStore";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import { formatAddress } from "../lib/customers";
+import { formatCurrency, getAmountDue, getInvoiceStatus } from "../lib/invoicing";
+import { getExpectedValue } from "../lib/pipeline";
+import EnquiryStatusBadge from "../components/EnquiryStatusBadge";
+import InvoiceStatusBadge from "../components/InvoiceStatusBadge";
+import toast from "react-hot-toast";
+
+const Section = ({ title, children }: { title: string; children: ReactNode }) => (
+  <div className="bg-white border-[1px] rounded-xl overflow-hidden">
+    <div className="border-b border-gray-200 px-6 py-3">
+      <h3 className="text-lg font-medium text-gray-900">{title}</h3>
+    </div>
+    <div className="px-6 py-4">{children}</div>
+  </div>
+);
+
+const Table = ({ headers, children }: { headers: string[]; children: ReactNode }) => (
+  <table className="min-w-full divide-y divide-gray-200">
+    <thead>
+      <tr>
+        {headers.map((header) => (
+          <th
+            key={header}
+            className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+          >
+            {header}
+          </th>
+        ))}
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-gray-200">{children}</tbody>
+  </table>
+);
+
+const Empty = ({ children }: { children: ReactNode }) => (
+  <p className="text-sm text-gray-500">{children}</p>
+);
+
+export default function CustomerDetails() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { fetchCustomer, fetchCustomerRecords } = useCustomerStore();
+  const { can } = useCurrentUser();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [records, setRecords] = useState<CustomerRecords | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadCustomer = async () => {
+      const found = await fetchCustomer(id);
+      if (!found) {
+        toast.error("Customer not found");
+        navigate("/dashboard/customers");
+        return;
+      }
+      setCustomer(found);
+      try {
+        setRecords(await fetchCustomerRecords(id));
+      } catch (error) {
+        console.error("Error loading customer records:", error);
+        toast.error("Failed to load the customer's records");
+      }
+    };
+
+    loadCustomer();
+  }, [id, fetchCustomer, fetchCustomerRecords, navigate]);
+
+  if (!customer) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  const projectRef = (projectId: string) =>
+    records?.projects.find((project) => project.id === projectId)?.__id || projectId;
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center space-x-4">
+          <button onClick={() => navigate("/dashboard/customers")}>
+            <ArrowLeft className="h-7 w-7" />
+          </button>
+          <h2 className="text-2xl font-bold">{customer.name}</h2>
+        </div>
+
+        {can("customer.manage") && (
+          <button
+            onClick={() => navigate(`/dashboard/customers/${id}/edit`)}
+            className="inline-flex items-center px-4 py-2  text-sm font-medium rounded-md text-black bg-white border-[1px]"
+          >
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-6 px-[10%] mt-10">
+        <Section title="Company">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm font-medium text-gray-500">GSTIN</p>
+              <p className="mt-1">{customer.gstin || "Unregistered"}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-500">Customer Since</p>
+              <p className="mt-1">{new Date(customer.createdAt).toLocaleDateString()}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-500">Billing Address</p>
+              <p className="mt-1">{formatAddress(customer.billingAddress)}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-500">Shipping Address</p>
+              <p className="mt-1">{formatAddress(customer.shippingAddress)}</p>
+            </div>
+            {customer.notes && (
+              <div className="col-span-2">
+                <p className="text-sm font-medium text-gray-500">Notes</p>
+                <p className="mt-1 whitespace-pre-line">{customer.notes}</p>
+              </div>
+            )}
+          </div>
+        </Section>
+
+        <Section title="Contacts">
+          {customer.contacts.length === 0 ? (
+            <Empty>No contacts recorded</Empty>
+          ) : (
+            <Table headers={["Name", "Designation", "Email", "Phone"]}>
+              {customer.contacts.map((contact) => (
+                <tr key={contact.id}>
+                  <td className="px-3 py-4 text-sm text-gray-900">
+                    {contact.name}
+                    {contact.isPrimary && (
+                      <span className="ml-2 px-2 py-0.5 rounded text-xs bg-blue-100 text-blue-700">
+                        Primary
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-4 text-sm text-gray-500">{contact.designation || "-"}</td>
+                  <td className="px-3 py-4 text-sm text-gray-500">{contact.email || "-"}</td>
+                  <td className="px-3 py-4 text-sm text-gray-500">{contact.phone || "-"}</td>
+                </tr>
+              ))}
+            </Table>
+          )}
+        </Section>
+
+        {!records ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+          </div>
+        ) : (
+          <>
+            <Section title="Enquiries">
+              {records.enquiries.length === 0 ? (
+                <Empty>No enquiries for this customer</Empty>
+              ) : (
+                <Table headers={["ID", "Name", "Status", "Expected Value", "Created At"]}>
+                  {records.enquiries.map((enquiry) => (
+                    <tr key={enquiry.id}>
+                      <td className="px-3 py-4 text-sm text-gray-500">{enquiry.__id}</td>
+                      <td className="px-3 py-4 text-sm">
+                        <Link
+                          to={`/dashboard/enquiries/${enquiry.id}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {enquiry.name}
+                        </Link>
+                      </td>
+                      <td className="px-3 py-4 text-sm">
+                        <EnquiryStatusBadge status={enquiry.status} />
+                      </td>
+                      <td className="px-3 py-4 text-sm text-gray-900">
+                        ₹{formatCurrency(getExpectedValue(enquiry.deliverables))}
+                      </td>
+                      <td className="px-3 py-4 text-sm text-gray-500">
+                        {new Date(enquiry.createdAt).toLocaleDateString()}
+                      </td>
+                    </tr>
+                  ))}
+                </Table>
+              )}
+            </Section>
+
+            <Section title="Projects">
+              {records.projects.length === 0 ? (
+                <Empty>No projects for this customer</Empty>
+              ) : (
+                <Table headers={["ID", "Name", "Status", "Created At"]}>
+                  {records.projects.map((project) => (
+                    <tr key={project.id}>
+                      <td className="px-3 py-4 text-sm text-gray-500">{project.__id}</td>
+                      <td className="px-3 py-4 text-sm">
+                        <Link
+                          to={`/dashboard/projects/${project.id}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {project.name}
+                        </Link>
+                      </td>
+                      <td className="px-3 py-4 text-sm text-gray-500 capitalize">
+                        {project.status.replace("-", " ")}
+                      </td>
+                      <td className="px-3 py-4 text-sm text-gray-500">
+                        {new Date(project.createdAt).toLocaleDateString()}
+                      </td>
+                    </tr>
+                  ))}
+                </Table>
+              )}
+            </Section>
+
+            <Section title="Invoices">
+              {records.invoices.length === 0 ? (
+                <Empty>No invoices for this customer</Empty>
+              ) : (
+                <Table headers={["Number", "Project", "Issue Date", "Total", "Due", "Status"]}>
+                  {records.invoices.map((invoice) => (
+                    <tr key={invoice.id}>
+                      <td className="px-3 py-4 text-sm text-gray-900">{invoice.number || "Draft"}</td>
+                      <td className="px-3 py-4 text-sm text-gray-500">
+                        {projectRef(invoice.projectId)}
+                      </td>
+                      <td className="px-3 py-4 text-sm text-gray-500">
+                        {new Date(invoice.issueDate).toLocaleDateString()}
+                      </td>
+                      <td className="px-3 py-4 text-sm text-gray-900">
+                        ₹{formatCurrency(invoice.total)}
+                      </td>
+                      <td className="px-3 py-4 text-sm text-gray-900">
+                        ₹{formatCurrency(getAmountDue(invoice))}
+                      </td>
+                      <td className="px-3 py-4 text-sm">
+                        <InvoiceStatusBadge status={getInvoiceStatus(invoice)} />
+                      </td>
+                    </tr>
+                  ))}
+                </Table>
+              )}
+            </Section>
+
+            <Section title="Portal Accounts">
+              {records.portalAccounts.length === 0 ? (
+                <Empty>No customer portal accounts yet</Empty>
+              ) : (
+                <Table headers={["Name", "Email", "Project"]}>
+                  {records.portalAccounts.map((account) => (
+                    <tr key={account.id}>
+                      <td className="px-3 py-4 text-sm text-gray-900">{account.fullName}</td>
+                      <td className="px-3 py-4 text-sm text-gray-500">{account.email}</td>
+                      <td className="px-3 py-4 text-sm text-gray-500">
+                        {projectRef(account.projectId)}
+                      </td>
+                    </tr>
+                  ))}
+                </Table>
+              )}
+            </Section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+import React, { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Plus, Loader2, Trash2, ArrowLeft } from "lucide-react";
+import {
+  CustomerAddress,
+  CustomerContact,
+  CustomerInput,
+  useCustomerStore,
+} from "../store/customerStore";
+import { EMPTY_ADDRESS, isValidGstin } from "../lib/customers";
+import toast from "react-hot-toast";
+
+const inputClass =
+  "mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500";
+
+const AddressFields = ({
+  address,
+  onChange,
+}: {
+  address: CustomerAddress;
+  onChange: (address: CustomerAddress) => void;
+}) => {
+  const field = (key: keyof CustomerAddress, label: string, className = "") => (
+    <div className={className}>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <input
+        type="text"
+        required={key !== "line2"}
+        value={address[key]}
+        onChange={(e) => onChange({ ...address, [key]: e.target.value })}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+      {field("line1", "Address Line 1", "sm:col-span-3")}
+      {field("line2", "Address Line 2", "sm:col-span-3")}
+      {field("city", "City")}
+      {field("state", "State")}
+      {field("pincode", "PIN Code")}
+    </div>
+  );
+};
+
+export default function CustomerForm() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { createCustomer, updateCustomer, fetchCustomer, loading } =
+    useCustomerStore();
+  const [shippingSameAsBilling, setShippingSameAsBilling] = useState(true);
+  const [formData, setFormData] = useState<CustomerInput>({
+    name: "",
+    gstin: "",
+    billingAddress: EMPTY_ADDRESS,
+    shippingAddress: EMPTY_ADDRESS,
+    contacts: [],
+    notes: "",
+  });
+
+  useEffect(() => {
+    const loadCustomer = async () => {
+      if (id) {
+        const customer = await fetchCustomer(id);
+        if (customer) {
+          setFormData({
+            name: customer.name,
+            gstin: customer.gstin,
+            billingAddress: customer.billingAddress,
+            shippingAddress: customer.shippingAddress,
+            contacts: customer.contacts,
+            notes: customer.notes,
+          });
+          setShippingSameAsBilling(
+            JSON.stringify(customer.billingAddress) ===
+              JSON.stringify(customer.shippingAddress)
+          );
+        }
+      }
+    };
+
+    loadCustomer();
+  }, [id, fetchCustomer]);
+
+  const addContact = () => {
+    setFormData((prev) => ({
+      ...prev,
+      contacts: [
+        ...prev.contacts,
+        {
+          id: crypto.randomUUID(),
+          name: "",
+          designation: "",
+          email: "",
+          phone: "",
+          isPrimary: prev.contacts.length === 0,
+        },
+      ],
+    }));
+  };
+
+  const removeContact = (id: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      contacts: prev.contacts.filter((c) => c.id !== id),
+    }));
+  };
+
+  const updateContact = (
+    id: string,
+    field: keyof CustomerContact,
+    value: string | boolean
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      contacts: prev.contacts.map((c) => {
+        if (field === "isPrimary") return { ...c, isPrimary: c.id === id };
+        return c.id === id ? { ...c, [field]: value } : c;
+      }),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidGstin(formData.gstin)) {
+      toast.error("Enter a valid 15 character GSTIN or leave it blank");
+      return;
+    }
+
+    const customer = {
+      ...formData,
+      shippingAddress: shippingSameAsBilling
+        ? formData.billingAddress
+        : formData.shippingAddress,
+    };
+    try {
+      if (id) {
+        await updateCustomer(id, customer);
+        toast.success("Customer updated successfully");
+        navigate(`/dashboard/customers/${id}`);
+      } else {
+        const created = await createCustomer(customer);
+        toast.success("Customer created successfully");
+        navigate(`/dashboard/customers/${created.id}`);
+      }
+    } catch (error) {
+      console.error("Error saving customer:", error);
+      toast.error(id ? "Failed to update customer" : "Failed to create customer");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className=" p-6 space-y-8">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-4">
+          <button type="button" onClick={() => navigate(-1)}>
+            <ArrowLeft className=" h-7 w-7" />
+          </button>
+          <h2 className="text-2xl font-bold">
+            {id ? "Edit Customer" : "Create New Customer"}
+          </h2>
+        </div>
+        <div className="flex space-x-4">
+          <button
+            type="button"
+            onClick={() => navigate(-1)}
+            className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={loading}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-black/90 hover:bg-black/80 focus:outline-none"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                {id ? "Updating..." : "Creating..."}
+              </>
+            ) : id ? (
+              "Update Customer"
+            ) : (
+              "Create Customer"
+            )}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3 justify-center px-[10%]">
+        <div className="bg-white border-[1px] rounded-xl px-6 py-10">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Company</h3>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Company Name
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, name: e.target.value }))
+                }
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                GSTIN
+              </label>
+              <input
+                type="text"
+                maxLength={15}
+                placeholder="Leave blank if unregistered"
+                value={formData.gstin}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    gstin: e.target.value.toUpperCase(),
+                  }))
+                }
+                className={inputClass}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Notes
+              </label>
+              <textarea
+                value={formData.notes}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, notes: e.target.value }))
+                }
+                className={inputClass}
+                rows={2}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white border-[1px] rounded-xl px-6 py-10">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">
+            Billing Address
+          </h3>
+          <AddressFields
+            address={formData.billingAddress}
+            onChange={(billingAddress) =>
+              setFormData((prev) => ({ ...prev, billingAddress }))
+            }
+          />
+        </div>
+
+        <div className="bg-white border-[1px] rounded-xl px-6 py-10">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">
+              Shipping Address
+            </h3>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={shippingSameAsBilling}
+                onChange={(e) => setShippingSameAsBilling(e.target.checked)}
+              />
+              <span>Same as billing address</span>
+            </label>
+          </div>
+          {!shippingSameAsBilling && (
+            <AddressFields
+              address={formData.shippingAddress}
+              onChange={(shippingAddress) =>
+                setFormData((prev) => ({ ...prev, shippingAddress }))
+              }
+            />
+          )}
+        </div>
+
+        <div className="bg-white border-[1px] rounded-xl px-6 py-10">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Contacts</h3>
+            <button
+              type="button"
+              onClick={addContact}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-black/90 hover:bg-black/80"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Contact
+            </button>
+          </div>
+
+          {formData.contacts.length === 0 ? (
+            <p className="text-sm text-gray-500">No contacts added yet</p>
+          ) : (
+            <div className="space-y-4">
+              {formData.contacts.map((contact) => (
+                <div
+                  key={contact.id}
+                  className="grid grid-cols-1 gap-3 sm:grid-cols-5 items-end border-b pb-4"
+                >
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Name
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      value={contact.name}
+                      onChange={(e) => updateContact(contact.id, "name", e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Designation
+                    </label>
+                    <input
+                      type="text"
+                      value={contact.designation}
+                      onChange={(e) =>
+                        updateContact(contact.id, "designation", e.target.value)
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Email
+                    </label>
+                    <input
+                      type="email"
+                      value={contact.email}
+                      onChange={(e) => updateContact(contact.id, "email", e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Phone
+                    </label>
+                    <input
+                      type="tel"
+                      value={contact.phone}
+                      onChange={(e) => updateContact(contact.id, "phone", e.target.value)}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between pb-2">
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        name="primaryContact"
+                        checked={contact.isPrimary}
+                        onChange={() => updateContact(contact.id, "isPrimary", true)}
+                      />
+                      <span>Primary</span>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => removeContact(contact.id)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -1,59 +1,36 @@
 import React, { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { useAuthStore } from "../store/authStore";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "../lib/firebase";
+import { useCurrentUser } from "../hooks/useCurrentUser";
 import { Loader2 } from "lucide-react";
 import toast from "react-hot-toast";
 import ProjectComments from "../components/ProjectComments";
-import { Project, Task } from "@/store/projectStore";
+import { Project, Task, useProjectStore } from "@/store/projectStore";
 import ProjectStatusSelect from "@/components/ProjectStatusSelect";
 
 export default function CustomerProject() {
-  const [project, setProject] = useState<Project | null>(null);
   const [loading, setLoading] = useState(true);
-  const { user } = useAuthStore();
-  const navigate = useNavigate();
+  const { profile } = useCurrentUser();
+  const { currentProject, subscribeToProject } = useProjectStore();
+  // Customer accounts are linked to a single project when they are created
+  const projectId = profile?.projectId || null;
+  const project: Project | null =
+    projectId && currentProject?.id === projectId ? currentProject : null;
 
   useEffect(() => {
-    const loadCustomerProject = async () => {
-      try {
-        if (!user) {
-          navigate("/login");
-          return;
-        }
-
-        // Get user data to check role and project ID
-        const userDoc = await getDoc(doc(db, "users", user.uid));
-        const userData = userDoc.data();
-
-        if (!userData || userData.role !== "customer") {
-          navigate("/dashboard");
-          return;
-        }
-
-        // Get project data
-        const projectDoc = await getDoc(
-          doc(db, "projects", userData.projectId)
-        );
-        if (projectDoc.exists()) {
-          setProject({
-            ...(projectDoc.data() as Project),
-            id: projectDoc.id,
-          });
-        } else {
-          toast.error("Project not found");
-        }
-      } catch (error) {
-        console.error("Error loading project:", error);
-        toast.error("Failed to load project");
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (profile && !projectId) setLoading(false);
+  }, [profile, projectId]);
+
+  useEffect(() => {
+    if (!projectId) return;
 
-    loadCustomerProject();
-  }, [user, navigate]);
+    return subscribeToProject(projectId, () => {
+      toast.error("Project not found");
+      setLoading(false);
+    });
+  }, [projectId, subscribeToProject]);
+
+  useEffect(() => {
+    if (project) setLoading(false);
+  }, [project]);
 
   const calculateTaskProgress = (
     tasks: Task[]
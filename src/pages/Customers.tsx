@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Routes, Route, useNavigate } from 'react-router-dom';
+import { Plus, Loader2, Trash2, ExternalLink, Search } from 'lucide-react';
+import { useCustomerStore } from '../store/customerStore';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { getPrimaryContact, searchCustomers } from '../lib/customers';
+import toast from 'react-hot-toast';
+import CustomerForm from './CustomerForm';
+import CustomerDetails from './CustomerDetails';
+
+const CustomersList = () => {
+  const navigate = useNavigate();
+  const { customers, loading, subscribeToCustomers, deleteCustomer } = useCustomerStore();
+  const { can } = useCurrentUser();
+  const [search, setSearch] = useState('');
+
+  useEffect(() => subscribeToCustomers(), [subscribeToCustomers]);
+
+  const handleDelete = async (id: string) => {
+    if (window.confirm('Are you sure you want to delete this customer?')) {
+      try {
+        await deleteCustomer(id);
+        toast.success('Customer deleted successfully');
+      } catch (error) {
+        toast.error((error as Error).message || 'Failed to delete customer');
+      }
+    }
+  };
+
+  const filteredCustomers = searchCustomers(customers, search);
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold">Customers</h2>
+        <div className="flex items-center space-x-3">
+          <div className="flex items-center rounded-md border-[1px] bg-white px-2">
+            <Search size={18} className="text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search customers"
+              className="p-2 focus:outline-none"
+            />
+          </div>
+          {can('customer.manage') && (
+            <button
+              onClick={() => navigate('new')}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-black/90 hover:bg-black/80"
+            >
+              <Plus size={20} className="mr-2" />
+              New Customer
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+        </div>
+      ) : filteredCustomers.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">
+            {customers.length === 0 ? 'No customers yet. Add your first one!' : 'No matching customers'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow-md rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Company
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  GSTIN
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Primary Contact
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  City
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredCustomers.map(customer => {
+                const contact = getPrimaryContact(customer);
+                return (
+                  <tr key={customer.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {customer.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {customer.gstin || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {contact ? [contact.name, contact.phone].filter(Boolean).join(' · ') : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {customer.billingAddress.city || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex items-center justify-end space-x-3">
+                        <button
+                          onClick={() => navigate(customer.id)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          <ExternalLink size={18} />
+                        </button>
+                        {can('customer.manage') && (
+                          <button
+                            onClick={() => handleDelete(customer.id)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default function Customers() {
+  return (
+    <Routes>
+      <Route path="/" element={<CustomersList />} />
+      <Route path="/new" element={<CustomerForm />} />
+      <Route path="/:id" element={<CustomerDetails />} />
+      <Route path="/:id/edit" element={<CustomerForm />} />
+    </Routes>
+  );
+}
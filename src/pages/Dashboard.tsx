@@ -6,22 +6,34 @@ import {
   LayoutDashboard,
   FileQuestion,
   Briefcase,
+  Building2,
   UserCheck,
+  CalendarClock,
+  BarChart3,
+  LayoutTemplate,
 } from "lucide-react";
 import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import Enquiries from "./Enquiries";
+import Customers from "./Customers";
 import Projects from "./Projects";
 import ProjectDetails from "./ProjectDetails";
 import ProjectForm from "./ProjectForm";
 import TaskDetails from "./TaskDetails";
+import ProjectTimeline from "./ProjectTimeline";
+import PortfolioTimeline from "./PortfolioTimeline";
 import Basics from "./Basics";
 import Attendance from "./Attendance";
+import Timesheets from "./Timesheets";
+import Reports from "./Reports";
+import Templates from "./Templates";
 import { useAttendanceStore } from "@/store/attendanceStore";
 import { useAuthStore } from "@/store/authStore";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { useLeaveStore } from "@/store/leaveStore";
 import { useWorkFromStore } from "@/store/workfromhomestore";
 import AttendanceModal from "@/components/AttendanceModal";
+import TimerWatcher from "@/components/TimerWatcher";
 
 export default function Dashboard() {
   const [isCollapsed, setIsCollapsed] = useState(false);
@@ -31,7 +43,7 @@ export default function Dashboard() {
   const { allLeaveRequests, fetchAllLeaveRequests } = useLeaveStore();
   const { allWorkFromRequests, fetchAllWorkFromRequests } = useWorkFromStore();
   const [pendingRequests, setPendingRequests] = useState<any[]>([]);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { can } = useCurrentUser();
 
   useEffect(() => {
     const checkUserAttendance = async () => {
@@ -41,21 +53,19 @@ export default function Dashboard() {
       }
     };
 
-    const checkAdminStatus = async () => {
-      if (user) {
-        const userDoc = await getDoc(doc(db, 'users', user.uid));
-        const userData = userDoc.data();
-        setIsAdmin(userData?.role === 'admin');
-      }
-    };
-
     if (user) {
       checkUserAttendance();
-      checkAdminStatus();
+    }
+  }, [checkAttendance, user]);
+
+  // Only approvers can list everyone's requests
+  const canApproveLeave = can("leave.approve");
+  useEffect(() => {
+    if (canApproveLeave) {
       fetchAllLeaveRequests();
       fetchAllWorkFromRequests();
     }
-  }, [checkAttendance, user, fetchAllLeaveRequests, fetchAllWorkFromRequests]);
+  }, [canApproveLeave, fetchAllLeaveRequests, fetchAllWorkFromRequests]);
 
   useEffect(() => {
     const fetchPendingRequests = async () => {
@@ -89,7 +99,7 @@ export default function Dashboard() {
 
   return (
     <div className="min-h-screen bg-bggray flex flex-col">
-      {isAdmin && pendingRequests.length > 0 && (
+      {canApproveLeave && pendingRequests.length > 0 && (
         <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4">
           <div className="flex">
             <div className="flex-shrink-0">
@@ -147,21 +157,53 @@ export default function Dashboard() {
               <LayoutDashboard size={20} />
               {!isCollapsed && <span>Dashboard</span>}
             </NavLink>
+            {can("enquiry.view") && (
+              <NavLink
+                to="/dashboard/enquiries"
+                className={({ isActive }) =>
+                  `flex items-center space-x-3 transition-all duration-500 rounded-xl mt-2 ${
+                    isActive
+                      ? "bg-black/90 text-white"
+                      : "text-gray-700 hover:bg-gray-50"
+                  } ${isCollapsed ? "justify-center p-2" : " p-4"}`
+                }
+              >
+                <FileQuestion size={20} />
+                {!isCollapsed && <span>Enquiries</span>}
+              </NavLink>
+            )}
+            {can("project.view") && (
+              <NavLink
+                to="/dashboard/projects"
+                className={({ isActive }) =>
+                  `flex items-center space-x-3 transition-all duration-500 rounded-xl mt-2 ${
+                    isActive
+                      ? "bg-black/90 text-white"
+                      : "text-gray-700 hover:bg-gray-50"
+                  } ${isCollapsed ? "justify-center p-2" : " p-4"}`
+                }
+              >
+                <Briefcase size={20} />
+                {!isCollapsed && <span>Projects</span>}
+              </NavLink>
+            )}
+            {can("customer.view") && (
+              <NavLink
+                to="/dashboard/customers"
+                className={({ isActive }) =>
+                  `flex items-center space-x-3 transition-all duration-500 rounded-xl mt-2 ${
+                    isActive
+                      ? "bg-black/90 text-white"
+                      : "text-gray-700 hover:bg-gray-50"
+                  } ${isCollapsed ? "justify-center p-2" : " p-4"}`
+                }
+              >
+                <Building2 size={20} />
+                {!isCollapsed && <span>Customers</span>}
+              </NavLink>
+            )}
             <NavLink
-              to="/dashboard/enquiries"
-              className={({ isActive }) =>
-                `flex items-center space-x-3 transition-all duration-500 rounded-xl mt-2 ${
-                  isActive
-                    ? "bg-black/90 text-white"
-                    : "text-gray-700 hover:bg-gray-50"
-                } ${isCollapsed ? "justify-center p-2" : " p-4"}`
-              }
-            >
-              <FileQuestion size={20} />
-              {!isCollapsed && <span>Enquiries</span>}
-            </NavLink>
-            <NavLink
-              to="/dashboard/projects"
+              to="/dashboard/attendance"
               className={({ isActive }) =>
                 `flex items-center space-x-3 transition-all duration-500 rounded-xl mt-2 ${
                   isActive
@@ -170,11 +212,11 @@ export default function Dashboard() {
                 } ${isCollapsed ? "justify-center p-2" : " p-4"}`
               }
             >
-              <Briefcase size={20} />
-              {!isCollapsed && <span>Projects</span>}
+              <UserCheck size={20} />
+              {!isCollapsed && <span>Attendance</span>}
             </NavLink>
             <NavLink
-              to="/dashboard/attendance"
+              to="/dashboard/timesheets"
               className={({ isActive }) =>
                 `flex items-center space-x-3 transition-all duration-500 rounded-xl mt-2 ${
                   isActive
@@ -183,9 +225,39 @@ export default function Dashboard() {
                 } ${isCollapsed ? "justify-center p-2" : " p-4"}`
               }
             >
-              <UserCheck size={20} />
-              {!isCollapsed && <span>Attendance</span>}
+              <CalendarClock size={20} />
+              {!isCollapsed && <span>Timesheet</span>}
             </NavLink>
+            {can("report.view") && (
+              <NavLink
+                to="/dashboard/reports"
+                className={({ isActive }) =>
+                  `flex items-center space-x-3 transition-all duration-500 rounded-xl mt-2 ${
+                    isActive
+                      ? "bg-black/90 text-white"
+                      : "text-gray-700 hover:bg-gray-50"
+                  } ${isCollapsed ? "justify-center p-2" : " p-4"}`
+                }
+              >
+                <BarChart3 size={20} />
+                {!isCollapsed && <span>Reports</span>}
+              </NavLink>
+            )}
+            {can("template.manage") && (
+              <NavLink
+                to="/dashboard/templates"
+                className={({ isActive }) =>
+                  `flex items-center space-x-3 transition-all duration-500 rounded-xl mt-2 ${
+                    isActive
+                      ? "bg-black/90 text-white"
+                      : "text-gray-700 hover:bg-gray-50"
+                  } ${isCollapsed ? "justify-center p-2" : " p-4"}`
+                }
+              >
+                <LayoutTemplate size={20} />
+                {!isCollapsed && <span>Templates</span>}
+              </NavLink>
+            )}
           </nav>
         </div>
 
@@ -193,12 +265,18 @@ export default function Dashboard() {
           <Routes>
             <Route path="/" element={<Basics />} />
             <Route path="/enquiries/*" element={<Enquiries />} />
+            <Route path="/customers/*" element={<Customers />} />
             <Route path="/projects" element={<Projects />} />
+            <Route path="/projects/timeline" element={<PortfolioTimeline />} />
             <Route path="/projects/:id" element={<ProjectDetails />} />
+            <Route path="/projects/:id/timeline" element={<ProjectTimeline />} />
             <Route path="/projects/:projectId/task/*" element={<TaskDetails />} />
             <Route path="/projects/:id/edit" element={<ProjectForm />} />
             <Route path="/projects/new" element={<ProjectForm />} />
             <Route path="/attendance" element={<Attendance />} />
+            <Route path="/timesheets/*" element={<Timesheets />} />
+            {can("report.view") && <Route path="/reports" element={<Reports />} />}
+            {can("template.manage") && <Route path="/templates" element={<Templates />} />}
           </Routes>
         </div>
 
@@ -208,6 +286,7 @@ export default function Dashboard() {
             onClose={() => setShowAttendanceModal(false)}
           />
         )}
+        {user && <TimerWatcher />}
       </div>
     </div>
   );
@@ -1,18 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { Routes, Route, useNavigate } from 'react-router-dom';
-import { Plus, Loader2, Trash2, ExternalLink } from 'lucide-react';
-import { useEnquiryStore } from '../store/enquiryStore';
+import { Plus, Loader2, Trash2, ExternalLink, List, Columns, Search } from 'lucide-react';
+import { Enquiry, EnquiryStatus, useEnquiryStore } from '../store/enquiryStore';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { getExpectedValue, getPipelineStats, isFollowUpDue } from '../lib/pipeline';
+import { formatCurrency } from '../lib/invoicing';
+import { matchesRecordSearch } from '../lib/numbering';
 import toast from 'react-hot-toast';
 import EnquiryForm from './EnquiryForm';
 import EnquiryDetails from './EnquiryDetails';
+import EnquiryBoard from '../components/EnquiryBoard';
+import EnquiryStatusBadge from '../components/EnquiryStatusBadge';
 
 const EnquiriesList = () => {
   const navigate = useNavigate();
-  const { enquiries, loading, fetchEnquiries, deleteEnquiry } = useEnquiryStore();
+  const { enquiries, loading, subscribeToEnquiries, deleteEnquiry, updateEnquiryStatus, convertToProject } =
+    useEnquiryStore();
+  const { can } = useCurrentUser();
+  const [view, setView] = useState<'list' | 'board'>('board');
+  const [search, setSearch] = useState('');
 
-  useEffect(() => {
-    fetchEnquiries();
-  }, [fetchEnquiries]);
+  useEffect(() => subscribeToEnquiries(), [subscribeToEnquiries]);
 
   const handleDelete = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this enquiry?')) {
@@ -25,19 +33,79 @@ const EnquiriesList = () => {
     }
   };
 
-  const filteredEnquiries = enquiries.filter(e => e.type === 'enquiry');
+  // Winning goes through conversion; losing needs a reason
+  const handleMove = async (enquiry: Enquiry, status: EnquiryStatus) => {
+    try {
+      if (status === 'won') {
+        if (!window.confirm(`Convert "${enquiry.name}" to a project?`)) return;
+        const projectId = await convertToProject(enquiry.id!);
+        navigate(`/dashboard/projects/${projectId}`);
+        return;
+      }
+      let lossReason = '';
+      if (status === 'lost') {
+        lossReason = window.prompt('Why was this enquiry lost?')?.trim() || '';
+        if (!lossReason) return;
+      }
+      await updateEnquiryStatus(enquiry.id!, status, lossReason);
+    } catch (error) {
+      console.error('Error moving enquiry:', error);
+      if (status !== 'won') toast.error('Failed to update enquiry');
+    }
+  };
+
+  const allEnquiries = enquiries.filter(e => e.type === 'enquiry');
+  const stats = getPipelineStats(allEnquiries);
+  const filteredEnquiries = allEnquiries.filter(e => matchesRecordSearch(e, search));
 
   return (
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-bold">Enquiries</h2>
-        <button
-          onClick={() => navigate('new')}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-black/90 hover:bg-black/80"
-        >
-          <Plus size={20} className="mr-2" />
-          New Enquiry
-        </button>
+        <div>
+          <h2 className="text-2xl font-bold">Enquiries</h2>
+          <p className="text-sm text-gray-500">
+            {stats.openCount} open worth ₹{formatCurrency(stats.openValue)}
+            {stats.conversionRate !== null &&
+              ` · ${stats.conversionRate}% converted (${stats.won} won, ${stats.lost} lost)`}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <div className="flex items-center rounded-md border-[1px] bg-white px-2">
+            <Search size={18} className="text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search by number, name or customer"
+              className="p-2 w-72 focus:outline-none"
+            />
+          </div>
+          <div className="inline-flex rounded-md border-[1px] bg-white">
+            <button
+              onClick={() => setView('board')}
+              title="Board"
+              className={`px-3 py-2 rounded-l-md ${view === 'board' ? 'bg-gray-100' : ''}`}
+            >
+              <Columns size={18} />
+            </button>
+            <button
+              onClick={() => setView('list')}
+              title="List"
+              className={`px-3 py-2 rounded-r-md ${view === 'list' ? 'bg-gray-100' : ''}`}
+            >
+              <List size={18} />
+            </button>
+          </div>
+          {can('enquiry.create') && (
+            <button
+              onClick={() => navigate('new')}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-black/90 hover:bg-black/80"
+            >
+              <Plus size={20} className="mr-2" />
+              New Enquiry
+            </button>
+          )}
+        </div>
       </div>
 
       {loading ? (
@@ -46,8 +114,16 @@ const EnquiriesList = () => {
         </div>
       ) : filteredEnquiries.length === 0 ? (
         <div className="text-center py-12">
-          <p className="text-gray-500">No enquiries yet. Create your first one!</p>
+          <p className="text-gray-500">
+            {allEnquiries.length === 0 ? 'No enquiries yet. Create your first one!' : 'No matching enquiries'}
+          </p>
         </div>
+      ) : view === 'board' ? (
+        <EnquiryBoard
+          enquiries={filteredEnquiries}
+          canMove={can('enquiry.manage')}
+          onMove={handleMove}
+        />
       ) : (
         <div className="bg-white shadow-md rounded-lg overflow-hidden">
           <table className="min-w-full divide-y divide-gray-200">
@@ -62,6 +138,18 @@ const EnquiriesList = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Customer
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Owner
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Expected Value
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Follow-up
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Created At
                 </th>
@@ -82,6 +170,22 @@ const EnquiriesList = () => {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {enquiry.customer.name}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <EnquiryStatusBadge status={enquiry.status} />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {enquiry.owner?.name || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    ₹{formatCurrency(getExpectedValue(enquiry.deliverables))}
+                  </td>
+                  <td
+                    className={`px-6 py-4 whitespace-nowrap text-sm ${
+                      isFollowUpDue(enquiry) ? 'text-red-600 font-medium' : 'text-gray-500'
+                    }`}
+                  >
+                    {enquiry.followUpDate ? new Date(enquiry.followUpDate).toLocaleDateString() : '-'}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {new Date(enquiry.createdAt).toLocaleDateString()}
                   </td>
@@ -93,12 +197,14 @@ const EnquiriesList = () => {
                       >
                         <ExternalLink size={18} />
                       </button>
-                      <button
-                        onClick={() => handleDelete(enquiry.id!)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <Trash2 size={18} />
-                      </button>
+                      {can('enquiry.manage') && (
+                        <button
+                          onClick={() => handleDelete(enquiry.id!)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -1,71 +1,62 @@
-import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { useEnquiryStore } from "../store/enquiryStore";
+import { useEffect } from "react";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import { EnquiryStatus, useEnquiryStore } from "../store/enquiryStore";
 import { Loader2, Pencil, ArrowRight, ArrowLeft } from "lucide-react";
-import { useAuthStore } from "../store/authStore";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "../lib/firebase";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import { ENQUIRY_STATUSES, getExpectedValue, isFollowUpDue } from "../lib/pipeline";
+import { formatCurrency } from "../lib/invoicing";
+import EnquiryQuotes from "../components/EnquiryQuotes";
+import EnquiryStatusBadge from "../components/EnquiryStatusBadge";
 import toast from "react-hot-toast";
-import InvoiceDownloader from "@/components/InvoiceDocument";
 
 export default function EnquiryDetails() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { fetchEnquiry, convertToProject } = useEnquiryStore();
-  const [enquiry, setEnquiry] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const { user } = useAuthStore();
+  const { currentEnquiry, subscribeToEnquiry, convertToProject, updateEnquiryStatus } =
+    useEnquiryStore();
+  const enquiry = currentEnquiry?.id === id ? currentEnquiry : null;
+  const { can } = useCurrentUser();
 
   useEffect(() => {
-    const loadEnquiry = async () => {
-      if (id) {
-        const data = await fetchEnquiry(id);
-        if (data) {
-          setEnquiry(data);
-        } else {
-          toast.error("Enquiry not found");
-          navigate("/dashboard/enquiries");
-        }
-        setLoading(false);
-      }
-    };
+    if (!id) return;
 
-    const checkUserRole = async () => {
-      if (user) {
-        const userDoc = await getDoc(doc(db, "users", user.uid));
-        const userData = userDoc.data();
-        setIsAdmin(userData?.role === "admin");
-      }
-    };
-
-    loadEnquiry();
-    checkUserRole();
-  }, [id, user, fetchEnquiry, navigate]);
+    return subscribeToEnquiry(id, () => {
+      toast.error("Enquiry not found");
+      navigate("/dashboard/enquiries");
+    });
+  }, [id, subscribeToEnquiry, navigate]);
 
   const handleConvertToProject = async () => {
     try {
       if (!id) return;
-      await convertToProject(id);
-      navigate("/dashboard/projects");
+      const projectId = await convertToProject(id);
+      navigate(`/dashboard/projects/${projectId}`);
     } catch (error) {
       console.error("Error converting to project:", error);
     }
   };
 
+  const handleStatusChange = async (status: EnquiryStatus) => {
+    if (!id) return;
+    let lossReason = "";
+    if (status === "lost") {
+      lossReason = window.prompt("Why was this enquiry lost?")?.trim() || "";
+      if (!lossReason) return;
+    }
+    try {
+      await updateEnquiryStatus(id, status, lossReason);
+      toast.success("Status updated");
+    } catch (error) {
+      console.error("Error updating enquiry status:", error);
+      toast.error("Failed to update status");
+    }
+  };
 
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center h-64">
-        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
-      </div>
-    );
-  }
 
   if (!enquiry) {
     return (
-      <div className="p-6">
-        <p className="text-red-500">Enquiry not found</p>
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
       </div>
     );
   }
@@ -81,8 +72,7 @@ export default function EnquiryDetails() {
         </div>
 
         <div className="flex space-x-4">
-          <InvoiceDownloader enquiry={enquiry} />
-          {isAdmin && (
+          {can("enquiry.manage") && (
             <>
               <button
                 onClick={() => navigate(`/dashboard/enquiries/${id}/edit`)}
@@ -91,13 +81,15 @@ export default function EnquiryDetails() {
                 <Pencil className="mr-2 h-4 w-4" />
                 Edit
               </button>
-              <button
-                onClick={handleConvertToProject}
-                className="inline-flex items-center px-4 py-2  text-sm font-medium rounded-md text-black bg-white border-[1px]"
-              >
-                <ArrowRight className="mr-2 h-4 w-4" />
-                Move to Projects
-              </button>
+              {!enquiry.projectId && (
+                <button
+                  onClick={handleConvertToProject}
+                  className="inline-flex items-center px-4 py-2  text-sm font-medium rounded-md text-black bg-white border-[1px]"
+                >
+                  <ArrowRight className="mr-2 h-4 w-4" />
+                  Move to Projects
+                </button>
+              )}
             </>
           )}
         </div>
@@ -115,7 +107,12 @@ export default function EnquiryDetails() {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <p className="text-sm font-medium text-gray-500">ID</p>
-                <p className="mt-1">{enquiry.__id}</p>
+                <p className="mt-1">
+                  {enquiry.__id}
+                  {enquiry.legacyId && (
+                    <span className="ml-2 text-sm text-gray-500">(was {enquiry.legacyId})</span>
+                  )}
+                </p>
               </div>
               <div>
                 <p className="text-sm font-medium text-gray-500">Created At</p>
@@ -135,6 +132,70 @@ export default function EnquiryDetails() {
           </div>
         </div>
 
+        {/* Pipeline Section */}
+        <div className="bg-white border-[1px] rounded-xl overflow-hidden">
+          <div className="border-b border-gray-200 px-6 py-3">
+            <h3 className="text-lg font-medium text-gray-900">Pipeline</h3>
+          </div>
+          <div className="px-6 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm font-medium text-gray-500">Status</p>
+                <div className="mt-1">
+                  {can("enquiry.manage") && enquiry.status !== "won" ? (
+                    <select
+                      value={enquiry.status}
+                      onChange={(e) => handleStatusChange(e.target.value as EnquiryStatus)}
+                      className="p-1 rounded-md border-gray-300 text-sm"
+                    >
+                      {ENQUIRY_STATUSES.filter((status) => status.value !== "won").map((status) => (
+                        <option key={status.value} value={status.value}>
+                          {status.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <EnquiryStatusBadge status={enquiry.status} />
+                  )}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-500">Expected Value</p>
+                <p className="mt-1">₹{formatCurrency(getExpectedValue(enquiry.deliverables))}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-500">Owner</p>
+                <p className="mt-1">{enquiry.owner?.name || "Unassigned"}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-500">Follow-up</p>
+                <p className={`mt-1 ${isFollowUpDue(enquiry) ? "text-red-600 font-medium" : ""}`}>
+                  {enquiry.followUpDate
+                    ? new Date(enquiry.followUpDate).toLocaleDateString()
+                    : "-"}
+                </p>
+              </div>
+              {enquiry.status === "lost" && (
+                <div className="col-span-2">
+                  <p className="text-sm font-medium text-gray-500">Loss Reason</p>
+                  <p className="mt-1">{enquiry.lossReason}</p>
+                </div>
+              )}
+              {enquiry.projectId && (
+                <div className="col-span-2">
+                  <p className="text-sm font-medium text-gray-500">Project</p>
+                  <Link
+                    to={`/dashboard/projects/${enquiry.projectId}`}
+                    className="mt-1 inline-block text-blue-600 hover:underline"
+                  >
+                    Open the project created from this enquiry
+                  </Link>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
         {/* Customer Details Section */}
         <div className="bg-white border-[1px]  rounded-xl overflow-hidden">
           <div className="border-b border-gray-200 px-6 py-3">
@@ -146,7 +207,16 @@ export default function EnquiryDetails() {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <p className="text-sm font-medium text-gray-500">Name</p>
-                <p className="mt-1">{enquiry.customer.name}</p>
+                {enquiry.customerId && can("customer.view") ? (
+                  <Link
+                    to={`/dashboard/customers/${enquiry.customerId}`}
+                    className="mt-1 inline-block text-blue-600 hover:underline"
+                  >
+                    {enquiry.customer.name}
+                  </Link>
+                ) : (
+                  <p className="mt-1">{enquiry.customer.name}</p>
+                )}
               </div>
               <div>
                 <p className="text-sm font-medium text-gray-500">Phone</p>
@@ -241,6 +311,8 @@ export default function EnquiryDetails() {
             </ul>
           </div>
         </div>
+
+        <EnquiryQuotes enquiry={enquiry} canCreate={can("enquiry.manage")} />
       </div>
     </div>
   );
@@ -1,7 +1,16 @@
 import React, { useState, useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { Plus, Loader2, Trash2, ArrowLeft } from "lucide-react";
-import { useEnquiryStore } from "../store/enquiryStore";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "../lib/firebase";
+import { can } from "../lib/permissions";
+import { Enquiry, useEnquiryStore } from "../store/enquiryStore";
+import { Customer } from "../store/customerStore";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import { toCustomerSnapshot } from "../lib/customers";
+import CustomerPicker from "../components/CustomerPicker";
+import { useTemplateStore } from "../store/templateStore";
+import { TemplateTask, countTemplateTasks, toDeliverables } from "../lib/templates";
 import toast from "react-hot-toast";
 
 interface Deliverable {
@@ -10,6 +19,7 @@ interface Deliverable {
   hours: number;
   costPerHour: number;
   total: number;
+  subtasks?: TemplateTask[];
 }
 
 interface CustomerRequirement {
@@ -22,9 +32,13 @@ export default function EnquiryForm() {
   const navigate = useNavigate();
   const { createEnquiry, updateEnquiry, fetchEnquiry, loading } =
     useEnquiryStore();
+  const { user, profile, role } = useCurrentUser();
+  const [staff, setStaff] = useState<{ id: string; name: string }[]>([]);
+  const { templates, fetchTemplates } = useTemplateStore();
   const [formData, setFormData] = useState({
     name: "",
     description: "",
+    customerId: null as string | null,
     customer: {
       name: "",
       phone: "",
@@ -32,15 +46,53 @@ export default function EnquiryForm() {
     },
     deliverables: [] as Deliverable[],
     requirements: [] as CustomerRequirement[],
+    owner: null as Enquiry["owner"],
+    followUpDate: null as string | null,
   });
 
+  useEffect(() => {
+    const fetchStaff = async () => {
+      const querySnapshot = await getDocs(collection(db, "users"));
+      setStaff(
+        querySnapshot.docs
+          .map((doc) => ({ id: doc.id, ...doc.data() }) as { id: string; fullName: string; role: string; verified: boolean })
+          .filter((member) => member.verified && can(member.role, "dashboard.access"))
+          .map((member) => ({ id: member.id, name: member.fullName }))
+      );
+    };
+    fetchStaff();
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  // New enquiries are owned by whoever records them
+  useEffect(() => {
+    if (!id && user) {
+      setFormData((prev) =>
+        prev.owner
+          ? prev
+          : { ...prev, owner: { id: user.uid, name: profile?.fullName || user.email || "" } }
+      );
+    }
+  }, [id, user, profile?.fullName]);
+
   useEffect(() => {
     const loadEnquiry = async () => {
       if (id) {
         const enquiry = await fetchEnquiry(id);
         if (enquiry) {
+          // Only the editable fields; status and quote revisions are
+          // managed elsewhere and must not be written back from here
           setFormData({
-            ...enquiry,
+            name: enquiry.name,
+            description: enquiry.description,
+            customerId: enquiry.customerId,
+            customer: enquiry.customer,
+            requirements: enquiry.requirements,
+            owner: enquiry.owner,
+            followUpDate: enquiry.followUpDate,
             deliverables: enquiry.deliverables.map((d) => ({
               ...d,
               hours: d.hours ?? 0,
@@ -54,6 +106,18 @@ export default function EnquiryForm() {
     loadEnquiry();
   }, [id, fetchEnquiry]);
 
+  // Picking a customer copies its details onto the enquiry; clearing it
+  // leaves them to be entered by hand
+  const handleCustomerChange = (customer: Customer | null) => {
+    setFormData((prev) => ({
+      ...prev,
+      customerId: customer?.id || null,
+      customer: customer
+        ? toCustomerSnapshot(customer)
+        : { name: "", phone: "", address: "" },
+    }));
+  };
+
   const addDeliverable = () => {
     setFormData((prev) => ({
       ...prev,
@@ -70,6 +134,23 @@ export default function EnquiryForm() {
     }));
   };
 
+  // One deliverable per top-level task of the template
+  const addFromTemplate = (templateId: string) => {
+    const template = templates.find((item) => item.id === templateId);
+    if (!template) return;
+    setFormData((prev) => ({
+      ...prev,
+      deliverables: [
+        ...prev.deliverables,
+        ...toDeliverables(template.tasks, () => crypto.randomUUID()).map((d) => ({
+          ...d,
+          hours: d.hours ?? 0,
+          costPerHour: d.costPerHour ?? 0,
+        })),
+      ],
+    }));
+  };
+
   const removeDeliverable = (id: string) => {
     setFormData((prev) => ({
       ...prev,
@@ -222,56 +303,110 @@ export default function EnquiryForm() {
           <h3 className="text-lg font-medium text-gray-900 mb-4">
             Customer Details
           </h3>
+          <CustomerPicker
+            value={formData.customerId}
+            onChange={handleCustomerChange}
+            canCreate={can(role, "customer.manage")}
+          />
+          {!formData.customerId && (
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 mt-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.customer.name}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      customer: { ...prev.customer, name: e.target.value },
+                    }))
+                  }
+                  className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Phone
+                </label>
+                <input
+                  type="tel"
+                  required
+                  value={formData.customer.phone}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      customer: { ...prev.customer, phone: e.target.value },
+                    }))
+                  }
+                  className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Address
+                </label>
+                <textarea
+                  required
+                  value={formData.customer.address}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      customer: { ...prev.customer, address: e.target.value },
+                    }))
+                  }
+                  className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  rows={2}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white border-[1px] rounded-xl px-6 py-10">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Pipeline</h3>
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
             <div>
               <label className="block text-sm font-medium text-gray-700">
-                Name
+                Owner
               </label>
-              <input
-                type="text"
-                required
-                value={formData.customer.name}
+              <select
+                value={formData.owner?.id || ""}
                 onChange={(e) =>
                   setFormData((prev) => ({
                     ...prev,
-                    customer: { ...prev.customer, name: e.target.value },
+                    owner: staff.find((member) => member.id === e.target.value) || null,
                   }))
                 }
                 className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-              />
+              >
+                <option value="">Unassigned</option>
+                {formData.owner && !staff.some((member) => member.id === formData.owner?.id) && (
+                  <option value={formData.owner.id}>{formData.owner.name}</option>
+                )}
+                {staff.map((member) => (
+                  <option key={member.id} value={member.id}>
+                    {member.name}
+                  </option>
+                ))}
+              </select>
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700">
-                Phone
+                Follow-up Date
               </label>
               <input
-                type="tel"
-                required
-                value={formData.customer.phone}
-                onChange={(e) =>
-                  setFormData((prev) => ({
-                    ...prev,
-                    customer: { ...prev.customer, phone: e.target.value },
-                  }))
-                }
-                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-              />
-            </div>
-            <div className="sm:col-span-2">
-              <label className="block text-sm font-medium text-gray-700">
-                Address
-              </label>
-              <textarea
-                required
-                value={formData.customer.address}
+                type="date"
+                value={formData.followUpDate || ""}
                 onChange={(e) =>
                   setFormData((prev) => ({
                     ...prev,
-                    customer: { ...prev.customer, address: e.target.value },
+                    followUpDate: e.target.value || null,
                   }))
                 }
                 className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                rows={2}
               />
             </div>
           </div>
@@ -280,14 +415,30 @@ export default function EnquiryForm() {
         <div className="bg-white border-[1px] rounded-xl px-6 py-10">
           <div className="flex justify-between items-center mb-4">
             <h3 className="text-lg font-medium text-gray-900">Deliverables</h3>
-            <button
-              type="button"
-              onClick={addDeliverable}
-              className="inline-flex items-center px-3 border border-transparent text-sm font-medium rounded-md text-white bg-black/90 hover:bg-black/80 py-2"
-            >
-              <Plus size={16} className="mr-1" />
-              Add Deliverable
-            </button>
+            <div className="flex items-center space-x-3">
+              {templates.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => addFromTemplate(e.target.value)}
+                  className="p-2 rounded-md border-gray-300 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">Add from Template...</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                type="button"
+                onClick={addDeliverable}
+                className="inline-flex items-center px-3 border border-transparent text-sm font-medium rounded-md text-white bg-black/90 hover:bg-black/80 py-2"
+              >
+                <Plus size={16} className="mr-1" />
+                Add Deliverable
+              </button>
+            </div>
           </div>
           <div className="space-y-4">
             {formData.deliverables.map((deliverable, index) => (
@@ -308,6 +459,12 @@ export default function EnquiryForm() {
                     }
                     className="mt-1 block w-full rounded-md border-gray-300 p-2 shadow-sm focus:border-blue-500 focus:ring-blue-500"
                   />
+                  {deliverable.subtasks && deliverable.subtasks.length > 0 && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {countTemplateTasks(deliverable.subtasks)} subtasks from
+                      the template are added when the enquiry is won
+                    </p>
+                  )}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">
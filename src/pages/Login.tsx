@@ -1,37 +1,22 @@
 import React, { useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link } from "react-router-dom";
 import { useAuthStore } from "../store/authStore";
 import { Loader2, Ship } from "lucide-react";
 import toast from "react-hot-toast";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "../lib/firebase";
 
 export default function Login() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [rememberMe, setRememberMe] = useState(true);
   const { signIn, loading, error } = useAuthStore();
-  const navigate = useNavigate();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const userCredential = await signIn(email, password);
-      if (userCredential) {
-        // Get user role from Firestore
-        const userDoc = await getDoc(doc(db, "users", userCredential.uid));
-        const userData = userDoc.data();
-
-        toast.success("Successfully logged in!");
-
-        // Route based on user role
-        if (userData?.role === "admin") {
-          navigate("/dashboard");
-        } else if (userData?.role === "customer") {
-          navigate("/customer");
-        } else {
-          navigate("/dashboard");
-        }
-      }
+      await signIn(email, password, rememberMe);
+      // AuthenticatedRedirect sends the user to their home page once their
+      // profile has loaded
+      toast.success("Successfully logged in!");
     } catch (err) {
       toast.error("Failed to login. Please try again.");
     }
@@ -73,6 +58,15 @@ export default function Login() {
               required
             />
           </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={rememberMe}
+              onChange={(e) => setRememberMe(e.target.checked)}
+              className="mr-2 rounded border-gray-300"
+            />
+            Remember me
+          </label>
           {error && <p className="text-red-500 text-sm">{error}</p>}
           <button
             type="submit"
@@ -0,0 +1,95 @@
+import { useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { useProjectStore } from "../store/projectStore";
+import GanttChart, { GanttItem, GanttRow } from "../components/GanttChart";
+
+export default function PortfolioTimeline() {
+  const { projects, loading, subscribeToProjects } = useProjectStore();
+  const navigate = useNavigate();
+
+  useEffect(() => subscribeToProjects(), [subscribeToProjects]);
+
+  const scheduled = useMemo(
+    () =>
+      projects.filter(
+        (project) => project.project_start_date && project.project_due_date
+      ),
+    [projects]
+  );
+  const unscheduled = projects.filter(
+    (project) => !project.project_start_date || !project.project_due_date
+  );
+
+  const rows = useMemo<GanttRow[]>(
+    () =>
+      scheduled.map((project) => ({
+        id: project.id as string,
+        label: `${project.__id} ${project.name}`,
+      })),
+    [scheduled]
+  );
+
+  const items = useMemo<GanttItem[]>(
+    () =>
+      scheduled.map((project) => ({
+        id: project.id as string,
+        rowId: project.id as string,
+        label: project.name,
+        start: new Date(project.project_start_date!).getTime(),
+        end: new Date(project.project_due_date!).getTime(),
+      })),
+    [scheduled]
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center space-x-4 mb-6">
+        <button onClick={() => navigate("/dashboard/projects")}>
+          <ArrowLeft className=" h-7 w-7" />
+        </button>
+        <h2 className="text-2xl font-bold">Projects Timeline</h2>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+        </div>
+      ) : (
+        <>
+          <div className="bg-white border-[1px] rounded-lg overflow-hidden">
+            <GanttChart
+              rows={rows}
+              items={items}
+              onItemClick={(projectId) =>
+                navigate(`/dashboard/projects/${projectId}/timeline`)
+              }
+            />
+          </div>
+
+          {unscheduled.length > 0 && (
+            <div className="mt-6 bg-white border-[1px] rounded-lg p-6">
+              <h3 className="text-sm font-medium text-gray-500 mb-2">
+                Not shown (missing start or due date)
+              </h3>
+              <ul className="space-y-1">
+                {unscheduled.map((project) => (
+                  <li key={project.id}>
+                    <button
+                      onClick={() =>
+                        navigate(`/dashboard/projects/${project.id}`)
+                      }
+                      className="text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      {project.__id} {project.name}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,31 +1,45 @@
-import React, { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { useProjectStore } from "../store/projectStore";
+import React, { useState, useEffect, useMemo } from "react";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import { useProjectStore, PathItem, Task, TaskConflictError } from "../store/projectStore";
 import {
   Loader2,
   Pencil,
-  FileDown,
   ArrowLeft,
   Calendar,
   Check,
   X,
+  GanttChartSquare,
+  KanbanSquare,
+  LayoutList,
+  CopyPlus,
+  Copy,
 } from "lucide-react";
-import { useAuthStore } from "../store/authStore";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "../lib/firebase";
-import html2pdf from "html2pdf.js";
+import { useCurrentUser } from "../hooks/useCurrentUser";
 import toast from "react-hot-toast";
 import TaskModal from "../components/TaskModal";
 import TaskList from "../components/TaskList";
 import ProjectComments from "../components/ProjectComments";
 import CreateCustomerModal from "../components/CreateCustomerModal";
 import ProjectStatusSelect from "@/components/ProjectStatusSelect";
+import ProjectSchedule from "../components/ProjectSchedule";
+import ProjectInvoices from "../components/ProjectInvoices";
+import ProjectChecklist from "../components/ProjectChecklist";
+import ProjectBaseline from "../components/ProjectBaseline";
+import CostPanel from "../components/CostPanel";
+import TaskBoard from "../components/TaskBoard";
+import BoardColumnsModal from "../components/BoardColumnsModal";
+import SaveTemplateModal from "../components/SaveTemplateModal";
+import DuplicateModal from "../components/DuplicateModal";
+import { BoardColumn, getMoveError } from "../lib/board";
+import { computeSchedule } from "../lib/schedule";
+import { DuplicateTaskOptions, flattenTaskTree, getTaskPathIds } from "../lib/taskTree";
 
 export default function ProjectDetails() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const {
-    fetchProject,
+    currentProject,
+    subscribeToProject,
     addTask,
     updateTask,
     deleteTask,
@@ -34,10 +48,23 @@ export default function ProjectDetails() {
     updateProjectDueDate,
     updateProjectStartDate,
     updateProjectStatus,
+    moveTaskOnBoard,
+    moveTask,
+    duplicateProject,
+    duplicateTask,
   } = useProjectStore();
-  const [project, setProject] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const project = currentProject?.id === id ? currentProject : null;
+  const schedule = useMemo(
+    () =>
+      project
+        ? computeSchedule(
+            project.tasks,
+            project.project_start_date,
+            project.project_due_date
+          )
+        : null,
+    [project]
+  );
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<any>(null);
   const [isEditingDueDate, setIsEditingDueDate] = useState(false);
@@ -47,63 +74,39 @@ export default function ProjectDetails() {
   const [tempStartDate, setTempStartDate] = useState<string>("");
   const [showStartDateConfirm, setShowStartDateConfirm] = useState(false);
   const [showCustomerModal, setShowCustomerModal] = useState(false);
-  const { user } = useAuthStore();
+  const [taskView, setTaskView] = useState<"list" | "board">("list");
+  const [showColumnsModal, setShowColumnsModal] = useState(false);
+  const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [showDuplicateModal, setShowDuplicateModal] = useState(false);
+  const { user, can } = useCurrentUser();
 
   useEffect(() => {
-    const loadProject = async () => {
-      if (!id) return;
+    if (!id) return;
 
-      try {
-        setLoading(true);
-        const data = await fetchProject(id);
-        if (data) {
-          setProject({
-            ...data,
-            tasks: data.tasks || [],
-          });
-          if (data.project_due_date) {
-            setTempDueDate(data.project_due_date);
-          }
-          if (data.project_start_date) {
-            setTempStartDate(data.project_start_date);
-          }
-        } else {
-          toast.error("Project not found");
-          navigate("/dashboard/projects");
-        }
-      } catch (error) {
-        console.error("Error loading project:", error);
-        toast.error("Failed to load project");
-        navigate("/dashboard/projects");
-      } finally {
-        setLoading(false);
-      }
-    };
+    return subscribeToProject(id, () => {
+      toast.error("Project not found");
+      navigate("/dashboard/projects");
+    });
+  }, [id, subscribeToProject, navigate]);
 
-    const checkUserRole = async () => {
-      if (user) {
-        const userDoc = await getDoc(doc(db, "users", user.uid));
-        const userData = userDoc.data();
-        setIsAdmin(userData?.role === "admin");
-      }
-    };
+  // Follow date changes made elsewhere unless the field is being edited here
+  useEffect(() => {
+    if (!isEditingDueDate) {
+      setTempDueDate(project?.project_due_date || "");
+    }
+  }, [project?.project_due_date, isEditingDueDate]);
 
-    loadProject();
-    checkUserRole();
-  }, [id, user, fetchProject, navigate]);
+  useEffect(() => {
+    if (!isEditingStartDate) {
+      setTempStartDate(project?.project_start_date || "");
+    }
+  }, [project?.project_start_date, isEditingStartDate]);
 
   const handleAddTask = async (data: any) => {
     if (!id) return;
     try {
       await addTask(id, currentPath, data);
-      const updatedProject = await fetchProject(id);
-      if (updatedProject) {
-        setProject({
-          ...updatedProject,
-          tasks: updatedProject.tasks || [],
-        });
-        toast.success("Task added successfully");
-      }
+      toast.success("Task added successfully");
     } catch (error) {
       console.error("Failed to add task:", error);
       toast.error("Failed to add task");
@@ -114,17 +117,14 @@ export default function ProjectDetails() {
     if (!id || !editingTask) return;
     try {
       await updateTask(id, currentPath, editingTask.id, data);
-      const updatedProject = await fetchProject(id);
-      if (updatedProject) {
-        setProject({
-          ...updatedProject,
-          tasks: updatedProject.tasks || [],
-        });
-        toast.success("Task updated successfully");
-      }
+      toast.success("Task updated successfully");
     } catch (error) {
       console.error("Failed to update task:", error);
-      toast.error("Failed to update task");
+      toast.error(
+        error instanceof TaskConflictError
+          ? error.message
+          : "Failed to update task"
+      );
     }
   };
 
@@ -133,17 +133,14 @@ export default function ProjectDetails() {
     if (window.confirm("Are you sure you want to delete this task?")) {
       try {
         await deleteTask(id, currentPath, taskId);
-        const updatedProject = await fetchProject(id);
-        if (updatedProject) {
-          setProject({
-            ...updatedProject,
-            tasks: updatedProject.tasks || [],
-          });
-          toast.success("Task deleted successfully");
-        }
+        toast.success("Task deleted successfully");
       } catch (error) {
         console.error("Failed to delete task:", error);
-        toast.error("Failed to delete task");
+        toast.error(
+          error instanceof TaskConflictError
+            ? error.message
+            : "Failed to delete task"
+        );
       }
     }
   };
@@ -156,6 +153,74 @@ export default function ProjectDetails() {
     );
   };
 
+  // Board and schedule show tasks from every level of the tree
+  const openTask = (task: Task) => {
+    if (!project) return;
+    const path = getTaskPathIds(flattenTaskTree(project.tasks), task.id).join("/");
+    navigate(`/dashboard/projects/${id}/task/${path}`);
+  };
+
+  const handleMoveInTree = async (task: Task, newParentPath: PathItem[], index: number) => {
+    if (!id) return;
+    try {
+      await moveTask(id, task.id, newParentPath, index);
+      toast.success("Task moved");
+    } catch (error) {
+      console.error("Failed to move task:", error);
+      toast.error(
+        error instanceof TaskConflictError
+          ? error.message
+          : "Failed to move task"
+      );
+    }
+  };
+
+  const handleDuplicateTask = async (task: Task, name: string, options: DuplicateTaskOptions) => {
+    if (!id) return;
+    try {
+      await duplicateTask(id, task.id, name, options);
+      toast.success("Task duplicated");
+    } catch (error) {
+      console.error("Failed to duplicate task:", error);
+      toast.error(
+        error instanceof TaskConflictError
+          ? error.message
+          : "Failed to duplicate task"
+      );
+    }
+  };
+
+  const handleDuplicateProject = async (name: string, options: DuplicateTaskOptions) => {
+    if (!id) return;
+    try {
+      const newId = await duplicateProject(id, name, options);
+      toast.success("Project duplicated");
+      navigate(`/dashboard/projects/${newId}`);
+    } catch (error) {
+      console.error("Failed to duplicate project:", error);
+      toast.error("Failed to duplicate project");
+    }
+  };
+
+  const handleMoveTask = async (task: Task, columnId: string, columns: BoardColumn[]) => {
+    if (!id) return;
+    const moveError = getMoveError(task, columnId, columns);
+    if (moveError) {
+      toast.error(moveError);
+      return;
+    }
+    try {
+      await moveTaskOnBoard(id, task.id, columnId, columns);
+    } catch (error) {
+      console.error("Failed to move task:", error);
+      toast.error(
+        error instanceof TaskConflictError
+          ? error.message
+          : "Failed to move task"
+      );
+    }
+  };
+
   const handleDueDateChange = async (
     e: React.ChangeEvent<HTMLInputElement>
   ) => {
@@ -176,11 +241,7 @@ export default function ProjectDetails() {
     if (!id) return;
     try {
       await updateProjectDueDate(id, tempDueDate || null);
-      const updatedProject = await fetchProject(id);
-      if (updatedProject) {
-        setProject(updatedProject);
-        toast.success("Project due date updated successfully");
-      }
+      toast.success("Project due date updated successfully");
       setIsEditingDueDate(false);
       setShowDueDateConfirm(false);
     } catch (error) {
@@ -193,11 +254,7 @@ export default function ProjectDetails() {
     if (!id) return;
     try {
       await updateProjectStartDate(id, tempStartDate || null);
-      const updatedProject = await fetchProject(id);
-      if (updatedProject) {
-        setProject(updatedProject);
-        toast.success("Project start date updated successfully");
-      }
+      toast.success("Project start date updated successfully");
       setIsEditingStartDate(false);
       setShowStartDateConfirm(false);
     } catch (error) {
@@ -207,138 +264,18 @@ export default function ProjectDetails() {
   };
 
   const cancelStartDateChange = () => {
-    setTempStartDate(project.project_start_date || "");
+    setTempStartDate(project?.project_start_date || "");
     setShowStartDateConfirm(false);
     setIsEditingStartDate(false);
   };
 
   const cancelDueDateChange = () => {
-    setTempDueDate(project.project_due_date || "");
+    setTempDueDate(project?.project_due_date || "");
     setShowDueDateConfirm(false);
     setIsEditingDueDate(false);
   };
 
-  const downloadInvoice = () => {
-    if (!project) return;
-
-    const calculateTaskTotal = (task: any): number => {
-      const taskTotal = (task.hours || 0) * (task.costPerHour || 0);
-      const childrenTotal = task.children.reduce(
-        (sum: number, child: any) => sum + calculateTaskTotal(child),
-        0
-      );
-      return taskTotal + childrenTotal;
-    };
-
-    const totalAmount = project.tasks.reduce(
-      (sum: number, task: any) => sum + calculateTaskTotal(task),
-      0
-    );
-
-    const renderTasksRecursively = (tasks: any[], level = 0): string => {
-      return tasks
-        .map(
-          (task) => `
-        <tr>
-          <td style="padding: 12px; border-bottom: 1px solid #e5e7eb;">
-            ${"&nbsp;".repeat(level * 4)}${task.name}
-            ${
-              task.description
-                ? `<br><span style="color: #666; font-size: 0.9em;">${task.description}</span>`
-                : ""
-            }
-          </td>
-          <td style="padding: 12px; text-align: right; border-bottom: 1px solid #e5e7eb;">${
-            task.hours || 0
-          }</td>
-          <td style="padding: 12px; text-align: right; border-bottom: 1px solid #e5e7eb;">₹${
-            task.costPerHour || 0
-          }</td>
-          <td style="padding: 12px; text-align: right; border-bottom: 1px solid #e5e7eb;">₹${
-            (task.hours || 0) * (task.costPerHour || 0)
-          }</td>
-        </tr>
-        ${renderTasksRecursively(task.children, level + 1)}
-      `
-        )
-        .join("");
-    };
-
-    const content = `
-      <div style="font-family: Arial, sans-serif; padding: 40px; max-width: 800px; margin: 0 auto;">
-        <div style="text-align: center; margin-bottom: 40px;">
-          <h1 style="color: #2563eb;">PROJECT INVOICE</h1>
-          <p style="color: #666;">Project ID: ${project.__id}</p>
-        </div>
-        
-        <div style="margin-bottom: 30px;">
-          <h2>ShipTech-ICON</h2>
-          <p>Center for Innovation Technology Transfer & Industrial Collaboration</p>
-          <p>CITTIC, CUSAT, Kochi, Kerala 682022</p>
-        </div>
-
-        <div style="margin-bottom: 30px;">
-          <h3>Project Information</h3>
-          <p><strong>Name:</strong> ${project.name}</p>
-          <p><strong>Description:</strong> ${project.description}</p>
-          ${
-            project.project_due_date
-              ? `<p><strong>Due Date:</strong> ${new Date(
-                  project.project_due_date
-                ).toLocaleDateString()}</p>`
-              : ""
-          }
-        </div>
-
-        <div style="margin-bottom: 30px;">
-          <h3>Customer Details:</h3>
-          <p><strong>${project.customer.name}</strong></p>
-          <p>${project.customer.address}</p>
-          <p>Phone: ${project.customer.phone}</p>
-        </div>
-
-        <table style="width: 100%; border-collapse: collapse; margin-bottom: 30px;">
-          <thead>
-            <tr style="background-color: #f3f4f6;">
-              <th style="padding: 12px; text-align: left; border-bottom: 1px solid #e5e7eb;">Task</th>
-              <th style="padding: 12px; text-align: right; border-bottom: 1px solid #e5e7eb;">Hours</th>
-              <th style="padding: 12px; text-align: right; border-bottom: 1px solid #e5e7eb;">Rate/Hour</th>
-              <th style="padding: 12px; text-align: right; border-bottom: 1px solid #e5e7eb;">Amount</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${renderTasksRecursively(project.tasks)}
-            <tr style="background-color: #f3f4f6;">
-              <td colspan="3" style="padding: 12px; text-align: right; font-weight: bold;">Total Amount:</td>
-              <td style="padding: 12px; text-align: right; font-weight: bold;">₹${totalAmount}</td>
-            </tr>
-          </tbody>
-        </table>
-      </div>
-    `;
-
-    const opt = {
-      margin: 1,
-      filename: `project-invoice-${project.__id}.pdf`,
-      image: { type: "jpeg", quality: 0.98 },
-      html2canvas: { scale: 2 },
-      jsPDF: { unit: "in", format: "letter", orientation: "portrait" },
-    };
-
-    const element = document.createElement("div");
-    element.innerHTML = content;
-    document.body.appendChild(element);
-
-    html2pdf()
-      .set(opt)
-      .from(element)
-      .save()
-      .then(() => {
-        document.body.removeChild(element);
-      });
-  };
-
-  if (loading) {
+  if (!project) {
     return (
       <div className="flex justify-center items-center h-64">
         <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
@@ -346,14 +283,6 @@ export default function ProjectDetails() {
     );
   }
 
-  if (!project) {
-    return (
-      <div className="p-6">
-        <p className="text-red-500">Project not found</p>
-      </div>
-    );
-  }
-
   return (
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
@@ -364,7 +293,7 @@ export default function ProjectDetails() {
           <h2 className="text-2xl font-bold">Project Details</h2>
         </div>
         <div className="flex space-x-4">
-          {isAdmin && (
+          {can("customer.createAccount") && (
             <>
               <button
                 onClick={() => setShowCustomerModal(true)}
@@ -380,13 +309,31 @@ export default function ProjectDetails() {
             </>
           )}
           <button
-            onClick={downloadInvoice}
+            onClick={() => navigate(`/dashboard/projects/${id}/timeline`)}
             className="inline-flex items-center px-4 py-2   font-medium rounded-md text-black bg-white border-[1px]  hover:opacity-70"
           >
-            <FileDown className="mr-2 h-4 w-4" />
-            Download Invoice
+            <GanttChartSquare className="mr-2 h-4 w-4" />
+            Timeline
           </button>
-          {isAdmin && (
+          {can("project.create") && (
+            <button
+              onClick={() => setShowDuplicateModal(true)}
+              className="inline-flex items-center px-4 py-2   font-medium rounded-md text-black bg-white border-[1px] hover:opacity-70"
+            >
+              <Copy className="mr-2 h-4 w-4" />
+              Duplicate Project
+            </button>
+          )}
+          {can("template.manage") && (
+            <button
+              onClick={() => setShowTemplateModal(true)}
+              className="inline-flex items-center px-4 py-2   font-medium rounded-md text-black bg-white border-[1px] hover:opacity-70"
+            >
+              <CopyPlus className="mr-2 h-4 w-4" />
+              Save as Template
+            </button>
+          )}
+          {can("project.edit") && (
             <button
               onClick={() => navigate(`/dashboard/projects/${id}/edit`)}
               className="inline-flex items-center px-4 py-2   font-medium rounded-md text-black bg-white border-[1px] hover:opacity-70"
@@ -411,7 +358,14 @@ export default function ProjectDetails() {
               <tbody>
                 <tr>
                   <td className="py-2 font-medium text-gray-500">ID</td>
-                  <td className="py-2">{project.__id}</td>
+                  <td className="py-2">
+                    {project.__id}
+                    {project.legacyId && (
+                      <span className="ml-2 text-sm text-gray-500">
+                        (was {project.legacyId})
+                      </span>
+                    )}
+                  </td>
                 </tr>
                 <tr>
                   <td className="py-2 font-medium text-gray-500">Created At</td>
@@ -472,7 +426,7 @@ export default function ProjectDetails() {
                           )}
                         </div>
                       )}
-                      {isAdmin && !isEditingStartDate && (
+                      {can("project.edit") && !isEditingStartDate && (
                         <button
                           onClick={() => setIsEditingStartDate(true)}
                           className="text-blue-600 hover:text-blue-700 text-[12px]"
@@ -526,7 +480,7 @@ export default function ProjectDetails() {
                           )}
                         </div>
                       )}
-                      {isAdmin && !isEditingDueDate && (
+                      {can("project.edit") && !isEditingDueDate && (
                         <button
                           onClick={() => setIsEditingDueDate(true)}
                           className="text-blue-600 hover:text-blue-700 text-[12px]"
@@ -541,7 +495,18 @@ export default function ProjectDetails() {
                   <td className="py-2 font-medium text-gray-500">
                     Customer Name
                   </td>
-                  <td className="py-2">{project.customer.name}</td>
+                  <td className="py-2">
+                    {project.customerId && can("customer.view") ? (
+                      <Link
+                        to={`/dashboard/customers/${project.customerId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {project.customer.name}
+                      </Link>
+                    ) : (
+                      project.customer.name
+                    )}
+                  </td>
                 </tr>
                 <tr>
                   <td className="py-2 font-medium text-gray-500">Phone</td>
@@ -551,14 +516,34 @@ export default function ProjectDetails() {
                   <td className="py-2 font-medium text-gray-500">Address</td>
                   <td className="py-2">{project.customer.address}</td>
                 </tr>
+                {project.sourceEnquiryId && can("enquiry.view") && (
+                  <tr>
+                    <td className="py-2 font-medium text-gray-500">
+                      Source Enquiry
+                    </td>
+                    <td className="py-2">
+                      <Link
+                        to={`/dashboard/enquiries/${project.sourceEnquiryId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        View enquiry
+                      </Link>
+                    </td>
+                  </tr>
+                )}
                 <tr>
                   <td className="py-2 font-medium text-gray-500">
                     Project Status
                   </td>
                   <td className="py-2">
                     <ProjectStatusSelect
-                      project={project}
-                      updateProjectStatus={updateProjectStatus}
+                      project={{
+                        id: project.id as string,
+                        status: project.status,
+                      }}
+                      updateProjectStatus={
+                        can("project.edit") ? updateProjectStatus : undefined
+                      }
                     />
                   </td>
                 </tr>
@@ -567,21 +552,86 @@ export default function ProjectDetails() {
           </div>
         </div>
 
+        {/* Requirements carried over from the enquiry */}
+        <ProjectChecklist project={project} canEdit={can("project.edit")} />
+
+        {project.baseline && <ProjectBaseline baseline={project.baseline} />}
+
+        {can("cost.view") && <CostPanel tasks={project.tasks} />}
+
         {/* Tasks Section */}
-        <TaskList
-          tasks={project.tasks}
-          onAddClick={() => {
-            setEditingTask(null);
-            setIsModalOpen(true);
-          }}
-          onEditClick={(task) => {
-            setEditingTask(task);
-            setIsModalOpen(true);
-          }}
-          onDeleteClick={handleDeleteTask}
-          onTaskClick={handleTaskClick}
-          isAdmin={isAdmin}
-        />
+        <div className="flex justify-end mb-3">
+          <div className="inline-flex rounded-full border-[1px] p-1 text-sm">
+            <button
+              onClick={() => setTaskView("list")}
+              className={`inline-flex items-center px-3 py-1 rounded-full ${
+                taskView === "list" ? "bg-black/90 text-white" : "text-gray-700"
+              }`}
+            >
+              <LayoutList className="h-4 w-4 mr-1" />
+              List
+            </button>
+            <button
+              onClick={() => setTaskView("board")}
+              className={`inline-flex items-center px-3 py-1 rounded-full ${
+                taskView === "board" ? "bg-black/90 text-white" : "text-gray-700"
+              }`}
+            >
+              <KanbanSquare className="h-4 w-4 mr-1" />
+              Board
+            </button>
+          </div>
+        </div>
+        {taskView === "board" ? (
+          <TaskBoard
+            project={project}
+            currentUserId={user?.uid ?? null}
+            canManage={can("task.manage")}
+            onMove={handleMoveTask}
+            onTaskClick={openTask}
+            onEditColumns={
+              can("project.edit") ? () => setShowColumnsModal(true) : undefined
+            }
+          />
+        ) : (
+          <TaskList
+            tasks={project.tasks}
+            onAddClick={() => {
+              setEditingTask(null);
+              setIsModalOpen(true);
+            }}
+            onEditClick={(task) => {
+              setEditingTask(task);
+              setIsModalOpen(true);
+            }}
+            onDeleteClick={handleDeleteTask}
+            onTaskClick={handleTaskClick}
+            canManage={can("task.manage")}
+            criticalTaskIds={schedule?.criticalPath}
+            projectTasks={project.tasks}
+            onMoveTask={handleMoveInTree}
+            onDuplicateTask={handleDuplicateTask}
+          />
+        )}
+
+        {/* Schedule Section */}
+        {schedule && (
+          <ProjectSchedule
+            project={project}
+            schedule={schedule}
+            onTaskClick={openTask}
+          />
+        )}
+
+        {/* Invoices Section */}
+        {can("invoice.download") && (
+          <ProjectInvoices
+            project={project}
+            canIssue={can("invoice.issue")}
+            canEditMilestones={can("project.edit")}
+            canRecordPayments={can("invoice.recordPayment")}
+          />
+        )}
 
         {/* Comments Section */}
         <div className="mt-6">{id && <ProjectComments projectId={id} />}</div>
@@ -596,6 +646,26 @@ export default function ProjectDetails() {
         onSubmit={editingTask ? handleEditTask : handleAddTask}
         initialData={editingTask}
       />
+
+      <BoardColumnsModal
+        isOpen={showColumnsModal}
+        onClose={() => setShowColumnsModal(false)}
+        project={project}
+      />
+
+      <SaveTemplateModal
+        isOpen={showTemplateModal}
+        onClose={() => setShowTemplateModal(false)}
+        project={project}
+      />
+
+      <DuplicateModal
+        isOpen={showDuplicateModal}
+        onClose={() => setShowDuplicateModal(false)}
+        title="Duplicate Project"
+        sourceName={project.name}
+        onDuplicate={handleDuplicateProject}
+      />
     </div>
   );
 }
@@ -2,6 +2,12 @@ import React, { useState, useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { Plus, Loader2, Trash2, ArrowLeft } from "lucide-react";
 import { useProjectStore } from "../store/projectStore";
+import { useTemplateStore } from "../store/templateStore";
+import { countTemplateTasks, getTemplateHours } from "../lib/templates";
+import { Customer } from "../store/customerStore";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import { toCustomerSnapshot } from "../lib/customers";
+import CustomerPicker from "../components/CustomerPicker";
 import toast from "react-hot-toast";
 
 interface User {
@@ -25,6 +31,7 @@ interface Task {
 interface FormData {
   name: string;
   description: string;
+  customerId: string | null;
   customer: {
     name: string;
     phone: string;
@@ -38,9 +45,15 @@ export default function ProjectForm() {
   const navigate = useNavigate();
   const { createProject, updateProject, fetchProject, loading } =
     useProjectStore();
+  const { can } = useCurrentUser();
+  const { templates, fetchTemplates } = useTemplateStore();
+  const [templateId, setTemplateId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const template = templates.find((item) => item.id === templateId);
   const [formData, setFormData] = useState<FormData>({
     name: "",
     description: "",
+    customerId: null,
     customer: {
       name: "",
       phone: "",
@@ -57,6 +70,7 @@ export default function ProjectForm() {
           setFormData({
             name: project.name,
             description: project.description,
+            customerId: project.customerId || null,
             customer: project.customer,
             tasks: project.tasks || [],
           });
@@ -67,6 +81,20 @@ export default function ProjectForm() {
     loadProject();
   }, [id, fetchProject]);
 
+  useEffect(() => {
+    if (!id) fetchTemplates();
+  }, [id, fetchTemplates]);
+
+  const handleCustomerChange = (customer: Customer | null) => {
+    setFormData((prev) => ({
+      ...prev,
+      customerId: customer?.id || null,
+      customer: customer
+        ? toCustomerSnapshot(customer)
+        : { name: "", phone: "", address: "" },
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -74,7 +102,14 @@ export default function ProjectForm() {
         await updateProject(id, formData);
         toast.success("Project updated successfully");
       } else {
-        await createProject(formData);
+        await createProject(
+          {
+            ...formData,
+            status: "not-started",
+            project_start_date: startDate || null,
+          },
+          template?.tasks
+        );
         toast.success("Project created successfully");
       }
       navigate("/dashboard/projects");
@@ -159,63 +194,117 @@ export default function ProjectForm() {
           </div>
         </div>
 
+        {!id && (
+          <div className="bg-white px-6 py-10 border-[1px] rounded-xl">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              Tasks and Schedule
+            </h3>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Template
+                </label>
+                <select
+                  value={templateId}
+                  onChange={(e) => setTemplateId(e.target.value)}
+                  className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">No template, add tasks later</option>
+                  {templates.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Start Date
+                </label>
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            {template && (
+              <p className="mt-3 text-sm text-gray-500">
+                Adds {countTemplateTasks(template.tasks)} tasks (
+                {getTemplateHours(template.tasks)} hours).{" "}
+                {startDate
+                  ? "Task dates are set from the start date."
+                  : "Set a start date to schedule the tasks."}
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="bg-white px-6 py-10 border-[1px] rounded-xl">
           <h3 className="text-lg font-medium text-gray-900 mb-4">
             Customer Details
           </h3>
-          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-            <div>
-              <label className="block text-sm font-medium text-gray-700">
-                Name
-              </label>
-              <input
-                type="text"
-                required
-                value={formData.customer.name}
-                onChange={(e) =>
-                  setFormData((prev) => ({
-                    ...prev,
-                    customer: { ...prev.customer, name: e.target.value },
-                  }))
-                }
-                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-              />
+          <CustomerPicker
+            value={formData.customerId}
+            onChange={handleCustomerChange}
+            canCreate={can("customer.manage")}
+          />
+          {!formData.customerId && (
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 mt-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.customer.name}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      customer: { ...prev.customer, name: e.target.value },
+                    }))
+                  }
+                  className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Phone
+                </label>
+                <input
+                  type="tel"
+                  required
+                  value={formData.customer.phone}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      customer: { ...prev.customer, phone: e.target.value },
+                    }))
+                  }
+                  className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Address
+                </label>
+                <textarea
+                  required
+                  value={formData.customer.address}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      customer: { ...prev.customer, address: e.target.value },
+                    }))
+                  }
+                  className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  rows={2}
+                />
+              </div>
             </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700">
-                Phone
-              </label>
-              <input
-                type="tel"
-                required
-                value={formData.customer.phone}
-                onChange={(e) =>
-                  setFormData((prev) => ({
-                    ...prev,
-                    customer: { ...prev.customer, phone: e.target.value },
-                  }))
-                }
-                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-              />
-            </div>
-            <div className="sm:col-span-2">
-              <label className="block text-sm font-medium text-gray-700">
-                Address
-              </label>
-              <textarea
-                required
-                value={formData.customer.address}
-                onChange={(e) =>
-                  setFormData((prev) => ({
-                    ...prev,
-                    customer: { ...prev.customer, address: e.target.value },
-                  }))
-                }
-                className="mt-1 p-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                rows={2}
-              />
-            </div>
-          </div>
+          )}
         </div>
       </div>
     </form>
@@ -0,0 +1,154 @@
+import { useEffect, useMemo } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Loader2, Layers } from "lucide-react";
+import toast from "react-hot-toast";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import { useProjectStore, TaskConflictError } from "../store/projectStore";
+import GanttChart, { GanttItem, GanttRow } from "../components/GanttChart";
+import { computeSchedule, offsetToDate } from "../lib/schedule";
+import { flattenTaskTree, getTaskPathIds } from "../lib/taskTree";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Matches the datetime-local values the task form stores
+const toDateTimeLocal = (time: number) => {
+  const local = new Date(time - new Date(time).getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+export default function ProjectTimeline() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { currentProject, subscribeToProject, updateTask } = useProjectStore();
+  const { can } = useCurrentUser();
+  const project = currentProject?.id === id ? currentProject : null;
+
+  useEffect(() => {
+    if (!id) return;
+
+    return subscribeToProject(id, () => {
+      toast.error("Project not found");
+      navigate("/dashboard/projects");
+    });
+  }, [id, subscribeToProject, navigate]);
+
+  const tasks = useMemo(
+    () => (project ? flattenTaskTree(project.tasks) : []),
+    [project]
+  );
+
+  const rows = useMemo<GanttRow[]>(
+    () =>
+      tasks.map((task) => ({
+        id: task.id,
+        parentId: task.parentId,
+        label: task.name,
+      })),
+    [tasks]
+  );
+
+  // A bar runs from the task's start date (or its scheduled earliest start)
+  // to its deadline (or the end of its estimated duration). Tasks with
+  // neither a start date nor a project start date have no bar.
+  const items = useMemo<GanttItem[]>(() => {
+    if (!project) return [];
+    const schedule = computeSchedule(
+      project.tasks,
+      project.project_start_date,
+      project.project_due_date
+    );
+
+    return tasks.flatMap((task) => {
+      const entry = schedule.tasks[task.id];
+      const start = task.startDate
+        ? new Date(task.startDate).getTime()
+        : project.project_start_date && entry
+        ? offsetToDate(project.project_start_date, entry.earlyStart).getTime()
+        : null;
+      if (start === null) return [];
+
+      const end = task.deadline
+        ? new Date(task.deadline).getTime()
+        : start + Math.max(entry?.duration || 0, 1) * DAY_MS;
+
+      return [
+        {
+          id: task.id,
+          rowId: task.id,
+          label: task.name,
+          start,
+          end: Math.max(end, start + DAY_MS / 24),
+          critical: entry?.critical,
+        },
+      ];
+    });
+  }, [project, tasks]);
+
+  const handleItemChange = async (taskId: string, start: number, end: number) => {
+    if (!id) return;
+    try {
+      await updateTask(id, [], taskId, {
+        startDate: toDateTimeLocal(start),
+        deadline: toDateTimeLocal(end),
+      });
+      toast.success("Task rescheduled");
+    } catch (error) {
+      console.error("Failed to reschedule task:", error);
+      toast.error(
+        error instanceof TaskConflictError
+          ? error.message
+          : "Failed to reschedule task"
+      );
+    }
+  };
+
+  const handleItemClick = (taskId: string) => {
+    const path = getTaskPathIds(tasks, taskId).join("/");
+    navigate(`/dashboard/projects/${id}/task/${path}`);
+  };
+
+  if (!project) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center space-x-4">
+          <button onClick={() => navigate(`/dashboard/projects/${id}`)}>
+            <ArrowLeft className=" h-7 w-7" />
+          </button>
+          <h2 className="text-2xl font-bold">{project.name} Timeline</h2>
+        </div>
+        <button
+          onClick={() => navigate("/dashboard/projects/timeline")}
+          className="inline-flex items-center px-4 py-2 font-medium rounded-md text-black bg-white border-[1px] hover:opacity-70"
+        >
+          <Layers className="mr-2 h-4 w-4" />
+          All Projects
+        </button>
+      </div>
+
+      {!project.project_start_date && (
+        <p className="mb-4 text-sm text-gray-500">
+          Set a project start date to place tasks without their own start date
+          on the timeline.
+        </p>
+      )}
+
+      <div className="bg-white border-[1px] rounded-lg overflow-hidden">
+        <GanttChart
+          rows={rows}
+          items={items}
+          editable={can("task.manage")}
+          onItemChange={handleItemChange}
+          onItemClick={handleItemClick}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,54 @@
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { useProjectStore } from "../store/projectStore";
-import { Loader2, ExternalLink } from "lucide-react";
+import { Loader2, ExternalLink, GanttChartSquare, Search } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { matchesRecordSearch } from "../lib/numbering";
 import ProjectStatusSelect from "@/components/ProjectStatusSelect";
 
 export default function Projects() {
-  const { projects, loading, fetchProjects } = useProjectStore();
+  const { projects, loading, subscribeToProjects } = useProjectStore();
   const navigate = useNavigate();
+  const [search, setSearch] = useState("");
 
-  useEffect(() => {
-    fetchProjects();
-  }, [fetchProjects]);
+  useEffect(() => subscribeToProjects(), [subscribeToProjects]);
+
+  const filteredProjects = projects.filter((project) => matchesRecordSearch(project, search));
 
   return (
     <div className="p-6">
-      <h2 className="text-2xl font-bold mb-6">Projects</h2>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold">Projects</h2>
+        <div className="flex items-center space-x-3">
+          <div className="flex items-center rounded-md border-[1px] bg-white px-2">
+            <Search size={18} className="text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by number, name or customer"
+              className="p-2 w-72 focus:outline-none"
+            />
+          </div>
+          <button
+            onClick={() => navigate("/dashboard/projects/timeline")}
+            className="inline-flex items-center px-4 py-2 font-medium rounded-md text-black bg-white border-[1px] hover:opacity-70"
+          >
+            <GanttChartSquare className="mr-2 h-4 w-4" />
+            Timeline
+          </button>
+        </div>
+      </div>
 
       {loading ? (
         <div className="flex justify-center items-center h-64">
           <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
         </div>
-      ) : projects.length === 0 ? (
+      ) : filteredProjects.length === 0 ? (
         <div className="bg-white rounded-lg shadow">
           <div className="p-6">
-            <p className="text-gray-500">No active projects</p>
+            <p className="text-gray-500">
+              {projects.length === 0 ? "No active projects" : "No matching projects"}
+            </p>
           </div>
         </div>
       ) : (
@@ -52,7 +77,7 @@ export default function Projects() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {projects.map((project) => (
+              {filteredProjects.map((project) => (
                 <tr key={project.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {project.__id}
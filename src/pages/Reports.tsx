@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import writeXlsxFile from 'write-excel-file/browser';
+import { useReportStore } from '../store/reportStore';
+import {
+  HOURS_PER_WORKING_DAY,
+  ReportGrouping,
+  filterReportEntries,
+  getUtilisation,
+  groupReportEntries,
+  toCsv,
+  toHours
+} from '../lib/reports';
+import { formatMinutes, getWeekStart } from '../lib/timesheets';
+import { toDateInput } from '../lib/utils';
+
+const groupingLabels: Record<ReportGrouping, string> = {
+  user: 'Person',
+  project: 'Project',
+  task: 'Top-level Task',
+  week: 'Week',
+  month: 'Month'
+};
+
+const monthStart = (date: Date) => toDateInput(new Date(date.getFullYear(), date.getMonth(), 1));
+const monthEnd = (date: Date) => toDateInput(new Date(date.getFullYear(), date.getMonth() + 1, 0));
+
+const downloadFile = (contents: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function Reports() {
+  const { entries, attendance, projects, userNames, loading, fetchReportData } = useReportStore();
+  const [from, setFrom] = useState(() => monthStart(new Date()));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [grouping, setGrouping] = useState<ReportGrouping>('user');
+  const [userId, setUserId] = useState('');
+  const [projectId, setProjectId] = useState('');
+
+  useEffect(() => {
+    if (!from || !to || from > to) return;
+    fetchReportData(from, to).catch(() => toast.error('Failed to load report'));
+  }, [from, to, fetchReportData]);
+
+  const filters = useMemo(() => ({ from, to, userId, projectId }), [from, to, userId, projectId]);
+  const filtered = useMemo(() => filterReportEntries(entries, filters), [entries, filters]);
+  const rows = useMemo(() => groupReportEntries(filtered, grouping), [filtered, grouping]);
+  const utilisation = useMemo(
+    () => getUtilisation(filtered, attendance, userNames, filters),
+    [filtered, attendance, userNames, filters]
+  );
+  const total = filtered.reduce((sum, entry) => sum + entry.minutes, 0);
+  const people = useMemo(
+    () =>
+      [...new Map(entries.map(entry => [entry.userId, userNames[entry.userId] ?? entry.userName]))]
+        .sort((a, b) => a[1].localeCompare(b[1])),
+    [entries, userNames]
+  );
+
+  const setRange = (start: string, end: string) => {
+    setFrom(start);
+    setTo(end);
+  };
+
+  const timeTable = [
+    [groupingLabels[grouping], 'Hours'],
+    ...rows.map(row => [row.label, toHours(row.minutes)]),
+    ['Total', toHours(total)]
+  ];
+  const utilisationTable = [
+    ['Person', 'Hours Logged', 'Working Days', 'Utilisation %'],
+    ...utilisation.map(row => [row.userName, toHours(row.minutes), row.workingDays, row.utilisation ?? ''])
+  ];
+  const fileName = `time-report-${from}-to-${to}`;
+
+  const handleExportCsv = () => {
+    downloadFile(`${toCsv(timeTable)}\n\n${toCsv(utilisationTable)}`, `${fileName}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const handleExportXlsx = async () => {
+    try {
+      await writeXlsxFile([
+        { data: timeTable, sheet: 'Time' },
+        { data: utilisationTable, sheet: 'Utilisation' }
+      ]).toFile(`${fileName}.xlsx`);
+    } catch (error) {
+      console.error('Failed to export report:', error);
+      toast.error('Failed to export report');
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold">Reports</h2>
+        <div className="flex space-x-3">
+          <button
+            onClick={handleExportCsv}
+            disabled={loading || filtered.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </button>
+          <button
+            onClick={handleExportXlsx}
+            disabled={loading || filtered.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+          >
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Export XLSX
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg p-4 mb-6 flex flex-wrap items-end gap-4 text-sm">
+        <label className="block">
+          <span className="text-gray-700">From</span>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </label>
+        <label className="block">
+          <span className="text-gray-700">To</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </label>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setRange(getWeekStart(new Date()), toDateInput(new Date()))}
+            className="px-3 py-2 rounded-full border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            This Week
+          </button>
+          <button
+            onClick={() => setRange(monthStart(new Date()), toDateInput(new Date()))}
+            className="px-3 py-2 rounded-full border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            This Month
+          </button>
+          <button
+            onClick={() => {
+              const lastMonth = new Date();
+              lastMonth.setDate(0);
+              setRange(monthStart(lastMonth), monthEnd(lastMonth));
+            }}
+            className="px-3 py-2 rounded-full border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Last Month
+          </button>
+        </div>
+        <label className="block">
+          <span className="text-gray-700">Person</span>
+          <select
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="">Everyone</option>
+            {people.map(([id, name]) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-gray-700">Project</span>
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="">All projects</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-gray-700">Group by</span>
+          <select
+            value={grouping}
+            onChange={(e) => setGrouping(e.target.value as ReportGrouping)}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {(Object.keys(groupingLabels) as ReportGrouping[]).map(option => (
+              <option key={option} value={option}>{groupingLabels[option]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {from > to ? (
+        <p className="text-sm text-red-600">The start of the period must be before its end.</p>
+      ) : loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+        </div>
+      ) : (
+        <>
+          <div className="bg-white shadow-md rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">{groupingLabels[grouping]}</th>
+                  <th className="px-6 py-3 text-right font-medium text-gray-500">Time</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={2} className="px-6 py-4 text-center text-gray-500">
+                      No time logged in this period
+                    </td>
+                  </tr>
+                ) : (
+                  rows.map(row => (
+                    <tr key={row.key}>
+                      <td className="px-6 py-3 text-gray-900">{row.label}</td>
+                      <td className="px-6 py-3 text-right">{formatMinutes(row.minutes)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-6 py-3 font-semibold">Total</td>
+                  <td className="px-6 py-3 text-right font-semibold">{formatMinutes(total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <div className="bg-white shadow-md rounded-lg overflow-hidden mt-6">
+            <div className="border-b border-gray-200 px-6 py-3">
+              <h3 className="text-lg font-medium text-gray-900">Utilisation</h3>
+              <p className="text-sm text-gray-500">
+                Logged time against {HOURS_PER_WORKING_DAY} hours for each day checked in on the attendance page
+              </p>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">Person</th>
+                  <th className="px-6 py-3 text-right font-medium text-gray-500">Logged</th>
+                  <th className="px-6 py-3 text-right font-medium text-gray-500">Working Days</th>
+                  <th className="px-6 py-3 text-right font-medium text-gray-500">Utilisation</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {utilisation.map(row => (
+                  <tr key={row.userId}>
+                    <td className="px-6 py-3 text-gray-900">{row.userName}</td>
+                    <td className="px-6 py-3 text-right">{formatMinutes(row.minutes)}</td>
+                    <td className="px-6 py-3 text-right">{row.workingDays}</td>
+                    <td className="px-6 py-3 text-right">
+                      {row.utilisation === null ? '-' : `${row.utilisation}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useProjectStore } from "../store/projectStore";
 import {
@@ -10,14 +10,16 @@ import {
   Calendar,
   User,
 } from "lucide-react";
-import { useAuthStore } from "../store/authStore";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "../lib/firebase";
+import { useCurrentUser } from "../hooks/useCurrentUser";
 import toast from "react-hot-toast";
 import TaskModal from "../components/TaskModal";
 import TaskList from "../components/TaskList";
 import ItemDetails from "../components/ItemDetails";
-import { Task, TimeEntry } from "../store/projectStore";
+import TaskDependencies from "../components/TaskDependencies";
+import CostPanel from "../components/CostPanel";
+import { PathItem, Task, TimeEntry, TaskConflictError, ActiveTimerError } from "../store/projectStore";
+import { formatElapsed } from "../lib/timers";
+import { DuplicateTaskOptions } from "../lib/taskTree";
 
 export default function TaskDetails() {
   const { projectId, "*": taskPath } = useParams<{
@@ -26,74 +28,76 @@ export default function TaskDetails() {
   }>();
   const navigate = useNavigate();
   const {
-    getTaskByPath,
+    currentProject,
+    subscribeToProject,
     addTask,
     updateTask,
     deleteTask,
-    currentPath,
+    moveTask,
+    duplicateTask,
     setCurrentPath,
     startTimer,
     stopTimer,
-    getTaskTimeEntries,
     activeTimer,
     toggleTaskCompletion,
     checkActiveTimer,
   } = useProjectStore();
-  const [task, setTask] = useState<Task | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
-  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
   const [elapsedTime, setElapsedTime] = useState<string>("00:00:00");
-  const { user } = useAuthStore();
+  const { user, can } = useCurrentUser();
+
+  const pathArray = useMemo(
+    () =>
+      (taskPath || "")
+        .split("/")
+        .filter(Boolean)
+        .map((id) => ({ id })),
+    [taskPath]
+  );
+
+  const project = currentProject?.id === projectId ? currentProject : null;
+  const task = useMemo(() => {
+    if (!project) return null;
+    let current: Task | null = null;
+    let items = project.tasks;
+    for (const pathItem of pathArray) {
+      current = items.find((item) => item.id === pathItem.id) || null;
+      if (!current) return null;
+      items = current.children || [];
+    }
+    return current;
+  }, [project, pathArray]);
+  const timeEntries: TimeEntry[] = task?.timeEntries || [];
 
   useEffect(() => {
-    const loadTask = async () => {
-      if (!projectId || !taskPath) {
-        navigate(`/dashboard/projects/${projectId}`);
-        return;
-      }
+    if (!projectId) return;
 
-      try {
-        setLoading(true);
-        const pathArray = taskPath
-          .split("/")
-          .filter(Boolean)
-          .map((id) => ({ id }));
-        setCurrentPath(pathArray);
-
-        const data = await getTaskByPath(projectId, pathArray);
-        if (data) {
-          setTask({
-            ...data,
-            children: data.children || [],
-          });
-
-          // Load time entries
-          const entries = await getTaskTimeEntries(projectId, data.id);
-          setTimeEntries(entries);
-        } else {
-          toast.error("Task not found");
-          navigate(`/dashboard/projects/${projectId}`);
-        }
-      } catch (error) {
-        console.error("Error loading task:", error);
-        toast.error("Failed to load task");
-        navigate(`/dashboard/projects/${projectId}`);
-      } finally {
-        setLoading(false);
-      }
-    };
+    return subscribeToProject(projectId, () => {
+      toast.error("Project not found");
+      navigate("/dashboard/projects");
+    });
+  }, [projectId, subscribeToProject, navigate]);
 
-    const checkUserRole = async () => {
-      if (user) {
-        const userDoc = await getDoc(doc(db, "users", user.uid));
-        const userData = userDoc.data();
-        setIsAdmin(userData?.role === "admin");
-      }
-    };
+  useEffect(() => {
+    if (!projectId || pathArray.length === 0) {
+      navigate(`/dashboard/projects/${projectId}`);
+      return;
+    }
+
+    setCurrentPath(pathArray);
+    return () => setCurrentPath([]);
+  }, [projectId, pathArray, navigate, setCurrentPath]);
 
+  // The task may be deleted (by anyone) while this page is open
+  useEffect(() => {
+    if (project && !task) {
+      toast.error("Task not found");
+      navigate(`/dashboard/projects/${projectId}`);
+    }
+  }, [project, task, projectId, navigate]);
+
+  useEffect(() => {
     const initializeActiveTimer = async () => {
       try {
         await checkActiveTimer();
@@ -102,26 +106,8 @@ export default function TaskDetails() {
       }
     };
 
-    loadTask();
-    checkUserRole();
     initializeActiveTimer();
-
-    return () => {
-      setTask(null);
-      setLoading(true);
-      setIsAdmin(false);
-      setCurrentPath([]);
-    };
-  }, [
-    projectId,
-    taskPath,
-    user,
-    getTaskByPath,
-    navigate,
-    setCurrentPath,
-    getTaskTimeEntries,
-    checkActiveTimer,
-  ]);
+  }, [user, checkActiveTimer]);
 
   // Timer effect
   useEffect(() => {
@@ -129,19 +115,7 @@ export default function TaskDetails() {
 
     if (activeTimer.startTime && activeTimer.taskId === task?.id) {
       const updateElapsedTime = () => {
-        const start = new Date(activeTimer.startTime!).getTime();
-        const now = new Date().getTime();
-        const elapsed = Math.floor((now - start) / 1000); // elapsed seconds
-
-        const hours = Math.floor(elapsed / 3600);
-        const minutes = Math.floor((elapsed % 3600) / 60);
-        const seconds = elapsed % 60;
-
-        setElapsedTime(
-          `${hours.toString().padStart(2, "0")}:${minutes
-            .toString()
-            .padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`
-        );
+        setElapsedTime(formatElapsed(activeTimer.startTime!, Date.now()));
       };
 
       // Update immediately and then every second
@@ -173,48 +147,55 @@ export default function TaskDetails() {
     }
 
     try {
-      const pathArray = taskPath
-        .split("/")
-        .filter(Boolean)
-        .map((id) => ({ id }));
       await toggleTaskCompletion(projectId, pathArray);
-
-      // Refresh task data
-      const updatedTask = await getTaskByPath(projectId, pathArray);
-      if (updatedTask) {
-        setTask({
-          ...updatedTask,
-          children: updatedTask.children || [],
-        });
-        toast.success(
-          updatedTask.completed
-            ? "Task marked as complete"
-            : "Task marked as incomplete"
-        );
-      }
+      toast.success(
+        task.completed ? "Task marked as incomplete" : "Task marked as complete"
+      );
     } catch (error) {
       console.error("Error toggling task completion:", error);
-      toast.error("Failed to update task status");
+      toast.error(
+        error instanceof TaskConflictError
+          ? error.message
+          : "Failed to update task status"
+      );
+    }
+  };
+
+  const handleMoveTask = async (movedTask: Task, newParentPath: PathItem[], index: number) => {
+    if (!projectId) return;
+    try {
+      await moveTask(projectId, movedTask.id, newParentPath, index);
+      toast.success("Task moved");
+    } catch (error) {
+      console.error("Failed to move task:", error);
+      toast.error(
+        error instanceof TaskConflictError
+          ? error.message
+          : "Failed to move task"
+      );
+    }
+  };
+
+  const handleDuplicateTask = async (sourceTask: Task, name: string, options: DuplicateTaskOptions) => {
+    if (!projectId) return;
+    try {
+      await duplicateTask(projectId, sourceTask.id, name, options);
+      toast.success("Task duplicated");
+    } catch (error) {
+      console.error("Failed to duplicate task:", error);
+      toast.error(
+        error instanceof TaskConflictError
+          ? error.message
+          : "Failed to duplicate task"
+      );
     }
   };
 
   const handleAddTask = async (data: any) => {
-    if (!projectId || !taskPath) return;
+    if (!projectId) return;
     try {
-      const pathArray = taskPath
-        .split("/")
-        .filter(Boolean)
-        .map((id) => ({ id }));
       await addTask(projectId, pathArray, data);
-
-      const updatedTask = await getTaskByPath(projectId, pathArray);
-      if (updatedTask) {
-        setTask({
-          ...updatedTask,
-          children: updatedTask.children || [],
-        });
-        toast.success("Task added successfully");
-      }
+      toast.success("Task added successfully");
     } catch (error) {
       console.error("Failed to add task:", error);
       toast.error("Failed to add task");
@@ -222,52 +203,33 @@ export default function TaskDetails() {
   };
 
   const handleEditTask = async (data: any) => {
-    if (!projectId || !taskPath) return;
+    if (!projectId || !editingTask) return;
     try {
-      const pathArray = taskPath
-        .split("/")
-        .filter(Boolean)
-        .map((id) => ({ id }));
-
-      if (editingTask) {
-        await updateTask(projectId, pathArray, editingTask.id, data);
-      }
-
-      const updatedTask = await getTaskByPath(projectId, pathArray);
-      if (updatedTask) {
-        setTask({
-          ...updatedTask,
-          children: updatedTask.children || [],
-        });
-        toast.success("Task updated successfully");
-      }
+      await updateTask(projectId, pathArray, editingTask.id, data);
+      toast.success("Task updated successfully");
     } catch (error) {
       console.error("Failed to update task:", error);
-      toast.error("Failed to update task");
+      toast.error(
+        error instanceof TaskConflictError
+          ? error.message
+          : "Failed to update task"
+      );
     }
   };
 
   const handleDeleteTask = async (taskId: string) => {
-    if (!projectId || !taskPath) return;
+    if (!projectId) return;
     if (window.confirm("Are you sure you want to delete this task?")) {
       try {
-        const pathArray = taskPath
-          .split("/")
-          .filter(Boolean)
-          .map((id) => ({ id }));
         await deleteTask(projectId, pathArray, taskId);
-
-        const updatedTask = await getTaskByPath(projectId, pathArray);
-        if (updatedTask) {
-          setTask({
-            ...updatedTask,
-            children: updatedTask.children || [],
-          });
-          toast.success("Task deleted successfully");
-        }
+        toast.success("Task deleted successfully");
       } catch (error) {
         console.error("Failed to delete task:", error);
-        toast.error("Failed to delete task");
+        toast.error(
+          error instanceof TaskConflictError
+            ? error.message
+            : "Failed to delete task"
+        );
       }
     }
   };
@@ -282,13 +244,13 @@ export default function TaskDetails() {
     try {
       await startTimer(projectId, task.id);
       toast.success("Timer started");
-
-      // Refresh time entries
-      const entries = await getTaskTimeEntries(projectId, task.id);
-      setTimeEntries(entries);
     } catch (error) {
       console.error("Failed to start timer:", error);
-      toast.error("Failed to start timer");
+      toast.error(
+        error instanceof TaskConflictError || error instanceof ActiveTimerError
+          ? error.message
+          : "Failed to start timer"
+      );
     }
   };
 
@@ -297,13 +259,13 @@ export default function TaskDetails() {
     try {
       await stopTimer(projectId, task.id);
       toast.success("Timer stopped");
-
-      // Refresh time entries
-      const entries = await getTaskTimeEntries(projectId, task.id);
-      setTimeEntries(entries);
     } catch (error) {
       console.error("Failed to stop timer:", error);
-      toast.error("Failed to stop timer");
+      toast.error(
+        error instanceof TaskConflictError
+          ? error.message
+          : "Failed to stop timer"
+      );
     }
   };
 
@@ -338,7 +300,7 @@ export default function TaskDetails() {
     (u) => u.id === user?.uid
   );
 
-  if (loading) {
+  if (!task) {
     return (
       <div className="flex justify-center items-center h-64">
         <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
@@ -346,14 +308,6 @@ export default function TaskDetails() {
     );
   }
 
-  if (!task) {
-    return (
-      <div className="p-6">
-        <p className="text-red-500">Task not found</p>
-      </div>
-    );
-  }
-
   return (
     <div className="p-6 max-w-5xl mx-auto">
       <div className="flex items-center justify-between mb-8">
@@ -402,12 +356,22 @@ export default function TaskDetails() {
           setIsModalOpen(true);
         }}
         onToggleComplete={handleToggleComplete}
-        isAdmin={isAdmin}
+        canEdit={can("task.manage")}
         canComplete={
-          isAdmin || task.assignedTo?.some((u) => u.id === user?.uid)
+          can("task.completeAny") ||
+          task.assignedTo?.some((u) => u.id === user?.uid)
         }
       />
 
+      {projectId && project && (
+        <TaskDependencies
+          projectId={projectId}
+          task={task}
+          projectTasks={project.tasks}
+          canEdit={can("task.manage")}
+        />
+      )}
+
       {timeEntries.length > 0 && (
         <div className="bg-white shadow rounded-lg mb-6">
           <div className="border-b border-gray-200 bg-gray-50 px-6 py-3">
@@ -435,6 +399,12 @@ export default function TaskDetails() {
         </div>
       )}
 
+      {can("cost.view") && (
+        <div className="mb-6">
+          <CostPanel tasks={[task]} />
+        </div>
+      )}
+
       <TaskList
         tasks={task.children}
         onAddClick={() => {
@@ -447,7 +417,11 @@ export default function TaskDetails() {
         }}
         onDeleteClick={handleDeleteTask}
         onTaskClick={handleTaskClick}
-        isAdmin={isAdmin}
+        canManage={can("task.manage")}
+        parentPath={pathArray}
+        projectTasks={project?.tasks}
+        onMoveTask={handleMoveTask}
+        onDuplicateTask={handleDuplicateTask}
       />
 
       <TaskModal
@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useTemplateStore } from '../store/templateStore';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { TemplateTask, countTemplateTasks, getTemplateHours } from '../lib/templates';
+
+const formatOffset = (offset: number | null) => (offset === null ? '-' : `Day ${offset}`);
+
+const TemplateTaskRows = ({ tasks, depth }: { tasks: TemplateTask[]; depth: number }) => (
+  <>
+    {tasks.map(task => (
+      <div key={task.id}>
+        <div className="grid grid-cols-6 gap-2 py-1 text-sm">
+          <span className="col-span-3 text-gray-900" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+            {task.name}
+          </span>
+          <span className="text-right text-gray-600">{task.hours} h</span>
+          <span className="text-right text-gray-500">{formatOffset(task.startOffsetDays)}</span>
+          <span className="text-right text-gray-500">{formatOffset(task.deadlineOffsetDays)}</span>
+        </div>
+        <TemplateTaskRows tasks={task.children} depth={depth + 1} />
+      </div>
+    ))}
+  </>
+);
+
+// Task trees saved from past projects. New projects and enquiry deliverables
+// are created from them on their own forms.
+export default function Templates() {
+  const { templates, loading, fetchTemplates, deleteTemplate } = useTemplateStore();
+  const { can } = useCurrentUser();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!window.confirm(`Delete the template "${name}"? Projects created from it are not affected.`)) return;
+    try {
+      await deleteTemplate(id);
+      toast.success('Template deleted');
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold">Project Templates</h2>
+        <p className="text-sm text-gray-500">
+          Save a project as a template from its details page. Dates are shown as days from the project start.
+        </p>
+      </div>
+
+      {loading && templates.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+        </div>
+      ) : templates.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No templates yet</p>
+      ) : (
+        <div className="bg-white border-[1px] rounded-lg divide-y">
+          {templates.map(template => (
+            <div key={template.id} className="px-6 py-4">
+              <div className="flex justify-between items-start">
+                <button
+                  onClick={() => setExpandedId(expandedId === template.id ? null : template.id)}
+                  className="flex items-start text-left"
+                >
+                  {expandedId === template.id ? (
+                    <ChevronDown className="h-5 w-5 mr-2 mt-0.5 text-gray-400" />
+                  ) : (
+                    <ChevronRight className="h-5 w-5 mr-2 mt-0.5 text-gray-400" />
+                  )}
+                  <div>
+                    <p className="font-medium text-gray-900">{template.name}</p>
+                    {template.description && <p className="text-sm text-gray-600">{template.description}</p>}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {countTemplateTasks(template.tasks)} tasks · {getTemplateHours(template.tasks)} hours
+                      {template.createdBy && ` · saved by ${template.createdBy.name}`}
+                    </p>
+                  </div>
+                </button>
+                {can('template.manage') && (
+                  <button
+                    onClick={() => handleDelete(template.id, template.name)}
+                    className="p-1 text-gray-400 hover:text-red-500"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                )}
+              </div>
+
+              {expandedId === template.id && (
+                <div className="mt-4 ml-7 border-t pt-2">
+                  <div className="grid grid-cols-6 gap-2 py-1 text-xs font-medium text-gray-500">
+                    <span className="col-span-3">Task</span>
+                    <span className="text-right">Estimate</span>
+                    <span className="text-right">Start</span>
+                    <span className="text-right">Deadline</span>
+                  </div>
+                  <TemplateTaskRows tasks={template.tasks} depth={0} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
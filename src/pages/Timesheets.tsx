@@ -0,0 +1,530 @@
+import { useEffect, useState } from 'react';
+import { Routes, Route, useNavigate, useParams } from 'react-router-dom';
+import {
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  ClipboardCheck,
+  ExternalLink,
+  Loader2,
+  Lock,
+  Pencil,
+  Plus,
+  Scissors,
+  Send,
+  Trash2
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { TimeEntryReviewFlag, useProjectStore } from '../store/projectStore';
+import {
+  TimesheetAuditAction,
+  TimesheetAuditRecord,
+  TimesheetEntry,
+  useTimesheetStore
+} from '../store/timesheetStore';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import {
+  formatMinutes,
+  getEntryDate,
+  getWeekDays,
+  getWeekStart,
+  shiftWeek,
+  summariseWeek,
+  toTimeInput
+} from '../lib/timesheets';
+import { toDateInput } from '../lib/utils';
+import TimesheetStatusBadge from '../components/TimesheetStatusBadge';
+import TimeEntryModal, { TimeEntryModalMode } from '../components/TimeEntryModal';
+import BackButton from '../components/BackButton';
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+const auditLabels: Record<TimesheetAuditAction, string> = {
+  added: 'Added',
+  edited: 'Edited',
+  split: 'Split',
+  deleted: 'Deleted',
+  submitted: 'Submitted the week',
+  approved: 'Approved the week',
+  rejected: 'Rejected the week'
+};
+
+const formatAuditTimes = (record: TimesheetAuditRecord) =>
+  [record.before, record.after]
+    .map(entry =>
+      entry
+        ? `${toDateInput(new Date(entry.startTime))} ${toTimeInput(entry.startTime)}-${
+            entry.endTime ? toTimeInput(entry.endTime) : '…'
+          }`
+        : null
+    )
+    .filter(Boolean)
+    .join(' → ');
+
+const reviewFlagLabels: Record<TimeEntryReviewFlag, string> = {
+  'end-of-day': 'Stopped at end of day',
+  idle: 'Stopped when you left'
+};
+
+interface WeekEntriesProps {
+  weekStart: string;
+  entries: TimesheetEntry[];
+  editable: boolean;
+  onAdd?: (day: string) => void;
+  onEdit?: (mode: TimeEntryModalMode, row: TimesheetEntry) => void;
+  onDelete?: (row: TimesheetEntry) => void;
+  onKeep?: (row: TimesheetEntry) => void;
+}
+
+// Day totals followed by each day's entries
+const WeekEntries = ({ weekStart, entries, editable, onAdd, onEdit, onDelete, onKeep }: WeekEntriesProps) => {
+  const summary = summariseWeek(entries.map(row => row.entry), weekStart);
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="grid grid-cols-8 border-b border-gray-200 text-center text-sm">
+        {getWeekDays(weekStart).map(day => (
+          <div key={day} className="px-2 py-3">
+            <p className="text-gray-500">{formatDay(day)}</p>
+            <p className="font-medium">{formatMinutes(summary.days[day])}</p>
+          </div>
+        ))}
+        <div className="px-2 py-3 bg-gray-50">
+          <p className="text-gray-500">Total</p>
+          <p className="font-semibold">{formatMinutes(summary.total)}</p>
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-200">
+        {getWeekDays(weekStart).map(day => {
+          const dayEntries = entries.filter(row => getEntryDate(row.entry) === day);
+          if (dayEntries.length === 0 && !editable) return null;
+          return (
+            <div key={day} className="px-6 py-3">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium text-gray-900">{formatDay(day)}</h3>
+                {editable && onAdd && (
+                  <button
+                    onClick={() => onAdd(day)}
+                    className="inline-flex items-center text-sm text-blue-600 hover:text-blue-900"
+                  >
+                    <Plus size={16} className="mr-1" />
+                    Add Time
+                  </button>
+                )}
+              </div>
+              {dayEntries.length > 0 && (
+                <table className="min-w-full mt-2 text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {dayEntries.map(row => (
+                      <tr key={row.entry.id} className={row.entry.reviewFlag ? 'bg-yellow-50' : ''}>
+                        <td className="py-2 w-32 text-gray-500">
+                          {toTimeInput(row.entry.startTime)} -{' '}
+                          {row.entry.endTime ? toTimeInput(row.entry.endTime) : 'running'}
+                        </td>
+                        <td className="py-2">
+                          <span className="font-medium text-gray-900">{row.taskName}</span>
+                          {row.projectName && <span className="text-gray-500"> · {row.projectName}</span>}
+                          {row.entry.source === 'manual' && (
+                            <span className="ml-2 text-xs text-gray-400">manual</span>
+                          )}
+                          {row.entry.reviewFlag && (
+                            <span className="ml-2 text-xs text-yellow-700">
+                              {reviewFlagLabels[row.entry.reviewFlag]}, please check
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 w-24 text-right">
+                          {typeof row.entry.duration === 'number' ? formatMinutes(row.entry.duration) : '-'}
+                        </td>
+                        <td className="py-2 w-28 text-right">
+                          {row.entry.locked ? (
+                            <Lock size={16} className="inline text-gray-400" />
+                          ) : (
+                            editable && onEdit && onDelete && (
+                              <div className="flex items-center justify-end space-x-3">
+                                {row.entry.reviewFlag && onKeep && (
+                                  <button
+                                    onClick={() => onKeep(row)}
+                                    className="text-green-600 hover:text-green-900"
+                                    title="Keep as is"
+                                  >
+                                    <Check size={16} />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => onEdit('edit', row)}
+                                  className="text-blue-600 hover:text-blue-900"
+                                  title="Edit"
+                                >
+                                  <Pencil size={16} />
+                                </button>
+                                {row.entry.endTime && (
+                                  <button
+                                    onClick={() => onEdit('split', row)}
+                                    className="text-blue-600 hover:text-blue-900"
+                                    title="Split"
+                                  >
+                                    <Scissors size={16} />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => onDelete(row)}
+                                  className="text-red-600 hover:text-red-900"
+                                  title="Delete"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              </div>
+                            )
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+        {entries.length === 0 && !editable && (
+          <p className="px-6 py-8 text-center text-gray-500">No time logged this week</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const AuditTrail = ({ audit }: { audit: TimesheetAuditRecord[] }) => {
+  if (audit.length === 0) return null;
+  return (
+    <div className="bg-white shadow-md rounded-lg mt-6">
+      <div className="border-b border-gray-200 px-6 py-3">
+        <h3 className="text-lg font-medium text-gray-900">History</h3>
+      </div>
+      <ul className="divide-y divide-gray-200 text-sm">
+        {audit.map(record => (
+          <li key={record.id} className="px-6 py-2 flex justify-between">
+            <span>
+              <span className="font-medium">{record.by.name}</span> {auditLabels[record.action].toLowerCase()}{' '}
+              <span className="text-gray-500">{formatAuditTimes(record)}</span>
+              {record.note && <span className="text-gray-500"> · {record.note}</span>}
+            </span>
+            <span className="text-gray-400">{new Date(record.at).toLocaleString()}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const MyTimesheet = () => {
+  const navigate = useNavigate();
+  const { can } = useCurrentUser();
+  const { fetchUserTasks } = useProjectStore();
+  const { weekStart, userId, timesheet, entries, audit, loading, fetchWeek, updateEntry, deleteEntry, submitWeek } =
+    useTimesheetStore();
+  const [modal, setModal] = useState<{ mode: TimeEntryModalMode; row: TimesheetEntry | null; day: string } | null>(
+    null
+  );
+
+  useEffect(() => {
+    fetchWeek(getWeekStart(new Date()));
+    fetchUserTasks();
+  }, [fetchWeek, fetchUserTasks]);
+
+  const status = timesheet?.status ?? 'draft';
+  const editable = status === 'draft' || status === 'rejected';
+
+  const handleDelete = async (row: TimesheetEntry) => {
+    if (window.confirm('Delete this time entry?')) {
+      try {
+        await deleteEntry(row);
+        toast.success('Time entry deleted');
+      } catch (error) {
+        console.error('Failed to delete time entry:', error);
+        toast.error((error as Error).message || 'Failed to delete time entry');
+      }
+    }
+  };
+
+  const handleKeep = async (row: TimesheetEntry) => {
+    if (!row.entry.endTime) return;
+    try {
+      await updateEntry(row, row, { startTime: row.entry.startTime, endTime: row.entry.endTime });
+      toast.success('Time entry kept');
+    } catch (error) {
+      console.error('Failed to keep time entry:', error);
+      toast.error((error as Error).message || 'Failed to keep time entry');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!window.confirm('Submit this week for approval? Its time can no longer be changed.')) return;
+    try {
+      await submitWeek();
+      toast.success('Timesheet submitted');
+    } catch (error) {
+      console.error('Failed to submit timesheet:', error);
+      toast.error((error as Error).message || 'Failed to submit timesheet');
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center space-x-3">
+          <h2 className="text-2xl font-bold">Timesheet</h2>
+          <TimesheetStatusBadge status={status} />
+        </div>
+        <div className="flex items-center space-x-3">
+          {can('timesheet.approve') && (
+            <button
+              onClick={() => navigate('review')}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <ClipboardCheck size={18} className="mr-2" />
+              Review Timesheets
+            </button>
+          )}
+          <div className="flex items-center rounded-md border-[1px] bg-white">
+            <button onClick={() => fetchWeek(shiftWeek(weekStart, -1))} className="p-2 hover:bg-gray-50">
+              <ChevronLeft size={18} />
+            </button>
+            <button
+              onClick={() => fetchWeek(getWeekStart(new Date()))}
+              className="px-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Week of {formatDay(weekStart)}
+            </button>
+            <button onClick={() => fetchWeek(shiftWeek(weekStart, 1))} className="p-2 hover:bg-gray-50">
+              <ChevronRight size={18} />
+            </button>
+          </div>
+          {editable && (
+            <button
+              onClick={handleSubmit}
+              disabled={loading || entries.length === 0}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+            >
+              <Send size={18} className="mr-2" />
+              Submit Week
+            </button>
+          )}
+        </div>
+      </div>
+
+      {status === 'rejected' && timesheet && (
+        <div className="mb-6 text-sm text-red-700 bg-red-50 rounded px-4 py-3">
+          Rejected by {timesheet.reviewedBy?.name}: {timesheet.reviewNote}
+        </div>
+      )}
+
+      {loading && !userId ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+        </div>
+      ) : (
+        <>
+          <WeekEntries
+            weekStart={weekStart}
+            entries={entries}
+            editable={editable}
+            onAdd={day => setModal({ mode: 'add', row: null, day })}
+            onEdit={(mode, row) => setModal({ mode, row, day: getEntryDate(row.entry) })}
+            onDelete={handleDelete}
+            onKeep={handleKeep}
+          />
+          <AuditTrail audit={audit} />
+        </>
+      )}
+
+      {modal && (
+        <TimeEntryModal
+          mode={modal.mode}
+          row={modal.row}
+          defaultDate={modal.day}
+          onClose={() => setModal(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+const SubmittedTimesheets = () => {
+  const navigate = useNavigate();
+  const { submittedTimesheets, loading, fetchSubmittedTimesheets } = useTimesheetStore();
+
+  useEffect(() => {
+    fetchSubmittedTimesheets();
+  }, [fetchSubmittedTimesheets]);
+
+  return (
+    <div className="p-6">
+      <BackButton onClick={() => navigate('/dashboard/timesheets')} />
+      <h2 className="text-2xl font-bold my-6">Timesheets Awaiting Approval</h2>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+        </div>
+      ) : submittedTimesheets.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">No timesheets are waiting for approval</p>
+        </div>
+      ) : (
+        <div className="bg-white shadow-md rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Member
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Week
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Hours
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Submitted
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {submittedTimesheets.map(timesheet => (
+                <tr key={timesheet.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {timesheet.userName}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDay(timesheet.weekStart)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatMinutes(timesheet.totalMinutes)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {timesheet.submittedAt ? new Date(timesheet.submittedAt).toLocaleString() : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => navigate(timesheet.id)}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      <ExternalLink size={18} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ReviewTimesheet = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { timesheet, entries, audit, loading, fetchWeek, reviewTimesheet } = useTimesheetStore();
+  const [note, setNote] = useState('');
+
+  // Ids are {userId}_{weekStart}
+  const separator = id.lastIndexOf('_');
+  const userId = id.slice(0, separator);
+  const weekStart = id.slice(separator + 1);
+
+  useEffect(() => {
+    if (separator > 0) fetchWeek(weekStart, userId);
+  }, [fetchWeek, separator, userId, weekStart]);
+
+  const handleReview = async (decision: 'approved' | 'rejected') => {
+    try {
+      await reviewTimesheet(id, decision, note);
+      toast.success(decision === 'approved' ? 'Timesheet approved' : 'Timesheet rejected');
+      navigate('/dashboard/timesheets/review');
+    } catch (error) {
+      console.error('Failed to review timesheet:', error);
+      toast.error((error as Error).message || 'Failed to review timesheet');
+    }
+  };
+
+  if (!timesheet) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        {loading ? (
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+        ) : (
+          <p className="text-gray-500">Timesheet not found</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <BackButton onClick={() => navigate('/dashboard/timesheets/review')} />
+      <div className="flex justify-between items-center my-6">
+        <div className="flex items-center space-x-3">
+          <h2 className="text-2xl font-bold">
+            {timesheet.userName} · Week of {formatDay(timesheet.weekStart)}
+          </h2>
+          <TimesheetStatusBadge status={timesheet.status} />
+        </div>
+      </div>
+
+      <WeekEntries weekStart={timesheet.weekStart} entries={entries} editable={false} />
+
+      {timesheet.status === 'submitted' && (
+        <div className="bg-white shadow-md rounded-lg mt-6 px-6 py-4 space-y-3">
+          <label className="block text-sm font-medium text-gray-700">Note (required to reject)</label>
+          <textarea
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            rows={2}
+            className="p-2 block w-full rounded-md border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => handleReview('rejected')}
+              disabled={loading}
+              className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => handleReview('approved')}
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-black/90 hover:bg-black/80 disabled:opacity-50"
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Approve
+            </button>
+          </div>
+        </div>
+      )}
+
+      <AuditTrail audit={audit} />
+    </div>
+  );
+};
+
+export default function Timesheets() {
+  const { can } = useCurrentUser();
+  return (
+    <Routes>
+      <Route path="/" element={<MyTimesheet />} />
+      {can('timesheet.approve') && (
+        <>
+          <Route path="/review" element={<SubmittedTimesheets />} />
+          <Route path="/review/:id" element={<ReviewTimesheet />} />
+        </>
+      )}
+    </Routes>
+  );
+}
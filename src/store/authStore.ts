@@ -5,46 +5,103 @@ import {
   signInWithEmailAndPassword,
   signOut as firebaseSignOut,
   User,
-  onAuthStateChanged
+  onAuthStateChanged,
+  setPersistence,
+  browserLocalPersistence,
+  browserSessionPersistence
 } from 'firebase/auth';
-import { doc, setDoc, getDoc } from 'firebase/firestore';
+import { doc, setDoc, onSnapshot, Unsubscribe } from 'firebase/firestore';
+import { Role } from '../lib/permissions';
+
+// Older builds cached the plaintext email and password under this key to
+// replay the login on every load. Firebase Auth persists the session itself.
+const LEGACY_CREDENTIALS_KEY = 'userCredentials';
+
+// Resolves once Firebase has restored (or failed to restore) the session
+// and the signed-in user's profile has been loaded.
+let authReady: Promise<void> | null = null;
+let unsubscribeProfile: Unsubscribe | null = null;
+
+// The users/{uid} document
+export interface UserProfile {
+  id: string;
+  fullName: string;
+  email: string;
+  role: Role | string;
+  verified: boolean;
+  projectId?: string;
+  createdAt?: string;
+}
 
 interface AuthState {
   user: User | null;
+  profile: UserProfile | null;
+  profileLoading: boolean;
   loading: boolean;
   error: string | null;
   initialized: boolean;
   signUp: (email: string, password: string, fullName: string) => Promise<void>;
-  signIn: (email: string, password: string) => Promise<User | null>;
+  signIn: (email: string, password: string, remember?: boolean) => Promise<User | null>;
   signOut: () => Promise<void>;
   initialize: () => Promise<void>;
 }
 
 export const useAuthStore = create<AuthState>((set) => ({
   user: null,
+  profile: null,
+  profileLoading: false,
   loading: false,
   error: null,
   initialized: false,
 
-  initialize: async () => {
-    return new Promise((resolve) => {
-      const unsubscribe = onAuthStateChanged(auth, async (user) => {
-        if (user) {
-          // User is signed in
-          set({ user, initialized: true });
-        } else {
-          // User is signed out
-          set({ user: null, initialized: true });
+  initialize: () => {
+    if (authReady) return authReady;
+
+    localStorage.removeItem(LEGACY_CREDENTIALS_KEY);
+
+    // The listener is never unsubscribed: sign-outs, expired sessions and
+    // sign-ins from other tabs must keep reaching the store after startup.
+    // The profile is followed with a listener too, so role or verification
+    // changes made by an admin apply without signing in again.
+    authReady = new Promise((resolve) => {
+      onAuthStateChanged(auth, (user) => {
+        unsubscribeProfile?.();
+        unsubscribeProfile = null;
+
+        if (!user) {
+          set({ user: null, profile: null, profileLoading: false, initialized: true });
+          resolve();
+          return;
         }
-        unsubscribe(); // Cleanup subscription
-        resolve();
+
+        set({ user, profile: null, profileLoading: true });
+        unsubscribeProfile = onSnapshot(
+          doc(db, 'users', user.uid),
+          (userDoc) => {
+            set({
+              profile: userDoc.exists()
+                ? ({ ...userDoc.data(), id: userDoc.id } as UserProfile)
+                : null,
+              profileLoading: false,
+              initialized: true
+            });
+            resolve();
+          },
+          (error) => {
+            console.error('Error loading user profile:', error);
+            set({ profile: null, profileLoading: false, initialized: true });
+            resolve();
+          }
+        );
       });
     });
+    return authReady;
   },
 
   signUp: async (email: string, password: string, fullName: string) => {
     try {
       set({ loading: true, error: null });
+      await setPersistence(auth, browserLocalPersistence);
       const { user } = await createUserWithEmailAndPassword(auth, email, password);
       
       // Store user data in Firestore
@@ -56,25 +113,23 @@ export const useAuthStore = create<AuthState>((set) => ({
         verified: false
       });
 
-      // Store credentials in localStorage
-      localStorage.setItem('userCredentials', JSON.stringify({ email, password }));
-
-      set({ user, loading: false });
+      set({ loading: false });
     } catch (error) {
       set({ error: (error as Error).message, loading: false });
       throw error;
     }
   },
 
-  signIn: async (email: string, password: string) => {
+  signIn: async (email: string, password: string, remember = true) => {
     try {
       set({ loading: true, error: null });
+      // "Remember me" keeps the session across browser restarts; otherwise
+      // it ends when the tab or window is closed.
+      await setPersistence(auth, remember ? browserLocalPersistence : browserSessionPersistence);
       const { user } = await signInWithEmailAndPassword(auth, email, password);
 
-      // Store credentials in localStorage
-      localStorage.setItem('userCredentials', JSON.stringify({ email, password }));
-
-      set({ user, loading: false });
+      // `user` and `profile` are filled in by the auth listener
+      set({ loading: false });
       return user;
     } catch (error) {
       set({ error: (error as Error).message, loading: false });
@@ -85,9 +140,6 @@ export const useAuthStore = create<AuthState>((set) => ({
   signOut: async () => {
     try {
       await firebaseSignOut(auth);
-      // Remove credentials from localStorage
-      localStorage.removeItem('userCredentials');
-      set({ user: null });
     } catch (error) {
       set({ error: (error as Error).message });
       throw error;
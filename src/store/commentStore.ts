@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { doc, getDoc, setDoc, updateDoc, onSnapshot, Unsubscribe } from 'firebase/firestore';
 import { db, auth } from '../lib/firebase';
 
 interface Attachment {
@@ -28,10 +28,11 @@ interface CommentState {
   loading: boolean;
   error: string | null;
   fetchComments: (projectId: string) => Promise<void>;
+  subscribeToComments: (projectId: string) => Unsubscribe;
   addComment: (projectId: string, text: string, attachments?: Attachment[]) => Promise<void>;
 }
 
-export const useCommentStore = create<CommentState>((set, get) => ({
+export const useCommentStore = create<CommentState>((set) => ({
   comments: [],
   loading: false,
   error: null,
@@ -60,6 +61,28 @@ export const useCommentStore = create<CommentState>((set, get) => ({
     }
   },
 
+  subscribeToComments: (projectId: string) => {
+    set({ loading: true, error: null });
+    return onSnapshot(
+      doc(db, 'project_comments', projectId),
+      (commentsDoc) => {
+        const comments = commentsDoc.exists()
+          ? (commentsDoc.data() as ProjectComments).comments
+          : [];
+        set({
+          comments: [...comments].sort((a, b) =>
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+          ),
+          loading: false,
+        });
+      },
+      (error) => {
+        console.error('Error subscribing to comments:', error);
+        set({ error: error.message, loading: false });
+      }
+    );
+  },
+
   addComment: async (projectId: string, text: string, attachments: Attachment[] = []) => {
     try {
       set({ loading: true, error: null });
@@ -94,13 +117,8 @@ export const useCommentStore = create<CommentState>((set, get) => ({
         });
       }
 
-      // Update local state
-      const currentComments = get().comments;
-      set({
-        comments: [newComment, ...currentComments],
-        loading: false,
-        error: null,
-      });
+      // The comments listener picks up the new comment
+      set({ loading: false, error: null });
     } catch (error) {
       console.error('Error adding comment:', error);
       set({ error: (error as Error).message, loading: false });
@@ -0,0 +1,78 @@
+import { create } from 'zustand';
+import { doc, onSnapshot, setDoc, Unsubscribe } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { DEFAULT_OVERRUN_THRESHOLD, UserRates } from '../lib/costs';
+
+// Internal rates are kept away from user profiles, which every member can
+// read; only people allowed to see costs can read this document.
+export interface CostSettings {
+  userRates: UserRates;
+  overrunThreshold: number;
+}
+
+interface CostState {
+  settings: CostSettings;
+  loading: boolean;
+  error: string | null;
+  subscribeToCostSettings: () => Unsubscribe;
+  updateUserRate: (userId: string, rate: number) => Promise<void>;
+  updateOverrunThreshold: (threshold: number) => Promise<void>;
+}
+
+const settingsRef = () => doc(db, 'settings', 'costing');
+
+export const useCostStore = create<CostState>((set, get) => ({
+  settings: { userRates: {}, overrunThreshold: DEFAULT_OVERRUN_THRESHOLD },
+  loading: false,
+  error: null,
+
+  subscribeToCostSettings: () => {
+    set({ loading: true, error: null });
+    return onSnapshot(
+      settingsRef(),
+      (docSnap) => {
+        const data = docSnap.data();
+        set({
+          settings: {
+            userRates: data?.userRates ?? {},
+            overrunThreshold: data?.overrunThreshold ?? DEFAULT_OVERRUN_THRESHOLD
+          },
+          loading: false
+        });
+      },
+      (error) => {
+        console.error('Error subscribing to cost settings:', error);
+        set({ error: error.message, loading: false });
+      }
+    );
+  },
+
+  updateUserRate: async (userId, rate) => {
+    try {
+      set({ loading: true, error: null });
+      if (!Number.isFinite(rate) || rate < 0) throw new Error('Rate must be zero or more');
+
+      await setDoc(settingsRef(), { userRates: { [userId]: rate } }, { merge: true });
+      const { settings } = get();
+      set({ settings: { ...settings, userRates: { ...settings.userRates, [userId]: rate } }, loading: false });
+    } catch (error) {
+      console.error('Error updating user rate:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  updateOverrunThreshold: async (threshold) => {
+    try {
+      set({ loading: true, error: null });
+      if (!Number.isFinite(threshold) || threshold <= 0) throw new Error('Threshold must be above zero');
+
+      await setDoc(settingsRef(), { overrunThreshold: threshold }, { merge: true });
+      set({ settings: { ...get().settings, overrunThreshold: threshold }, loading: false });
+    } catch (error) {
+      console.error('Error updating overrun threshold:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  }
+}));
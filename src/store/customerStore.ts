@@ -0,0 +1,253 @@
+import { create } from 'zustand';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  DocumentData,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  updateDoc,
+  Unsubscribe,
+  where
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { isValidGstin, normaliseGstin } from '../lib/customers';
+import { Enquiry, enquiryFromDoc } from './enquiryStore';
+import { Invoice, invoiceFromDoc } from './invoiceStore';
+import { Project, Task } from './projectStore';
+
+export interface CustomerAddress {
+  line1: string;
+  line2: string;
+  city: string;
+  state: string;
+  pincode: string;
+}
+
+export interface CustomerContact {
+  id: string;
+  name: string;
+  designation: string;
+  email: string;
+  phone: string;
+  isPrimary: boolean;
+}
+
+// Master record for a client company. Enquiries and projects link to it by
+// `customerId` and keep their own `customer` snapshot for documents.
+export interface Customer {
+  id: string;
+  name: string;
+  gstin: string;
+  billingAddress: CustomerAddress;
+  shippingAddress: CustomerAddress;
+  contacts: CustomerContact[];
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CustomerInput = Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Customer portal logins, which are tied to one of the customer's projects
+export interface PortalAccount {
+  id: string;
+  fullName: string;
+  email: string;
+  projectId: string;
+}
+
+export interface CustomerRecords {
+  enquiries: Enquiry[];
+  projects: Project[];
+  invoices: Invoice[];
+  portalAccounts: PortalAccount[];
+}
+
+interface CustomerState {
+  customers: Customer[];
+  loading: boolean;
+  error: string | null;
+  subscribeToCustomers: () => Unsubscribe;
+  fetchCustomer: (id: string) => Promise<Customer | null>;
+  fetchCustomerRecords: (id: string) => Promise<CustomerRecords>;
+  createCustomer: (customer: CustomerInput) => Promise<Customer>;
+  updateCustomer: (id: string, customer: CustomerInput) => Promise<void>;
+  deleteCustomer: (id: string) => Promise<void>;
+}
+
+// Firestore caps `in` filters at 30 values
+const IN_QUERY_LIMIT = 30;
+
+const customerFromDoc = (id: string, data: DocumentData) =>
+  ({
+    ...data,
+    id,
+    gstin: data.gstin ?? '',
+    contacts: data.contacts ?? [],
+    notes: data.notes ?? ''
+  }) as Customer;
+
+const cleanCustomer = (customer: CustomerInput): CustomerInput => {
+  const name = customer.name.trim();
+  if (!name) throw new Error('Customer name is required');
+  if (!isValidGstin(customer.gstin)) throw new Error('Invalid GSTIN');
+
+  const contacts = customer.contacts.filter(contact => contact.name.trim());
+  // Exactly one primary contact, the first one unless chosen
+  const primaryId = (contacts.find(contact => contact.isPrimary) || contacts[0])?.id;
+
+  return {
+    name,
+    gstin: normaliseGstin(customer.gstin),
+    billingAddress: customer.billingAddress,
+    shippingAddress: customer.shippingAddress,
+    contacts: contacts.map(contact => ({ ...contact, isPrimary: contact.id === primaryId })),
+    notes: customer.notes.trim()
+  };
+};
+
+const queryByProjectIds = async (collectionName: string, projectIds: string[]) => {
+  const docs = [];
+  for (let i = 0; i < projectIds.length; i += IN_QUERY_LIMIT) {
+    const snapshot = await getDocs(
+      query(collection(db, collectionName), where('projectId', 'in', projectIds.slice(i, i + IN_QUERY_LIMIT)))
+    );
+    docs.push(...snapshot.docs);
+  }
+  return docs;
+};
+
+export const useCustomerStore = create<CustomerState>((set, get) => ({
+  customers: [],
+  loading: false,
+  error: null,
+
+  subscribeToCustomers: () => {
+    set({ loading: true, error: null });
+    return onSnapshot(
+      query(collection(db, 'customers'), orderBy('name')),
+      (querySnapshot) => {
+        const customers = querySnapshot.docs.map(customerDoc =>
+          customerFromDoc(customerDoc.id, customerDoc.data())
+        );
+        set({ customers, loading: false });
+      },
+      (error) => {
+        console.error('Error subscribing to customers:', error);
+        set({ error: error.message, loading: false });
+      }
+    );
+  },
+
+  fetchCustomer: async (id) => {
+    try {
+      const customerDoc = await getDoc(doc(db, 'customers', id));
+      return customerDoc.exists() ? customerFromDoc(customerDoc.id, customerDoc.data()) : null;
+    } catch (error) {
+      console.error('Error fetching customer:', error);
+      return null;
+    }
+  },
+
+  // Everything linked to the customer. Invoices and portal accounts hang off
+  // projects, so older ones are found even though they never had a customerId.
+  fetchCustomerRecords: async (id) => {
+    try {
+      set({ loading: true, error: null });
+      const [enquirySnapshot, projectSnapshot] = await Promise.all([
+        getDocs(query(collection(db, 'enquiries'), where('customerId', '==', id))),
+        getDocs(query(collection(db, 'projects'), where('customerId', '==', id)))
+      ]);
+
+      const enquiries = enquirySnapshot.docs.map(enquiryDoc => enquiryFromDoc(enquiryDoc.id, enquiryDoc.data()));
+      const projects = projectSnapshot.docs.map(projectDoc => ({
+        ...projectDoc.data(),
+        id: projectDoc.id,
+        tasks: [] as Task[]
+      })) as Project[];
+      const projectIds = projects.map(project => project.id!);
+
+      const [invoiceDocs, userDocs] = await Promise.all([
+        queryByProjectIds('invoices', projectIds),
+        queryByProjectIds('users', projectIds)
+      ]);
+
+      const invoices = invoiceDocs
+        .map(invoiceDoc => invoiceFromDoc(invoiceDoc.id, invoiceDoc.data()))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      const portalAccounts = userDocs
+        .filter(userDoc => userDoc.data().role === 'customer')
+        .map(userDoc => ({
+          id: userDoc.id,
+          fullName: userDoc.data().fullName,
+          email: userDoc.data().email,
+          projectId: userDoc.data().projectId
+        }));
+
+      set({ loading: false });
+      return { enquiries, projects, invoices, portalAccounts };
+    } catch (error) {
+      console.error('Error fetching customer records:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  createCustomer: async (customerData) => {
+    try {
+      set({ loading: true, error: null });
+      const now = new Date().toISOString();
+      const newCustomer = { ...cleanCustomer(customerData), createdAt: now, updatedAt: now };
+      const docRef = await addDoc(collection(db, 'customers'), newCustomer);
+      set({ loading: false });
+      return { ...newCustomer, id: docRef.id };
+    } catch (error) {
+      console.error('Error creating customer:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  updateCustomer: async (id, customerData) => {
+    try {
+      set({ loading: true, error: null });
+      const changes = { ...cleanCustomer(customerData), updatedAt: new Date().toISOString() };
+      await updateDoc(doc(db, 'customers', id), changes);
+      set({
+        customers: get().customers.map(customer => (customer.id === id ? { ...customer, ...changes } : customer)),
+        loading: false
+      });
+    } catch (error) {
+      console.error('Error updating customer:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  // Only customers nothing links to yet can be removed
+  deleteCustomer: async (id) => {
+    try {
+      set({ loading: true, error: null });
+      const [enquiries, projects] = await Promise.all([
+        getDocs(query(collection(db, 'enquiries'), where('customerId', '==', id), limit(1))),
+        getDocs(query(collection(db, 'projects'), where('customerId', '==', id), limit(1)))
+      ]);
+      if (!enquiries.empty || !projects.empty) {
+        throw new Error('Customer has enquiries or projects and cannot be deleted');
+      }
+
+      await deleteDoc(doc(db, 'customers', id));
+      set({ customers: get().customers.filter(customer => customer.id !== id), loading: false });
+    } catch (error) {
+      console.error('Error deleting customer:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  }
+}));
@@ -1,15 +1,21 @@
 import { create } from 'zustand';
-import { collection, addDoc, getDocs, doc, deleteDoc, updateDoc, getDoc } from 'firebase/firestore';
+import { collection, getDocs, doc, deleteDoc, updateDoc, getDoc, runTransaction, onSnapshot, Unsubscribe, DocumentData } from 'firebase/firestore';
 import { db } from '../lib/firebase';
+import { assignRecordNumber } from '../lib/counters';
+import { toTaskDoc } from './projectStore';
+import { buildBaseline, buildChecklist } from '../lib/pipeline';
+import { TemplateTask, getDeliverableOwnHours, instantiateTemplate } from '../lib/templates';
 import toast from 'react-hot-toast';
 
-interface Deliverable {
+export interface Deliverable {
   id: string;
   name: string;
   description?: string;
   hours?: number;
   costPerHour?: number;
   total: number;
+  // Standard subtasks when the deliverable came from a project template
+  subtasks?: TemplateTask[];
 }
 
 interface CustomerRequirement {
@@ -17,11 +23,19 @@ interface CustomerRequirement {
   text: string;
 }
 
+// 'won' is only reached by converting the enquiry into a project.
+export type EnquiryStatus = 'new' | 'quoted' | 'negotiating' | 'won' | 'lost';
+
 export interface Enquiry {
   id?: string;
+  // Enquiry number, e.g. STI-E-2026-0107 (see lib/numbering)
   __id: string;
+  // Random id used before enquiries were numbered
+  legacyId?: string | null;
   name: string;
   description: string;
+  // Master record in `customers`; enquiries from before it existed have none
+  customerId: string | null;
   customer: {
     name: string;
     phone: string;
@@ -29,24 +43,61 @@ export interface Enquiry {
   };
   deliverables: Deliverable[];
   requirements: CustomerRequirement[];
+  status: EnquiryStatus;
+  owner: {
+    id: string;
+    name: string;
+  } | null;
+  followUpDate: string | null;
+  lossReason: string;
+  // Set when the enquiry is won and converted
+  projectId: string | null;
+  closedAt: string | null;
+  // Last quote revision generated (see quoteStore)
+  quoteRevision?: number;
   createdAt: string;
   type: 'enquiry';
 }
 
+// The fields edited through the enquiry form
+export type EnquiryInput = Pick<
+  Enquiry,
+  'name' | 'description' | 'customerId' | 'customer' | 'deliverables' | 'requirements' | 'owner' | 'followUpDate'
+>;
+
 interface EnquiryState {
   enquiries: Enquiry[];
+  currentEnquiry: Enquiry | null;
   loading: boolean;
   error: string | null;
   fetchEnquiries: () => Promise<void>;
   fetchEnquiry: (id: string) => Promise<Enquiry | null>;
-  createEnquiry: (enquiry: Omit<Enquiry, 'id' | '__id' | 'createdAt' | 'type'>) => Promise<void>;
-  updateEnquiry: (id: string, enquiry: Omit<Enquiry, 'id' | '__id' | 'createdAt' | 'type'>) => Promise<void>;
+  subscribeToEnquiries: () => Unsubscribe;
+  subscribeToEnquiry: (id: string, onNotFound?: () => void) => Unsubscribe;
+  createEnquiry: (enquiry: EnquiryInput) => Promise<void>;
+  updateEnquiry: (id: string, enquiry: EnquiryInput) => Promise<void>;
+  updateEnquiryStatus: (id: string, status: EnquiryStatus, lossReason?: string) => Promise<void>;
   deleteEnquiry: (id: string) => Promise<void>;
-  convertToProject: (enquiryId: string) => Promise<void>;
+  convertToProject: (enquiryId: string) => Promise<string>;
 }
 
+// Enquiries created before the pipeline existed have no status fields
+export const enquiryFromDoc = (id: string, data: DocumentData) =>
+  ({
+    ...data,
+    id,
+    customerId: data.customerId ?? null,
+    status: data.status ?? 'new',
+    owner: data.owner ?? null,
+    followUpDate: data.followUpDate ?? null,
+    lossReason: data.lossReason ?? '',
+    projectId: data.projectId ?? null,
+    closedAt: data.closedAt ?? null
+  }) as Enquiry;
+
 export const useEnquiryStore = create<EnquiryState>((set, get) => ({
   enquiries: [],
+  currentEnquiry: null,
   loading: false,
   error: null,
 
@@ -54,10 +105,7 @@ export const useEnquiryStore = create<EnquiryState>((set, get) => ({
     try {
       set({ loading: true, error: null });
       const querySnapshot = await getDocs(collection(db, 'enquiries'));
-      const enquiries = querySnapshot.docs.map(doc => ({
-        ...doc.data(),
-        id: doc.id,
-      })) as Enquiry[];
+      const enquiries = querySnapshot.docs.map(doc => enquiryFromDoc(doc.id, doc.data()));
       set({ enquiries, loading: false });
     } catch (error) {
       set({ error: (error as Error).message, loading: false });
@@ -70,7 +118,7 @@ export const useEnquiryStore = create<EnquiryState>((set, get) => ({
       const docRef = doc(db, 'enquiries', id);
       const docSnap = await getDoc(docRef);
       if (docSnap.exists()) {
-        const enquiry = { ...docSnap.data(), id: docSnap.id } as Enquiry;
+        const enquiry = enquiryFromDoc(docSnap.id, docSnap.data());
         set({ loading: false });
         return enquiry;
       }
@@ -82,17 +130,60 @@ export const useEnquiryStore = create<EnquiryState>((set, get) => ({
     }
   },
 
+  subscribeToEnquiries: () => {
+    set({ loading: true, error: null });
+    return onSnapshot(
+      collection(db, 'enquiries'),
+      (querySnapshot) => {
+        const enquiries = querySnapshot.docs.map(doc => enquiryFromDoc(doc.id, doc.data()));
+        set({ enquiries, loading: false });
+      },
+      (error) => {
+        set({ error: error.message, loading: false });
+      }
+    );
+  },
+
+  subscribeToEnquiry: (id: string, onNotFound) => {
+    const unsubscribe = onSnapshot(
+      doc(db, 'enquiries', id),
+      (docSnap) => {
+        if (!docSnap.exists()) {
+          set({ currentEnquiry: null });
+          onNotFound?.();
+          return;
+        }
+        set({ currentEnquiry: enquiryFromDoc(docSnap.id, docSnap.data()) });
+      },
+      (error) => {
+        set({ error: error.message });
+      }
+    );
+
+    return () => {
+      unsubscribe();
+      set({ currentEnquiry: null });
+    };
+  },
+
   createEnquiry: async (enquiryData) => {
     try {
       set({ loading: true, error: null });
-      const internalId = 'e-' + Math.random().toString().slice(2, 8);
-      const newEnquiry = {
-        ...enquiryData,
-        __id: internalId,
-        createdAt: new Date().toISOString(),
-        type: 'enquiry' as const
-      };
-      const docRef = await addDoc(collection(db, 'enquiries'), newEnquiry);
+      const docRef = doc(collection(db, 'enquiries'));
+      const newEnquiry = await runTransaction(db, async transaction => {
+        const data: Omit<Enquiry, 'id'> = {
+          ...enquiryData,
+          __id: await assignRecordNumber(transaction, 'enquiry'),
+          status: 'new',
+          lossReason: '',
+          projectId: null,
+          closedAt: null,
+          createdAt: new Date().toISOString(),
+          type: 'enquiry' as const
+        };
+        transaction.set(docRef, data);
+        return data;
+      });
       const enquiryWithId = { ...newEnquiry, id: docRef.id };
       const enquiries = [...get().enquiries, enquiryWithId];
       set({ enquiries, loading: false });
@@ -107,14 +198,37 @@ export const useEnquiryStore = create<EnquiryState>((set, get) => ({
       const docRef = doc(db, 'enquiries', id);
       await updateDoc(docRef, { ...enquiryData, type: 'enquiry' });
       const updatedEnquiries = get().enquiries.map(enquiry =>
-        enquiry.id === id ? { ...enquiryData, id, __id: enquiry.__id, type: 'enquiry' } : enquiry
+        enquiry.id === id ? { ...enquiry, ...enquiryData } : enquiry
       );
-      set({ enquiries: updatedEnquiries as Enquiry[], loading: false });
+      set({ enquiries: updatedEnquiries, loading: false });
     } catch (error) {
       set({ error: (error as Error).message, loading: false });
     }
   },
 
+  updateEnquiryStatus: async (id, status, lossReason = '') => {
+    try {
+      set({ loading: true, error: null });
+      if (status === 'won') throw new Error('Convert the enquiry to a project to mark it won');
+      if (status === 'lost' && !lossReason.trim()) throw new Error('A loss reason is required');
+
+      const changes = {
+        status,
+        lossReason: status === 'lost' ? lossReason.trim() : '',
+        closedAt: status === 'lost' ? new Date().toISOString() : null
+      };
+      await updateDoc(doc(db, 'enquiries', id), changes);
+      set({
+        enquiries: get().enquiries.map(enquiry => (enquiry.id === id ? { ...enquiry, ...changes } : enquiry)),
+        loading: false
+      });
+    } catch (error) {
+      console.error('Error updating enquiry status:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
   deleteEnquiry: async (id: string) => {
     try {
       set({ loading: true, error: null });
@@ -130,45 +244,73 @@ export const useEnquiryStore = create<EnquiryState>((set, get) => ({
     try {
       set({ loading: true, error: null });
 
-      const enquiry = await get().fetchEnquiry(enquiryId);
-      if (!enquiry) throw new Error('Enquiry not found');
-
-      // Convert deliverables to tasks
-      const tasks = enquiry.deliverables.map(deliverable => ({
-        id: crypto.randomUUID(),
-        name: deliverable.name,
-        description: deliverable.description || '',
-        hours: deliverable.hours || 0,
-        costPerHour: deliverable.costPerHour || 0,
-        completed: false,
-        children: [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }));
-
-      // Create project data
-      const projectData = {
-        name: enquiry.name,
-        description: enquiry.description,
-        customer: enquiry.customer,
-        tasks,
-        __id: 'p-' + enquiry.__id.split('-')[1],
-        type: 'project' as const,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
+      const enquiryRef = doc(db, 'enquiries', enquiryId);
+      const projectRef = doc(collection(db, 'projects'));
+
+      // Project, tasks (one per deliverable) and the won enquiry are written
+      // in one transaction with the project number, so a failed conversion
+      // leaves nothing behind and a double click cannot convert twice
+      const won = await runTransaction(db, async transaction => {
+        const enquirySnap = await transaction.get(enquiryRef);
+        if (!enquirySnap.exists()) throw new Error('Enquiry not found');
+        const enquiry = enquiryFromDoc(enquirySnap.id, enquirySnap.data());
+        if (enquiry.projectId) throw new Error('Enquiry has already been converted');
 
-      // Create project in Firestore
-      const projectRef = await addDoc(collection(db, 'projects'), projectData);
+        // Requirements become the checklist and the priced deliverables the
+        // baseline budget; the project links back to the enquiry
+        const now = new Date().toISOString();
+        transaction.set(projectRef, {
+          name: enquiry.name,
+          description: enquiry.description,
+          customerId: enquiry.customerId,
+          customer: enquiry.customer,
+          __id: await assignRecordNumber(transaction, 'project'),
+          status: 'not-started' as const,
+          checklist: buildChecklist(enquiry.requirements || []),
+          baseline: buildBaseline(enquiry.deliverables || [], now),
+          sourceEnquiryId: enquiryId,
+          project_due_date: null,
+          type: 'project' as const,
+          createdAt: now,
+          updatedAt: now
+        });
+        const tasksRef = collection(db, 'projects', projectRef.id, 'tasks');
+        (enquiry.deliverables || []).forEach((deliverable, index) => {
+          const taskRef = doc(tasksRef);
+          transaction.set(
+            taskRef,
+            toTaskDoc({
+              name: deliverable.name,
+              description: deliverable.description || '',
+              hours: getDeliverableOwnHours(deliverable),
+              costPerHour: deliverable.costPerHour || 0,
+              completed: false
+            }, null, index)
+          );
+          // Subtasks from a template; the project has no start date yet
+          instantiateTemplate(deliverable.subtasks || [], null, () => doc(tasksRef).id, taskRef.id)
+            .forEach(({ id, parentId, order, task }) => {
+              transaction.set(doc(tasksRef, id), toTaskDoc(task, parentId, order));
+            });
+        });
 
-      // Delete original enquiry
-      await deleteDoc(doc(db, 'enquiries', enquiryId));
+        // Keep the enquiry as won so conversion rates can be reported
+        const changes = {
+          status: 'won' as const,
+          projectId: projectRef.id,
+          lossReason: '',
+          closedAt: now
+        };
+        transaction.update(enquiryRef, changes);
+        return changes;
+      });
 
       // Update local state
-      const updatedEnquiries = get().enquiries.filter(e => e.id !== enquiryId);
+      const updatedEnquiries = get().enquiries.map(e => (e.id === enquiryId ? { ...e, ...won } : e));
       set({ enquiries: updatedEnquiries, loading: false });
 
       toast.success('Successfully converted to project');
+      return projectRef.id;
     } catch (error) {
       console.error('Error converting to project:', error);
       set({ error: (error as Error).message, loading: false });
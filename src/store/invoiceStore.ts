@@ -0,0 +1,389 @@
+import { create } from 'zustand';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  DocumentData,
+  getDoc,
+  onSnapshot,
+  query,
+  runTransaction,
+  setDoc,
+  Transaction,
+  where,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db, auth } from '../lib/firebase';
+import { useAuthStore } from './authStore';
+import { Project } from './projectStore';
+import {
+  SELLER,
+  buildInvoiceLines,
+  buildMilestoneLine,
+  calculateInvoiceTotals,
+  formatInvoiceNumber,
+  getFinancialYear,
+  roundCurrency
+} from '../lib/invoicing';
+
+// Intra-state supplies are taxed as CGST + SGST, inter-state as IGST.
+export type SupplyType = 'intra' | 'inter';
+
+// Task lines carry hours and a rate; milestone lines only an amount.
+export interface InvoiceLine {
+  id: string;
+  description: string;
+  hours?: number;
+  rate?: number;
+  amount: number;
+}
+
+export interface TaxLine {
+  label: 'CGST' | 'SGST' | 'IGST';
+  rate: number;
+  amount: number;
+}
+
+// Only these are stored; 'overdue' is derived from the due date
+// (see getInvoiceStatus).
+export type StoredInvoiceStatus = 'draft' | 'issued' | 'partially-paid' | 'paid';
+export type InvoiceStatus = StoredInvoiceStatus | 'overdue';
+
+export type PaymentMode = 'bank-transfer' | 'cheque' | 'upi' | 'cash' | 'other';
+
+export interface Payment {
+  id: string;
+  amount: number;
+  date: string;
+  mode: PaymentMode;
+  reference: string;
+  recordedAt: string;
+  recordedBy: {
+    id: string;
+    name: string;
+  };
+}
+
+// Everything printed on an invoice is copied in when it is created, and
+// nothing but its payments changes once it is issued, so it can be
+// reprinted exactly. Drafts get their number when they are issued.
+export interface Invoice {
+  id: string;
+  number: string;
+  financialYear: string;
+  sequence: number;
+  status: StoredInvoiceStatus;
+  projectId: string;
+  milestoneId: string | null;
+  projectRef: string;
+  projectName: string;
+  issueDate: string;
+  dueDate: string;
+  seller: {
+    name: string;
+    address: string;
+    gstin: string;
+  };
+  customer: {
+    name: string;
+    phone: string;
+    address: string;
+    gstin: string;
+  };
+  supplyType: SupplyType;
+  gstRate: number;
+  lines: InvoiceLine[];
+  subtotal: number;
+  taxes: TaxLine[];
+  taxTotal: number;
+  total: number;
+  amountPaid: number;
+  payments: Payment[];
+  createdAt: string;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface IssueInvoiceOptions {
+  issueDate: string;
+  dueDate: string;
+  gstRate: number;
+  supplyType: SupplyType;
+  customerGstin?: string;
+  // Bill one payment milestone instead of the whole task tree
+  milestoneId?: string | null;
+}
+
+export type NewPayment = Pick<Payment, 'amount' | 'date' | 'mode' | 'reference'>;
+
+interface InvoiceState {
+  invoices: Invoice[];
+  allInvoices: Invoice[];
+  loading: boolean;
+  error: string | null;
+  subscribeToProjectInvoices: (projectId: string) => Unsubscribe;
+  subscribeToInvoices: () => Unsubscribe;
+  fetchInvoice: (id: string) => Promise<Invoice | null>;
+  issueInvoice: (project: Project, options: IssueInvoiceOptions) => Promise<Invoice>;
+  saveDraftInvoice: (project: Project, options: IssueInvoiceOptions) => Promise<Invoice>;
+  issueDraftInvoice: (invoiceId: string) => Promise<Invoice>;
+  deleteDraftInvoice: (invoiceId: string) => Promise<void>;
+  recordPayment: (invoiceId: string, payment: NewPayment) => Promise<void>;
+}
+
+// One counter document per financial year holds the last number issued.
+const counterRef = (financialYear: string) =>
+  doc(db, 'counters', `invoices-${financialYear}`);
+
+// Invoices issued before payments were tracked lack the payment fields
+export const invoiceFromDoc = (id: string, data: DocumentData) =>
+  ({
+    ...data,
+    id,
+    status: data.status ?? 'issued',
+    amountPaid: data.amountPaid ?? 0,
+    payments: data.payments ?? [],
+    milestoneId: data.milestoneId ?? null
+  }) as Invoice;
+
+const currentActor = () => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('User not authenticated');
+  return {
+    id: currentUser.uid,
+    name: useAuthStore.getState().profile?.fullName || currentUser.email || 'Unknown User'
+  };
+};
+
+const buildInvoiceData = (project: Project, options: IssueInvoiceOptions): Omit<Invoice, 'id'> => {
+  if (!project.id) throw new Error('Project not found');
+
+  const milestone = options.milestoneId
+    ? (project.milestones || []).find(item => item.id === options.milestoneId)
+    : null;
+  if (options.milestoneId && !milestone) throw new Error('Milestone not found');
+
+  const lines = milestone
+    ? [buildMilestoneLine(project.tasks, milestone)]
+    : buildInvoiceLines(project.tasks);
+  if (lines.length === 0 || lines.every(line => line.amount <= 0)) {
+    throw new Error('The project has no billable tasks');
+  }
+
+  return {
+    number: '',
+    financialYear: '',
+    sequence: 0,
+    status: 'draft',
+    projectId: project.id,
+    milestoneId: milestone?.id || null,
+    projectRef: project.__id,
+    projectName: project.name,
+    issueDate: options.issueDate,
+    dueDate: options.dueDate,
+    seller: { ...SELLER },
+    customer: {
+      name: project.customer?.name || '',
+      phone: project.customer?.phone || '',
+      address: project.customer?.address || '',
+      gstin: options.customerGstin?.trim().toUpperCase() || ''
+    },
+    supplyType: options.supplyType,
+    gstRate: options.gstRate,
+    lines,
+    ...calculateInvoiceTotals(lines, options.gstRate, options.supplyType),
+    amountPaid: 0,
+    payments: [],
+    createdAt: new Date().toISOString(),
+    createdBy: currentActor()
+  };
+};
+
+// Reading and bumping the counter in the same transaction keeps numbers
+// gap-free even when two invoices are issued at the same time.
+const assignInvoiceNumber = async (transaction: Transaction, issueDate: string) => {
+  const financialYear = getFinancialYear(new Date(issueDate));
+  const counterSnap = await transaction.get(counterRef(financialYear));
+  const sequence = ((counterSnap.data()?.last as number) || 0) + 1;
+  transaction.set(counterRef(financialYear), { financialYear, last: sequence });
+  return {
+    number: formatInvoiceNumber(financialYear, sequence),
+    financialYear,
+    sequence,
+    status: 'issued' as const
+  };
+};
+
+export const useInvoiceStore = create<InvoiceState>((set) => ({
+  invoices: [],
+  allInvoices: [],
+  loading: false,
+  error: null,
+
+  subscribeToProjectInvoices: (projectId) => {
+    set({ loading: true, error: null });
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'invoices'), where('projectId', '==', projectId)),
+      (querySnapshot) => {
+        const invoices = querySnapshot.docs
+          .map(invoiceDoc => invoiceFromDoc(invoiceDoc.id, invoiceDoc.data()))
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        set({ invoices, loading: false });
+      },
+      (error) => {
+        console.error('Error subscribing to invoices:', error);
+        set({ error: error.message, loading: false });
+      }
+    );
+
+    return () => {
+      unsubscribe();
+      set({ invoices: [] });
+    };
+  },
+
+  subscribeToInvoices: () => {
+    set({ loading: true, error: null });
+    return onSnapshot(
+      collection(db, 'invoices'),
+      (querySnapshot) => {
+        const allInvoices = querySnapshot.docs
+          .map(invoiceDoc => invoiceFromDoc(invoiceDoc.id, invoiceDoc.data()))
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        set({ allInvoices, loading: false });
+      },
+      (error) => {
+        console.error('Error subscribing to invoices:', error);
+        set({ error: error.message, loading: false });
+      }
+    );
+  },
+
+  fetchInvoice: async (id) => {
+    try {
+      const invoiceDoc = await getDoc(doc(db, 'invoices', id));
+      return invoiceDoc.exists() ? invoiceFromDoc(invoiceDoc.id, invoiceDoc.data()) : null;
+    } catch (error) {
+      console.error('Error fetching invoice:', error);
+      return null;
+    }
+  },
+
+  issueInvoice: async (project, options) => {
+    try {
+      set({ loading: true, error: null });
+      const invoiceData = buildInvoiceData(project, options);
+      const invoiceRef = doc(collection(db, 'invoices'));
+
+      const invoice = await runTransaction(db, async transaction => {
+        const issued = { ...invoiceData, ...(await assignInvoiceNumber(transaction, options.issueDate)) };
+        transaction.set(invoiceRef, issued);
+        return { ...issued, id: invoiceRef.id };
+      });
+
+      set({ loading: false });
+      return invoice;
+    } catch (error) {
+      console.error('Error issuing invoice:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  saveDraftInvoice: async (project, options) => {
+    try {
+      set({ loading: true, error: null });
+      const invoiceData = buildInvoiceData(project, options);
+      const invoiceRef = doc(collection(db, 'invoices'));
+
+      await setDoc(invoiceRef, invoiceData);
+
+      set({ loading: false });
+      return { ...invoiceData, id: invoiceRef.id };
+    } catch (error) {
+      console.error('Error saving draft invoice:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  issueDraftInvoice: async (invoiceId) => {
+    try {
+      set({ loading: true, error: null });
+      const invoiceRef = doc(db, 'invoices', invoiceId);
+
+      const invoice = await runTransaction(db, async transaction => {
+        const invoiceSnap = await transaction.get(invoiceRef);
+        if (!invoiceSnap.exists()) throw new Error('Invoice not found');
+        const draft = invoiceFromDoc(invoiceSnap.id, invoiceSnap.data());
+        if (draft.status !== 'draft') throw new Error('Invoice has already been issued');
+
+        const numbering = await assignInvoiceNumber(transaction, draft.issueDate);
+        transaction.update(invoiceRef, numbering);
+        return { ...draft, ...numbering };
+      });
+
+      set({ loading: false });
+      return invoice;
+    } catch (error) {
+      console.error('Error issuing draft invoice:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  deleteDraftInvoice: async (invoiceId) => {
+    try {
+      set({ loading: true, error: null });
+      await deleteDoc(doc(db, 'invoices', invoiceId));
+      set({ loading: false });
+    } catch (error) {
+      console.error('Error deleting draft invoice:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  recordPayment: async (invoiceId, payment) => {
+    try {
+      set({ loading: true, error: null });
+      if (!(payment.amount > 0)) throw new Error('Payment amount must be positive');
+      const recordedBy = currentActor();
+      const invoiceRef = doc(db, 'invoices', invoiceId);
+
+      await runTransaction(db, async transaction => {
+        const invoiceSnap = await transaction.get(invoiceRef);
+        if (!invoiceSnap.exists()) throw new Error('Invoice not found');
+        const invoice = invoiceFromDoc(invoiceSnap.id, invoiceSnap.data());
+        if (invoice.status === 'draft') throw new Error('Issue the invoice before recording payments');
+
+        const amountPaid = roundCurrency(invoice.amountPaid + payment.amount);
+        if (amountPaid > invoice.total) throw new Error('Payment is more than the amount due');
+
+        transaction.update(invoiceRef, {
+          payments: [
+            ...invoice.payments,
+            {
+              ...payment,
+              id: crypto.randomUUID(),
+              amount: roundCurrency(payment.amount),
+              reference: payment.reference.trim(),
+              recordedAt: new Date().toISOString(),
+              recordedBy
+            }
+          ],
+          amountPaid,
+          status: amountPaid >= invoice.total ? 'paid' : 'partially-paid'
+        });
+      });
+
+      set({ loading: false });
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  }
+}));
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { collection, doc, setDoc, updateDoc, getDocs, query, orderBy, deleteDoc } from 'firebase/firestore';
+import { collection, doc, setDoc, updateDoc, getDocs, query, where, orderBy, deleteDoc } from 'firebase/firestore';
 import { db, auth } from '../lib/firebase';
 
 interface LeaveRequest {
@@ -66,13 +66,16 @@ export const useLeaveStore = create<LeaveState>((set, get) => ({
       const currentUser = auth.currentUser;
       if (!currentUser && !userId) return;
 
+      // Members may only list their own requests
       const leavesRef = collection(db, 'leaves');
-      const q = query(leavesRef, orderBy('createdAt', 'desc'));
+      const q = query(
+        leavesRef,
+        where('userId', '==', userId || currentUser?.uid),
+        orderBy('createdAt', 'desc')
+      );
       const querySnapshot = await getDocs(q);
       
-      const leaveRequests = querySnapshot.docs
-        .map(doc => ({ ...doc.data() } as LeaveRequest))
-        .filter(leave => leave.userId === (userId || currentUser?.uid));
+      const leaveRequests = querySnapshot.docs.map(doc => ({ ...doc.data() } as LeaveRequest));
 
       set({ leaveRequests, loading: false });
     } catch (error) {
@@ -1,6 +1,44 @@
 import { create } from 'zustand';
-import { collection, addDoc, getDocs, doc, deleteDoc, updateDoc, getDoc } from 'firebase/firestore';
+import {
+  collection,
+  collectionGroup,
+  getDocs,
+  doc,
+  updateDoc,
+  getDoc,
+  setDoc,
+  query,
+  where,
+  writeBatch,
+  deleteField,
+  runTransaction,
+  onSnapshot,
+  FirestoreError,
+  Transaction,
+  WriteBatch,
+  DocumentData,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+  Unsubscribe,
+} from 'firebase/firestore';
 import { db, auth } from '../lib/firebase';
+import { assignRecordNumber } from '../lib/counters';
+import {
+  DuplicateTaskOptions,
+  buildTaskTree,
+  collectSubtreeIds,
+  copyTaskTree,
+  findTaskById,
+  getMoveTaskError,
+  getMovedTaskOrders,
+  getTaskPathIds
+} from '../lib/taskTree';
+import { wouldCreateCycle } from '../lib/schedule';
+import { getTimesheetId, getWeekStart } from '../lib/timesheets';
+import { getAutoStopTime, resolveStopTime } from '../lib/timers';
+import { useTimerSettingsStore } from './timerSettingsStore';
+import { BoardColumn, getDoneColumnId, getMoveError, validateBoardColumns } from '../lib/board';
+import { TemplateTask, instantiateTemplate } from '../lib/templates';
 
 interface User {
   id: string;
@@ -8,13 +46,29 @@ interface User {
   email: string;
 }
 
-interface TimeEntry {
+export interface TimeEntry {
   id: string;
   userId: string;
   userName: string;
   startTime: string;
   endTime?: string;
   duration?: number; // in minutes
+  // Entries typed in on the timesheet rather than timed; absent means timer
+  source?: 'timer' | 'manual';
+  // Set while the week's timesheet is waiting for approval or approved
+  submitted?: boolean;
+  // Set once the week's timesheet is approved
+  locked?: boolean;
+  // Closed for the user rather than by them; cleared once they check it
+  reviewFlag?: TimeEntryReviewFlag;
+}
+
+export type TimeEntryReviewFlag = 'end-of-day' | 'idle';
+
+// Finish-to-start link to a predecessor task anywhere in the same project.
+export interface TaskDependency {
+  taskId: string;
+  lagDays?: number;
 }
 
 export interface Task {
@@ -24,19 +78,64 @@ export interface Task {
   hours?: number;
   costPerHour?: number;
   assignedTo?: User[];
+  startDate?: string;
   deadline?: string;
   completed: boolean;
+  // Board column the task is in (see lib/board); completion is still `completed`
+  status?: string | null;
   children: Task[];
+  parentId?: string | null;
+  order?: number;
   projectId?: string;
   path?: string;
+  // Loaded from the task's timeEntries subcollection (see timeEntryRef)
   timeEntries?: TimeEntry[];
+  dependencies?: TaskDependency[];
+}
+
+// A stage of the contract billed as a share of its value, e.g. 30% at
+// concept design. taskIds are the top-level tasks the stage covers.
+export interface PaymentMilestone {
+  id: string;
+  name: string;
+  percentage: number;
+  taskIds: string[];
+}
+
+// Customer requirements carried over from the enquiry, ticked off as the
+// project meets them.
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+// The priced deliverables as agreed when the enquiry was won, kept
+// unchanged so actual cost can be compared against them.
+export interface BaselineLine {
+  id: string;
+  name: string;
+  description: string;
+  hours: number;
+  costPerHour: number;
+  total: number;
+}
+
+export interface ProjectBaseline {
+  lines: BaselineLine[];
+  total: number;
+  capturedAt: string;
 }
 
 export interface Project {
   id?: string;
+  // Project number, e.g. STI-P-2026-0042 (see lib/numbering)
   __id: string;
+  // Random id used before projects were numbered
+  legacyId?: string | null;
   name: string;
   description: string;
+  customerId?: string | null;
   customer: {
     name: string;
     phone: string;
@@ -48,55 +147,341 @@ export interface Project {
   type: 'project';
   project_due_date?: string | null;
   project_start_date?: string | null;
+  milestones?: PaymentMilestone[];
+  checklist?: ChecklistItem[];
+  baseline?: ProjectBaseline | null;
+  sourceEnquiryId?: string | null;
+  // Task board columns; the defaults are used when not set
+  boardColumns?: BoardColumn[] | null;
 }
 
-interface PathItem {
+export interface PathItem {
   id: string;
 }
 
+// Firestore rejects batches with more than 500 writes.
+const BATCH_LIMIT = 450;
+
+const tasksCollection = (projectId: string) =>
+  collection(db, 'projects', projectId, 'tasks');
+
+const taskDocRef = (projectId: string, taskId: string) =>
+  doc(db, 'projects', projectId, 'tasks', taskId);
+
+// Time entries are documents in projects/{projectId}/tasks/{taskId}/timeEntries,
+// so the rules can hold each user to their own time and keep approved entries
+// locked. Each carries its project and task ids for collection group queries.
+const timeEntriesCollection = (projectId: string, taskId: string) =>
+  collection(db, 'projects', projectId, 'tasks', taskId, 'timeEntries');
+
+export const timeEntryRef = (projectId: string, taskId: string, entryId: string) =>
+  doc(timeEntriesCollection(projectId, taskId), entryId);
+
+export const toTimeEntryDoc = (entry: TimeEntry, projectId: string, taskId: string) => ({
+  ...entry,
+  submitted: Boolean(entry.submitted),
+  locked: Boolean(entry.locked),
+  projectId,
+  taskId
+});
+
+export const fromTimeEntryDoc = (id: string, data: DocumentData): TimeEntry => {
+  const entry = { ...data, id } as TimeEntry & { projectId?: string; taskId?: string };
+  delete entry.projectId;
+  delete entry.taskId;
+  return entry;
+};
+
+export const projectTimeEntriesQuery = (projectId: string) =>
+  query(collectionGroup(db, 'timeEntries'), where('projectId', '==', projectId));
+
+// Entry documents grouped by task id, oldest first
+export const groupTimeEntries = (entryDocs: QueryDocumentSnapshot[]) => {
+  const byTask = new Map<string, TimeEntry[]>();
+  entryDocs.forEach(entryDoc => {
+    const taskId = entryDoc.data().taskId as string;
+    byTask.set(taskId, [...(byTask.get(taskId) || []), fromTimeEntryDoc(entryDoc.id, entryDoc.data())]);
+  });
+  byTask.forEach(entries => entries.sort((a, b) => a.startTime.localeCompare(b.startTime)));
+  return byTask;
+};
+
+// Entries still stored on a task from before the subcollection are shown
+// until an admin runs the migration, but can no longer be changed
+export const withTimeEntries = (tasks: Task[], entriesByTask: Map<string, TimeEntry[]>) =>
+  tasks.map(task => {
+    const entries = entriesByTask.get(task.id) || [];
+    const legacy = (task.timeEntries || []).filter(entry => !entries.some(item => item.id === entry.id));
+    return { ...task, timeEntries: [...legacy, ...entries] };
+  });
+
+const commitInChunks = async (writes: ((batch: WriteBatch) => void)[]) => {
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_LIMIT).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
+export interface ActiveTimer {
+  taskId: string | null;
+  projectId: string | null;
+  startTime: string | null;
+  // Saved when the timer starts so it can be shown on any page
+  taskName?: string | null;
+  projectName?: string | null;
+  taskPath?: string | null;
+}
+
+export const NO_ACTIVE_TIMER: ActiveTimer = { taskId: null, projectId: null, startTime: null };
+
+// Each user's running timer is also kept in activeTimers/{userId}, so a
+// second timer is refused inside the starting transaction, the running one
+// is found without searching every task and every open tab can follow it.
+export const activeTimerRef = (userId: string) => doc(db, 'activeTimers', userId);
+
+const activeTimerFromDoc = (data: DocumentData): ActiveTimer => ({
+  taskId: data.taskId ?? null,
+  projectId: data.projectId ?? null,
+  startTime: data.startTime ?? null,
+  taskName: data.taskName ?? null,
+  projectName: data.projectName ?? null,
+  taskPath: data.taskPath ?? null
+});
+
+export interface StopTimerOptions {
+  // Stop as of an earlier time, e.g. when the user left the tab
+  endTime?: string;
+  reviewFlag?: TimeEntryReviewFlag;
+}
+
+export class ActiveTimerError extends Error {
+  constructor(message = 'Another timer is already running. Stop it before starting a new one.') {
+    super(message);
+    this.name = 'ActiveTimerError';
+  }
+}
+
+// Thrown when a task mutation keeps colliding with concurrent writes and the
+// transaction gives up retrying, so the page can ask the user to reload.
+export class TaskConflictError extends Error {
+  constructor(message = 'This task was changed by someone else at the same time. Reload and try again.') {
+    super(message);
+    this.name = 'TaskConflictError';
+  }
+}
+
+// Firestore retries a transaction several times when the documents it read
+// change underneath it; once it gives up the write is reported as a conflict.
+const runTaskTransaction = async <T>(updateFunction: (transaction: Transaction) => Promise<T>) => {
+  try {
+    return await runTransaction(db, updateFunction);
+  } catch (error) {
+    if (
+      error instanceof FirestoreError &&
+      (error.code === 'aborted' || error.code === 'failed-precondition')
+    ) {
+      throw new TaskConflictError();
+    }
+    throw error;
+  }
+};
+
+const cleanAssignees = (assignedTo: User[] = []) =>
+  assignedTo.map(user => ({
+    id: user.id,
+    fullName: user.fullName,
+    email: user.email
+  }));
+
+// Shape of a document in projects/{projectId}/tasks. `children` and
+// `timeEntries` are never stored; the tree is rebuilt from parentId/order
+// and the entries are read from their own documents.
+// `assigneeIds` mirrors assignedTo so tasks can be queried per user.
+export const toTaskDoc = (task: Partial<Task>, parentId: string | null, order: number) => ({
+  name: task.name || '',
+  description: task.description || '',
+  hours: task.hours || 0,
+  costPerHour: task.costPerHour || 0,
+  assignedTo: cleanAssignees(task.assignedTo),
+  assigneeIds: (task.assignedTo || []).map(user => user.id),
+  startDate: task.startDate || null,
+  deadline: task.deadline || null,
+  completed: Boolean(task.completed),
+  status: task.status || null,
+  parentId,
+  order,
+  dependencies: (task.dependencies || []).map(dependency => ({
+    taskId: dependency.taskId,
+    lagDays: dependency.lagDays || 0
+  }))
+});
+
+export const fromTaskDoc = (id: string, data: Record<string, unknown>, projectId: string): Task => ({
+  ...(data as Omit<Task, 'id' | 'children'>),
+  id,
+  projectId,
+  startDate: (data.startDate as string | null) || undefined,
+  deadline: (data.deadline as string | null) || undefined,
+  children: []
+});
+
+const fetchProjectTasks = async (projectId: string): Promise<Task[]> => {
+  const querySnapshot = await getDocs(tasksCollection(projectId));
+  return querySnapshot.docs.map(taskDoc => fromTaskDoc(taskDoc.id, taskDoc.data(), projectId));
+};
+
+const fetchProjectTimeEntries = async (projectId: string) =>
+  groupTimeEntries((await getDocs(projectTimeEntriesQuery(projectId))).docs);
+
+// Starting and stopping a timer are split into what is fetched up front and
+// what is read and written in the transaction, so switchTimer can do both at once
+interface TimerStart {
+  projectId: string;
+  taskId: string;
+  entry: TimeEntry;
+  projectName: string | null;
+  taskPath: string;
+}
+
+const prepareTimerStart = async (
+  projectId: string,
+  taskId: string,
+  userId: string,
+  userName: string
+): Promise<TimerStart> => {
+  const [projectSnap, projectTasks] = await Promise.all([
+    getDoc(doc(db, 'projects', projectId)),
+    fetchProjectTasks(projectId)
+  ]);
+  return {
+    projectId,
+    taskId,
+    entry: { id: crypto.randomUUID(), userId, userName, startTime: new Date().toISOString() },
+    projectName: projectSnap.data()?.name || null,
+    taskPath: getTaskPathIds(projectTasks, taskId).join('/') || taskId
+  };
+};
+
+// Checks the task can take time and returns the timer to save
+const readTimerStart = async (transaction: Transaction, start: TimerStart): Promise<ActiveTimer> => {
+  const taskSnap = await transaction.get(taskDocRef(start.projectId, start.taskId));
+  if (!taskSnap.exists()) throw new Error('Task not found');
+  // Time can't be added to a week already sent for approval
+  const timesheetRef = doc(
+    db,
+    'timesheets',
+    getTimesheetId(start.entry.userId, getWeekStart(new Date(start.entry.startTime)))
+  );
+  const timesheetStatus = (await transaction.get(timesheetRef)).data()?.status;
+  if (timesheetStatus === 'submitted' || timesheetStatus === 'approved') {
+    throw new Error('This week\'s timesheet has been submitted');
+  }
+  return {
+    taskId: start.taskId,
+    projectId: start.projectId,
+    startTime: start.entry.startTime,
+    taskName: taskSnap.data().name || null,
+    projectName: start.projectName,
+    taskPath: start.taskPath
+  };
+};
+
+const writeTimerStart = (transaction: Transaction, start: TimerStart, started: ActiveTimer) => {
+  transaction.set(
+    timeEntryRef(start.projectId, start.taskId, start.entry.id),
+    toTimeEntryDoc(start.entry, start.projectId, start.taskId)
+  );
+  transaction.set(activeTimerRef(start.entry.userId), started);
+};
+
+// Transactions can't query, so the open entries are found first and read
+// again inside the transaction
+const findOpenEntryRefs = async (projectId: string, taskId: string, userId: string) => {
+  const ownEntries = await getDocs(
+    query(timeEntriesCollection(projectId, taskId), where('userId', '==', userId))
+  );
+  return ownEntries.docs.filter(entryDoc => !entryDoc.data().endTime).map(entryDoc => entryDoc.ref);
+};
+
+// A deleted task takes its entries with it; only the timer is left.
+// A timer left running past the end of the day only counts until then.
+const closeOpenEntries = (
+  transaction: Transaction,
+  openSnaps: DocumentSnapshot[],
+  endOfDay: string,
+  requested: Date,
+  requestedFlag?: TimeEntryReviewFlag
+) => {
+  openSnaps.forEach(entrySnap => {
+    const data = entrySnap.data();
+    if (!data || data.endTime) return;
+    const entry = fromTimeEntryDoc(entrySnap.id, data);
+    const { endTime, autoStopped } = resolveStopTime(entry.startTime, endOfDay, requested);
+    const duration = Math.round(
+      (new Date(endTime).getTime() - new Date(entry.startTime).getTime()) / 60000
+    );
+    const reviewFlag = autoStopped ? 'end-of-day' : requestedFlag;
+    transaction.update(entrySnap.ref, { endTime, duration, ...(reviewFlag ? { reviewFlag } : {}) });
+  });
+};
+
 interface ProjectState {
   projects: Project[];
+  currentProject: Project | null;
   userTasks: Task[];
   loading: boolean;
   error: string | null;
   currentPath: PathItem[];
-  activeTimer: {
-    taskId: string | null;
-    projectId: string | null;
-    startTime: string | null;
-  };
+  activeTimer: ActiveTimer;
   setCurrentPath: (path: PathItem[]) => void;
   fetchProjects: () => Promise<void>;
   fetchProject: (id: string) => Promise<Project | null>;
-  createProject: (project: Omit<Project, 'id' | '__id' | 'createdAt' | 'tasks' | 'type' | 'project_due_date'>) => Promise<void>;
-  updateProject: (id: string, project: Omit<Project, 'id' | '__id' | 'createdAt' | 'type'>) => Promise<void>;
+  subscribeToProjects: () => Unsubscribe;
+  subscribeToProject: (id: string, onNotFound?: () => void) => Unsubscribe;
+  createProject: (
+    project: Omit<Project, 'id' | '__id' | 'createdAt' | 'tasks' | 'type' | 'project_due_date'>,
+    templateTasks?: TemplateTask[]
+  ) => Promise<void>;
+  updateProject: (id: string, project: Omit<Project, 'id' | '__id' | 'createdAt' | 'type' | 'tasks'>) => Promise<void>;
   deleteProject: (id: string) => Promise<void>;
+  duplicateProject: (id: string, name: string, options: DuplicateTaskOptions) => Promise<string>;
   addTask: (projectId: string, path: PathItem[], task: Omit<Task, 'id' | 'children' | 'completed'>) => Promise<void>;
   updateTask: (projectId: string, path: PathItem[], taskId: string, data: Partial<Task>) => Promise<void>;
   deleteTask: (projectId: string, path: PathItem[], taskId: string) => Promise<void>;
+  moveTask: (projectId: string, taskId: string, newParentPath: PathItem[], index: number) => Promise<void>;
+  duplicateTask: (projectId: string, taskId: string, name: string, options: DuplicateTaskOptions) => Promise<void>;
+  addTaskDependency: (projectId: string, taskId: string, predecessorId: string, lagDays: number) => Promise<void>;
+  removeTaskDependency: (projectId: string, taskId: string, predecessorId: string) => Promise<void>;
   getTaskByPath: (projectId: string, path: PathItem[]) => Promise<Task | null>;
   toggleTaskCompletion: (projectId: string, path: PathItem[]) => Promise<void>;
+  moveTaskOnBoard: (projectId: string, taskId: string, columnId: string, columns: BoardColumn[]) => Promise<void>;
+  updateBoardColumns: (projectId: string, columns: BoardColumn[]) => Promise<void>;
   updateProjectDueDate: (projectId: string, dueDate: string | null) => Promise<void>;
   updateProjectStartDate: (projectId: string, startDate: string | null) => Promise<void>;
+  updateProjectMilestones: (projectId: string, milestones: PaymentMilestone[]) => Promise<void>;
+  updateProjectChecklist: (projectId: string, checklist: ChecklistItem[]) => Promise<void>;
   fetchUserTasks: () => Promise<void>;
   startTimer: (projectId: string, taskId: string) => Promise<void>;
-  stopTimer: (projectId: string, taskId: string) => Promise<void>;
+  stopTimer: (projectId: string, taskId: string, options?: StopTimerOptions) => Promise<void>;
+  switchTimer: (projectId: string, taskId: string) => Promise<void>;
+  subscribeToActiveTimer: () => Unsubscribe;
   getTaskTimeEntries: (projectId: string, taskId: string) => Promise<TimeEntry[]>;
   checkActiveTimer: () => Promise<void>;
   updateProjectStatus: (status: 'completed' | 'ongoing' | 'not-started', projectId: string) => Promise<void>;
+  migrateProjectTasks: (projectId: string) => Promise<boolean>;
+  migrateTimeEntries: (projectId: string) => Promise<boolean>;
+  migrateAllProjectTasks: () => Promise<number>;
 }
 
 export const useProjectStore = create<ProjectState>((set, get) => ({
   projects: [],
+  currentProject: null,
   userTasks: [],
   loading: false,
   error: null,
   currentPath: [],
-  activeTimer: {
-    taskId: null,
-    projectId: null,
-    startTime: null,
-  },
+  activeTimer: NO_ACTIVE_TIMER,
 
   setCurrentPath: (path) => set({ currentPath: path }),
 
@@ -104,10 +489,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     try {
       set({ loading: true, error: null });
       const querySnapshot = await getDocs(collection(db, 'projects'));
+      // The list view does not need task trees; fetchProject loads them.
       const projects = querySnapshot.docs.map(doc => ({
         ...doc.data(),
         id: doc.id,
-        tasks: doc.data().tasks || []
+        tasks: [] as Task[]
       })) as Project[];
       set({ projects, loading: false });
     } catch (error) {
@@ -122,10 +508,18 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const docRef = doc(db, 'projects', id);
       const docSnap = await getDoc(docRef);
       if (docSnap.exists()) {
+        if (Array.isArray(docSnap.data().tasks)) {
+          await get().migrateProjectTasks(id);
+        }
+
+        const [tasks, timeEntries] = await Promise.all([
+          fetchProjectTasks(id),
+          fetchProjectTimeEntries(id)
+        ]);
         const project = {
           ...docSnap.data(),
           id: docSnap.id,
-          tasks: docSnap.data().tasks || []
+          tasks: buildTaskTree(withTimeEntries(tasks, timeEntries))
         } as Project;
         set({ loading: false });
         return project;
@@ -139,20 +533,116 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
-  createProject: async (projectData) => {
+  subscribeToProjects: () => {
+    set({ loading: true, error: null });
+    return onSnapshot(
+      collection(db, 'projects'),
+      (querySnapshot) => {
+        const projects = querySnapshot.docs.map(doc => ({
+          ...doc.data(),
+          id: doc.id,
+          tasks: [] as Task[]
+        })) as Project[];
+        set({ projects, loading: false });
+      },
+      (error) => {
+        console.error('Error subscribing to projects:', error);
+        set({ error: error.message, loading: false });
+      }
+    );
+  },
+
+  // Keeps `currentProject` in sync with the project document, its tasks and
+  // their time entries. The project is published once every listener has fired.
+  subscribeToProject: (id, onNotFound) => {
+    let projectData: DocumentData | null = null;
+    let tasks: Task[] | null = null;
+    let timeEntries: Map<string, TimeEntry[]> | null = null;
+
+    const publish = () => {
+      if (!projectData || !tasks || !timeEntries) return;
+      set({
+        currentProject: {
+          ...projectData,
+          id,
+          tasks: buildTaskTree(withTimeEntries(tasks, timeEntries))
+        } as Project
+      });
+    };
+
+    const handleError = (error: Error) => {
+      console.error('Error subscribing to project:', error);
+      set({ error: error.message });
+    };
+
+    const unsubscribeProject = onSnapshot(
+      doc(db, 'projects', id),
+      (docSnap) => {
+        if (!docSnap.exists()) {
+          set({ currentProject: null });
+          onNotFound?.();
+          return;
+        }
+        if (Array.isArray(docSnap.data().tasks)) {
+          get().migrateProjectTasks(id).catch(handleError);
+        }
+        projectData = docSnap.data();
+        publish();
+      },
+      handleError
+    );
+
+    const unsubscribeTasks = onSnapshot(
+      tasksCollection(id),
+      (querySnapshot) => {
+        tasks = querySnapshot.docs.map(taskDoc => fromTaskDoc(taskDoc.id, taskDoc.data(), id));
+        publish();
+      },
+      handleError
+    );
+
+    const unsubscribeTimeEntries = onSnapshot(
+      projectTimeEntriesQuery(id),
+      (querySnapshot) => {
+        timeEntries = groupTimeEntries(querySnapshot.docs);
+        publish();
+      },
+      handleError
+    );
+
+    return () => {
+      unsubscribeProject();
+      unsubscribeTasks();
+      unsubscribeTimeEntries();
+      set({ currentProject: null });
+    };
+  },
+
+  // Tasks from a template are written with the project, their dates offset
+  // from its start date
+  createProject: async (projectData, templateTasks = []) => {
     try {
       set({ loading: true, error: null });
-      const internalId = 'p-' + Math.random().toString().slice(2, 8);
-      const newProject = {
-        ...projectData,
-        __id: internalId,
-        createdAt: new Date().toISOString(),
-        type: 'project' as const,
-        tasks: [],
-        project_due_date: null
-      };
-      const docRef = await addDoc(collection(db, 'projects'), newProject);
-      const projectWithId = { ...newProject, id: docRef.id };
+      const docRef = doc(collection(db, 'projects'));
+      const newProject = await runTransaction(db, async transaction => {
+        const data = {
+          ...projectData,
+          __id: await assignRecordNumber(transaction, 'project'),
+          createdAt: new Date().toISOString(),
+          type: 'project' as const,
+          project_due_date: null
+        };
+        transaction.set(docRef, data);
+        instantiateTemplate(
+          templateTasks,
+          projectData.project_start_date || null,
+          () => doc(tasksCollection(docRef.id)).id
+        ).forEach(({ id, parentId, order, task }) => {
+          transaction.set(taskDocRef(docRef.id, id), toTaskDoc(task, parentId, order));
+        });
+        return data;
+      });
+      const projectWithId = { ...newProject, id: docRef.id, tasks: [] };
       const projects = [...get().projects, projectWithId];
       set({ projects, loading: false });
     } catch (error) {
@@ -166,35 +656,16 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     try {
       set({ loading: true, error: null });
       const docRef = doc(db, 'projects', id);
-      
-      const cleanTasks = (tasks: Task[]): any[] => {
-        return tasks.map(task => ({
-          id: task.id,
-          name: task.name || '',
-          description: task.description || '',
-          hours: task.hours || 0,
-          costPerHour: task.costPerHour || 0,
-          assignedTo: task.assignedTo ? task.assignedTo.map(user => ({
-            id: user.id,
-            fullName: user.fullName,
-            email: user.email
-          })) : [],
-          deadline: task.deadline || null,
-          completed: Boolean(task.completed),
-          children: task.children ? cleanTasks(task.children) : [],
-          timeEntries: task.timeEntries || []
-        }));
-      };
 
       const cleanProjectData = {
         name: projectData.name || '',
         description: projectData.description || '',
+        customerId: projectData.customerId || null,
         customer: {
           name: projectData.customer?.name || '',
           phone: projectData.customer?.phone || '',
           address: projectData.customer?.address || ''
         },
-        tasks: cleanTasks(projectData.tasks || []),
         type: 'project' as const,
         project_due_date: projectData.project_due_date || null
       };
@@ -222,7 +693,18 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   deleteProject: async (id) => {
     try {
       set({ loading: true, error: null });
-      await deleteDoc(doc(db, 'projects', id));
+      const [tasksSnapshot, entriesSnapshot] = await Promise.all([
+        getDocs(tasksCollection(id)),
+        getDocs(projectTimeEntriesQuery(id))
+      ]);
+      if (entriesSnapshot.docs.some(entryDoc => entryDoc.data().submitted || entryDoc.data().locked)) {
+        throw new Error('Projects with submitted or approved time can\'t be deleted');
+      }
+      await commitInChunks([
+        ...entriesSnapshot.docs.map(entryDoc => (batch: WriteBatch) => batch.delete(entryDoc.ref)),
+        ...tasksSnapshot.docs.map(taskDoc => (batch: WriteBatch) => batch.delete(taskDoc.ref)),
+        (batch: WriteBatch) => batch.delete(doc(db, 'projects', id))
+      ]);
       const updatedProjects = get().projects.filter(project => project.id !== id);
       set({ projects: updatedProjects, loading: false });
     } catch (error) {
@@ -232,6 +714,58 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
+  // A new numbered project with a copy of the task tree. Invoices, the
+  // baseline and the enquiry link belong to the original and are left out.
+  duplicateProject: async (id, name, options) => {
+    try {
+      set({ loading: true, error: null });
+      if (!name.trim()) throw new Error('Project name is required');
+      const sourceSnap = await getDoc(doc(db, 'projects', id));
+      if (!sourceSnap.exists()) throw new Error('Project not found');
+      const source = sourceSnap.data() as Project;
+      const tasks = buildTaskTree(await fetchProjectTasks(id));
+
+      const docRef = doc(collection(db, 'projects'));
+      const copies = copyTaskTree(tasks, options, () => doc(tasksCollection(docRef.id)).id);
+      const copyIds = new Map(copies.map(copy => [copy.sourceId, copy.id]));
+
+      const newProject = await runTransaction(db, async transaction => {
+        const data = {
+          name: name.trim(),
+          description: source.description || '',
+          customerId: source.customerId || null,
+          customer: source.customer,
+          status: 'not-started' as const,
+          project_start_date: options.dates ? source.project_start_date || null : null,
+          project_due_date: options.dates ? source.project_due_date || null : null,
+          milestones: (source.milestones || []).map(milestone => ({
+            ...milestone,
+            taskIds: milestone.taskIds.filter(taskId => copyIds.has(taskId)).map(taskId => copyIds.get(taskId)!)
+          })),
+          checklist: (source.checklist || []).map(item => ({
+            ...item,
+            done: options.completion ? item.done : false
+          })),
+          boardColumns: source.boardColumns || null,
+          __id: await assignRecordNumber(transaction, 'project'),
+          createdAt: new Date().toISOString(),
+          type: 'project' as const
+        };
+        transaction.set(docRef, data);
+        copies.forEach(({ id: taskId, parentId, order, task }) => {
+          transaction.set(taskDocRef(docRef.id, taskId), toTaskDoc(task, parentId, order));
+        });
+        return data;
+      });
+      set({ projects: [...get().projects, { ...newProject, id: docRef.id, tasks: [] }], loading: false });
+      return docRef.id;
+    } catch (error) {
+      console.error('Error duplicating project:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
   getTaskByPath: async (projectId, path) => {
     try {
       const project = await get().fetchProject(projectId);
@@ -257,40 +791,18 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   addTask: async (projectId, path, taskData) => {
     try {
       set({ loading: true, error: null });
-      const project = await get().fetchProject(projectId);
-      if (!project) throw new Error('Project not found');
-
-      const newTask: Task = {
-        ...taskData,
-        id: crypto.randomUUID(),
-        name: taskData.name || '',
-        description: taskData.description || '',
-        completed: false,
-        children: [],
-        timeEntries: []
-      };
-
-      const updateNestedTasks = (tasks: Task[], currentPath: PathItem[]): Task[] => {
-        if (currentPath.length === 0) {
-          return [...tasks, newTask];
-        }
-
-        return tasks.map(task => {
-          if (task.id === currentPath[0].id) {
-            return {
-              ...task,
-              children: updateNestedTasks(task.children || [], currentPath.slice(1))
-            };
-          }
-          return task;
-        });
-      };
+      const parentId = path.length > 0 ? path[path.length - 1].id : null;
 
-      const updatedTasks = path.length === 0 
-        ? [...project.tasks, newTask]
-        : updateNestedTasks(project.tasks, path);
+      const siblingsSnapshot = await getDocs(
+        query(tasksCollection(projectId), where('parentId', '==', parentId))
+      );
+      const order = siblingsSnapshot.docs.reduce(
+        (max, sibling) => Math.max(max, (sibling.data().order as number) ?? 0),
+        -1
+      ) + 1;
 
-      await get().updateProject(projectId, { ...project, tasks: updatedTasks });
+      const newTaskRef = doc(tasksCollection(projectId));
+      await setDoc(newTaskRef, toTaskDoc({ ...taskData, completed: false }, parentId, order));
       set({ loading: false });
     } catch (error) {
       console.error('Error adding task:', error);
@@ -299,36 +811,24 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
-  updateTask: async (projectId, path, taskId, data) => {
+  updateTask: async (projectId, _path, taskId, data) => {
     try {
       set({ loading: true, error: null });
-      const project = await get().fetchProject(projectId);
-      if (!project) throw new Error('Project not found');
-
-      const updateNestedTask = (tasks: Task[]): Task[] => {
-        return tasks.map(task => {
-          if (task.id === taskId) {
-            return {
-              ...task,
-              ...data,
-              name: data.name || task.name,
-              description: data.description || task.description,
-              children: task.children || [],
-              timeEntries: task.timeEntries || []
-            };
-          }
-          if (task.children && task.children.length > 0) {
-            return {
-              ...task,
-              children: updateNestedTask(task.children)
-            };
-          }
-          return task;
-        });
-      };
+      const taskRef = taskDocRef(projectId, taskId);
+
+      await runTaskTransaction(async transaction => {
+        const taskSnap = await transaction.get(taskRef);
+        if (!taskSnap.exists()) throw new Error('Task not found');
 
-      const updatedTasks = updateNestedTask(project.tasks);
-      await get().updateProject(projectId, { ...project, tasks: updatedTasks });
+        const current = fromTaskDoc(taskSnap.id, taskSnap.data(), projectId);
+        const { parentId, order } = taskSnap.data();
+        transaction.update(taskRef, toTaskDoc({
+          ...current,
+          ...data,
+          name: data.name || current.name,
+          description: data.description ?? current.description
+        }, parentId ?? null, order ?? 0));
+      });
       set({ loading: false });
     } catch (error) {
       console.error('Error updating task:', error);
@@ -337,40 +837,202 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
-  deleteTask: async (projectId, path, taskId) => {
+  deleteTask: async (projectId, _path, taskId) => {
     try {
       set({ loading: true, error: null });
-      const project = await get().fetchProject(projectId);
-      if (!project) throw new Error('Project not found');
+      const [tasks, entriesSnapshot] = await Promise.all([
+        fetchProjectTasks(projectId),
+        getDocs(projectTimeEntriesQuery(projectId))
+      ]);
+      const idsToDelete = collectSubtreeIds(tasks, taskId);
+      const entryRefs = entriesSnapshot.docs
+        .filter(entryDoc => idsToDelete.includes(entryDoc.data().taskId))
+        .map(entryDoc => entryDoc.ref);
+      const dependentIds = tasks
+        .filter(task => !idsToDelete.includes(task.id))
+        .filter(task => (task.dependencies || []).some(dependency => idsToDelete.includes(dependency.taskId)))
+        .map(task => task.id);
 
-      const deleteNestedTask = (tasks: Task[]): Task[] => {
-        return tasks.filter(task => {
-          if (task.id === taskId) return false;
-          if (task.children && task.children.length > 0) {
-            task.children = deleteNestedTask(task.children);
+      // Reading every task in the subtree makes the delete fail instead of
+      // racing with someone who is editing one of them. Tasks that depend on
+      // a deleted task lose that link in the same transaction, and the time
+      // logged on the subtree goes with it unless some of it is approved.
+      await runTaskTransaction(async transaction => {
+        const refs = idsToDelete.map(id => taskDocRef(projectId, id));
+        const dependentRefs = dependentIds.map(id => taskDocRef(projectId, id));
+        const snaps = await Promise.all(refs.map(ref => transaction.get(ref)));
+        const dependentSnaps = await Promise.all(dependentRefs.map(ref => transaction.get(ref)));
+        const entrySnaps = await Promise.all(entryRefs.map(ref => transaction.get(ref)));
+        if (!snaps[0].exists()) throw new Error('Task not found');
+        if (entrySnaps.some(snap => snap.data()?.submitted || snap.data()?.locked)) {
+          throw new Error('Tasks with submitted or approved time can\'t be deleted');
+        }
+        refs.forEach((ref, index) => {
+          if (snaps[index].exists()) transaction.delete(ref);
+        });
+        entrySnaps.forEach(snap => {
+          if (snap.exists()) transaction.delete(snap.ref);
+        });
+        dependentSnaps.forEach((snap, index) => {
+          if (!snap.exists()) return;
+          const dependencies = (snap.data().dependencies || []) as TaskDependency[];
+          transaction.update(dependentRefs[index], {
+            dependencies: dependencies.filter(dependency => !idsToDelete.includes(dependency.taskId))
+          });
+        });
+      });
+      set({ loading: false });
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  // Only parentId and order change, so the task keeps its time entries,
+  // subtasks and everything else. Its new siblings are renumbered around it.
+  moveTask: async (projectId, taskId, newParentPath, index) => {
+    try {
+      set({ loading: true, error: null });
+      const newParentId = newParentPath[newParentPath.length - 1]?.id ?? null;
+      const tasks = await fetchProjectTasks(projectId);
+      const moveError = getMoveTaskError(tasks, taskId, newParentId);
+      if (moveError) throw new Error(moveError);
+      const orders = getMovedTaskOrders(tasks, taskId, newParentId, index);
+
+      // Reading the new parent and siblings makes the move fail instead of
+      // racing with someone moving or deleting one of them
+      await runTaskTransaction(async transaction => {
+        const refs = orders.map(({ id }) => taskDocRef(projectId, id));
+        const snaps = await Promise.all(refs.map(ref => transaction.get(ref)));
+        const parentSnap = newParentId ? await transaction.get(taskDocRef(projectId, newParentId)) : null;
+        if (snaps.some(snap => !snap.exists()) || (parentSnap && !parentSnap.exists())) {
+          throw new Error('Task not found');
+        }
+
+        orders.forEach(({ id, order }, position) => {
+          if (id === taskId) {
+            transaction.update(refs[position], { parentId: newParentId, order });
+          } else if (snaps[position].data()!.order !== order) {
+            transaction.update(refs[position], { order });
           }
-          return true;
         });
-      };
+      });
+      set({ loading: false });
+    } catch (error) {
+      console.error('Error moving task:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  // The copy and its subtasks go just after the original, under the same
+  // parent; the siblings after it move down one place
+  duplicateTask: async (projectId, taskId, name, options) => {
+    try {
+      set({ loading: true, error: null });
+      if (!name.trim()) throw new Error('Task name is required');
+      const tasks = await fetchProjectTasks(projectId);
+      const original = findTaskById(buildTaskTree(tasks), taskId);
+      if (!original) throw new Error('Task not found');
+      const parentId = original.parentId ?? null;
+
+      const copies = copyTaskTree(
+        [{ ...original, name: name.trim() }],
+        options,
+        () => doc(tasksCollection(projectId)).id,
+        parentId
+      );
+      const copyId = copies[0].id;
+      const index = tasks
+        .filter(task => (task.parentId ?? null) === parentId)
+        .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+        .findIndex(task => task.id === taskId) + 1;
+      const orders = getMovedTaskOrders(tasks, copyId, parentId, index);
 
-      const updatedTasks = deleteNestedTask(project.tasks);
-      await get().updateProject(projectId, { ...project, tasks: updatedTasks });
+      // Reading the siblings makes the copy fail instead of racing with
+      // someone moving or deleting one of them
+      await runTaskTransaction(async transaction => {
+        const siblingOrders = orders.filter(({ id }) => id !== copyId);
+        const refs = siblingOrders.map(({ id }) => taskDocRef(projectId, id));
+        const snaps = await Promise.all(refs.map(ref => transaction.get(ref)));
+        if (snaps.some(snap => !snap.exists())) throw new Error('Task not found');
+
+        copies.forEach(({ id, parentId: copyParentId, order, task }) => {
+          const copyOrder = id === copyId ? orders.find(item => item.id === copyId)!.order : order;
+          transaction.set(taskDocRef(projectId, id), toTaskDoc(task, copyParentId, copyOrder));
+        });
+        siblingOrders.forEach(({ order }, position) => {
+          if (snaps[position].data()!.order !== order) transaction.update(refs[position], { order });
+        });
+      });
       set({ loading: false });
     } catch (error) {
-      console.error('Error deleting task:', error);
+      console.error('Error duplicating task:', error);
       set({ error: (error as Error).message, loading: false });
       throw error;
     }
   },
 
-  toggleTaskCompletion: async (projectId, path) => {
+  addTaskDependency: async (projectId, taskId, predecessorId, lagDays) => {
+    try {
+      // The cycle check needs every link in the project, not just this task's.
+      const tasks = await fetchProjectTasks(projectId);
+      const taskRef = taskDocRef(projectId, taskId);
+
+      await runTaskTransaction(async transaction => {
+        const taskSnap = await transaction.get(taskRef);
+        const predecessorSnap = await transaction.get(taskDocRef(projectId, predecessorId));
+        if (!taskSnap.exists() || !predecessorSnap.exists()) throw new Error('Task not found');
+
+        const dependencies = ((taskSnap.data().dependencies || []) as TaskDependency[])
+          .filter(dependency => dependency.taskId !== predecessorId);
+        const latestTasks = tasks.map(task =>
+          task.id === taskId ? { ...task, dependencies } : task
+        );
+        if (wouldCreateCycle(latestTasks, taskId, predecessorId)) {
+          throw new Error('This dependency would create a circular chain of tasks');
+        }
+
+        transaction.update(taskRef, {
+          dependencies: [...dependencies, { taskId: predecessorId, lagDays: lagDays || 0 }]
+        });
+      });
+    } catch (error) {
+      console.error('Error adding task dependency:', error);
+      throw error;
+    }
+  },
+
+  removeTaskDependency: async (projectId, taskId, predecessorId) => {
     try {
-      const task = await get().getTaskByPath(projectId, path);
-      if (!task) throw new Error('Task not found');
+      const taskRef = taskDocRef(projectId, taskId);
+
+      await runTaskTransaction(async transaction => {
+        const taskSnap = await transaction.get(taskRef);
+        if (!taskSnap.exists()) throw new Error('Task not found');
 
+        const dependencies = (taskSnap.data().dependencies || []) as TaskDependency[];
+        transaction.update(taskRef, {
+          dependencies: dependencies.filter(dependency => dependency.taskId !== predecessorId)
+        });
+      });
+    } catch (error) {
+      console.error('Error removing task dependency:', error);
+      throw error;
+    }
+  },
+
+  toggleTaskCompletion: async (projectId, path) => {
+    try {
       const lastPathItem = path[path.length - 1];
-      await get().updateTask(projectId, path.slice(0, -1), lastPathItem.id, {
-        completed: !task.completed
+      if (!lastPathItem) throw new Error('Task not found');
+      const taskRef = taskDocRef(projectId, lastPathItem.id);
+
+      await runTaskTransaction(async transaction => {
+        const taskSnap = await transaction.get(taskRef);
+        if (!taskSnap.exists()) throw new Error('Task not found');
+        transaction.update(taskRef, { completed: !taskSnap.data().completed });
       });
     } catch (error) {
       console.error('Error toggling task completion:', error);
@@ -378,6 +1040,56 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
+  // Moving a card into the done column completes the task and moving it out
+  // reopens it. Subtasks are read in the same transaction so a parent can't
+  // be completed while one of them is being reopened.
+  moveTaskOnBoard: async (projectId, taskId, columnId, columns) => {
+    try {
+      const childIds = (await fetchProjectTasks(projectId))
+        .filter(task => task.parentId === taskId)
+        .map(task => task.id);
+
+      await runTaskTransaction(async transaction => {
+        const taskSnap = await transaction.get(taskDocRef(projectId, taskId));
+        if (!taskSnap.exists()) throw new Error('Task not found');
+        const childSnaps = await Promise.all(childIds.map(id => transaction.get(taskDocRef(projectId, id))));
+
+        const task = {
+          ...fromTaskDoc(taskSnap.id, taskSnap.data(), projectId),
+          children: childSnaps
+            .filter(childSnap => childSnap.exists())
+            .map(childSnap => fromTaskDoc(childSnap.id, childSnap.data()!, projectId))
+        };
+        const moveError = getMoveError(task, columnId, columns);
+        if (moveError) throw new Error(moveError);
+
+        transaction.update(taskSnap.ref, {
+          status: columnId,
+          completed: columnId === getDoneColumnId(columns)
+        });
+      });
+    } catch (error) {
+      console.error('Error moving task on board:', error);
+      throw error;
+    }
+  },
+
+  updateBoardColumns: async (projectId, columns) => {
+    try {
+      set({ error: null });
+      const validationError = validateBoardColumns(columns);
+      if (validationError) throw new Error(validationError);
+
+      await updateDoc(doc(db, 'projects', projectId), {
+        boardColumns: columns.map(column => ({ id: column.id, label: column.label.trim() }))
+      });
+    } catch (error) {
+      console.error('Error updating board columns:', error);
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
   updateProjectDueDate: async (projectId, dueDate) => {
     try {
       set({ loading: true, error: null });
@@ -414,6 +1126,43 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
+  updateProjectMilestones: async (projectId, milestones) => {
+    try {
+      set({ loading: true, error: null });
+      const totalPercentage = milestones.reduce((sum, milestone) => sum + milestone.percentage, 0);
+      if (totalPercentage > 100) throw new Error('Milestones add up to more than 100%');
+
+      await updateDoc(doc(db, 'projects', projectId), {
+        milestones: milestones.map(milestone => ({
+          id: milestone.id,
+          name: milestone.name.trim(),
+          percentage: milestone.percentage,
+          taskIds: milestone.taskIds
+        }))
+      });
+      set({ loading: false });
+    } catch (error) {
+      console.error('Error updating project milestones:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  updateProjectChecklist: async (projectId, checklist) => {
+    try {
+      set({ error: null });
+      await updateDoc(doc(db, 'projects', projectId), {
+        checklist: checklist
+          .filter(item => item.text.trim())
+          .map(item => ({ id: item.id, text: item.text.trim(), done: item.done }))
+      });
+    } catch (error) {
+      console.error('Error updating project checklist:', error);
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
   fetchUserTasks: async () => {
     try {
       set({ loading: true, error: null });
@@ -424,37 +1173,28 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         return;
       }
 
-      const querySnapshot = await getDocs(collection(db, 'projects'));
-      const projects = querySnapshot.docs.map(doc => ({
-        ...doc.data(),
-        id: doc.id,
-        tasks: doc.data().tasks || []
-      })) as Project[];
+      const querySnapshot = await getDocs(
+        query(collectionGroup(db, 'tasks'), where('assigneeIds', 'array-contains', currentUser.uid))
+      );
 
-      const flattenTasks = (tasks: Task[], projectId: string, parentPath: string = ''): Task[] => {
-        return tasks.reduce((acc: Task[], task) => {
-          const currentPath = parentPath ? `${parentPath}/${task.id}` : task.id;
-          const isAssignedToUser = task.assignedTo?.some(user => user.id === currentUser.uid);
-          
-          const flatTask = isAssignedToUser ? [{
-            ...task,
-            projectId,
-            path: currentPath
-          }] : [];
-
-          return [
-            ...acc,
-            ...flatTask,
-            ...flattenTasks(task.children || [], projectId, currentPath)
-          ];
-        }, []);
-      };
+      // Task routes are addressed by the full path from the root task, so the
+      // ancestors of each assigned task are resolved from its project's tasks.
+      const projectIds = [...new Set(
+        querySnapshot.docs.map(taskDoc => taskDoc.ref.parent.parent!.id)
+      )];
+      const projectTasks = Object.fromEntries(
+        await Promise.all(
+          projectIds.map(async projectId => [projectId, await fetchProjectTasks(projectId)] as const)
+        )
+      );
 
-      const userTasks = projects.reduce((acc: Task[], project) => {
-        if (!project.id) return acc;
-        const projectTasks = flattenTasks(project.tasks, project.id);
-        return [...acc, ...projectTasks];
-      }, []);
+      const userTasks = querySnapshot.docs.map(taskDoc => {
+        const projectId = taskDoc.ref.parent.parent!.id;
+        return {
+          ...fromTaskDoc(taskDoc.id, taskDoc.data(), projectId),
+          path: getTaskPathIds(projectTasks[projectId], taskDoc.id).join('/')
+        };
+      });
 
       set({ userTasks, loading: false });
     } catch (error) {
@@ -468,123 +1208,123 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const currentUser = auth.currentUser;
       if (!currentUser) throw new Error('User not authenticated');
 
-      const project = await get().fetchProject(projectId);
-      if (!project) throw new Error('Project not found');
-
-      const updateTaskTimer = (tasks: Task[]): Task[] => {
-        return tasks.map(task => {
-          if (task.id === taskId) {
-            const timeEntry: TimeEntry = {
-              id: crypto.randomUUID(),
-              userId: currentUser.uid,
-              userName: currentUser.displayName || currentUser.email || 'Unknown User',
-              startTime: new Date().toISOString(),
-            };
-            return {
-              ...task,
-              timeEntries: [...(task.timeEntries || []), timeEntry]
-            };
-          }
-          if (task.children && task.children.length > 0) {
-            return {
-              ...task,
-              children: updateTaskTimer(task.children)
-            };
-          }
-          return task;
-        });
-      };
+      const start = await prepareTimerStart(
+        projectId,
+        taskId,
+        currentUser.uid,
+        currentUser.displayName || currentUser.email || 'Unknown User'
+      );
+      let started: ActiveTimer = NO_ACTIVE_TIMER;
 
-      const updatedTasks = updateTaskTimer(project.tasks);
-      await get().updateProject(projectId, { ...project, tasks: updatedTasks });
-      
-      set({ 
-        activeTimer: {
-          taskId,
-          projectId,
-          startTime: new Date().toISOString()
-        }
+      await runTaskTransaction(async transaction => {
+        const next = await readTimerStart(transaction, start);
+        const running = (await transaction.get(activeTimerRef(currentUser.uid))).data() as ActiveTimer | undefined;
+
+        if (running?.taskId === taskId) throw new Error('Timer is already running for this task');
+        if (running?.taskId) throw new ActiveTimerError();
+
+        started = next;
+        writeTimerStart(transaction, start, started);
       });
+      
+      set({ activeTimer: started });
     } catch (error) {
       console.error('Error starting timer:', error);
       throw error;
     }
   },
 
-  stopTimer: async (projectId: string, taskId: string) => {
+  stopTimer: async (projectId: string, taskId: string, options: StopTimerOptions = {}) => {
     try {
       const currentUser = auth.currentUser;
       if (!currentUser) throw new Error('User not authenticated');
 
-      const project = await get().fetchProject(projectId);
-      if (!project) throw new Error('Project not found');
-
-      const updateTaskTimer = (tasks: Task[]): Task[] => {
-        return tasks.map(task => {
-          if (task.id === taskId) {
-            const timeEntries = task.timeEntries || [];
-            const lastEntry = timeEntries[timeEntries.length - 1];
-            if (lastEntry && !lastEntry.endTime && lastEntry.userId === currentUser.uid) {
-              const endTime = new Date().toISOString();
-              const duration = Math.round(
-                (new Date(endTime).getTime() - new Date(lastEntry.startTime).getTime()) / 60000
-              );
-              const updatedEntry = {
-                ...lastEntry,
-                endTime,
-                duration
-              };
-              return {
-                ...task,
-                timeEntries: [...timeEntries.slice(0, -1), updatedEntry]
-              };
-            }
-            return task;
-          }
-          if (task.children && task.children.length > 0) {
-            return {
-              ...task,
-              children: updateTaskTimer(task.children)
-            };
-          }
-          return task;
-        });
-      };
+      const { endOfDay } = await useTimerSettingsStore.getState().fetchTimerSettings();
+      const requested = options.endTime ? new Date(options.endTime) : new Date();
+      const openRefs = await findOpenEntryRefs(projectId, taskId, currentUser.uid);
 
-      const updatedTasks = updateTaskTimer(project.tasks);
-      await get().updateProject(projectId, { ...project, tasks: updatedTasks });
-      
-      set({ 
-        activeTimer: {
-          taskId: null,
-          projectId: null,
-          startTime: null
-        }
+      await runTaskTransaction(async transaction => {
+        const openSnaps = await Promise.all(openRefs.map(ref => transaction.get(ref)));
+        transaction.set(activeTimerRef(currentUser.uid), NO_ACTIVE_TIMER);
+        closeOpenEntries(transaction, openSnaps, endOfDay, requested, options.reviewFlag);
       });
+      
+      set({ activeTimer: NO_ACTIVE_TIMER });
     } catch (error) {
       console.error('Error stopping timer:', error);
       throw error;
     }
   },
 
-  getTaskTimeEntries: async (projectId: string, taskId: string) => {
+  // Stops the running timer and starts the new one in one transaction, so a
+  // task that can't take time leaves the running timer as it was
+  switchTimer: async (projectId, taskId) => {
     try {
-      const project = await get().fetchProject(projectId);
-      if (!project) throw new Error('Project not found');
-
-      const findTask = (tasks: Task[]): Task | null => {
-        for (const task of tasks) {
-          if (task.id === taskId) return task;
-          if (task.children && task.children.length > 0) {
-            const found = findTask(task.children);
-            if (found) return found;
-          }
+      const currentUser = auth.currentUser;
+      if (!currentUser) throw new Error('User not authenticated');
+
+      const { activeTimer } = get();
+      const { endOfDay } = await useTimerSettingsStore.getState().fetchTimerSettings();
+      const [start, openRefs] = await Promise.all([
+        prepareTimerStart(
+          projectId,
+          taskId,
+          currentUser.uid,
+          currentUser.displayName || currentUser.email || 'Unknown User'
+        ),
+        activeTimer.projectId && activeTimer.taskId
+          ? findOpenEntryRefs(activeTimer.projectId, activeTimer.taskId, currentUser.uid)
+          : Promise.resolve([])
+      ]);
+      let started: ActiveTimer = NO_ACTIVE_TIMER;
+
+      await runTaskTransaction(async transaction => {
+        const running = (await transaction.get(activeTimerRef(currentUser.uid))).data() as ActiveTimer | undefined;
+        if (running?.taskId === taskId) throw new Error('Timer is already running for this task');
+        // The open entries were looked up for the timer this tab last saw
+        if ((running?.taskId ?? null) !== activeTimer.taskId) {
+          throw new TaskConflictError('The timer was changed in another tab. Try again.');
         }
-        return null;
-      };
+        const openSnaps = await Promise.all(openRefs.map(ref => transaction.get(ref)));
+        started = await readTimerStart(transaction, start);
 
-      const task = findTask(project.tasks);
-      return task?.timeEntries || [];
+        // The old entry ends as the new one starts
+        closeOpenEntries(transaction, openSnaps, endOfDay, new Date(start.entry.startTime));
+        writeTimerStart(transaction, start, started);
+      });
+
+      set({ activeTimer: started });
+    } catch (error) {
+      console.error('Error switching timer:', error);
+      throw error;
+    }
+  },
+
+  // Keeps every open tab on the same running timer
+  subscribeToActiveTimer: () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) return () => {};
+
+    return onSnapshot(
+      activeTimerRef(currentUser.uid),
+      (timerSnap) => {
+        set({ activeTimer: timerSnap.exists() ? activeTimerFromDoc(timerSnap.data()) : NO_ACTIVE_TIMER });
+      },
+      (error) => {
+        console.error('Error subscribing to active timer:', error);
+      }
+    );
+  },
+
+  getTaskTimeEntries: async (projectId: string, taskId: string) => {
+    try {
+      const taskSnap = await getDoc(taskDocRef(projectId, taskId));
+      if (!taskSnap.exists()) throw new Error('Task not found');
+      const entriesSnapshot = await getDocs(timeEntriesCollection(projectId, taskId));
+      return withTimeEntries(
+        [fromTaskDoc(taskSnap.id, taskSnap.data(), projectId)],
+        groupTimeEntries(entriesSnapshot.docs)
+      )[0].timeEntries || [];
     } catch (error) {
       console.error('Error getting task time entries:', error);
       return [];
@@ -595,74 +1335,43 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     try {
       const currentUser = auth.currentUser;
       if (!currentUser) {
-        set({ 
-          activeTimer: {
-            taskId: null,
-            projectId: null,
-            startTime: null
-          }
-        });
+        set({ activeTimer: NO_ACTIVE_TIMER });
         return;
       }
 
-      const querySnapshot = await getDocs(collection(db, 'projects'));
-      let foundActiveTimer = false;
+      const timerSnap = await getDoc(activeTimerRef(currentUser.uid));
+      let activeTimer = timerSnap.exists() ? activeTimerFromDoc(timerSnap.data()) : NO_ACTIVE_TIMER;
 
-      for (const projectDoc of querySnapshot.docs) {
-        const projectData = projectDoc.data();
-        const tasks = projectData.tasks || [];
-
-        const findActiveTimer = (tasks: Task[]): boolean => {
-          for (const task of tasks) {
-            const timeEntries = task.timeEntries || [];
-            const lastEntry = timeEntries[timeEntries.length - 1];
-            
-            if (lastEntry && 
-                lastEntry.userId === currentUser.uid && 
-                !lastEntry.endTime) {
-              set({ 
-                activeTimer: {
-                  taskId: task.id,
-                  projectId: projectDoc.id,
-                  startTime: lastEntry.startTime
-                }
-              });
-              return true;
-            }
-
-            if (task.children && task.children.length > 0) {
-              if (findActiveTimer(task.children)) {
-                return true;
-              }
-            }
-          }
-          return false;
-        };
+      // Timers started before activeTimers existed are looked up once among
+      // the user's time entries
+      if (!timerSnap.exists()) {
+        const querySnapshot = await getDocs(
+          query(collectionGroup(db, 'timeEntries'), where('userId', '==', currentUser.uid))
+        );
+        const openEntry = querySnapshot.docs.find(entryDoc => !entryDoc.data().endTime)?.data();
 
-        if (findActiveTimer(tasks)) {
-          foundActiveTimer = true;
-          break;
+        if (openEntry) {
+          activeTimer = {
+            taskId: openEntry.taskId,
+            projectId: openEntry.projectId,
+            startTime: openEntry.startTime
+          };
         }
+        await setDoc(activeTimerRef(currentUser.uid), activeTimer);
       }
 
-      if (!foundActiveTimer) {
-        set({
-          activeTimer: {
-            taskId: null,
-            projectId: null,
-            startTime: null
-          }
-        });
+      if (activeTimer.taskId && activeTimer.projectId && activeTimer.startTime) {
+        const { endOfDay } = await useTimerSettingsStore.getState().fetchTimerSettings();
+        if (new Date(getAutoStopTime(activeTimer.startTime, endOfDay)) <= new Date()) {
+          await get().stopTimer(activeTimer.projectId, activeTimer.taskId);
+          return;
+        }
       }
+
+      set({ activeTimer });
     } catch (error) {
       console.error('Error checking active timer:', error);
-      set({
-        activeTimer: {
-          taskId: null,
-          projectId: null,
-          startTime: null
-        }
-      });
+      set({ activeTimer: NO_ACTIVE_TIMER });
     }
   },
 
@@ -683,4 +1392,77 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       throw error;
     }
   },
-}));
\ No newline at end of file
+
+  // Moves a project still using the legacy embedded `tasks` array into the
+  // tasks subcollection. Task ids are kept as document ids, so re-running
+  // after a partial failure simply overwrites the same documents.
+  migrateProjectTasks: async (projectId: string) => {
+    try {
+      const projectRef = doc(db, 'projects', projectId);
+      const projectSnap = await getDoc(projectRef);
+      const legacyTasks = projectSnap.data()?.tasks;
+      if (!Array.isArray(legacyTasks)) return false;
+
+      const writes: ((batch: WriteBatch) => void)[] = [];
+      const collectWrites = (tasks: Task[], parentId: string | null) => {
+        tasks.forEach((task, index) => {
+          writes.push(batch => batch.set(taskDocRef(projectId, task.id), toTaskDoc(task, parentId, index)));
+          (task.timeEntries || []).forEach(entry => writes.push(batch =>
+            batch.set(timeEntryRef(projectId, task.id, entry.id), toTimeEntryDoc(entry, projectId, task.id))
+          ));
+          collectWrites(task.children || [], task.id);
+        });
+      };
+      collectWrites(legacyTasks as Task[], null);
+      writes.push(batch => batch.update(projectRef, { tasks: deleteField() }));
+
+      await commitInChunks(writes);
+      return true;
+    } catch (error) {
+      console.error('Error migrating project tasks:', error);
+      throw error;
+    }
+  },
+
+  // Moves time entries still stored in a task's `timeEntries` array into
+  // their own documents. Entry ids are kept as document ids, so re-running
+  // after a partial failure simply overwrites the same documents.
+  migrateTimeEntries: async (projectId: string) => {
+    try {
+      const tasksSnapshot = await getDocs(tasksCollection(projectId));
+      const legacyTasks = tasksSnapshot.docs.filter(taskDoc => Array.isArray(taskDoc.data().timeEntries));
+      if (legacyTasks.length === 0) return false;
+
+      await commitInChunks(legacyTasks.flatMap(taskDoc => [
+        ...(taskDoc.data().timeEntries as TimeEntry[]).map(entry => (batch: WriteBatch) =>
+          batch.set(timeEntryRef(projectId, taskDoc.id, entry.id), toTimeEntryDoc(entry, projectId, taskDoc.id))
+        ),
+        (batch: WriteBatch) => batch.update(taskDoc.ref, { timeEntries: deleteField() })
+      ]));
+      return true;
+    } catch (error) {
+      console.error('Error migrating time entries:', error);
+      throw error;
+    }
+  },
+
+  migrateAllProjectTasks: async () => {
+    try {
+      set({ loading: true, error: null });
+      const querySnapshot = await getDocs(collection(db, 'projects'));
+      let migrated = 0;
+      for (const projectDoc of querySnapshot.docs) {
+        const movedTasks = Array.isArray(projectDoc.data().tasks)
+          && await get().migrateProjectTasks(projectDoc.id);
+        const movedEntries = await get().migrateTimeEntries(projectDoc.id);
+        if (movedTasks || movedEntries) migrated++;
+      }
+      set({ loading: false });
+      return migrated;
+    } catch (error) {
+      console.error('Error migrating projects:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+}));
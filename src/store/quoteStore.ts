@@ -0,0 +1,168 @@
+import { create } from 'zustand';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  Unsubscribe
+} from 'firebase/firestore';
+import { db, auth } from '../lib/firebase';
+import { useAuthStore } from './authStore';
+import { enquiryFromDoc } from './enquiryStore';
+import { InvoiceLine, SupplyType, TaxLine } from './invoiceStore';
+import { SELLER, calculateInvoiceTotals } from '../lib/invoicing';
+import { buildQuoteLines, formatQuoteNumber } from '../lib/quotation';
+
+// Like invoices, a quote is a snapshot of the enquiry at the time it was
+// sent and is never edited; a change to the offer is a new revision.
+export interface Quote {
+  id: string;
+  enquiryId: string;
+  enquiryRef: string;
+  revision: number;
+  number: string;
+  title: string;
+  scope: string;
+  issueDate: string;
+  validUntil: string;
+  seller: {
+    name: string;
+    address: string;
+    gstin: string;
+  };
+  customer: {
+    name: string;
+    phone: string;
+    address: string;
+  };
+  requirements: string[];
+  exclusions: string[];
+  paymentTerms: string;
+  supplyType: SupplyType;
+  gstRate: number;
+  lines: InvoiceLine[];
+  subtotal: number;
+  taxes: TaxLine[];
+  taxTotal: number;
+  total: number;
+  createdAt: string;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface QuoteOptions {
+  issueDate: string;
+  validUntil: string;
+  gstRate: number;
+  supplyType: SupplyType;
+  paymentTerms: string;
+  exclusions: string[];
+}
+
+interface QuoteState {
+  quotes: Quote[];
+  loading: boolean;
+  error: string | null;
+  subscribeToEnquiryQuotes: (enquiryId: string) => Unsubscribe;
+  createQuote: (enquiryId: string, options: QuoteOptions) => Promise<Quote>;
+}
+
+export const useQuoteStore = create<QuoteState>((set) => ({
+  quotes: [],
+  loading: false,
+  error: null,
+
+  subscribeToEnquiryQuotes: (enquiryId) => {
+    set({ loading: true, error: null });
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'enquiries', enquiryId, 'quotes'), orderBy('revision', 'desc')),
+      (querySnapshot) => {
+        const quotes = querySnapshot.docs.map(quoteDoc => ({
+          ...quoteDoc.data(),
+          id: quoteDoc.id
+        })) as Quote[];
+        set({ quotes, loading: false });
+      },
+      (error) => {
+        console.error('Error subscribing to quotes:', error);
+        set({ error: error.message, loading: false });
+      }
+    );
+
+    return () => {
+      unsubscribe();
+      set({ quotes: [] });
+    };
+  },
+
+  createQuote: async (enquiryId, options) => {
+    try {
+      set({ loading: true, error: null });
+      const currentUser = auth.currentUser;
+      if (!currentUser) throw new Error('User not authenticated');
+
+      const enquiryRef = doc(db, 'enquiries', enquiryId);
+      const quoteRef = doc(collection(db, 'enquiries', enquiryId, 'quotes'));
+
+      // The revision counter lives on the enquiry so two people generating a
+      // quote at once still get distinct revisions
+      const quote = await runTransaction(db, async transaction => {
+        const enquirySnap = await transaction.get(enquiryRef);
+        if (!enquirySnap.exists()) throw new Error('Enquiry not found');
+        const enquiry = enquiryFromDoc(enquirySnap.id, enquirySnap.data());
+
+        const lines = buildQuoteLines(enquiry.deliverables || []);
+        if (lines.length === 0) throw new Error('The enquiry has no priced deliverables');
+
+        const revision = (enquiry.quoteRevision || 0) + 1;
+        const quoteData: Omit<Quote, 'id'> = {
+          enquiryId,
+          enquiryRef: enquiry.__id,
+          revision,
+          number: formatQuoteNumber(enquiry.__id, revision),
+          title: enquiry.name,
+          scope: enquiry.description,
+          issueDate: options.issueDate,
+          validUntil: options.validUntil,
+          seller: { ...SELLER },
+          customer: {
+            name: enquiry.customer?.name || '',
+            phone: enquiry.customer?.phone || '',
+            address: enquiry.customer?.address || ''
+          },
+          requirements: (enquiry.requirements || []).map(requirement => requirement.text).filter(Boolean),
+          exclusions: options.exclusions,
+          paymentTerms: options.paymentTerms.trim(),
+          supplyType: options.supplyType,
+          gstRate: options.gstRate,
+          lines,
+          ...calculateInvoiceTotals(lines, options.gstRate, options.supplyType),
+          createdAt: new Date().toISOString(),
+          createdBy: {
+            id: currentUser.uid,
+            name: useAuthStore.getState().profile?.fullName || currentUser.email || 'Unknown User'
+          }
+        };
+
+        // Sending the first quote moves a new enquiry along the pipeline
+        transaction.update(enquiryRef, {
+          quoteRevision: revision,
+          ...(enquiry.status === 'new' ? { status: 'quoted' } : {})
+        });
+        transaction.set(quoteRef, quoteData);
+        return { ...quoteData, id: quoteRef.id };
+      });
+
+      set({ loading: false });
+      return quote;
+    } catch (error) {
+      console.error('Error creating quote:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  }
+}));
@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { collection, collectionGroup, getDocs, query, where } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { AttendanceDay, ReportEntry, collectReportEntries } from '../lib/reports';
+import { Task, fromTaskDoc, groupTimeEntries, withTimeEntries } from './projectStore';
+
+export interface ReportProject {
+  id: string;
+  name: string;
+}
+
+interface ReportState {
+  entries: ReportEntry[];
+  attendance: AttendanceDay[];
+  projects: ReportProject[];
+  userNames: Record<string, string>;
+  loading: boolean;
+  error: string | null;
+  fetchReportData: (from: string, to: string) => Promise<void>;
+}
+
+export const useReportStore = create<ReportState>((set) => ({
+  entries: [],
+  attendance: [],
+  projects: [],
+  userNames: {},
+  loading: false,
+  error: null,
+
+  // Every project's tasks and time entries are read in two collection group
+  // queries and flattened into report entries.
+  fetchReportData: async (from, to) => {
+    try {
+      set({ loading: true, error: null });
+      const [projectsSnapshot, tasksSnapshot, entriesSnapshot, attendanceSnapshot, usersSnapshot] = await Promise.all([
+        getDocs(collection(db, 'projects')),
+        getDocs(collectionGroup(db, 'tasks')),
+        getDocs(collectionGroup(db, 'timeEntries')),
+        getDocs(query(collection(db, 'attendance'), where('date', '>=', from), where('date', '<=', to))),
+        getDocs(collection(db, 'users'))
+      ]);
+
+      const projects = projectsSnapshot.docs
+        .map(projectDoc => ({ id: projectDoc.id, name: (projectDoc.data().name as string) || projectDoc.id }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      const tasksByProject = new Map<string, Task[]>();
+      tasksSnapshot.docs.forEach(taskDoc => {
+        const projectId = taskDoc.ref.parent.parent!.id;
+        const tasks = tasksByProject.get(projectId) || [];
+        tasks.push(fromTaskDoc(taskDoc.id, taskDoc.data(), projectId));
+        tasksByProject.set(projectId, tasks);
+      });
+
+      const timeEntries = groupTimeEntries(entriesSnapshot.docs);
+      const entries = projects.flatMap(project =>
+        collectReportEntries(project, withTimeEntries(tasksByProject.get(project.id) || [], timeEntries))
+      );
+
+      const userNames = Object.fromEntries(
+        usersSnapshot.docs.map(userDoc => [userDoc.id, (userDoc.data().fullName as string) || userDoc.id])
+      );
+
+      set({
+        entries,
+        attendance: attendanceSnapshot.docs.map(dayDoc => dayDoc.data() as AttendanceDay),
+        projects,
+        userNames,
+        loading: false
+      });
+    } catch (error) {
+      console.error('Error fetching report data:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  }
+}));
@@ -0,0 +1,91 @@
+import { create } from 'zustand';
+import { addDoc, collection, deleteDoc, doc, getDocs, orderBy, query } from 'firebase/firestore';
+import { db, auth } from '../lib/firebase';
+import { TemplateTask, toTemplateTasks } from '../lib/templates';
+import { Project } from './projectStore';
+import { useAuthStore } from './authStore';
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string;
+  tasks: TemplateTask[];
+  sourceProjectId: string | null;
+  createdAt: string;
+  createdBy: { id: string; name: string } | null;
+}
+
+interface TemplateState {
+  templates: ProjectTemplate[];
+  loading: boolean;
+  error: string | null;
+  fetchTemplates: () => Promise<void>;
+  saveProjectAsTemplate: (project: Project, name: string, description: string) => Promise<void>;
+  deleteTemplate: (id: string) => Promise<void>;
+}
+
+const templatesCollection = () => collection(db, 'templates');
+
+export const useTemplateStore = create<TemplateState>((set, get) => ({
+  templates: [],
+  loading: false,
+  error: null,
+
+  fetchTemplates: async () => {
+    try {
+      set({ loading: true, error: null });
+      const querySnapshot = await getDocs(query(templatesCollection(), orderBy('name')));
+      const templates = querySnapshot.docs.map(templateDoc => ({
+        ...(templateDoc.data() as Omit<ProjectTemplate, 'id'>),
+        id: templateDoc.id
+      }));
+      set({ templates, loading: false });
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      set({ error: (error as Error).message, loading: false });
+    }
+  },
+
+  // Keeps the task tree and estimates; assignees, time and progress stay
+  // with the project
+  saveProjectAsTemplate: async (project, name, description) => {
+    try {
+      set({ loading: true, error: null });
+      if (!name.trim()) throw new Error('Template name is required');
+      if (!project.tasks.length) throw new Error('The project has no tasks to save');
+      const currentUser = auth.currentUser;
+
+      const template = {
+        name: name.trim(),
+        description: description.trim(),
+        tasks: toTemplateTasks(project.tasks, project.project_start_date),
+        sourceProjectId: project.id ?? null,
+        createdAt: new Date().toISOString(),
+        createdBy: currentUser
+          ? { id: currentUser.uid, name: useAuthStore.getState().profile?.fullName || currentUser.email || '' }
+          : null
+      };
+      const docRef = await addDoc(templatesCollection(), template);
+
+      const templates = [...get().templates, { ...template, id: docRef.id }]
+        .sort((a, b) => a.name.localeCompare(b.name));
+      set({ templates, loading: false });
+    } catch (error) {
+      console.error('Error saving template:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  deleteTemplate: async (id) => {
+    try {
+      set({ loading: true, error: null });
+      await deleteDoc(doc(db, 'templates', id));
+      set({ templates: get().templates.filter(template => template.id !== id), loading: false });
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  }
+}));
@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import { doc, getDoc, onSnapshot, setDoc, Unsubscribe } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { DEFAULT_TIMER_SETTINGS, TimerSettings, isValidEndOfDay } from '../lib/timers';
+
+interface TimerSettingsState {
+  settings: TimerSettings;
+  loading: boolean;
+  error: string | null;
+  fetchTimerSettings: () => Promise<TimerSettings>;
+  subscribeToTimerSettings: () => Unsubscribe;
+  updateTimerSettings: (settings: Partial<TimerSettings>) => Promise<void>;
+}
+
+const settingsRef = () => doc(db, 'settings', 'timers');
+
+const settingsFromDoc = (data: Partial<TimerSettings> | undefined): TimerSettings => ({
+  endOfDay: data?.endOfDay ?? DEFAULT_TIMER_SETTINGS.endOfDay,
+  idleMinutes: data?.idleMinutes ?? DEFAULT_TIMER_SETTINGS.idleMinutes
+});
+
+export const useTimerSettingsStore = create<TimerSettingsState>((set, get) => ({
+  settings: DEFAULT_TIMER_SETTINGS,
+  loading: false,
+  error: null,
+
+  // Falls back to the defaults so timers keep working if the read fails
+  fetchTimerSettings: async () => {
+    try {
+      const settings = settingsFromDoc((await getDoc(settingsRef())).data());
+      set({ settings });
+      return settings;
+    } catch (error) {
+      console.error('Error fetching timer settings:', error);
+      return get().settings;
+    }
+  },
+
+  subscribeToTimerSettings: () => {
+    set({ loading: true, error: null });
+    return onSnapshot(
+      settingsRef(),
+      (docSnap) => set({ settings: settingsFromDoc(docSnap.data()), loading: false }),
+      (error) => {
+        console.error('Error subscribing to timer settings:', error);
+        set({ error: error.message, loading: false });
+      }
+    );
+  },
+
+  updateTimerSettings: async (changes) => {
+    try {
+      set({ loading: true, error: null });
+      if (changes.endOfDay !== undefined && !isValidEndOfDay(changes.endOfDay)) {
+        throw new Error('End of day must be a time such as 19:00');
+      }
+      if (changes.idleMinutes !== undefined && (!Number.isInteger(changes.idleMinutes) || changes.idleMinutes < 1)) {
+        throw new Error('Idle time must be a whole number of minutes');
+      }
+
+      await setDoc(settingsRef(), changes, { merge: true });
+      set({ settings: { ...get().settings, ...changes }, loading: false });
+    } catch (error) {
+      console.error('Error updating timer settings:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  }
+}));
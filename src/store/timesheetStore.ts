@@ -0,0 +1,626 @@
+import { create } from 'zustand';
+import {
+  collection,
+  collectionGroup,
+  doc,
+  DocumentData,
+  DocumentSnapshot,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  Transaction,
+  where
+} from 'firebase/firestore';
+import { db, auth } from '../lib/firebase';
+import { useAuthStore } from './authStore';
+import {
+  NO_ACTIVE_TIMER,
+  TimeEntry,
+  activeTimerRef,
+  fromTimeEntryDoc,
+  timeEntryRef,
+  toTimeEntryDoc,
+  useProjectStore
+} from './projectStore';
+import {
+  findOverlappingEntry,
+  getDurationMinutes,
+  getTimesheetId,
+  getWeekStart,
+  isEntryInWeek,
+  splitTimeEntry,
+  summariseWeek,
+  validateEntryTimes
+} from '../lib/timesheets';
+
+// A week with no timesheet document is still a draft
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export interface TimesheetActor {
+  id: string;
+  name: string;
+}
+
+// Time entries are documents under their tasks; a timesheet only points at them
+export interface TimeEntryRef {
+  projectId: string;
+  taskId: string;
+  entryId: string;
+}
+
+export interface Timesheet {
+  id: string;
+  userId: string;
+  userName: string;
+  weekStart: string;
+  status: TimesheetStatus;
+  totalMinutes: number;
+  entries: TimeEntryRef[];
+  submittedAt: string | null;
+  reviewedBy: TimesheetActor | null;
+  reviewedAt: string | null;
+  reviewNote: string;
+}
+
+export interface TimesheetEntry {
+  projectId: string;
+  projectName: string;
+  taskId: string;
+  taskName: string;
+  entry: TimeEntry;
+}
+
+export interface EntryTarget {
+  projectId: string;
+  taskId: string;
+}
+
+export interface EntryTimes {
+  startTime: string;
+  endTime: string;
+}
+
+export type TimesheetAuditAction =
+  | 'added'
+  | 'edited'
+  | 'split'
+  | 'deleted'
+  | 'submitted'
+  | 'approved'
+  | 'rejected';
+
+export interface AuditedEntry extends EntryTarget {
+  startTime: string;
+  endTime: string | null;
+  duration: number | null;
+}
+
+// Every change to a week's time is recorded under its timesheet
+export interface TimesheetAuditRecord {
+  id: string;
+  userId: string;
+  action: TimesheetAuditAction;
+  entryId: string | null;
+  before: AuditedEntry | null;
+  after: AuditedEntry | null;
+  note: string;
+  by: TimesheetActor;
+  at: string;
+}
+
+interface TimesheetState {
+  weekStart: string;
+  userId: string | null;
+  timesheet: Timesheet | null;
+  entries: TimesheetEntry[];
+  audit: TimesheetAuditRecord[];
+  submittedTimesheets: Timesheet[];
+  loading: boolean;
+  error: string | null;
+  fetchWeek: (weekStart: string, userId?: string) => Promise<void>;
+  addEntry: (target: EntryTarget, times: EntryTimes) => Promise<void>;
+  updateEntry: (row: TimesheetEntry, target: EntryTarget, times: EntryTimes) => Promise<void>;
+  splitEntry: (row: TimesheetEntry, at: string, target?: EntryTarget) => Promise<void>;
+  deleteEntry: (row: TimesheetEntry) => Promise<void>;
+  submitWeek: () => Promise<void>;
+  fetchSubmittedTimesheets: () => Promise<void>;
+  reviewTimesheet: (timesheetId: string, decision: 'approved' | 'rejected', note?: string) => Promise<void>;
+}
+
+const timesheetRef = (userId: string, weekStart: string) =>
+  doc(db, 'timesheets', getTimesheetId(userId, weekStart));
+
+const taskRef = ({ projectId, taskId }: EntryTarget) =>
+  doc(db, 'projects', projectId, 'tasks', taskId);
+
+const entryRef = ({ projectId, taskId }: EntryTarget, entryId: string) =>
+  timeEntryRef(projectId, taskId, entryId);
+
+const isSameTask = (a: EntryTarget, b: EntryTarget) =>
+  a.projectId === b.projectId && a.taskId === b.taskId;
+
+const timesheetFromDoc = (id: string, data: DocumentData) =>
+  ({
+    ...data,
+    id,
+    status: data.status ?? 'draft',
+    entries: data.entries ?? [],
+    reviewedBy: data.reviewedBy ?? null,
+    reviewedAt: data.reviewedAt ?? null,
+    reviewNote: data.reviewNote ?? ''
+  }) as Timesheet;
+
+const currentActor = (): TimesheetActor => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('User not authenticated');
+  return {
+    id: currentUser.uid,
+    name: useAuthStore.getState().profile?.fullName || currentUser.email || 'Unknown User'
+  };
+};
+
+// Same name the timer gives entries, so task totals group them together
+const entryUserName = () =>
+  auth.currentUser?.displayName || auth.currentUser?.email || 'Unknown User';
+
+// A submitted week waits for its approver and an approved one is final
+const assertWeekOpen = (timesheetSnap: DocumentSnapshot) => {
+  const status = timesheetSnap.data()?.status;
+  if (status === 'submitted' || status === 'approved') {
+    throw new Error('This week has been submitted and can no longer be changed');
+  }
+};
+
+// The rules refuse the same changes; checking first gives a clearer message
+const findOwnEntry = (entrySnap: DocumentSnapshot, userId: string) => {
+  if (!entrySnap.exists()) throw new Error('Time entry not found');
+  const entry = fromTimeEntryDoc(entrySnap.id, entrySnap.data());
+  if (entry.userId !== userId) throw new Error('Only your own time can be changed');
+  if (entry.locked) throw new Error('Approved time entries are locked');
+  if (entry.submitted) throw new Error('This week has been submitted and can no longer be changed');
+  return entry;
+};
+
+const assertTaskExists = (taskSnap: DocumentSnapshot | null) => {
+  if (taskSnap && !taskSnap.exists()) throw new Error('Task not found');
+};
+
+const auditEntry = (target: EntryTarget, entry: TimeEntry): AuditedEntry => ({
+  projectId: target.projectId,
+  taskId: target.taskId,
+  startTime: entry.startTime,
+  endTime: entry.endTime ?? null,
+  duration: entry.duration ?? null
+});
+
+const writeAudit = (
+  transaction: Transaction,
+  userId: string,
+  weekStart: string,
+  record: Pick<TimesheetAuditRecord, 'action' | 'entryId' | 'before' | 'after'> & { note?: string }
+) => {
+  const auditRef = doc(collection(db, 'timesheets', getTimesheetId(userId, weekStart), 'audit'));
+  const audit: TimesheetAuditRecord = {
+    note: '',
+    ...record,
+    id: auditRef.id,
+    userId,
+    by: currentActor(),
+    at: new Date().toISOString()
+  };
+  transaction.set(auditRef, audit);
+};
+
+const checkTimes = (entries: TimeEntry[], times: EntryTimes) => {
+  const invalid = validateEntryTimes(times.startTime, times.endTime);
+  if (invalid) throw new Error(invalid);
+  const overlap = findOverlappingEntry(entries, times.startTime, times.endTime);
+  if (overlap) throw new Error('This overlaps time already logged');
+};
+
+// Entry refs found by fetchWeekEntryDocs are read again inside a transaction,
+// since it can't query; a change to any of them makes the transaction retry
+const readEntries = (entrySnaps: DocumentSnapshot[]) =>
+  entrySnaps.flatMap(snap => (snap.exists() ? [fromTimeEntryDoc(snap.id, snap.data())] : []));
+
+const fetchWeekEntryDocs = async (userId: string, weekStart: string) => {
+  const querySnapshot = await getDocs(
+    query(collectionGroup(db, 'timeEntries'), where('userId', '==', userId))
+  );
+  return querySnapshot.docs.filter(entryDoc =>
+    isEntryInWeek(fromTimeEntryDoc(entryDoc.id, entryDoc.data()), weekStart)
+  );
+};
+
+const fetchWeekEntries = async (userId: string, weekStart: string): Promise<TimesheetEntry[]> => {
+  const rows = (await fetchWeekEntryDocs(userId, weekStart))
+    .map(entryDoc => ({
+      projectId: entryDoc.data().projectId as string,
+      projectName: '',
+      taskId: entryDoc.data().taskId as string,
+      taskName: '',
+      entry: fromTimeEntryDoc(entryDoc.id, entryDoc.data())
+    }));
+
+  const readNames = async (paths: string[]) =>
+    Object.fromEntries(
+      await Promise.all(
+        [...new Set(paths)].map(async path => {
+          const snap = await getDoc(doc(db, path));
+          return [path, (snap.data()?.name as string) || ''] as const;
+        })
+      )
+    );
+  const [projectNames, taskNames] = await Promise.all([
+    readNames(rows.map(row => `projects/${row.projectId}`)),
+    readNames(rows.map(row => `projects/${row.projectId}/tasks/${row.taskId}`))
+  ]);
+
+  return rows
+    .map(row => ({
+      ...row,
+      projectName: projectNames[`projects/${row.projectId}`],
+      taskName: taskNames[`projects/${row.projectId}/tasks/${row.taskId}`]
+    }))
+    .sort((a, b) => a.entry.startTime.localeCompare(b.entry.startTime));
+};
+
+export const useTimesheetStore = create<TimesheetState>((set, get) => ({
+  weekStart: getWeekStart(new Date()),
+  userId: null,
+  timesheet: null,
+  entries: [],
+  audit: [],
+  submittedTimesheets: [],
+  loading: false,
+  error: null,
+
+  fetchWeek: async (weekStart, userId) => {
+    try {
+      set({ loading: true, error: null, weekStart });
+      const ownerId = userId || auth.currentUser?.uid;
+      if (!ownerId) {
+        set({ userId: null, timesheet: null, entries: [], audit: [], loading: false });
+        return;
+      }
+
+      const timesheetId = getTimesheetId(ownerId, weekStart);
+      const [entries, timesheetSnap, auditSnapshot] = await Promise.all([
+        fetchWeekEntries(ownerId, weekStart),
+        getDoc(timesheetRef(ownerId, weekStart)),
+        getDocs(collection(db, 'timesheets', timesheetId, 'audit'))
+      ]);
+
+      set({
+        userId: ownerId,
+        entries,
+        timesheet: timesheetSnap.exists() ? timesheetFromDoc(timesheetSnap.id, timesheetSnap.data()) : null,
+        audit: auditSnapshot.docs
+          .map(auditDoc => auditDoc.data() as TimesheetAuditRecord)
+          .sort((a, b) => b.at.localeCompare(a.at)),
+        loading: false
+      });
+    } catch (error) {
+      console.error('Error fetching timesheet:', error);
+      set({ error: (error as Error).message, loading: false });
+    }
+  },
+
+  // The entry may be dated in another week than the one on screen, so it is
+  // checked against the entries of its own week
+  addEntry: async (target, times) => {
+    try {
+      set({ loading: true, error: null });
+      const actor = currentActor();
+
+      const entry: TimeEntry = {
+        id: crypto.randomUUID(),
+        userId: actor.id,
+        userName: entryUserName(),
+        startTime: times.startTime,
+        endTime: times.endTime,
+        duration: getDurationMinutes(times.startTime, times.endTime),
+        source: 'manual'
+      };
+      const weekStart = getWeekStart(new Date(entry.startTime));
+      const weekEntryRefs = (await fetchWeekEntryDocs(actor.id, weekStart)).map(entryDoc => entryDoc.ref);
+
+      await runTransaction(db, async transaction => {
+        const timesheetSnap = await transaction.get(timesheetRef(actor.id, weekStart));
+        const taskSnap = await transaction.get(taskRef(target));
+        const weekEntrySnaps = await Promise.all(weekEntryRefs.map(ref => transaction.get(ref)));
+        assertWeekOpen(timesheetSnap);
+        assertTaskExists(taskSnap);
+        checkTimes(readEntries(weekEntrySnaps), times);
+
+        transaction.set(entryRef(target, entry.id), toTimeEntryDoc(entry, target.projectId, target.taskId));
+        writeAudit(transaction, actor.id, weekStart, {
+          action: 'added',
+          entryId: entry.id,
+          before: null,
+          after: auditEntry(target, entry)
+        });
+      });
+
+      await get().fetchWeek(get().weekStart);
+    } catch (error) {
+      console.error('Error adding time entry:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  // Also stops a forgotten timer by giving its entry an end time. The new
+  // times may fall in another week than the one on screen, so overlaps are
+  // checked against the week the entry ends up in.
+  updateEntry: async (row, target, times) => {
+    try {
+      set({ loading: true, error: null });
+      const actor = currentActor();
+
+      const fromWeek = getWeekStart(new Date(row.entry.startTime));
+      const toWeek = getWeekStart(new Date(times.startTime));
+      const weeks = [...new Set([fromWeek, toWeek])];
+      const moving = !isSameTask(row, target);
+      const weekEntryRefs = (await fetchWeekEntryDocs(actor.id, toWeek))
+        .map(entryDoc => entryDoc.ref)
+        .filter(ref => ref.id !== row.entry.id);
+
+      await runTransaction(db, async transaction => {
+        const weekSnaps = await Promise.all(weeks.map(week => transaction.get(timesheetRef(actor.id, week))));
+        const entrySnap = await transaction.get(entryRef(row, row.entry.id));
+        const toSnap = moving ? await transaction.get(taskRef(target)) : null;
+        const weekEntrySnaps = await Promise.all(weekEntryRefs.map(ref => transaction.get(ref)));
+        weekSnaps.forEach(assertWeekOpen);
+
+        const current = findOwnEntry(entrySnap, actor.id);
+        assertTaskExists(toSnap);
+        checkTimes(readEntries(weekEntrySnaps), times);
+        // Saving an entry is the user checking it, so any review flag goes
+        const updated: TimeEntry = {
+          ...current,
+          startTime: times.startTime,
+          endTime: times.endTime,
+          duration: getDurationMinutes(times.startTime, times.endTime)
+        };
+        delete updated.reviewFlag;
+        if (!current.endTime) transaction.set(activeTimerRef(actor.id), NO_ACTIVE_TIMER);
+
+        if (moving) transaction.delete(entryRef(row, current.id));
+        transaction.set(entryRef(target, current.id), toTimeEntryDoc(updated, target.projectId, target.taskId));
+        // An entry moved to another week shows in the audit of both
+        weeks.forEach(week =>
+          writeAudit(transaction, actor.id, week, {
+            action: 'edited',
+            entryId: current.id,
+            before: auditEntry(row, current),
+            after: auditEntry(target, updated),
+            note:
+              weeks.length === 1
+                ? ''
+                : week === fromWeek
+                  ? `Moved to the week of ${toWeek}`
+                  : `Moved from the week of ${fromWeek}`
+          })
+        );
+      });
+
+      if (!row.entry.endTime) await useProjectStore.getState().checkActiveTimer();
+      await get().fetchWeek(get().weekStart);
+    } catch (error) {
+      console.error('Error updating time entry:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  // The part after `at` can be moved to another of the user's tasks. When
+  // that part starts in the next week, both weeks' audits record the split.
+  splitEntry: async (row, at, target = row) => {
+    try {
+      set({ loading: true, error: null });
+      const actor = currentActor();
+      const weekStart = getWeekStart(new Date(row.entry.startTime));
+      const secondWeek = getWeekStart(new Date(at));
+      const weeks = [...new Set([weekStart, secondWeek])];
+      const moving = !isSameTask(row, target);
+
+      await runTransaction(db, async transaction => {
+        const weekSnaps = await Promise.all(weeks.map(week => transaction.get(timesheetRef(actor.id, week))));
+        const entrySnap = await transaction.get(entryRef(row, row.entry.id));
+        const toSnap = moving ? await transaction.get(taskRef(target)) : null;
+        weekSnaps.forEach(assertWeekOpen);
+
+        const current = findOwnEntry(entrySnap, actor.id);
+        assertTaskExists(toSnap);
+        const [first, second] = splitTimeEntry(current, at, crypto.randomUUID());
+
+        transaction.set(entryRef(row, first.id), toTimeEntryDoc(first, row.projectId, row.taskId));
+        transaction.set(entryRef(target, second.id), toTimeEntryDoc(second, target.projectId, target.taskId));
+        writeAudit(transaction, actor.id, weekStart, {
+          action: 'split',
+          entryId: current.id,
+          before: auditEntry(row, current),
+          after: auditEntry(row, first),
+          note: `Split off ${second.duration} min to ${second.id}`
+        });
+        if (secondWeek !== weekStart) {
+          writeAudit(transaction, actor.id, secondWeek, {
+            action: 'split',
+            entryId: second.id,
+            before: null,
+            after: auditEntry(target, second),
+            note: `Split off from ${current.id} in the week of ${weekStart}`
+          });
+        }
+      });
+
+      await get().fetchWeek(get().weekStart);
+    } catch (error) {
+      console.error('Error splitting time entry:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  deleteEntry: async (row) => {
+    try {
+      set({ loading: true, error: null });
+      const actor = currentActor();
+      const weekStart = getWeekStart(new Date(row.entry.startTime));
+
+      await runTransaction(db, async transaction => {
+        const timesheetSnap = await transaction.get(timesheetRef(actor.id, weekStart));
+        const entrySnap = await transaction.get(entryRef(row, row.entry.id));
+        assertWeekOpen(timesheetSnap);
+
+        const current = findOwnEntry(entrySnap, actor.id);
+        transaction.delete(entryRef(row, current.id));
+        if (!current.endTime) transaction.set(activeTimerRef(actor.id), NO_ACTIVE_TIMER);
+        writeAudit(transaction, actor.id, weekStart, {
+          action: 'deleted',
+          entryId: current.id,
+          before: auditEntry(row, current),
+          after: null
+        });
+      });
+
+      if (!row.entry.endTime) await useProjectStore.getState().checkActiveTimer();
+      await get().fetchWeek(get().weekStart);
+    } catch (error) {
+      console.error('Error deleting time entry:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  submitWeek: async () => {
+    try {
+      const actor = currentActor();
+      const { weekStart } = get();
+      await get().fetchWeek(weekStart);
+
+      set({ loading: true, error: null });
+      const { entries } = get();
+      if (entries.length === 0) throw new Error('There is no time to submit for this week');
+      if (entries.some(row => !row.entry.endTime)) {
+        throw new Error('Stop the running timer before submitting the week');
+      }
+      if (entries.some(row => row.entry.reviewFlag)) {
+        throw new Error('Check the timers that were stopped for you before submitting the week');
+      }
+
+      await runTransaction(db, async transaction => {
+        const ref = timesheetRef(actor.id, weekStart);
+        const timesheetSnap = await transaction.get(ref);
+        const entrySnaps = await Promise.all(entries.map(row => transaction.get(entryRef(row, row.entry.id))));
+        assertWeekOpen(timesheetSnap);
+
+        // The rules keep submitted entries from being changed until the
+        // week is rejected
+        entrySnaps.forEach(entrySnap => {
+          if (entrySnap.exists()) transaction.update(entrySnap.ref, { submitted: true });
+        });
+
+        const timesheet: Timesheet = {
+          id: ref.id,
+          userId: actor.id,
+          userName: actor.name,
+          weekStart,
+          status: 'submitted',
+          totalMinutes: summariseWeek(entries.map(row => row.entry), weekStart).total,
+          entries: entries.map(row => ({ projectId: row.projectId, taskId: row.taskId, entryId: row.entry.id })),
+          submittedAt: new Date().toISOString(),
+          reviewedBy: null,
+          reviewedAt: null,
+          reviewNote: ''
+        };
+        transaction.set(ref, timesheet);
+        writeAudit(transaction, actor.id, weekStart, {
+          action: 'submitted',
+          entryId: null,
+          before: null,
+          after: null
+        });
+      });
+
+      await get().fetchWeek(weekStart);
+    } catch (error) {
+      console.error('Error submitting timesheet:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  },
+
+  fetchSubmittedTimesheets: async () => {
+    try {
+      set({ loading: true, error: null });
+      const querySnapshot = await getDocs(
+        query(collection(db, 'timesheets'), where('status', '==', 'submitted'))
+      );
+      const submittedTimesheets = querySnapshot.docs
+        .map(timesheetDoc => timesheetFromDoc(timesheetDoc.id, timesheetDoc.data()))
+        .sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.userName.localeCompare(b.userName));
+      set({ submittedTimesheets, loading: false });
+    } catch (error) {
+      console.error('Error fetching submitted timesheets:', error);
+      set({ error: (error as Error).message, loading: false });
+    }
+  },
+
+  // Approving locks exactly the entries that were submitted; rejecting
+  // opens them up for changes again
+  reviewTimesheet: async (timesheetId, decision, note = '') => {
+    try {
+      set({ loading: true, error: null });
+      const actor = currentActor();
+      if (decision === 'rejected' && !note.trim()) {
+        throw new Error('Give a reason for rejecting the timesheet');
+      }
+
+      const ref = doc(db, 'timesheets', timesheetId);
+      await runTransaction(db, async transaction => {
+        const timesheetSnap = await transaction.get(ref);
+        if (!timesheetSnap.exists()) throw new Error('Timesheet not found');
+        const timesheet = timesheetFromDoc(timesheetSnap.id, timesheetSnap.data());
+        if (timesheet.status !== 'submitted') throw new Error('Only submitted timesheets can be reviewed');
+
+        const entrySnaps = await Promise.all(
+          timesheet.entries.map(entry => transaction.get(entryRef(entry, entry.entryId)))
+        );
+        entrySnaps.forEach(entrySnap => {
+          if (!entrySnap.exists()) return;
+          transaction.update(entrySnap.ref, decision === 'approved' ? { locked: true } : { submitted: false });
+        });
+
+        transaction.update(ref, {
+          status: decision,
+          reviewedBy: actor,
+          reviewedAt: new Date().toISOString(),
+          reviewNote: note.trim()
+        });
+        writeAudit(transaction, timesheet.userId, timesheet.weekStart, {
+          action: decision,
+          entryId: null,
+          before: null,
+          after: null,
+          note: note.trim()
+        });
+      });
+
+      set({
+        submittedTimesheets: get().submittedTimesheets.filter(timesheet => timesheet.id !== timesheetId),
+        loading: false
+      });
+      const { userId, weekStart } = get();
+      if (userId && getTimesheetId(userId, weekStart) === timesheetId) {
+        await get().fetchWeek(weekStart, userId);
+      }
+    } catch (error) {
+      console.error('Error reviewing timesheet:', error);
+      set({ error: (error as Error).message, loading: false });
+      throw error;
+    }
+  }
+}));
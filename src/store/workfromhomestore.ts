@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { collection, doc, setDoc, updateDoc, getDocs, query, orderBy, deleteDoc } from 'firebase/firestore';
+import { collection, doc, setDoc, updateDoc, getDocs, query, where, orderBy, deleteDoc } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { useAuthStore } from './authStore';
 
@@ -33,7 +33,7 @@ export const useWorkFromStore = create<WorkFromState>((set, get) => ({
   requestWorkFrom: async (startDate: string, endDate: string) => {
     try {
       set({ loading: true, error: null });
-      const { user } = useAuthStore()
+      const user = useAuthStore.getState().user;
       if (!user) throw new Error('User not authenticated');
       const workFromRef = collection(db, 'workfrom');
       const newWorkFromDoc = doc(workFromRef);
@@ -64,13 +64,16 @@ export const useWorkFromStore = create<WorkFromState>((set, get) => ({
       const user = useAuthStore.getState().user;
       if (!user && !userId) return;
 
+      // Members may only list their own requests
       const workFromRef = collection(db, 'workfrom');
-      const q = query(workFromRef, orderBy('createdAt', 'desc'));
+      const q = query(
+        workFromRef,
+        where('userId', '==', userId || user?.uid),
+        orderBy('createdAt', 'desc')
+      );
       const querySnapshot = await getDocs(q);
       
-      const workFromRequests = querySnapshot.docs
-        .map(doc => ({ ...doc.data() } as WorkFromRequest))
-        .filter(request => request.userId === (userId || user?.uid));
+      const workFromRequests = querySnapshot.docs.map(doc => ({ ...doc.data() } as WorkFromRequest));
 
       set({ workFromRequests, loading: false });
     } catch (error) {
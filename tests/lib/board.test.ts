@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '../../src/store/projectStore';
+import {
+  DEFAULT_BOARD_COLUMNS,
+  getBoardColumns,
+  getMoveError,
+  getSwimlanes,
+  getTaskColumnId,
+  validateBoardColumns,
+} from '../../src/lib/board';
+
+const user = (id: string, fullName: string) => ({ id, fullName, email: `${id}@example.com` });
+
+const task = (id: string, data: Partial<Task> = {}): Task => ({
+  id,
+  name: `Task ${id}`,
+  description: '',
+  completed: false,
+  children: [],
+  ...data,
+});
+
+const columns = DEFAULT_BOARD_COLUMNS;
+
+describe('getBoardColumns', () => {
+  it('falls back to the default columns', () => {
+    expect(getBoardColumns({})).toBe(DEFAULT_BOARD_COLUMNS);
+    const custom = [{ id: 'open', label: 'Open' }, { id: 'closed', label: 'Closed' }];
+    expect(getBoardColumns({ boardColumns: custom })).toBe(custom);
+  });
+});
+
+describe('getTaskColumnId', () => {
+  it('puts completed tasks in the done column and unknown statuses in the first', () => {
+    expect(getTaskColumnId(task('a', { completed: true, status: 'in-progress' }), columns)).toBe('done');
+    expect(getTaskColumnId(task('b', { status: 'in-review' }), columns)).toBe('in-review');
+    expect(getTaskColumnId(task('c', { status: 'removed' }), columns)).toBe('todo');
+    expect(getTaskColumnId(task('d'), columns)).toBe('todo');
+  });
+
+  it('moves a reopened task out of the done column', () => {
+    expect(getTaskColumnId(task('a', { status: 'done' }), columns)).toBe('todo');
+  });
+});
+
+describe('getMoveError', () => {
+  it('refuses to complete a parent with open subtasks', () => {
+    const parent = task('p', { children: [task('c1', { completed: true }), task('c2')] });
+    expect(getMoveError(parent, 'done', columns)).toMatch('subtasks are still pending');
+    expect(getMoveError(parent, 'in-review', columns)).toBeNull();
+    expect(getMoveError(task('p', { children: [task('c1', { completed: true })] }), 'done', columns)).toBeNull();
+  });
+
+  it('refuses columns that are not on the board', () => {
+    expect(getMoveError(task('a'), 'archived', columns)).toBe('That column no longer exists');
+  });
+});
+
+describe('getSwimlanes', () => {
+  it('makes one lane per assignee with unassigned tasks last', () => {
+    const shared = task('shared', { assignedTo: [user('u2', 'Ravi'), user('u1', 'Anu')] });
+    const lanes = getSwimlanes([task('loose'), shared, task('own', { assignedTo: [user('u1', 'Anu')] })]);
+
+    expect(lanes.map((lane) => [lane.label, lane.tasks.map((item) => item.id)])).toEqual([
+      ['Anu', ['shared', 'own']],
+      ['Ravi', ['shared']],
+      ['Unassigned', ['loose']],
+    ]);
+  });
+});
+
+describe('validateBoardColumns', () => {
+  it('needs at least two named, distinct columns', () => {
+    expect(validateBoardColumns([{ id: 'a', label: 'Open' }])).toMatch('at least two');
+    expect(validateBoardColumns([{ id: 'a', label: 'Open' }, { id: 'b', label: ' ' }])).toMatch('needs a name');
+    expect(validateBoardColumns([{ id: 'a', label: 'Open' }, { id: 'b', label: 'open ' }])).toMatch('different');
+    expect(validateBoardColumns(DEFAULT_BOARD_COLUMNS)).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Task, TimeEntry } from '../../src/store/projectStore';
+import { findOverruns, getEntryHours, getTaskCost, summariseCosts } from '../../src/lib/costs';
+
+const entry = (userId: string, minutes?: number): TimeEntry => ({
+  id: `${userId}-${minutes}`,
+  userId,
+  userName: userId,
+  startTime: '2026-10-01T09:00:00.000Z',
+  ...(minutes === undefined ? {} : { endTime: '2026-10-01T10:00:00.000Z', duration: minutes }),
+});
+
+const task = (
+  id: string,
+  hours: number,
+  timeEntries: TimeEntry[] = [],
+  children: Task[] = []
+): Task => ({
+  id,
+  name: `Task ${id}`,
+  description: '',
+  hours,
+  costPerHour: 1000,
+  completed: false,
+  timeEntries,
+  children,
+});
+
+const rates = { alice: 600, bob: 400 };
+
+describe('getEntryHours', () => {
+  it('uses the stored duration and leaves running timers out', () => {
+    expect(getEntryHours(entry('alice', 90))).toBe(1.5);
+    expect(getEntryHours(entry('alice'))).toBe(0);
+    expect(getEntryHours({ ...entry('alice'), endTime: '2026-10-01T11:00:00.000Z' })).toBe(2);
+  });
+});
+
+describe('getTaskCost', () => {
+  it('prices logged time at each user rate', () => {
+    const cost = getTaskCost(task('a', 10, [entry('alice', 120), entry('bob', 60)]), rates);
+    expect(cost.estimatedHours).toBe(10);
+    expect(cost.estimatedCost).toBe(10000);
+    expect(cost.loggedHours).toBe(3);
+    expect(cost.actualCost).toBe(1600);
+    expect(cost.burn).toBe(30);
+    expect(cost.overrun).toBe(false);
+  });
+
+  it('rolls nested children into their parent', () => {
+    const tree = task('a', 2, [entry('alice', 60)], [
+      task('b', 4, [entry('bob', 120)], [task('c', 4, [entry('alice', 300)])]),
+    ]);
+    const cost = getTaskCost(tree, rates);
+    expect(cost.estimatedHours).toBe(10);
+    expect(cost.loggedHours).toBe(8);
+    expect(cost.actualCost).toBe(600 + 800 + 3000);
+    expect(cost.children[0].loggedHours).toBe(7);
+    expect(cost.children[0].children[0].overrun).toBe(true);
+  });
+
+  it('keeps hours from users without a rate out of the cost', () => {
+    const cost = getTaskCost(task('a', 10, [entry('carol', 120), entry('alice', 60)]), rates);
+    expect(cost.actualCost).toBe(600);
+    expect(cost.unratedHours).toBe(2);
+  });
+
+  it('flags tasks past the threshold share of their estimate', () => {
+    const logged = task('a', 10, [entry('alice', 9 * 60)]);
+    expect(getTaskCost(logged, rates).overrun).toBe(true);
+    expect(getTaskCost(logged, rates, 95).overrun).toBe(false);
+    expect(getTaskCost(task('b', 0, [entry('alice', 60)]), rates).burn).toBeNull();
+  });
+});
+
+describe('summariseCosts', () => {
+  it('totals root tasks and lists overruns at any depth', () => {
+    const costs = [
+      task('a', 4, [entry('alice', 60)], [task('b', 1, [entry('bob', 120)])]),
+      task('c', 5, [entry('bob', 60)]),
+    ].map((root) => getTaskCost(root, rates));
+    expect(summariseCosts(costs)).toEqual({
+      estimatedHours: 10,
+      estimatedCost: 10000,
+      loggedHours: 4,
+      actualCost: 1800,
+      unratedHours: 0,
+    });
+    expect(findOverruns(costs).map((cost) => cost.task.id)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatAddress,
+  getPrimaryContact,
+  isValidGstin,
+  searchCustomers,
+  toCustomerSnapshot,
+} from '../../src/lib/customers';
+import { Customer, CustomerContact } from '../../src/store/customerStore';
+
+const contact = (overrides: Partial<CustomerContact>): CustomerContact => ({
+  id: 'k1',
+  name: 'Priya Nair',
+  designation: 'Superintendent',
+  email: 'priya@acme.test',
+  phone: '98470 12345',
+  isPrimary: false,
+  ...overrides,
+});
+
+const customer = (overrides: Partial<Customer> = {}): Customer => ({
+  id: 'c1',
+  name: 'Acme Shipping Pvt Ltd',
+  gstin: '32ABCDE1234F1Z5',
+  billingAddress: { line1: '12 Harbour Road', line2: '', city: 'Kochi', state: 'Kerala', pincode: '682001' },
+  shippingAddress: { line1: 'Berth 4', line2: 'Willingdon Island', city: 'Kochi', state: 'Kerala', pincode: '682003' },
+  contacts: [contact({})],
+  notes: '',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('isValidGstin', () => {
+  it('accepts well formed or blank GSTINs', () => {
+    expect(isValidGstin('32ABCDE1234F1Z5')).toBe(true);
+    expect(isValidGstin(' 32abcde1234f1z5 ')).toBe(true);
+    expect(isValidGstin('')).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isValidGstin('32ABCDE1234F1Z')).toBe(false);
+    expect(isValidGstin('32ABCDE1234F1X5')).toBe(false);
+    expect(isValidGstin('AB32CDE1234F1Z5')).toBe(false);
+  });
+});
+
+describe('formatAddress', () => {
+  it('skips empty parts', () => {
+    expect(formatAddress(customer().billingAddress)).toBe('12 Harbour Road, Kochi, Kerala - 682001');
+    expect(formatAddress(customer().shippingAddress))
+      .toBe('Berth 4, Willingdon Island, Kochi, Kerala - 682003');
+    expect(formatAddress({ line1: '', line2: '', city: '', state: '', pincode: '' })).toBe('');
+  });
+});
+
+describe('getPrimaryContact', () => {
+  it('prefers the primary contact and falls back to the first', () => {
+    const primary = contact({ id: 'k2', name: 'Ravi', isPrimary: true });
+    expect(getPrimaryContact(customer({ contacts: [contact({}), primary] }))).toBe(primary);
+    expect(getPrimaryContact(customer())?.id).toBe('k1');
+    expect(getPrimaryContact(customer({ contacts: [] }))).toBeNull();
+  });
+});
+
+describe('toCustomerSnapshot', () => {
+  it('copies the billing address and primary phone', () => {
+    expect(toCustomerSnapshot(customer())).toEqual({
+      name: 'Acme Shipping Pvt Ltd',
+      phone: '98470 12345',
+      address: '12 Harbour Road, Kochi, Kerala - 682001',
+    });
+  });
+});
+
+describe('searchCustomers', () => {
+  const customers = [
+    customer(),
+    customer({ id: 'c2', name: 'Globex Marine', gstin: '', contacts: [contact({ name: 'Sam', email: 'sam@globex.test', phone: '' })] }),
+  ];
+
+  it('matches company, GSTIN and contacts case-insensitively', () => {
+    expect(searchCustomers(customers, 'acme').map(c => c.id)).toEqual(['c1']);
+    expect(searchCustomers(customers, '32abc').map(c => c.id)).toEqual(['c1']);
+    expect(searchCustomers(customers, 'SAM@').map(c => c.id)).toEqual(['c2']);
+    expect(searchCustomers(customers, 'marine').map(c => c.id)).toEqual(['c2']);
+  });
+
+  it('returns everyone for a blank search', () => {
+    expect(searchCustomers(customers, '  ')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { PaymentMilestone, Task } from '../../src/store/projectStore';
+import { Invoice } from '../../src/store/invoiceStore';
+import {
+  buildInvoiceLines,
+  buildMilestoneLine,
+  buildTaxLines,
+  calculateInvoiceTotals,
+  formatInvoiceNumber,
+  getAmountDue,
+  getFinancialYear,
+  getInvoiceStatus,
+  isMilestoneComplete,
+  summariseReceivables,
+} from '../../src/lib/invoicing';
+
+const task = (id: string, hours: number, costPerHour: number, children: Task[] = []): Task => ({
+  id,
+  name: `Task ${id}`,
+  description: '',
+  hours,
+  costPerHour,
+  completed: false,
+  children,
+});
+
+describe('getFinancialYear', () => {
+  it('starts a new year in April', () => {
+    expect(getFinancialYear(new Date(2026, 2, 31))).toBe('2025-26');
+    expect(getFinancialYear(new Date(2026, 3, 1))).toBe('2026-27');
+    expect(getFinancialYear(new Date(2099, 11, 31))).toBe('2099-00');
+  });
+});
+
+describe('formatInvoiceNumber', () => {
+  it('pads the sequence', () => {
+    expect(formatInvoiceNumber('2026-27', 7)).toBe('INV/2026-27/0007');
+    expect(formatInvoiceNumber('2026-27', 12345)).toBe('INV/2026-27/12345');
+  });
+});
+
+describe('buildInvoiceLines', () => {
+  it('bills every priced task in tree order', () => {
+    const lines = buildInvoiceLines([
+      task('a', 2, 100, [task('a1', 1.5, 80), task('a2', 0, 80)]),
+      task('b', 3, 0),
+      task('c', 1, 33.333),
+    ]);
+
+    expect(lines).toEqual([
+      { id: 'a', description: 'Task a', hours: 2, rate: 100, amount: 200 },
+      { id: 'a1', description: 'Task a1', hours: 1.5, rate: 80, amount: 120 },
+      { id: 'c', description: 'Task c', hours: 1, rate: 33.333, amount: 33.33 },
+    ]);
+  });
+});
+
+describe('GST', () => {
+  it('splits intra-state tax into CGST and SGST', () => {
+    expect(buildTaxLines(1000, 18, 'intra')).toEqual([
+      { label: 'CGST', rate: 9, amount: 90 },
+      { label: 'SGST', rate: 9, amount: 90 },
+    ]);
+  });
+
+  it('charges inter-state tax as IGST', () => {
+    expect(buildTaxLines(1000, 18, 'inter')).toEqual([
+      { label: 'IGST', rate: 18, amount: 180 },
+    ]);
+  });
+
+  it('adds no lines at a zero rate', () => {
+    expect(buildTaxLines(1000, 0, 'intra')).toEqual([]);
+  });
+
+  it('totals the rounded tax lines', () => {
+    const lines = buildInvoiceLines([task('a', 1, 333.33)]);
+    expect(calculateInvoiceTotals(lines, 5, 'intra')).toEqual({
+      subtotal: 333.33,
+      taxes: [
+        { label: 'CGST', rate: 2.5, amount: 8.33 },
+        { label: 'SGST', rate: 2.5, amount: 8.33 },
+      ],
+      taxTotal: 16.66,
+      total: 349.99,
+    });
+  });
+});
+
+describe('milestones', () => {
+  const milestone: PaymentMilestone = { id: 'm1', name: 'Concept', percentage: 30, taskIds: ['a', 'b'] };
+
+  it('bills a share of the contract value', () => {
+    expect(buildMilestoneLine([task('a', 10, 100), task('b', 1, 33.33)], milestone)).toEqual({
+      id: 'm1',
+      description: 'Concept (30% of contract value)',
+      amount: 310,
+    });
+  });
+
+  it('is ready once every linked task is completed', () => {
+    const done = { ...task('a', 1, 1), completed: true };
+    expect(isMilestoneComplete([done, task('b', 1, 1)], milestone)).toBe(false);
+    expect(isMilestoneComplete([done, { ...task('b', 1, 1), completed: true }], milestone)).toBe(true);
+    expect(isMilestoneComplete([done], { ...milestone, taskIds: [] })).toBe(false);
+  });
+});
+
+describe('payments', () => {
+  const invoice = (data: Partial<Invoice>) =>
+    ({
+      status: 'issued',
+      dueDate: '2026-05-19',
+      total: 1180,
+      amountPaid: 0,
+      customer: { name: 'Acme', phone: '', address: '', gstin: '' },
+      ...data,
+    }) as Invoice;
+
+  it('owes nothing on drafts', () => {
+    expect(getAmountDue(invoice({ status: 'draft' }))).toBe(0);
+    expect(getAmountDue(invoice({ status: 'partially-paid', amountPaid: 180.5 }))).toBe(999.5);
+  });
+
+  it('becomes overdue the day after the due date', () => {
+    expect(getInvoiceStatus(invoice({}), new Date(2026, 4, 19, 18))).toBe('issued');
+    expect(getInvoiceStatus(invoice({}), new Date(2026, 4, 20))).toBe('overdue');
+    expect(getInvoiceStatus(invoice({ status: 'paid' }), new Date(2026, 4, 20))).toBe('paid');
+    expect(getInvoiceStatus(invoice({ status: 'draft' }), new Date(2026, 4, 20))).toBe('draft');
+  });
+
+  it('groups outstanding balances by customer', () => {
+    const today = new Date(2026, 4, 25);
+    const receivables = summariseReceivables(
+      [
+        invoice({}),
+        invoice({ dueDate: '2026-06-01', status: 'partially-paid', amountPaid: 1000 }),
+        invoice({ status: 'paid', amountPaid: 1180 }),
+        invoice({ status: 'draft' }),
+        invoice({ dueDate: '2026-06-01', customer: { name: 'Blue Fin', phone: '', address: '', gstin: '' } }),
+      ],
+      today
+    );
+
+    expect(receivables).toEqual([
+      { customer: 'Acme', outstanding: 1360, overdue: 1180, overdueCount: 1, invoiceCount: 2 },
+      { customer: 'Blue Fin', outstanding: 1180, overdue: 0, overdueCount: 0, invoiceCount: 1 },
+    ]);
+  });
+});
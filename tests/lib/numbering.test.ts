@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  NUMBERING_FORMATS,
+  formatRecordNumber,
+  getCounterId,
+  isRecordNumber,
+  matchesRecordSearch,
+} from '../../src/lib/numbering';
+
+const yearly = { template: 'STI-P-{year}-{seq}', padding: 4 };
+const running = { template: 'PRJ{seq}', padding: 5 };
+
+describe('formatRecordNumber', () => {
+  it('fills in the year and padded sequence', () => {
+    expect(formatRecordNumber(yearly, 2026, 42)).toBe('STI-P-2026-0042');
+    expect(formatRecordNumber(running, 2026, 7)).toBe('PRJ00007');
+    expect(formatRecordNumber(yearly, 2026, 12345)).toBe('STI-P-2026-12345');
+  });
+
+  it('defaults to STI project and enquiry numbers', () => {
+    expect(formatRecordNumber(NUMBERING_FORMATS.project, 2026, 42)).toBe('STI-P-2026-0042');
+    expect(formatRecordNumber(NUMBERING_FORMATS.enquiry, 2026, 107)).toBe('STI-E-2026-0107');
+  });
+});
+
+describe('getCounterId', () => {
+  it('keeps one counter per year only when the year is in the number', () => {
+    expect(getCounterId('enquiry', yearly, 2026)).toBe('enquiries-2026');
+    expect(getCounterId('project', running, 2026)).toBe('projects');
+  });
+});
+
+describe('isRecordNumber', () => {
+  it('recognises numbers in the given format', () => {
+    expect(isRecordNumber(yearly, 'STI-P-2026-0042')).toBe(true);
+    expect(isRecordNumber(yearly, 'p-123456')).toBe(false);
+    expect(isRecordNumber(yearly, 'STI-E-2026-0042')).toBe(false);
+    expect(isRecordNumber(running, 'PRJ00007')).toBe(true);
+  });
+});
+
+describe('matchesRecordSearch', () => {
+  const record = {
+    __id: 'STI-P-2026-0042',
+    legacyId: 'p-123456',
+    name: 'Vessel refit',
+    customer: { name: 'Acme' },
+  };
+
+  it('finds records by number, old id, name or customer', () => {
+    expect(matchesRecordSearch(record, 'p-2026-0042')).toBe(true);
+    expect(matchesRecordSearch(record, '123456')).toBe(true);
+    expect(matchesRecordSearch(record, 'REFIT')).toBe(true);
+    expect(matchesRecordSearch(record, 'acme')).toBe(true);
+    expect(matchesRecordSearch(record, 'globex')).toBe(false);
+    expect(matchesRecordSearch(record, ' ')).toBe(true);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Enquiry } from '../../src/store/enquiryStore';
+import {
+  buildBaseline,
+  buildChecklist,
+  getExpectedValue,
+  getPipelineStats,
+  isFollowUpDue,
+} from '../../src/lib/pipeline';
+
+const enquiry = (data: Partial<Enquiry>) =>
+  ({
+    status: 'new',
+    followUpDate: null,
+    deliverables: [{ id: 'd1', name: 'Design', total: 1000 }],
+    ...data,
+  }) as Enquiry;
+
+describe('getExpectedValue', () => {
+  it('adds up the deliverable totals', () => {
+    expect(getExpectedValue([
+      { id: 'd1', name: 'Design', total: 400.1 },
+      { id: 'd2', name: 'Survey', total: 0.2 },
+    ])).toBe(400.3);
+  });
+});
+
+describe('isFollowUpDue', () => {
+  const today = new Date(2026, 4, 10, 15);
+
+  it('is due on and after the follow-up date while open', () => {
+    expect(isFollowUpDue(enquiry({ followUpDate: '2026-05-11' }), today)).toBe(false);
+    expect(isFollowUpDue(enquiry({ followUpDate: '2026-05-10' }), today)).toBe(true);
+    expect(isFollowUpDue(enquiry({ followUpDate: '2026-05-01', status: 'negotiating' }), today)).toBe(true);
+    expect(isFollowUpDue(enquiry({ followUpDate: '2026-05-01', status: 'lost' }), today)).toBe(false);
+    expect(isFollowUpDue(enquiry({}), today)).toBe(false);
+  });
+});
+
+describe('getPipelineStats', () => {
+  it('reports open value and the conversion rate of closed enquiries', () => {
+    expect(getPipelineStats([
+      enquiry({}),
+      enquiry({ status: 'quoted' }),
+      enquiry({ status: 'won' }),
+      enquiry({ status: 'lost' }),
+      enquiry({ status: 'lost' }),
+    ])).toEqual({ openCount: 2, openValue: 2000, won: 1, lost: 2, conversionRate: 33 });
+  });
+
+  it('has no conversion rate before anything closes', () => {
+    expect(getPipelineStats([enquiry({})]).conversionRate).toBeNull();
+  });
+});
+
+describe('conversion', () => {
+  it('turns requirements into an open checklist', () => {
+    expect(buildChecklist([
+      { id: 'r1', text: ' Class approval ' },
+      { id: 'r2', text: '  ' },
+    ])).toEqual([{ id: 'r1', text: 'Class approval', done: false }]);
+  });
+
+  it('keeps the priced deliverables as the baseline', () => {
+    expect(buildBaseline([
+      { id: 'd1', name: 'Design', description: 'GA', hours: 10, costPerHour: 40, total: 400 },
+      { id: 'd2', name: 'Survey', total: 150.555 },
+    ], '2026-05-01T00:00:00.000Z')).toEqual({
+      lines: [
+        { id: 'd1', name: 'Design', description: 'GA', hours: 10, costPerHour: 40, total: 400 },
+        { id: 'd2', name: 'Survey', description: '', hours: 0, costPerHour: 0, total: 150.56 },
+      ],
+      total: 550.56,
+      capturedAt: '2026-05-01T00:00:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { buildQuoteLines, formatQuoteNumber, parseListInput } from '../../src/lib/quotation';
+import { getExpectedValue } from '../../src/lib/pipeline';
+
+describe('formatQuoteNumber', () => {
+  it('numbers revisions of an enquiry', () => {
+    expect(formatQuoteNumber('e-123456', 3)).toBe('QT/e-123456/R3');
+  });
+});
+
+describe('buildQuoteLines', () => {
+  it('prices deliverables by their total, showing hours and rate when they match it', () => {
+    expect(buildQuoteLines([
+      { id: 'd1', name: 'Basic design', description: 'GA plan', hours: 10, costPerHour: 40.005, total: 400.05 },
+      { id: 'd2', name: 'Site survey', hours: 0, costPerHour: 0, total: 15000 },
+      { id: 'd3', name: 'Unpriced', hours: 10, costPerHour: 40, total: 0 },
+      { id: 'd4', name: 'Stability booklet', hours: 10, costPerHour: 40, total: 500 },
+    ])).toEqual([
+      { id: 'd1', description: 'Basic design - GA plan', hours: 10, rate: 40.005, amount: 400.05 },
+      { id: 'd2', description: 'Site survey', amount: 15000 },
+      { id: 'd4', description: 'Stability booklet', amount: 500 },
+    ]);
+  });
+
+  it('adds up to the expected value of the enquiry', () => {
+    const deliverables = [
+      { id: 'd1', name: 'Lines plan', hours: 3, costPerHour: 33.333, total: 100 },
+      { id: 'd2', name: 'Hydrostatics', hours: 12, costPerHour: 45, total: 540 },
+    ];
+    const quoted = buildQuoteLines(deliverables).reduce((sum, line) => sum + line.amount, 0);
+    expect(quoted).toBe(getExpectedValue(deliverables));
+  });
+});
+
+describe('parseListInput', () => {
+  it('keeps one trimmed item per non-empty line', () => {
+    expect(parseListInput(' Travel \n\nApproval fees\n  ')).toEqual(['Travel', 'Approval fees']);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { Task, TimeEntry } from '../../src/store/projectStore';
+import {
+  AttendanceDay,
+  collectReportEntries,
+  filterReportEntries,
+  getUtilisation,
+  groupReportEntries,
+  toCsv,
+} from '../../src/lib/reports';
+
+const entry = (userId: string, day: number, minutes?: number): TimeEntry => {
+  const startTime = new Date(2026, 2, day, 9).toISOString();
+  return {
+    id: `${userId}-${day}-${minutes}`,
+    userId,
+    userName: userId === 'anu' ? 'Anu' : 'Ben',
+    startTime,
+    ...(minutes === undefined
+      ? {}
+      : { endTime: new Date(new Date(startTime).getTime() + minutes * 60000).toISOString(), duration: minutes }),
+  };
+};
+
+const task = (id: string, parentId: string | null, timeEntries: TimeEntry[] = []): Task => ({
+  id,
+  name: `Task ${id}`,
+  description: '',
+  hours: 0,
+  costPerHour: 0,
+  completed: false,
+  parentId,
+  timeEntries,
+  children: [],
+});
+
+const hull = collectReportEntries({ id: 'p1', name: 'Hull' }, [
+  task('design', null, [entry('anu', 2, 120)]),
+  task('drawings', 'design', [entry('anu', 3, 60), entry('ben', 3, 30), entry('ben', 4)]),
+]);
+const deck = collectReportEntries({ id: 'p2', name: 'Deck' }, [task('survey', null, [entry('anu', 30, 90)])]);
+const entries = [...hull, ...deck];
+
+const march = { from: '2026-03-01', to: '2026-03-31' };
+
+describe('collectReportEntries', () => {
+  it('attributes time to the top-level task and leaves out running timers', () => {
+    expect(hull).toHaveLength(3);
+    expect(hull.every((row) => row.topTaskId === 'design')).toBe(true);
+    expect(hull[1]).toMatchObject({ taskId: 'drawings', date: '2026-03-03', minutes: 60 });
+  });
+});
+
+describe('filterReportEntries', () => {
+  it('keeps entries for the person and project within the period', () => {
+    const rows = filterReportEntries(entries, { ...march, userId: 'anu', projectId: 'p1' });
+    expect(rows.map((row) => row.minutes)).toEqual([120, 60]);
+    expect(filterReportEntries(entries, { from: '2026-03-04', to: '2026-03-31' })).toEqual(deck);
+  });
+});
+
+describe('groupReportEntries', () => {
+  it('totals time per person with a breakdown by user', () => {
+    expect(groupReportEntries(entries, 'user')).toEqual([
+      { key: 'anu', label: 'Anu', minutes: 270, byUser: { anu: 270 } },
+      { key: 'ben', label: 'Ben', minutes: 30, byUser: { ben: 30 } },
+    ]);
+  });
+
+  it('orders weeks and months by date', () => {
+    expect(groupReportEntries(entries, 'week').map((row) => row.key)).toEqual(['2026-03-02', '2026-03-30']);
+    expect(groupReportEntries(entries, 'month')).toEqual([
+      { key: '2026-03', label: '2026-03', minutes: 300, byUser: { anu: 270, ben: 30 } },
+    ]);
+  });
+
+  it('groups by project and top-level task', () => {
+    expect(groupReportEntries(entries, 'task').map((row) => [row.label, row.minutes])).toEqual([
+      ['Deck / Task survey', 90],
+      ['Hull / Task design', 210],
+    ]);
+  });
+});
+
+describe('getUtilisation', () => {
+  it('compares logged time with the days checked in', () => {
+    const days: AttendanceDay[] = [
+      { date: '2026-03-02', attendance: { anu: 'x', ben: 'x' } },
+      { date: '2026-03-03', attendance: { anu: 'x', cara: 'x' } },
+      { date: '2026-04-01', attendance: { anu: 'x' } },
+    ];
+    expect(getUtilisation(entries, days, { cara: 'Cara' }, march)).toEqual([
+      { userId: 'anu', userName: 'Anu', minutes: 270, workingDays: 2, utilisation: 28 },
+      { userId: 'ben', userName: 'Ben', minutes: 30, workingDays: 1, utilisation: 6 },
+      { userId: 'cara', userName: 'Cara', minutes: 0, workingDays: 1, utilisation: 0 },
+    ]);
+    expect(getUtilisation(entries, [], {}, { ...march, userId: 'ben' })).toEqual([
+      { userId: 'ben', userName: 'Ben', minutes: 30, workingDays: 0, utilisation: null },
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes values with commas, quotes or line breaks', () => {
+    expect(toCsv([['Project', 'Hours'], ['Hull, "A"', 1.5]])).toBe('Project,Hours\n"Hull, ""A""",1.5');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { Task, TaskDependency } from '../../src/store/projectStore';
+import { computeSchedule, dateToOffset, offsetToDate, wouldCreateCycle } from '../../src/lib/schedule';
+
+const task = (id: string, hours: number, dependencies: TaskDependency[] = [], overrides: Partial<Task> = {}): Task => ({
+  id,
+  name: `Task ${id}`,
+  description: '',
+  completed: false,
+  children: [],
+  hours,
+  dependencies,
+  ...overrides,
+});
+
+// design (2 days) -> 1 day lag -> build (1 day); survey (1 day) runs alongside
+const tasks = [
+  task('design', 16),
+  task('build', 8, [{ taskId: 'design', lagDays: 1 }]),
+  task('survey', 8),
+];
+
+describe('offsetToDate and dateToOffset', () => {
+  it('convert between dates and days from the project start', () => {
+    expect(dateToOffset('2026-03-02', '2026-03-05')).toBe(3);
+    expect(offsetToDate('2026-03-02', 3).toISOString().slice(0, 10)).toBe('2026-03-05');
+    expect(offsetToDate('2026-03-02', 1.5).toISOString()).toBe('2026-03-03T12:00:00.000Z');
+  });
+});
+
+describe('computeSchedule', () => {
+  it('starts a successor after its predecessor finishes plus the lag', () => {
+    const schedule = computeSchedule(tasks);
+    expect(schedule.tasks.design).toMatchObject({ earlyStart: 0, earlyFinish: 2, drivenBy: null });
+    expect(schedule.tasks.build).toMatchObject({ earlyStart: 3, earlyFinish: 4, drivenBy: 'design' });
+    expect(schedule.duration).toBe(4);
+  });
+
+  it('marks the critical path and gives other tasks their float', () => {
+    const schedule = computeSchedule(tasks);
+    expect(schedule.criticalPath).toEqual(['design', 'build']);
+    expect(schedule.tasks.design).toMatchObject({ slack: 0, critical: true });
+    expect(schedule.tasks.survey).toMatchObject({ lateStart: 3, lateFinish: 4, slack: 3, critical: false });
+  });
+
+  it('schedules subtasks and honours a task start date', () => {
+    const schedule = computeSchedule(
+      [{ ...task('hull', 0), children: [task('paint', 8, [], { startDate: '2026-03-04' })] }],
+      '2026-03-02'
+    );
+    expect(schedule.tasks.paint).toMatchObject({ earlyStart: 2, earlyFinish: 3 });
+  });
+
+  it('finishes a parent with its subtasks, so its successors wait for them', () => {
+    const schedule = computeSchedule([
+      { ...task('hull', 8), children: [task('plating', 40), task('welding', 8)] },
+      task('launch', 8, [{ taskId: 'hull' }]),
+    ]);
+    expect(schedule.tasks.hull).toMatchObject({ earlyStart: 0, earlyFinish: 5, duration: 5 });
+    expect(schedule.tasks.launch).toMatchObject({ earlyStart: 5, earlyFinish: 6, drivenBy: 'hull' });
+    expect(schedule.criticalPath).toEqual(['plating', 'hull', 'launch']);
+    expect(schedule.tasks.welding).toMatchObject({ lateFinish: 5, slack: 4, critical: false });
+  });
+
+  it('leaves tasks on a dependency loop unscheduled', () => {
+    const schedule = computeSchedule([
+      task('a', 8, [{ taskId: 'b' }]),
+      task('b', 8, [{ taskId: 'a' }]),
+      task('c', 8),
+    ]);
+    expect(schedule.cycleTaskIds).toEqual(['a', 'b']);
+    expect(Object.keys(schedule.tasks)).toEqual(['c']);
+  });
+
+  it('warns about tasks that finish after the project due date', () => {
+    const schedule = computeSchedule(tasks, '2026-03-02', '2026-03-05');
+    expect(schedule.warnings).toHaveLength(1);
+    expect(schedule.warnings[0]).toMatchObject({ taskId: 'build', drivenBy: 'design' });
+    expect(schedule.warnings[0].finishDate.toISOString().slice(0, 10)).toBe('2026-03-06');
+    expect(computeSchedule(tasks, '2026-03-02', '2026-03-06').warnings).toEqual([]);
+  });
+
+  it('does not warn about tasks that are late on their own start date', () => {
+    const schedule = computeSchedule(
+      [...tasks, task('paint', 8, [], { startDate: '2026-03-09' })],
+      '2026-03-02',
+      '2026-03-05'
+    );
+    expect(schedule.warnings.map(warning => warning.taskId)).toEqual(['build']);
+  });
+});
+
+describe('wouldCreateCycle', () => {
+  it('rejects links that close a loop, directly or through other tasks', () => {
+    const chain = [task('a', 8), task('b', 8, [{ taskId: 'a' }]), task('c', 8, [{ taskId: 'b' }])];
+    expect(wouldCreateCycle(chain, 'a', 'a')).toBe(true);
+    expect(wouldCreateCycle(chain, 'a', 'b')).toBe(true);
+    expect(wouldCreateCycle(chain, 'a', 'c')).toBe(true);
+    expect(wouldCreateCycle(chain, 'c', 'a')).toBe(false);
+  });
+
+  it('rejects a task depending on its own parent', () => {
+    const tree = [{ ...task('hull', 8), children: [task('plating', 40)] }];
+    expect(wouldCreateCycle(tree, 'plating', 'hull')).toBe(true);
+    expect(wouldCreateCycle(tree, 'hull', 'plating')).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '../../src/store/projectStore';
+import {
+  DEFAULT_DUPLICATE_OPTIONS,
+  buildTaskTree,
+  copyTaskTree,
+  getMoveTaskError,
+  getMovedTaskOrders,
+} from '../../src/lib/taskTree';
+
+const task = (id: string, parentId: string | null, order: number): Task => ({
+  id,
+  name: `Task ${id}`,
+  description: '',
+  completed: false,
+  children: [],
+  parentId,
+  order,
+});
+
+// hull > (survey > report), repaint; deck
+const tasks = [
+  task('hull', null, 0),
+  task('deck', null, 1),
+  task('repaint', 'hull', 1),
+  task('survey', 'hull', 0),
+  task('report', 'survey', 0),
+];
+
+describe('getMoveTaskError', () => {
+  it('allows moves to the top level or under another branch', () => {
+    expect(getMoveTaskError(tasks, 'report', null)).toBeNull();
+    expect(getMoveTaskError(tasks, 'survey', 'deck')).toBeNull();
+  });
+
+  it('refuses to move a task under itself or its subtasks', () => {
+    expect(getMoveTaskError(tasks, 'hull', 'hull')).toMatch('under itself');
+    expect(getMoveTaskError(tasks, 'hull', 'report')).toMatch('under itself');
+  });
+
+  it('reports missing tasks', () => {
+    expect(getMoveTaskError(tasks, 'mast', null)).toBe('Task not found');
+    expect(getMoveTaskError(tasks, 'survey', 'mast')).toBe('Parent task not found');
+  });
+});
+
+describe('getMovedTaskOrders', () => {
+  it('reorders siblings around the moved task', () => {
+    expect(getMovedTaskOrders(tasks, 'repaint', 'hull', 0)).toEqual([
+      { id: 'repaint', order: 0 },
+      { id: 'survey', order: 1 },
+    ]);
+  });
+
+  it('places a task under a new parent and clamps the index', () => {
+    expect(getMovedTaskOrders(tasks, 'report', null, 1)).toEqual([
+      { id: 'hull', order: 0 },
+      { id: 'report', order: 1 },
+      { id: 'deck', order: 2 },
+    ]);
+    expect(getMovedTaskOrders(tasks, 'deck', 'survey', 10)).toEqual([
+      { id: 'report', order: 0 },
+      { id: 'deck', order: 1 },
+    ]);
+  });
+});
+
+describe('copyTaskTree', () => {
+  const idGenerator = () => {
+    let next = 0;
+    return () => `copy-${++next}`;
+  };
+  const detailed = buildTaskTree([
+    {
+      ...task('hull', null, 0),
+      hours: 8,
+      costPerHour: 50,
+      completed: true,
+      status: 'done',
+      deadline: '2026-03-20',
+      assignedTo: [{ id: 'u1', fullName: 'Anu', email: 'anu@shiptech.test' }],
+      timeEntries: [{ id: 'e1', userId: 'u1', userName: 'Anu', startTime: '2026-03-02T09:00:00.000Z' }],
+    },
+    { ...task('survey', 'hull', 0), dependencies: [{ taskId: 'repaint' }, { taskId: 'deck' }] },
+    task('repaint', 'hull', 1),
+    task('deck', null, 1),
+  ]).slice(0, 1);
+
+  it('copies the subtree under fresh ids with dependencies pointing at the copies', () => {
+    const copies = copyTaskTree(detailed, DEFAULT_DUPLICATE_OPTIONS, idGenerator(), 'parent');
+    expect(copies.map(copy => [copy.id, copy.sourceId, copy.parentId, copy.order])).toEqual([
+      ['copy-1', 'hull', 'parent', 0],
+      ['copy-2', 'survey', 'copy-1', 0],
+      ['copy-3', 'repaint', 'copy-1', 1],
+    ]);
+    expect(copies[1].task.dependencies).toEqual([{ taskId: 'copy-3' }, { taskId: 'deck' }]);
+  });
+
+  it('clears what the options leave out and never copies time entries', () => {
+    const [cleared] = copyTaskTree(detailed, DEFAULT_DUPLICATE_OPTIONS, idGenerator());
+    expect(cleared.task).toMatchObject({ hours: 8, costPerHour: 50, completed: false, status: null, assignedTo: [] });
+    expect(cleared.task.deadline).toBeUndefined();
+    expect(cleared.task.timeEntries).toEqual([]);
+
+    const options = { assignees: true, dates: true, completion: true, hours: false };
+    const [kept] = copyTaskTree(detailed, options, idGenerator());
+    expect(kept.task).toMatchObject({ hours: 0, completed: true, status: 'done', deadline: '2026-03-20' });
+    expect(kept.task.assignedTo).toHaveLength(1);
+    expect(kept.task.timeEntries).toEqual([]);
+  });
+});
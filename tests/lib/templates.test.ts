@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '../../src/store/projectStore';
+import {
+  getDeliverableOwnHours,
+  instantiateTemplate,
+  toDeliverables,
+  toTemplateTasks,
+} from '../../src/lib/templates';
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  name: `Task ${id}`,
+  description: '',
+  completed: false,
+  children: [],
+  ...overrides,
+});
+
+// hull (10h) > survey (4h), report (2h)
+const tasks = [
+  task('hull', {
+    hours: 10,
+    costPerHour: 50,
+    startDate: '2026-03-02',
+    deadline: '2026-03-20',
+    children: [
+      task('survey', { hours: 4, costPerHour: 100, startDate: '2026-03-04', deadline: '2026-03-06' }),
+      task('report', { hours: 2, costPerHour: 50 }),
+    ],
+  }),
+];
+
+const idGenerator = () => {
+  let next = 0;
+  return () => `new-${++next}`;
+};
+
+describe('toTemplateTasks', () => {
+  it('keeps the tree and estimates with dates as days from the project start', () => {
+    const [hull] = toTemplateTasks(tasks, '2026-03-01');
+    expect(hull).toMatchObject({ name: 'Task hull', hours: 10, startOffsetDays: 1, deadlineOffsetDays: 19 });
+    expect(hull.children.map(child => [child.name, child.startOffsetDays, child.deadlineOffsetDays])).toEqual([
+      ['Task survey', 3, 5],
+      ['Task report', null, null],
+    ]);
+  });
+
+  it('measures from the earliest task date when the project has no start', () => {
+    const [hull] = toTemplateTasks(tasks, null);
+    expect(hull.startOffsetDays).toBe(0);
+    expect(hull.children[0].startOffsetDays).toBe(2);
+  });
+});
+
+describe('instantiateTemplate', () => {
+  it('creates parents before children with new ids, orders and dates', () => {
+    const template = toTemplateTasks(tasks, '2026-03-01');
+    const created = instantiateTemplate(template, '2026-06-01', idGenerator());
+    expect(created.map(item => [item.id, item.parentId, item.order])).toEqual([
+      ['new-1', null, 0],
+      ['new-2', 'new-1', 0],
+      ['new-3', 'new-1', 1],
+    ]);
+    expect(created[0].task).toMatchObject({ startDate: '2026-06-02', deadline: '2026-06-20', completed: false });
+    expect(created[2].task.startDate).toBeUndefined();
+  });
+
+  it('leaves dates empty without a start date', () => {
+    const created = instantiateTemplate(toTemplateTasks(tasks, '2026-03-01'), null, idGenerator(), 'parent');
+    expect(created[0].parentId).toBe('parent');
+    expect(created.every(item => item.task.startDate === undefined && item.task.deadline === undefined)).toBe(true);
+  });
+});
+
+describe('toDeliverables', () => {
+  it('prices each top-level task at its whole subtree', () => {
+    const [deliverable] = toDeliverables(toTemplateTasks(tasks), idGenerator());
+    expect(deliverable).toMatchObject({ id: 'new-1', name: 'Task hull', hours: 16, total: 1000 });
+    expect(deliverable.costPerHour).toBe(62.5);
+    expect(deliverable.subtasks).toHaveLength(2);
+  });
+
+  it('keeps only the hours not covered by subtasks on the deliverable task', () => {
+    const [deliverable] = toDeliverables(toTemplateTasks(tasks), idGenerator());
+    expect(getDeliverableOwnHours(deliverable)).toBe(10);
+    expect(getDeliverableOwnHours({ ...deliverable, hours: 20 })).toBe(14);
+    expect(getDeliverableOwnHours({ ...deliverable, hours: 3 })).toBe(0);
+    expect(getDeliverableOwnHours({ ...deliverable, subtasks: undefined })).toBe(16);
+  });
+});
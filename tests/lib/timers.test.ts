@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { formatElapsed, getAutoStopTime, isLongAbsence, isValidEndOfDay, resolveStopTime } from '../../src/lib/timers';
+
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 9, day, hour, minute).toISOString();
+
+describe('getAutoStopTime', () => {
+  it('stops at the end of the day the timer started', () => {
+    expect(getAutoStopTime(at(19, 9), '19:00')).toBe(at(19, 19));
+  });
+
+  it('stops at midnight when started after the end of the day', () => {
+    expect(getAutoStopTime(at(19, 21, 30), '19:00')).toBe(at(20, 0));
+  });
+});
+
+describe('resolveStopTime', () => {
+  it('keeps the requested time on the same working day', () => {
+    expect(resolveStopTime(at(19, 9), '19:00', new Date(at(19, 17)))).toEqual({
+      endTime: at(19, 17),
+      autoStopped: false,
+    });
+  });
+
+  it('cuts overnight timers back to the end of the day', () => {
+    expect(resolveStopTime(at(19, 9), '19:00', new Date(at(20, 8, 45)))).toEqual({
+      endTime: at(19, 19),
+      autoStopped: true,
+    });
+  });
+
+  it('never ends before the timer started', () => {
+    expect(resolveStopTime(at(19, 9), '19:00', new Date(at(19, 8)))).toEqual({
+      endTime: at(19, 9),
+      autoStopped: false,
+    });
+  });
+});
+
+describe('isLongAbsence', () => {
+  it('compares time away with the idle limit', () => {
+    const left = new Date(at(19, 14)).getTime();
+    expect(isLongAbsence(left, new Date(at(19, 14, 29)).getTime(), 30)).toBe(false);
+    expect(isLongAbsence(left, new Date(at(19, 14, 30)).getTime(), 30)).toBe(true);
+  });
+});
+
+describe('isValidEndOfDay', () => {
+  it('accepts 24-hour times only', () => {
+    expect(isValidEndOfDay('19:00')).toBe(true);
+    expect(isValidEndOfDay('7pm')).toBe(false);
+    expect(isValidEndOfDay('24:00')).toBe(false);
+  });
+});
+
+describe('formatElapsed', () => {
+  it('shows hours, minutes and seconds since the start', () => {
+    const start = at(19, 9);
+    expect(formatElapsed(start, new Date(start).getTime() + (2 * 3600 + 5 * 60 + 7) * 1000)).toBe('02:05:07');
+  });
+
+  it('never shows a negative time', () => {
+    const start = at(19, 9);
+    expect(formatElapsed(start, new Date(start).getTime() - 5000)).toBe('00:00:00');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { TimeEntry } from '../../src/store/projectStore';
+import {
+  findOverlappingEntry,
+  getWeekDays,
+  getWeekStart,
+  isEntryInWeek,
+  shiftWeek,
+  splitTimeEntry,
+  summariseWeek,
+  validateEntryTimes,
+} from '../../src/lib/timesheets';
+
+// Local time on 19 October 2026 (a Monday) unless another day is given
+const at = (hour: number, minute = 0, day = 19) => new Date(2026, 9, day, hour, minute).toISOString();
+
+const entry = (id: string, start: string, end?: string, duration?: number): TimeEntry => ({
+  id,
+  userId: 'u1',
+  userName: 'member@shiptech.test',
+  startTime: start,
+  ...(end ? { endTime: end, duration } : {}),
+});
+
+describe('weeks', () => {
+  it('start on Monday', () => {
+    expect(getWeekStart(new Date(2026, 9, 19, 8))).toBe('2026-10-19');
+    expect(getWeekStart(new Date(2026, 9, 25, 23))).toBe('2026-10-19');
+    expect(getWeekStart(new Date(2026, 9, 26, 0, 30))).toBe('2026-10-26');
+  });
+
+  it('list their days and move by whole weeks', () => {
+    expect(getWeekDays('2026-10-26')).toEqual([
+      '2026-10-26',
+      '2026-10-27',
+      '2026-10-28',
+      '2026-10-29',
+      '2026-10-30',
+      '2026-10-31',
+      '2026-11-01',
+    ]);
+    expect(shiftWeek('2026-10-19', -1)).toBe('2026-10-12');
+    expect(shiftWeek('2026-12-28', 1)).toBe('2027-01-04');
+  });
+
+  it('hold the entries that start in them', () => {
+    expect(isEntryInWeek(entry('a', at(23, 0, 25), at(1, 0, 26), 120), '2026-10-19')).toBe(true);
+    expect(isEntryInWeek(entry('a', at(9, 0, 26)), '2026-10-19')).toBe(false);
+  });
+});
+
+describe('validateEntryTimes', () => {
+  const now = new Date(2026, 9, 20, 12);
+
+  it('accepts time already worked', () => {
+    expect(validateEntryTimes(at(9), at(17), now)).toBeNull();
+  });
+
+  it('rejects backwards, future and day-long entries', () => {
+    expect(validateEntryTimes(at(17), at(9), now)).toMatch(/after the start/);
+    expect(validateEntryTimes(at(9, 0, 20), at(13, 0, 20), now)).toMatch(/future/);
+    expect(validateEntryTimes(at(9, 0, 17), at(10, 0, 18), now)).toMatch(/24 hours/);
+  });
+});
+
+describe('findOverlappingEntry', () => {
+  const entries = [entry('a', at(9), at(11), 120), entry('running', at(14))];
+
+  it('finds stopped entries sharing any of the time', () => {
+    expect(findOverlappingEntry(entries, at(10), at(12))?.id).toBe('a');
+    expect(findOverlappingEntry(entries, at(11), at(12))).toBeUndefined();
+    expect(findOverlappingEntry(entries, at(10), at(12), 'a')).toBeUndefined();
+    expect(findOverlappingEntry(entries, at(14), at(15))).toBeUndefined();
+  });
+});
+
+describe('splitTimeEntry', () => {
+  it('cuts an entry in two at the given time', () => {
+    const [first, second] = splitTimeEntry(entry('a', at(9), at(17), 480), at(12, 30), 'b');
+    expect(first).toMatchObject({ id: 'a', startTime: at(9), endTime: at(12, 30), duration: 210 });
+    expect(second).toMatchObject({ id: 'b', startTime: at(12, 30), endTime: at(17), duration: 270 });
+  });
+
+  it('needs a stopped entry and a time inside it', () => {
+    expect(() => splitTimeEntry(entry('a', at(9)), at(10), 'b')).toThrow(/Stop the timer/);
+    expect(() => splitTimeEntry(entry('a', at(9), at(17), 480), at(17), 'b')).toThrow(/inside/);
+  });
+});
+
+describe('summariseWeek', () => {
+  it('totals minutes per day, leaving running timers out', () => {
+    const summary = summariseWeek(
+      [
+        entry('a', at(9), at(11), 120),
+        entry('b', at(13), at(14, 30), 90),
+        entry('c', at(9, 0, 21), at(10, 0, 21), 60),
+        entry('running', at(15, 0, 21)),
+      ],
+      '2026-10-19'
+    );
+    expect(summary.total).toBe(270);
+    expect(summary.days['2026-10-19']).toBe(210);
+    expect(summary.days['2026-10-21']).toBe(60);
+    expect(summary.days['2026-10-25']).toBe(0);
+  });
+});
@@ -0,0 +1,356 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  collection,
+  collectionGroup,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+
+// Runs against the local Firestore emulator only: `npm run test:rules`
+let testEnv: RulesTestEnvironment;
+
+const users = {
+  admin: { fullName: 'Admin', email: 'admin@shiptech.test', role: 'admin', verified: true },
+  member: { fullName: 'Member', email: 'member@shiptech.test', role: 'member', verified: true },
+  otherMember: { fullName: 'Other', email: 'other@shiptech.test', role: 'member', verified: true },
+  pending: { fullName: 'Pending', email: 'pending@shiptech.test', role: 'member', verified: false },
+  customer: { fullName: 'Customer', email: 'customer@shiptech.test', role: 'customer', verified: true, projectId: 'p1' },
+};
+
+const task = (assigneeId: string | null) => ({
+  name: 'Hull survey',
+  description: '',
+  hours: 4,
+  costPerHour: 0,
+  assignedTo: assigneeId ? [{ id: assigneeId, name: 'Member', email: 'member@shiptech.test' }] : [],
+  assigneeIds: assigneeId ? [assigneeId] : [],
+  startDate: null,
+  deadline: null,
+  completed: false,
+  parentId: null,
+  order: 0,
+  dependencies: [],
+});
+
+const timeEntry = (userId: string, projectId = 'p1', taskId = 'assigned', locked = false) => ({
+  id: 'e1',
+  userId,
+  userName: 'Member',
+  startTime: '2026-01-05T09:00:00.000Z',
+  endTime: '2026-01-05T10:00:00.000Z',
+  duration: 60,
+  locked,
+  projectId,
+  taskId,
+});
+
+const as = (uid: keyof typeof users) => testEnv.authenticatedContext(uid).firestore();
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-shiptech',
+    firestore: {
+      rules: readFileSync('firestore.rules', 'utf8'),
+    },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    for (const [uid, data] of Object.entries(users)) {
+      await setDoc(doc(db, 'users', uid), data);
+    }
+    await setDoc(doc(db, 'projects', 'p1'), { name: 'Vessel refit', customer: { name: 'Acme' } });
+    await setDoc(doc(db, 'projects', 'p2'), { name: 'Dry dock', customer: { name: 'Globex' } });
+    await setDoc(doc(db, 'projects/p1/tasks', 'assigned'), task('member'));
+    await setDoc(doc(db, 'projects/p1/tasks', 'unassigned'), task(null));
+    await setDoc(doc(db, 'projects/p2/tasks', 'other'), task('otherMember'));
+    await setDoc(doc(db, 'project_comments', 'p1'), { comments: [] });
+    await setDoc(doc(db, 'project_comments', 'p2'), { comments: [] });
+    await setDoc(doc(db, 'enquiries', 'e1'), { name: 'New build' });
+    await setDoc(doc(db, 'customers', 'c1'), { name: 'Acme' });
+    await setDoc(doc(db, 'leaves', 'l1'), { userId: 'member', status: 'pending' });
+  });
+});
+
+describe('customers', () => {
+  it('can read their own project, its tasks and its comments', async () => {
+    const db = as('customer');
+    await assertSucceeds(getDoc(doc(db, 'projects', 'p1')));
+    await assertSucceeds(getDocs(collection(db, 'projects/p1/tasks')));
+    await assertSucceeds(getDoc(doc(db, 'project_comments', 'p1')));
+  });
+
+  it('cannot read other projects or their comments', async () => {
+    const db = as('customer');
+    await assertFails(getDoc(doc(db, 'projects', 'p2')));
+    await assertFails(getDocs(collection(db, 'projects/p2/tasks')));
+    await assertFails(getDoc(doc(db, 'project_comments', 'p2')));
+    await assertFails(getDocs(collection(db, 'projects')));
+  });
+
+  it('cannot reach internal data', async () => {
+    const db = as('customer');
+    await assertFails(getDoc(doc(db, 'enquiries', 'e1')));
+    await assertFails(getDocs(collection(db, 'users')));
+    await assertFails(updateDoc(doc(db, 'projects', 'p1'), { name: 'Renamed' }));
+  });
+});
+
+describe('members', () => {
+  it('can read and work on tasks assigned to them', async () => {
+    const db = as('member');
+    const ref = doc(db, 'projects/p1/tasks', 'assigned');
+    await assertSucceeds(getDoc(ref));
+    await assertSucceeds(getDocs(query(collection(db, 'projects/p1/tasks'), where('assigneeIds', 'array-contains', 'member'))));
+    await assertSucceeds(updateDoc(ref, { completed: true, description: 'Done' }));
+  });
+
+  it('cannot write tasks they are not assigned to', async () => {
+    const db = as('member');
+    await assertFails(updateDoc(doc(db, 'projects/p1/tasks', 'unassigned'), { completed: true }));
+    await assertFails(updateDoc(doc(db, 'projects/p2/tasks', 'other'), { completed: true }));
+  });
+
+  it('cannot reassign, move, create or delete tasks', async () => {
+    const db = as('member');
+    const ref = doc(db, 'projects/p1/tasks', 'assigned');
+    await assertFails(updateDoc(ref, { assigneeIds: ['member', 'otherMember'] }));
+    await assertFails(updateDoc(ref, { parentId: 'unassigned' }));
+    await assertFails(updateDoc(ref, { timeEntries: [timeEntry('member')] }));
+    await assertFails(setDoc(doc(db, 'projects/p1/tasks', 'new'), task('member')));
+    await assertFails(deleteDoc(ref));
+  });
+
+  it('cannot edit projects', async () => {
+    const db = as('member');
+    await assertSucceeds(getDoc(doc(db, 'projects', 'p2')));
+    await assertFails(updateDoc(doc(db, 'projects', 'p2'), { name: 'Renamed' }));
+    await assertFails(setDoc(doc(db, 'projects', 'p3'), { name: 'New' }));
+  });
+
+  it('get nothing until verified', async () => {
+    const db = as('pending');
+    await assertSucceeds(getDoc(doc(db, 'users', 'pending')));
+    await assertFails(getDoc(doc(db, 'projects', 'p1')));
+    await assertFails(getDoc(doc(db, 'projects/p1/tasks', 'assigned')));
+  });
+});
+
+describe('time entries', () => {
+  const entries = 'projects/p1/tasks/assigned/timeEntries';
+
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, 'projects/p1/tasks', 'shared'), { ...task('member'), assigneeIds: ['member', 'otherMember'] });
+      await setDoc(doc(db, 'projects/p1/tasks/shared/timeEntries', 'theirs'), { ...timeEntry('otherMember', 'p1', 'shared'), id: 'theirs' });
+      await setDoc(doc(db, entries, 'approved'), { ...timeEntry('member', 'p1', 'assigned', true), id: 'approved' });
+      await setDoc(doc(db, 'projects/p2/tasks/other/timeEntries', 'e2'), timeEntry('otherMember', 'p2', 'other'));
+    });
+  });
+
+  it('are logged by members on their own tasks, for themselves only', async () => {
+    const db = as('member');
+    await assertSucceeds(setDoc(doc(db, entries, 'e1'), timeEntry('member')));
+    await assertSucceeds(updateDoc(doc(db, entries, 'e1'), { endTime: '2026-01-05T11:00:00.000Z', duration: 120 }));
+    await assertSucceeds(deleteDoc(doc(db, entries, 'e1')));
+    await assertFails(setDoc(doc(db, entries, 'e3'), timeEntry('otherMember')));
+    await assertFails(setDoc(doc(db, entries, 'e4'), timeEntry('member', 'p1', 'assigned', true)));
+    await assertFails(setDoc(doc(db, entries, 'e5'), timeEntry('member', 'p2', 'other')));
+    await assertFails(setDoc(doc(db, 'projects/p1/tasks/unassigned/timeEntries', 'e6'), timeEntry('member', 'p1', 'unassigned')));
+  });
+
+  it('of other users cannot be changed or deleted', async () => {
+    const ref = doc(as('member'), 'projects/p1/tasks/shared/timeEntries', 'theirs');
+    await assertFails(updateDoc(ref, { duration: 1 }));
+    await assertFails(updateDoc(ref, { userId: 'member' }));
+    await assertFails(deleteDoc(ref));
+    await assertSucceeds(updateDoc(doc(as('otherMember'), 'projects/p1/tasks/shared/timeEntries', 'theirs'), { duration: 30 }));
+  });
+
+  it('cannot be changed, unlocked or deleted once approved', async () => {
+    await assertFails(updateDoc(doc(as('member'), entries, 'approved'), { duration: 600 }));
+    await assertFails(updateDoc(doc(as('member'), entries, 'approved'), { locked: false }));
+    await assertFails(deleteDoc(doc(as('member'), entries, 'approved')));
+    await assertFails(updateDoc(doc(as('admin'), entries, 'approved'), { locked: false }));
+    await assertFails(deleteDoc(doc(as('admin'), entries, 'approved')));
+  });
+
+  it('are frozen once their week is submitted, until an approver reopens them', async () => {
+    const db = as('member');
+    await assertSucceeds(setDoc(doc(db, entries, 'e1'), timeEntry('member')));
+    await assertFails(setDoc(doc(db, entries, 'e2'), { ...timeEntry('member'), submitted: true, duration: 600 }));
+    await assertFails(updateDoc(doc(db, entries, 'e1'), { submitted: true, duration: 600 }));
+    await assertSucceeds(updateDoc(doc(db, entries, 'e1'), { submitted: true }));
+
+    await assertFails(updateDoc(doc(db, entries, 'e1'), { endTime: '2026-01-05T19:00:00.000Z', duration: 600 }));
+    await assertFails(updateDoc(doc(db, entries, 'e1'), { submitted: false }));
+    await assertFails(deleteDoc(doc(db, entries, 'e1')));
+    await assertFails(deleteDoc(doc(as('admin'), entries, 'e1')));
+
+    await assertSucceeds(updateDoc(doc(as('admin'), entries, 'e1'), { submitted: false }));
+    await assertSucceeds(updateDoc(doc(db, entries, 'e1'), { duration: 90 }));
+  });
+
+  it('are only locked by approvers, who change nothing else', async () => {
+    const ref = doc(as('admin'), 'projects/p1/tasks/shared/timeEntries', 'theirs');
+    await assertFails(updateDoc(doc(as('member'), 'projects/p1/tasks/shared/timeEntries', 'theirs'), { locked: true }));
+    await assertFails(updateDoc(ref, { locked: true, duration: 600 }));
+    await assertSucceeds(updateDoc(ref, { locked: true }));
+  });
+
+  it('are read across tasks by staff and by the customer of the project', async () => {
+    await assertSucceeds(getDocs(query(collectionGroup(as('member'), 'timeEntries'), where('userId', '==', 'member'))));
+    await assertSucceeds(getDocs(query(collectionGroup(as('customer'), 'timeEntries'), where('projectId', '==', 'p1'))));
+    await assertFails(getDocs(query(collectionGroup(as('customer'), 'timeEntries'), where('projectId', '==', 'p2'))));
+  });
+});
+
+describe('users', () => {
+  it('sign up as an unverified member only', async () => {
+    const db = testEnv.authenticatedContext('newcomer').firestore();
+    await assertFails(setDoc(doc(db, 'users', 'newcomer'), { ...users.pending, role: 'admin' }));
+    await assertFails(setDoc(doc(db, 'users', 'newcomer'), { ...users.pending, verified: true }));
+    await assertSucceeds(setDoc(doc(db, 'users', 'newcomer'), users.pending));
+  });
+
+  it('can only be verified by admins', async () => {
+    await assertFails(updateDoc(doc(as('pending'), 'users', 'pending'), { verified: true }));
+    await assertFails(updateDoc(doc(as('member'), 'users', 'pending'), { verified: true }));
+    await assertFails(updateDoc(doc(as('member'), 'users', 'member'), { role: 'admin' }));
+    await assertSucceeds(updateDoc(doc(as('admin'), 'users', 'pending'), { verified: true }));
+  });
+
+  it('customer accounts are created by admins', async () => {
+    const customer = { ...users.customer, projectId: 'p2' };
+    await assertFails(setDoc(doc(as('member'), 'users', 'customer2'), customer));
+    await assertSucceeds(setDoc(doc(as('admin'), 'users', 'customer2'), customer));
+  });
+});
+
+describe('customer records', () => {
+  it('are read by staff and maintained by admins', async () => {
+    await assertSucceeds(getDoc(doc(as('member'), 'customers', 'c1')));
+    await assertFails(updateDoc(doc(as('member'), 'customers', 'c1'), { name: 'Renamed' }));
+    await assertFails(setDoc(doc(as('member'), 'customers', 'c2'), { name: 'Globex' }));
+    await assertSucceeds(setDoc(doc(as('admin'), 'customers', 'c2'), { name: 'Globex' }));
+    await assertSucceeds(deleteDoc(doc(as('admin'), 'customers', 'c2')));
+  });
+
+  it('are hidden from portal customers', async () => {
+    await assertFails(getDoc(doc(as('customer'), 'customers', 'c1')));
+  });
+});
+
+describe('counters', () => {
+  it('only move forward one number at a time', async () => {
+    const ref = doc(as('member'), 'counters', 'enquiries-2026');
+    await assertFails(setDoc(ref, { last: 5 }));
+    await assertSucceeds(setDoc(ref, { last: 1 }));
+    await assertSucceeds(setDoc(ref, { last: 2 }));
+    await assertFails(setDoc(ref, { last: 1 }));
+  });
+
+  it('are limited to the records the user may create', async () => {
+    await assertFails(setDoc(doc(as('member'), 'counters', 'projects-2026'), { last: 1 }));
+    await assertFails(setDoc(doc(as('member'), 'counters', 'invoices-2026-27'), { last: 1 }));
+    await assertSucceeds(setDoc(doc(as('admin'), 'counters', 'projects-2026'), { last: 1 }));
+  });
+});
+
+describe('costing settings', () => {
+  it('are only visible to admins', async () => {
+    await assertFails(getDoc(doc(as('member'), 'settings', 'costing')));
+    await assertFails(setDoc(doc(as('member'), 'settings', 'costing'), { userRates: { member: 1 } }));
+    await assertSucceeds(setDoc(doc(as('admin'), 'settings', 'costing'), { userRates: { member: 500 } }));
+    await assertSucceeds(getDoc(doc(as('admin'), 'settings', 'costing')));
+  });
+});
+
+describe('project templates', () => {
+  it('are read by staff and maintained by admins', async () => {
+    await assertFails(setDoc(doc(as('member'), 'templates', 't1'), { name: 'Tug', tasks: [] }));
+    await assertSucceeds(setDoc(doc(as('admin'), 'templates', 't1'), { name: 'Tug', tasks: [] }));
+    await assertSucceeds(getDoc(doc(as('member'), 'templates', 't1')));
+    await assertFails(getDoc(doc(as('customer'), 'templates', 't1')));
+    await assertFails(deleteDoc(doc(as('member'), 'templates', 't1')));
+  });
+});
+
+describe('timesheets', () => {
+  const submitted = { userId: 'member', status: 'submitted', weekStart: '2026-10-12' };
+
+  it('are submitted by their owner and decided by approvers', async () => {
+    await assertSucceeds(getDoc(doc(as('member'), 'timesheets', 'member_2026-10-12')));
+    await assertFails(setDoc(doc(as('member'), 'timesheets', 'member_2026-10-12'), { ...submitted, status: 'approved' }));
+    await assertFails(setDoc(doc(as('otherMember'), 'timesheets', 'member_2026-10-12'), submitted));
+    await assertSucceeds(setDoc(doc(as('member'), 'timesheets', 'member_2026-10-12'), submitted));
+
+    await assertFails(getDoc(doc(as('otherMember'), 'timesheets', 'member_2026-10-12')));
+    await assertFails(updateDoc(doc(as('member'), 'timesheets', 'member_2026-10-12'), { status: 'approved' }));
+    await assertSucceeds(updateDoc(doc(as('admin'), 'timesheets', 'member_2026-10-12'), { status: 'rejected' }));
+    await assertSucceeds(updateDoc(doc(as('member'), 'timesheets', 'member_2026-10-12'), { status: 'submitted' }));
+  });
+
+  it('keep an append-only audit trail', async () => {
+    const audit = (db: ReturnType<typeof as>, id: string) => doc(db, 'timesheets/member_2026-10-12/audit', id);
+    await assertSucceeds(setDoc(audit(as('member'), 'a1'), { action: 'added', by: { id: 'member', name: 'Member' } }));
+    await assertFails(setDoc(audit(as('member'), 'a2'), { action: 'added', by: { id: 'admin', name: 'Admin' } }));
+    await assertFails(setDoc(audit(as('otherMember'), 'a3'), { action: 'added', by: { id: 'otherMember', name: 'Other' } }));
+    await assertFails(updateDoc(audit(as('member'), 'a1'), { action: 'edited' }));
+    await assertFails(deleteDoc(audit(as('admin'), 'a1')));
+    await assertSucceeds(getDoc(audit(as('admin'), 'a1')));
+  });
+});
+
+describe('timers', () => {
+  it('are tracked per user', async () => {
+    const running = { projectId: 'p1', taskId: 'assigned', startTime: '2026-10-19T09:00:00.000Z' };
+    await assertSucceeds(setDoc(doc(as('member'), 'activeTimers', 'member'), running));
+    await assertFails(getDoc(doc(as('otherMember'), 'activeTimers', 'member')));
+    await assertFails(setDoc(doc(as('otherMember'), 'activeTimers', 'member'), running));
+  });
+
+  it('follow settings only admins change', async () => {
+    await assertSucceeds(getDoc(doc(as('member'), 'settings', 'timers')));
+    await assertFails(setDoc(doc(as('member'), 'settings', 'timers'), { endOfDay: '23:59' }));
+    await assertSucceeds(setDoc(doc(as('admin'), 'settings', 'timers'), { endOfDay: '18:30' }));
+  });
+});
+
+describe('leave requests', () => {
+  it('members file their own pending requests', async () => {
+    const db = as('member');
+    await assertSucceeds(setDoc(doc(db, 'leaves', 'l2'), { userId: 'member', status: 'pending' }));
+    await assertFails(setDoc(doc(db, 'leaves', 'l3'), { userId: 'member', status: 'approved' }));
+    await assertFails(setDoc(doc(db, 'leaves', 'l4'), { userId: 'otherMember', status: 'pending' }));
+    await assertFails(getDoc(doc(as('otherMember'), 'leaves', 'l1')));
+  });
+
+  it('can only be approved by admins', async () => {
+    await assertFails(updateDoc(doc(as('member'), 'leaves', 'l1'), { status: 'approved' }));
+    await assertFails(updateDoc(doc(as('otherMember'), 'leaves', 'l1'), { status: 'approved' }));
+    await assertSucceeds(updateDoc(doc(as('admin'), 'leaves', 'l1'), { status: 'approved' }));
+    await assertSucceeds(getDocs(collection(as('admin'), 'leaves')));
+  });
+});
@@ -0,0 +1,31 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useAttendanceStore } from '../../src/store/attendanceStore';
+import { resetEmulator, signInAs } from './emulator';
+
+const store = () => useAttendanceStore.getState();
+
+beforeEach(async () => {
+  await resetEmulator();
+  useAttendanceStore.setState({ records: [] });
+});
+
+describe('attendance', () => {
+  it('is not marked until the user checks in', async () => {
+    await signInAs('member');
+    expect(await store().checkAttendance()).toBe(false);
+
+    await store().markAttendance();
+
+    expect(await store().checkAttendance()).toBe(true);
+  });
+
+  it('keeps everyone who checked in on the same day', async () => {
+    const first = await signInAs('member');
+    await store().markAttendance();
+    const second = await signInAs('colleague');
+    await store().markAttendance();
+
+    expect(store().records).toHaveLength(1);
+    expect(Object.keys(store().records[0].attendance).sort()).toEqual([first.id, second.id].sort());
+  });
+});
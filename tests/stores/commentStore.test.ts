@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { doc, setDoc } from 'firebase/firestore';
+import { useCommentStore } from '../../src/store/commentStore';
+import { resetEmulator, seed, signInAs } from './emulator';
+
+const store = () => useCommentStore.getState();
+
+beforeEach(async () => {
+  await resetEmulator();
+  useCommentStore.setState({ comments: [] });
+  await seed(async (context) => {
+    await setDoc(doc(context.firestore(), 'projects', 'p1'), { name: 'Vessel refit' });
+  });
+});
+
+describe('project comments', () => {
+  it('are added newest first', async () => {
+    const member = await signInAs('member');
+    await store().addComment('p1', 'First');
+    await store().addComment('p1', 'Second', [{ url: 'https://example.com/a.pdf', name: 'a.pdf' }]);
+
+    await store().fetchComments('p1');
+
+    expect(store().comments.map(comment => comment.text)).toEqual(['Second', 'First']);
+    expect(store().comments[0]).toMatchObject({
+      user: { id: member.id },
+      attachments: [{ name: 'a.pdf' }],
+    });
+  });
+
+  it('are visible to the project\'s customer', async () => {
+    await signInAs('member');
+    await store().addComment('p1', 'Hull survey booked');
+
+    await signInAs('customer', 'customer', 'p1');
+    await store().fetchComments('p1');
+
+    expect(store().comments.map(comment => comment.text)).toEqual(['Hull survey booked']);
+  });
+});
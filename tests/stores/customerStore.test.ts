@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../../src/lib/firebase';
+import { CustomerInput, useCustomerStore } from '../../src/store/customerStore';
+import { resetEmulator, seed, signInAs } from './emulator';
+
+const store = () => useCustomerStore.getState();
+
+const address = { line1: '12 Harbour Road', line2: '', city: 'Kochi', state: 'Kerala', pincode: '682001' };
+
+const customerInput: CustomerInput = {
+  name: ' Acme Shipping ',
+  gstin: '32abcde1234f1z5',
+  billingAddress: address,
+  shippingAddress: address,
+  contacts: [
+    { id: 'k1', name: 'Priya', designation: '', email: '', phone: '555', isPrimary: false },
+    { id: 'k2', name: '', designation: '', email: '', phone: '', isPrimary: false },
+  ],
+  notes: '',
+};
+
+beforeEach(async () => {
+  await resetEmulator();
+  useCustomerStore.setState({ customers: [] });
+});
+
+describe('createCustomer', () => {
+  it('cleans up the record before saving', async () => {
+    await signInAs('admin', 'admin');
+
+    const created = await store().createCustomer(customerInput);
+
+    const stored = await getDoc(doc(db, 'customers', created.id));
+    expect(stored.data()).toMatchObject({
+      name: 'Acme Shipping',
+      gstin: '32ABCDE1234F1Z5',
+      contacts: [{ id: 'k1', isPrimary: true }],
+    });
+  });
+
+  it('rejects invalid GSTINs', async () => {
+    await signInAs('admin', 'admin');
+
+    await expect(store().createCustomer({ ...customerInput, gstin: '32ABC' })).rejects.toThrow('Invalid GSTIN');
+  });
+
+  it('is reserved for admins', async () => {
+    await signInAs('member');
+
+    await expect(store().createCustomer(customerInput)).rejects.toThrow();
+  });
+});
+
+describe('fetchCustomerRecords', () => {
+  it('finds enquiries, projects and what hangs off the projects', async () => {
+    await signInAs('admin', 'admin');
+    const { id } = await store().createCustomer(customerInput);
+    await seed(async (context) => {
+      const firestore = context.firestore();
+      await setDoc(doc(firestore, 'enquiries', 'e1'), { name: 'Refit', customerId: id, deliverables: [] });
+      await setDoc(doc(firestore, 'enquiries', 'e2'), { name: 'Other', customerId: 'someone-else' });
+      await setDoc(doc(firestore, 'projects', 'p1'), { name: 'Refit', customerId: id, status: 'ongoing' });
+      await setDoc(doc(firestore, 'invoices', 'i1'), { projectId: 'p1', number: 'INV/2026-27/0001', createdAt: '2026-05-01' });
+      await setDoc(doc(firestore, 'invoices', 'i2'), { projectId: 'p2', number: 'INV/2026-27/0002', createdAt: '2026-05-02' });
+      await setDoc(doc(firestore, 'users', 'portal'), { fullName: 'Acme Portal', email: 'acme@portal.test', role: 'customer', projectId: 'p1' });
+    });
+
+    const records = await store().fetchCustomerRecords(id);
+
+    expect(records.enquiries.map(enquiry => enquiry.id)).toEqual(['e1']);
+    expect(records.enquiries[0]).toMatchObject({ status: 'new', customerId: id });
+    expect(records.projects.map(project => project.id)).toEqual(['p1']);
+    expect(records.invoices.map(invoice => invoice.id)).toEqual(['i1']);
+    expect(records.portalAccounts).toEqual([
+      { id: 'portal', fullName: 'Acme Portal', email: 'acme@portal.test', projectId: 'p1' },
+    ]);
+  });
+});
+
+describe('deleteCustomer', () => {
+  it('refuses customers that are in use', async () => {
+    await signInAs('admin', 'admin');
+    const unused = await store().createCustomer(customerInput);
+    const used = await store().createCustomer(customerInput);
+    await seed(async (context) => {
+      await setDoc(doc(context.firestore(), 'projects', 'p1'), { name: 'Refit', customerId: used.id });
+    });
+
+    await store().deleteCustomer(unused.id);
+    expect((await getDoc(doc(db, 'customers', unused.id))).exists()).toBe(false);
+    await expect(store().deleteCustomer(used.id)).rejects.toThrow('cannot be deleted');
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  signOut,
+} from 'firebase/auth';
+import { doc, setDoc } from 'firebase/firestore';
+import { auth } from '../../src/lib/firebase';
+import { useAuthStore } from '../../src/store/authStore';
+
+// The stores talk to the emulator through src/lib/firebase (see the test env
+// in vite.config.ts). This environment is only used to seed and reset data
+// behind the security rules' back.
+let testEnv: RulesTestEnvironment | null = null;
+
+export const getTestEnv = async () => {
+  testEnv ??= await initializeTestEnvironment({ projectId: 'demo-shiptech' });
+  return testEnv;
+};
+
+export const resetEmulator = async () => {
+  const env = await getTestEnv();
+  await env.clearFirestore();
+  await signOut(auth);
+  useAuthStore.setState({ user: null, profile: null });
+};
+
+export const seed = async (write: Parameters<RulesTestEnvironment['withSecurityRulesDisabled']>[0]) => {
+  const env = await getTestEnv();
+  await env.withSecurityRulesDisabled(write);
+};
+
+export type TestRole = 'admin' | 'member' | 'customer';
+
+// Signs the shared app in as a verified user with the given role and returns
+// the user in the shape tasks store assignees.
+export const signInAs = async (name: string, role: TestRole = 'member', projectId?: string) => {
+  const email = `${name}@shiptech.test`;
+  const password = 'emulator-password';
+  const credential = await createUserWithEmailAndPassword(auth, email, password)
+    .catch(() => signInWithEmailAndPassword(auth, email, password));
+  const { uid } = credential.user;
+
+  const profile = {
+    fullName: name,
+    email,
+    role,
+    verified: true,
+    createdAt: new Date().toISOString(),
+    ...(projectId ? { projectId } : {}),
+  };
+  await seed(async (context) => {
+    await setDoc(doc(context.firestore(), 'users', uid), profile);
+  });
+  useAuthStore.setState({ user: credential.user, profile: { id: uid, ...profile } });
+
+  return { id: uid, fullName: name, email };
+};
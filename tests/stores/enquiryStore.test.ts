@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { collection, doc, getDoc, getDocs, orderBy, query } from 'firebase/firestore';
+import { db } from '../../src/lib/firebase';
+import { useEnquiryStore } from '../../src/store/enquiryStore';
+import { resetEmulator, signInAs } from './emulator';
+
+const store = () => useEnquiryStore.getState();
+
+const enquiryInput = {
+  name: 'Ballast water system',
+  description: 'Retrofit',
+  customerId: 'c1',
+  customer: { name: 'Acme', phone: '555', address: 'Dock 4' },
+  deliverables: [
+    { id: 'd1', name: 'Basic design', hours: 10, costPerHour: 40, total: 400 },
+    { id: 'd2', name: 'Class approval', description: 'Drawings', hours: 5, costPerHour: 60, total: 300 },
+  ],
+  requirements: [{ id: 'r1', text: ' Class approved drawings ' }, { id: 'r2', text: '' }],
+  owner: null,
+  followUpDate: '2026-05-10',
+};
+
+beforeEach(async () => {
+  await resetEmulator();
+  useEnquiryStore.setState({ enquiries: [], currentEnquiry: null });
+  await signInAs('admin', 'admin');
+});
+
+describe('pipeline', () => {
+  it('starts new enquiries in the pipeline', async () => {
+    await store().createEnquiry(enquiryInput);
+    const [enquiry] = store().enquiries;
+
+    const stored = await store().fetchEnquiry(enquiry.id!);
+    expect(stored).toMatchObject({ status: 'new', lossReason: '', projectId: null, followUpDate: '2026-05-10' });
+  });
+
+  it('requires a reason to lose an enquiry and conversion to win one', async () => {
+    await store().createEnquiry(enquiryInput);
+    const [enquiry] = store().enquiries;
+
+    await store().updateEnquiryStatus(enquiry.id!, 'negotiating');
+    await expect(store().updateEnquiryStatus(enquiry.id!, 'lost', ' ')).rejects.toThrow('loss reason');
+    await expect(store().updateEnquiryStatus(enquiry.id!, 'won')).rejects.toThrow('Convert the enquiry');
+
+    await store().updateEnquiryStatus(enquiry.id!, 'lost', 'Price too high');
+    expect(await store().fetchEnquiry(enquiry.id!)).toMatchObject({
+      status: 'lost',
+      lossReason: 'Price too high',
+      closedAt: expect.any(String),
+    });
+
+    await store().updateEnquiryStatus(enquiry.id!, 'negotiating');
+    expect(await store().fetchEnquiry(enquiry.id!)).toMatchObject({ status: 'negotiating', lossReason: '', closedAt: null });
+  });
+});
+
+describe('convertToProject', () => {
+  it('turns the deliverables into ordered root tasks and keeps the enquiry as won', async () => {
+    await store().createEnquiry(enquiryInput);
+    const [enquiry] = store().enquiries;
+
+    const projectId = await store().convertToProject(enquiry.id!);
+
+    expect(store().enquiries).toEqual([expect.objectContaining({ status: 'won', projectId })]);
+    const stored = await getDoc(doc(db, 'enquiries', enquiry.id!));
+    expect(stored.data()).toMatchObject({ status: 'won', projectId, closedAt: expect.any(String) });
+
+    const projects = await getDocs(collection(db, 'projects'));
+    expect(projects.docs).toHaveLength(1);
+    const project = projects.docs[0];
+    expect(project.id).toBe(projectId);
+    expect(project.data()).toMatchObject({
+      name: 'Ballast water system',
+      customerId: 'c1',
+      customer: { name: 'Acme', phone: '555', address: 'Dock 4' },
+      status: 'not-started',
+      sourceEnquiryId: enquiry.id,
+      checklist: [{ id: 'r1', text: 'Class approved drawings', done: false }],
+      baseline: {
+        lines: [
+          { id: 'd1', name: 'Basic design', description: '', hours: 10, costPerHour: 40, total: 400 },
+          { id: 'd2', name: 'Class approval', description: 'Drawings', hours: 5, costPerHour: 60, total: 300 },
+        ],
+        total: 700,
+      },
+      type: 'project',
+    });
+    expect(project.data().__id).toMatch(/^STI-P-\d{4}-0001$/);
+
+    const tasks = await getDocs(query(collection(db, 'projects', project.id, 'tasks'), orderBy('order')));
+    expect(tasks.docs.map(task => task.data())).toEqual([
+      expect.objectContaining({ name: 'Basic design', hours: 10, costPerHour: 40, parentId: null, order: 0, completed: false }),
+      expect.objectContaining({ name: 'Class approval', description: 'Drawings', parentId: null, order: 1 }),
+    ]);
+  });
+
+  it('converts an enquiry only once', async () => {
+    await store().createEnquiry(enquiryInput);
+    const [enquiry] = store().enquiries;
+    await store().convertToProject(enquiry.id!);
+
+    await expect(store().convertToProject(enquiry.id!)).rejects.toThrow('already been converted');
+    expect((await getDocs(collection(db, 'projects'))).docs).toHaveLength(1);
+  });
+
+  it('fails for a missing enquiry', async () => {
+    await expect(store().convertToProject('missing')).rejects.toThrow('Enquiry not found');
+    expect(store().error).toBe('Enquiry not found');
+  });
+});
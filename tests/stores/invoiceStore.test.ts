@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../../src/lib/firebase';
+import { useInvoiceStore } from '../../src/store/invoiceStore';
+import { Project } from '../../src/store/projectStore';
+import { resetEmulator, signInAs } from './emulator';
+
+const store = () => useInvoiceStore.getState();
+
+const project: Project = {
+  id: 'p1',
+  __id: 'p-123456',
+  name: 'Vessel refit',
+  description: '',
+  customer: { name: 'Acme', phone: '555', address: 'Dock 4' },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  status: 'ongoing',
+  type: 'project',
+  tasks: [
+    { id: 't1', name: 'Design', description: '', hours: 10, costPerHour: 100, completed: false, children: [] },
+  ],
+  milestones: [{ id: 'm1', name: 'Advance', percentage: 40, taskIds: ['t1'] }],
+};
+
+const options = {
+  issueDate: '2026-05-04',
+  dueDate: '2026-05-19',
+  gstRate: 18,
+  supplyType: 'intra' as const,
+};
+
+beforeEach(async () => {
+  await resetEmulator();
+});
+
+describe('issueInvoice', () => {
+  it('numbers invoices sequentially within a financial year', async () => {
+    await signInAs('admin', 'admin');
+
+    const first = await store().issueInvoice(project, options);
+    const second = await store().issueInvoice(project, { ...options, issueDate: '2027-03-31' });
+    const nextYear = await store().issueInvoice(project, { ...options, issueDate: '2027-04-01' });
+
+    expect(first.number).toBe('INV/2026-27/0001');
+    expect(second.number).toBe('INV/2026-27/0002');
+    expect(nextYear.number).toBe('INV/2027-28/0001');
+  });
+
+  it('stores everything needed to reprint the invoice', async () => {
+    await signInAs('admin', 'admin');
+
+    const issued = await store().issueInvoice(project, { ...options, customerGstin: ' 32abcde1234f1z5 ' });
+
+    const stored = await getDoc(doc(db, 'invoices', issued.id));
+    expect(stored.data()).toMatchObject({
+      projectId: 'p1',
+      projectRef: 'p-123456',
+      customer: { name: 'Acme', gstin: '32ABCDE1234F1Z5' },
+      lines: [{ id: 't1', hours: 10, rate: 100, amount: 1000 }],
+      subtotal: 1000,
+      taxes: [
+        { label: 'CGST', rate: 9, amount: 90 },
+        { label: 'SGST', rate: 9, amount: 90 },
+      ],
+      total: 1180,
+    });
+  });
+
+  it('refuses projects with nothing to bill', async () => {
+    await signInAs('admin', 'admin');
+
+    await expect(store().issueInvoice({ ...project, tasks: [] }, options))
+      .rejects.toThrow('no billable tasks');
+  });
+
+  it('cannot be issued or altered by members', async () => {
+    await signInAs('admin', 'admin');
+    const issued = await store().issueInvoice(project, options);
+
+    await signInAs('member');
+    await expect(store().issueInvoice(project, options)).rejects.toThrow();
+    await expect(updateDoc(doc(db, 'invoices', issued.id), { total: 0 })).rejects.toThrow();
+  });
+});
+
+describe('drafts', () => {
+  it('takes a number only when issued', async () => {
+    await signInAs('admin', 'admin');
+
+    const draft = await store().saveDraftInvoice(project, options);
+    expect(draft).toMatchObject({ status: 'draft', number: '' });
+
+    const issued = await store().issueDraftInvoice(draft.id);
+    expect(issued).toMatchObject({ status: 'issued', number: 'INV/2026-27/0001' });
+    await expect(store().issueDraftInvoice(draft.id)).rejects.toThrow('already been issued');
+  });
+
+  it('can be discarded, unlike issued invoices', async () => {
+    await signInAs('admin', 'admin');
+    const draft = await store().saveDraftInvoice(project, options);
+    const issued = await store().issueInvoice(project, options);
+
+    await store().deleteDraftInvoice(draft.id);
+    expect((await getDoc(doc(db, 'invoices', draft.id))).exists()).toBe(false);
+    await expect(store().deleteDraftInvoice(issued.id)).rejects.toThrow();
+  });
+});
+
+describe('milestone invoices', () => {
+  it('bill the milestone share only', async () => {
+    await signInAs('admin', 'admin');
+
+    const issued = await store().issueInvoice(project, { ...options, milestoneId: 'm1' });
+
+    expect(issued).toMatchObject({
+      milestoneId: 'm1',
+      lines: [{ id: 'm1', description: 'Advance (40% of contract value)', amount: 400 }],
+      subtotal: 400,
+      total: 472,
+    });
+    await expect(store().issueInvoice(project, { ...options, milestoneId: 'nope' }))
+      .rejects.toThrow('Milestone not found');
+  });
+});
+
+describe('recordPayment', () => {
+  const payment = { amount: 500, date: '2026-05-10', mode: 'upi' as const, reference: 'UTR1' };
+
+  it('tracks partial and full payment', async () => {
+    await signInAs('admin', 'admin');
+    const issued = await store().issueInvoice(project, options);
+
+    await store().recordPayment(issued.id, payment);
+    let stored = (await store().fetchInvoice(issued.id))!;
+    expect(stored).toMatchObject({ status: 'partially-paid', amountPaid: 500 });
+    expect(stored.payments).toHaveLength(1);
+
+    await store().recordPayment(issued.id, { ...payment, amount: 680 });
+    stored = (await store().fetchInvoice(issued.id))!;
+    expect(stored).toMatchObject({ status: 'paid', amountPaid: 1180 });
+  });
+
+  it('refuses overpayment and payments against drafts', async () => {
+    await signInAs('admin', 'admin');
+    const issued = await store().issueInvoice(project, options);
+    const draft = await store().saveDraftInvoice(project, options);
+
+    await expect(store().recordPayment(issued.id, { ...payment, amount: 2000 }))
+      .rejects.toThrow('more than the amount due');
+    await expect(store().recordPayment(draft.id, payment)).rejects.toThrow('Issue the invoice');
+  });
+});
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useLeaveStore } from '../../src/store/leaveStore';
+import { resetEmulator, signInAs } from './emulator';
+
+const store = () => useLeaveStore.getState();
+
+beforeEach(async () => {
+  await resetEmulator();
+  useLeaveStore.setState({ leaveRequests: [], allLeaveRequests: [] });
+});
+
+describe('leave requests', () => {
+  it('lists only the requesting user\'s own requests', async () => {
+    await signInAs('colleague');
+    await store().requestLeave('2026-03-02', '2026-03-03', 'Family');
+    const member = await signInAs('member');
+    await store().requestLeave('2026-03-09', '2026-03-13', 'Holiday');
+
+    expect(store().leaveRequests).toEqual([
+      expect.objectContaining({ userId: member.id, reason: 'Holiday', status: 'pending' }),
+    ]);
+  });
+
+  it('are approved by an admin', async () => {
+    const member = await signInAs('member');
+    await store().requestLeave('2026-03-09', '2026-03-13', 'Holiday');
+    const [request] = store().leaveRequests;
+
+    await expect(store().updateLeaveStatus(request.id, 'approved')).rejects.toThrow();
+
+    await signInAs('admin', 'admin');
+    await store().updateLeaveStatus(request.id, 'approved');
+    expect(store().allLeaveRequests).toEqual([
+      expect.objectContaining({ id: request.id, userId: member.id, status: 'approved' }),
+    ]);
+  });
+
+  it('can be cancelled by the requester', async () => {
+    await signInAs('member');
+    await store().requestLeave('2026-03-09', '2026-03-13', 'Holiday');
+    const [request] = store().leaveRequests;
+
+    await store().cancelLeaveRequest(request.id);
+
+    expect(store().leaveRequests).toEqual([]);
+  });
+});
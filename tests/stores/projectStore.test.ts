@@ -0,0 +1,463 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../../src/lib/firebase';
+import { numberExistingRecords } from '../../src/lib/counters';
+import { DEFAULT_BOARD_COLUMNS } from '../../src/lib/board';
+import { toTemplateTasks } from '../../src/lib/templates';
+import { DEFAULT_DUPLICATE_OPTIONS } from '../../src/lib/taskTree';
+import { ActiveTimerError, TimeEntry, useProjectStore } from '../../src/store/projectStore';
+import { resetEmulator, seed, signInAs } from './emulator';
+
+const store = () => useProjectStore.getState();
+
+const createProject = async () => {
+  await store().createProject({
+    name: 'Vessel refit',
+    description: '',
+    customer: { name: 'Acme', phone: '', address: '' },
+    status: 'not-started',
+  });
+  const projects = store().projects;
+  return projects[projects.length - 1].id!;
+};
+
+const newTask = (name: string, assignedTo: { id: string; fullName: string; email: string }[] = []) => ({
+  name,
+  description: '',
+  hours: 2,
+  costPerHour: 50,
+  assignedTo,
+});
+
+const loadTasks = async (projectId: string) => (await store().fetchProject(projectId))!.tasks;
+
+const seedTimeEntry = (projectId: string, taskId: string, entry: Partial<TimeEntry> = {}) =>
+  seed(async (context) => {
+    const id = entry.id || 'e1';
+    await setDoc(doc(context.firestore(), 'projects', projectId, 'tasks', taskId, 'timeEntries', id), {
+      id,
+      userId: 'u1',
+      userName: 'Anu',
+      startTime: '2026-03-02T09:00:00.000Z',
+      locked: false,
+      ...entry,
+      projectId,
+      taskId,
+    });
+  });
+
+beforeEach(async () => {
+  await resetEmulator();
+  useProjectStore.setState({ projects: [], currentProject: null, userTasks: [] });
+});
+
+describe('nested tasks', () => {
+  beforeEach(async () => {
+    await signInAs('admin', 'admin');
+  });
+
+  it('adds subtasks under their parent in insertion order', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    const [hull] = await loadTasks(projectId);
+
+    await store().addTask(projectId, [{ id: hull.id }], newTask('Survey'));
+    await store().addTask(projectId, [{ id: hull.id }], newTask('Repaint'));
+    const [survey] = (await loadTasks(projectId))[0].children;
+    await store().addTask(projectId, [{ id: hull.id }, { id: survey.id }], newTask('Report'));
+
+    const tasks = await loadTasks(projectId);
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].children.map(task => task.name)).toEqual(['Survey', 'Repaint']);
+    expect(tasks[0].children[0].children.map(task => task.name)).toEqual(['Report']);
+
+    const report = await store().getTaskByPath(projectId, [
+      { id: hull.id },
+      { id: survey.id },
+      { id: tasks[0].children[0].children[0].id },
+    ]);
+    expect(report?.name).toBe('Report');
+    expect(report?.parentId).toBe(survey.id);
+  });
+
+  it('updates a subtask in place', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    const [hull] = await loadTasks(projectId);
+    await store().addTask(projectId, [{ id: hull.id }], newTask('Survey'));
+    const [survey] = (await loadTasks(projectId))[0].children;
+
+    await store().updateTask(projectId, [{ id: hull.id }], survey.id, { name: 'Underwater survey', hours: 6 });
+
+    const [updated] = (await loadTasks(projectId))[0].children;
+    expect(updated).toMatchObject({ id: survey.id, name: 'Underwater survey', hours: 6, parentId: hull.id });
+  });
+
+  it('clears a description set to an empty string', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], { ...newTask('Hull'), description: 'Full hull survey' });
+    const [hull] = await loadTasks(projectId);
+
+    await store().updateTask(projectId, [], hull.id, { description: '' });
+
+    expect((await loadTasks(projectId))[0]).toMatchObject({ name: 'Hull', description: '' });
+  });
+
+  it('toggles completion', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    const [hull] = await loadTasks(projectId);
+
+    await store().toggleTaskCompletion(projectId, [{ id: hull.id }]);
+    expect((await loadTasks(projectId))[0].completed).toBe(true);
+    await store().toggleTaskCompletion(projectId, [{ id: hull.id }]);
+    expect((await loadTasks(projectId))[0].completed).toBe(false);
+  });
+
+  it('deletes a task with its subtasks and drops links to them', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    await store().addTask(projectId, [], newTask('Delivery'));
+    const [hull, delivery] = await loadTasks(projectId);
+    await store().addTask(projectId, [{ id: hull.id }], newTask('Survey'));
+    const [survey] = (await loadTasks(projectId))[0].children;
+    await store().addTaskDependency(projectId, delivery.id, survey.id, 1);
+
+    await store().deleteTask(projectId, [], hull.id);
+
+    const tasks = await loadTasks(projectId);
+    expect(tasks.map(task => task.name)).toEqual(['Delivery']);
+    expect(tasks[0].dependencies).toEqual([]);
+  });
+
+  it('deletes the time logged on a task but refuses once some is approved', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    await store().addTask(projectId, [], newTask('Deck'));
+    const [hull, deck] = await loadTasks(projectId);
+    await seedTimeEntry(projectId, hull.id);
+    await seedTimeEntry(projectId, deck.id, { id: 'e2', locked: true });
+
+    await store().deleteTask(projectId, [], hull.id);
+    expect(await store().getTaskTimeEntries(projectId, deck.id)).toHaveLength(1);
+    await expect(store().deleteTask(projectId, [], deck.id)).rejects.toThrow('submitted or approved time');
+  });
+
+  it('moves time entries stored on a task into their own documents', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    const [hull] = await loadTasks(projectId);
+    await seed(async (context) => {
+      await updateDoc(doc(context.firestore(), 'projects', projectId, 'tasks', hull.id), {
+        timeEntries: [{ id: 'e1', userId: 'u1', userName: 'Anu', startTime: '2026-03-02T09:00:00.000Z', locked: true }],
+      });
+    });
+    expect((await loadTasks(projectId))[0].timeEntries).toHaveLength(1);
+
+    expect(await store().migrateTimeEntries(projectId)).toBe(true);
+
+    const taskSnap = await getDoc(doc(db, 'projects', projectId, 'tasks', hull.id));
+    expect(taskSnap.data()?.timeEntries).toBeUndefined();
+    expect((await loadTasks(projectId))[0].timeEntries).toEqual([
+      expect.objectContaining({ id: 'e1', userId: 'u1', locked: true }),
+    ]);
+    expect(await store().migrateTimeEntries(projectId)).toBe(false);
+  });
+
+  it('moves a task to another parent with its subtasks and time entries', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    await store().addTask(projectId, [], newTask('Deck'));
+    const [hull, deck] = await loadTasks(projectId);
+    await store().addTask(projectId, [{ id: hull.id }], newTask('Survey'));
+    const [survey] = (await loadTasks(projectId))[0].children;
+    await store().addTask(projectId, [{ id: hull.id }, { id: survey.id }], newTask('Report'));
+    await seedTimeEntry(projectId, survey.id);
+
+    await store().moveTask(projectId, survey.id, [{ id: deck.id }], 0);
+
+    const tasks = await loadTasks(projectId);
+    expect(tasks[0].children).toEqual([]);
+    expect(tasks[1].children.map(task => task.name)).toEqual(['Survey']);
+    expect(tasks[1].children[0].children.map(task => task.name)).toEqual(['Report']);
+    expect(tasks[1].children[0].timeEntries).toHaveLength(1);
+  });
+
+  it('reorders siblings and refuses to move a task under its own subtask', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    await store().addTask(projectId, [], newTask('Deck'));
+    const [hull, deck] = await loadTasks(projectId);
+    await store().addTask(projectId, [{ id: hull.id }], newTask('Survey'));
+    const [survey] = (await loadTasks(projectId))[0].children;
+
+    await store().moveTask(projectId, deck.id, [], 0);
+    expect((await loadTasks(projectId)).map(task => task.name)).toEqual(['Deck', 'Hull']);
+
+    await expect(store().moveTask(projectId, hull.id, [{ id: hull.id }, { id: survey.id }], 0))
+      .rejects.toThrow('under itself');
+  });
+
+  it('duplicates a task with its subtasks just after the original', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull', [{ id: 'u1', fullName: 'Anu', email: 'anu@shiptech.test' }]));
+    await store().addTask(projectId, [], newTask('Deck'));
+    const [hull] = await loadTasks(projectId);
+    await store().addTask(projectId, [{ id: hull.id }], newTask('Survey'));
+    await seedTimeEntry(projectId, hull.id);
+
+    await store().duplicateTask(projectId, hull.id, 'Hull (copy)', DEFAULT_DUPLICATE_OPTIONS);
+
+    const tasks = await loadTasks(projectId);
+    expect(tasks.map(task => task.name)).toEqual(['Hull', 'Hull (copy)', 'Deck']);
+    expect(tasks[1].id).not.toBe(hull.id);
+    expect(tasks[1].children.map(task => task.name)).toEqual(['Survey']);
+    expect(tasks[1].timeEntries).toEqual([]);
+    expect(tasks[1].assignedTo).toEqual([]);
+    expect(tasks[1].hours).toBe(2);
+  });
+
+  it('duplicates a project as a new numbered project', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    const [hull] = await loadTasks(projectId);
+    await store().toggleTaskCompletion(projectId, [{ id: hull.id }]);
+
+    const copyId = await store().duplicateProject(projectId, 'Vessel refit 2', {
+      ...DEFAULT_DUPLICATE_OPTIONS,
+      completion: true,
+    });
+
+    const copy = await store().fetchProject(copyId);
+    expect(copy?.name).toBe('Vessel refit 2');
+    expect(copy?.status).toBe('not-started');
+    expect(copy?.__id).not.toBe(store().projects[0].__id);
+    expect(copy?.tasks.map(task => [task.name, task.completed])).toEqual([['Hull', true]]);
+    expect(copy?.tasks[0].id).not.toBe(hull.id);
+    expect(await loadTasks(projectId)).toHaveLength(1);
+  });
+
+  it('creates a project with the tasks of a template', async () => {
+    const template = toTemplateTasks(
+      [
+        {
+          id: 'hull', name: 'Hull', description: '', completed: false, hours: 6, startDate: '2026-03-02',
+          children: [{ id: 'survey', name: 'Survey', description: '', completed: false, hours: 4, deadline: '2026-03-11', children: [] }],
+        },
+      ],
+      '2026-03-01'
+    );
+    await store().createProject(
+      {
+        name: 'New tug',
+        description: '',
+        customer: { name: 'Acme', phone: '', address: '' },
+        status: 'not-started',
+        project_start_date: '2026-11-01',
+      },
+      template
+    );
+
+    const projects = store().projects;
+    const [hull] = await loadTasks(projects[projects.length - 1].id!);
+    expect(hull).toMatchObject({ name: 'Hull', hours: 6, startDate: '2026-11-02', completed: false });
+    expect(hull.children.map(task => [task.name, task.deadline])).toEqual([['Survey', '2026-11-11']]);
+  });
+
+  it('rejects circular dependencies', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    await store().addTask(projectId, [], newTask('Delivery'));
+    const [hull, delivery] = await loadTasks(projectId);
+
+    await store().addTaskDependency(projectId, delivery.id, hull.id, 0);
+    await expect(store().addTaskDependency(projectId, hull.id, delivery.id, 0))
+      .rejects.toThrow('circular');
+  });
+});
+
+describe('task board', () => {
+  beforeEach(async () => {
+    await signInAs('admin', 'admin');
+  });
+
+  it('completes a task moved to the done column once its subtasks are done', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    const [hull] = await loadTasks(projectId);
+    await store().addTask(projectId, [{ id: hull.id }], newTask('Survey'));
+    const [survey] = (await loadTasks(projectId))[0].children;
+
+    await expect(store().moveTaskOnBoard(projectId, hull.id, 'done', DEFAULT_BOARD_COLUMNS))
+      .rejects.toThrow('subtasks are still pending');
+
+    await store().moveTaskOnBoard(projectId, survey.id, 'done', DEFAULT_BOARD_COLUMNS);
+    await store().moveTaskOnBoard(projectId, hull.id, 'done', DEFAULT_BOARD_COLUMNS);
+    expect((await loadTasks(projectId))[0]).toMatchObject({ status: 'done', completed: true });
+
+    await store().moveTaskOnBoard(projectId, hull.id, 'in-review', DEFAULT_BOARD_COLUMNS);
+    expect((await loadTasks(projectId))[0]).toMatchObject({ status: 'in-review', completed: false });
+  });
+
+  it('keeps the status when a task is edited', async () => {
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull'));
+    const [hull] = await loadTasks(projectId);
+
+    await store().moveTaskOnBoard(projectId, hull.id, 'in-progress', DEFAULT_BOARD_COLUMNS);
+    await store().updateTask(projectId, [], hull.id, { name: 'Hull survey' });
+    expect((await loadTasks(projectId))[0]).toMatchObject({ name: 'Hull survey', status: 'in-progress' });
+  });
+});
+
+describe('timers', () => {
+  const setUpAssignedTask = async () => {
+    const member = await signInAs('member');
+    await signInAs('admin', 'admin');
+    const projectId = await createProject();
+    await store().addTask(projectId, [], newTask('Hull', [member]));
+    const [task] = await loadTasks(projectId);
+    await signInAs('member');
+    return { projectId, taskId: task.id, member };
+  };
+
+  it('records a time entry from start to stop', async () => {
+    const { projectId, taskId, member } = await setUpAssignedTask();
+
+    await store().startTimer(projectId, taskId);
+    expect(store().activeTimer).toMatchObject({ projectId, taskId });
+
+    await store().stopTimer(projectId, taskId);
+    expect(store().activeTimer.taskId).toBeNull();
+
+    const entries = await store().getTaskTimeEntries(projectId, taskId);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ userId: member.id, duration: 0 });
+    expect(entries[0].endTime).toBeDefined();
+  });
+
+  it('does not start a second timer on the same task', async () => {
+    const { projectId, taskId } = await setUpAssignedTask();
+
+    await store().startTimer(projectId, taskId);
+    await expect(store().startTimer(projectId, taskId)).rejects.toThrow('already running');
+  });
+
+  it('restores the running timer from Firestore', async () => {
+    const { projectId, taskId } = await setUpAssignedTask();
+    await store().startTimer(projectId, taskId);
+    useProjectStore.setState({ activeTimer: { taskId: null, projectId: null, startTime: null } });
+
+    await store().checkActiveTimer();
+    expect(store().activeTimer).toMatchObject({ projectId, taskId });
+
+    await store().stopTimer(projectId, taskId);
+    await store().checkActiveTimer();
+    expect(store().activeTimer.taskId).toBeNull();
+  });
+
+  it('refuses a second timer on another task', async () => {
+    const { projectId, taskId, member } = await setUpAssignedTask();
+    await signInAs('admin', 'admin');
+    await store().addTask(projectId, [], newTask('Deck', [member]));
+    const deck = (await loadTasks(projectId)).find(task => task.name === 'Deck')!;
+    await signInAs('member');
+
+    await store().startTimer(projectId, taskId);
+    await expect(store().startTimer(projectId, deck.id)).rejects.toThrow(ActiveTimerError);
+
+    await store().stopTimer(projectId, taskId);
+    await store().startTimer(projectId, deck.id);
+    expect(store().activeTimer).toMatchObject({ projectId, taskId: deck.id });
+  });
+
+  it('switches the running timer to another task', async () => {
+    const { projectId, taskId, member } = await setUpAssignedTask();
+    await signInAs('admin', 'admin');
+    await store().addTask(projectId, [], newTask('Deck', [member]));
+    const deck = (await loadTasks(projectId)).find(task => task.name === 'Deck')!;
+    await signInAs('member');
+
+    await store().startTimer(projectId, taskId);
+    expect(store().activeTimer).toMatchObject({ taskName: 'Hull', taskPath: taskId });
+    await store().switchTimer(projectId, deck.id);
+
+    expect(store().activeTimer).toMatchObject({ projectId, taskId: deck.id, taskName: 'Deck' });
+    const [hullEntry] = await store().getTaskTimeEntries(projectId, taskId);
+    expect(hullEntry.endTime).toBeDefined();
+  });
+
+  it('keeps the running timer when the task switched to cannot start', async () => {
+    const { projectId, taskId } = await setUpAssignedTask();
+    await store().startTimer(projectId, taskId);
+
+    await expect(store().switchTimer(projectId, 'missing')).rejects.toThrow('Task not found');
+
+    expect(store().activeTimer).toMatchObject({ projectId, taskId });
+    const [hullEntry] = await store().getTaskTimeEntries(projectId, taskId);
+    expect(hullEntry.endTime).toBeUndefined();
+  });
+
+  it('stops a timer left running overnight at the end of the day', async () => {
+    const { projectId, taskId, member } = await setUpAssignedTask();
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    const startTime = new Date(yesterday.setHours(9, 0, 0, 0)).toISOString();
+    const endOfDay = new Date(yesterday.setHours(19, 0, 0, 0)).toISOString();
+    await seedTimeEntry(projectId, taskId, { userId: member.id, userName: member.email, startTime });
+    await seed(async (context) => {
+      await setDoc(doc(context.firestore(), 'activeTimers', member.id), { projectId, taskId, startTime });
+    });
+
+    await store().checkActiveTimer();
+
+    expect(store().activeTimer.taskId).toBeNull();
+    const [entry] = await store().getTaskTimeEntries(projectId, taskId);
+    expect(entry).toMatchObject({ endTime: endOfDay, duration: 600, reviewFlag: 'end-of-day' });
+  });
+
+  it('lists the tasks assigned to the user with their paths', async () => {
+    const { projectId, taskId } = await setUpAssignedTask();
+
+    await store().fetchUserTasks();
+    expect(store().userTasks).toEqual([
+      expect.objectContaining({ id: taskId, projectId, path: taskId }),
+    ]);
+  });
+});
+
+describe('numbering', () => {
+  beforeEach(async () => {
+    await signInAs('admin', 'admin');
+  });
+
+  it('numbers new projects from a yearly counter', async () => {
+    const year = new Date().getFullYear();
+
+    await createProject();
+    await createProject();
+
+    expect(store().projects.map(project => project.__id)).toEqual([
+      `STI-P-${year}-0001`,
+      `STI-P-${year}-0002`,
+    ]);
+  });
+
+  it('numbers older projects in creation order and keeps their old id', async () => {
+    await seed(async (context) => {
+      const firestore = context.firestore();
+      await setDoc(doc(firestore, 'projects', 'later'), { __id: 'p-222222', createdAt: '2025-06-01T00:00:00.000Z' });
+      await setDoc(doc(firestore, 'projects', 'earlier'), { __id: 'p-111111', createdAt: '2025-02-01T00:00:00.000Z' });
+      await setDoc(doc(firestore, 'projects', 'numbered'), { __id: 'STI-P-2026-0001', createdAt: '2026-01-01T00:00:00.000Z' });
+    });
+
+    expect(await numberExistingRecords('project')).toBe(2);
+
+    expect((await getDoc(doc(db, 'projects', 'earlier'))).data())
+      .toMatchObject({ __id: 'STI-P-2025-0001', legacyId: 'p-111111' });
+    expect((await getDoc(doc(db, 'projects', 'later'))).data())
+      .toMatchObject({ __id: 'STI-P-2025-0002', legacyId: 'p-222222' });
+    expect((await getDoc(doc(db, 'projects', 'numbered'))).data()?.legacyId).toBeUndefined();
+    expect(await numberExistingRecords('project')).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../../src/lib/firebase';
+import { useQuoteStore } from '../../src/store/quoteStore';
+import { resetEmulator, seed, signInAs } from './emulator';
+
+const store = () => useQuoteStore.getState();
+
+const options = {
+  issueDate: '2026-05-04',
+  validUntil: '2026-06-03',
+  gstRate: 18,
+  supplyType: 'intra' as const,
+  paymentTerms: ' 50% advance ',
+  exclusions: ['Travel'],
+};
+
+beforeEach(async () => {
+  await resetEmulator();
+  await seed(async (context) => {
+    await setDoc(doc(context.firestore(), 'enquiries', 'e1'), {
+      __id: 'e-123456',
+      name: 'Ballast water system',
+      description: 'Retrofit of the BWTS',
+      customer: { name: 'Acme', phone: '555', address: 'Dock 4' },
+      deliverables: [{ id: 'd1', name: 'Basic design', hours: 10, costPerHour: 100, total: 1000 }],
+      requirements: [{ id: 'r1', text: 'Class approved drawings' }],
+      createdAt: '2026-05-01T00:00:00.000Z',
+      type: 'enquiry',
+    });
+  });
+});
+
+describe('createQuote', () => {
+  it('stores each revision with a snapshot of the enquiry', async () => {
+    await signInAs('admin', 'admin');
+
+    const first = await store().createQuote('e1', options);
+    await updateDoc(doc(db, 'enquiries', 'e1'), { name: 'Ballast water system (revised)' });
+    const second = await store().createQuote('e1', options);
+
+    expect(first).toMatchObject({
+      number: 'QT/e-123456/R1',
+      revision: 1,
+      title: 'Ballast water system',
+      scope: 'Retrofit of the BWTS',
+      customer: { name: 'Acme' },
+      requirements: ['Class approved drawings'],
+      exclusions: ['Travel'],
+      paymentTerms: '50% advance',
+      subtotal: 1000,
+      total: 1180,
+    });
+    expect(second).toMatchObject({ number: 'QT/e-123456/R2', title: 'Ballast water system (revised)' });
+
+    const stored = await getDoc(doc(db, 'enquiries', 'e1', 'quotes', first.id));
+    expect(stored.data()).toMatchObject({ revision: 1, title: 'Ballast water system' });
+    expect((await getDoc(doc(db, 'enquiries', 'e1'))).data()).toMatchObject({ quoteRevision: 2, status: 'quoted' });
+  });
+
+  it('refuses enquiries with nothing priced', async () => {
+    await signInAs('admin', 'admin');
+    await updateDoc(doc(db, 'enquiries', 'e1'), { deliverables: [] });
+
+    await expect(store().createQuote('e1', options)).rejects.toThrow('no priced deliverables');
+  });
+
+  it('cannot be created or edited by members', async () => {
+    await signInAs('admin', 'admin');
+    const quote = await store().createQuote('e1', options);
+
+    await signInAs('member');
+    await expect(store().createQuote('e1', options)).rejects.toThrow();
+    await expect(updateDoc(doc(db, 'enquiries', 'e1', 'quotes', quote.id), { total: 0 })).rejects.toThrow();
+  });
+});
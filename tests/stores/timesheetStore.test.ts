@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { doc, setDoc } from 'firebase/firestore';
+import { useTimesheetStore } from '../../src/store/timesheetStore';
+import { useProjectStore } from '../../src/store/projectStore';
+import { getTimesheetId, getWeekStart, shiftWeek } from '../../src/lib/timesheets';
+import { resetEmulator, seed, signInAs } from './emulator';
+
+const store = () => useTimesheetStore.getState();
+
+// Last week, so no entry is in the future
+const weekStart = shiftWeek(getWeekStart(new Date()), -1);
+const at = (hour: number, minute = 0, week = weekStart) =>
+  new Date(`${week}T${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`).toISOString();
+
+const hull = { projectId: 'p1', taskId: 't1' };
+const deck = { projectId: 'p1', taskId: 't2' };
+
+const setUpMember = async () => {
+  const member = await signInAs('member');
+  await seed(async (context) => {
+    const firestore = context.firestore();
+    await setDoc(doc(firestore, 'projects', 'p1'), { name: 'Vessel refit', __id: 'STI-P-2026-0001' });
+    for (const [taskId, name] of [['t1', 'Hull'], ['t2', 'Deck']]) {
+      await setDoc(doc(firestore, 'projects', 'p1', 'tasks', taskId), {
+        name,
+        description: '',
+        completed: false,
+        parentId: null,
+        order: 0,
+        assignedTo: [member],
+        assigneeIds: [member.id],
+      });
+    }
+  });
+  await store().fetchWeek(weekStart);
+  return member;
+};
+
+beforeEach(async () => {
+  await resetEmulator();
+  useTimesheetStore.setState({ entries: [], timesheet: null, audit: [], submittedTimesheets: [] });
+  useProjectStore.setState({ userTasks: [] });
+});
+
+describe('time entries', () => {
+  it('are added, edited and split on the timesheet', async () => {
+    await setUpMember();
+
+    await store().addEntry(hull, { startTime: at(9), endTime: at(13) });
+    expect(store().entries).toEqual([
+      expect.objectContaining({ taskName: 'Hull', projectName: 'Vessel refit' }),
+    ]);
+    expect(store().entries[0].entry).toMatchObject({ duration: 240, source: 'manual' });
+
+    await store().updateEntry(store().entries[0], hull, { startTime: at(9), endTime: at(12) });
+    await store().splitEntry(store().entries[0], at(10), deck);
+
+    expect(store().entries.map(row => [row.taskId, row.entry.duration])).toEqual([
+      ['t1', 60],
+      ['t2', 120],
+    ]);
+    expect(store().audit.map(record => record.action).sort()).toEqual(['added', 'edited', 'split']);
+  });
+
+  it('split into the next week show in the audit of both weeks', async () => {
+    await setUpMember();
+    const previousWeek = shiftWeek(weekStart, -1);
+    const lateSunday = new Date(`${previousWeek}T23:00`);
+    lateSunday.setDate(lateSunday.getDate() + 6);
+    await store().fetchWeek(previousWeek);
+    await store().addEntry(hull, { startTime: lateSunday.toISOString(), endTime: at(1) });
+
+    await store().splitEntry(store().entries[0], at(0), deck);
+    expect(store().audit.map(record => record.action).sort()).toEqual(['added', 'split']);
+
+    await store().fetchWeek(weekStart);
+    expect(store().entries.map(row => [row.taskId, row.entry.duration])).toEqual([['t2', 60]]);
+    expect(store().audit).toEqual([
+      expect.objectContaining({ action: 'split', after: expect.objectContaining({ taskId: 't2', duration: 60 }) }),
+    ]);
+  });
+
+  it('may not overlap time already logged', async () => {
+    await setUpMember();
+    await store().addEntry(hull, { startTime: at(9), endTime: at(11) });
+
+    await expect(store().addEntry(deck, { startTime: at(10), endTime: at(12) })).rejects.toThrow('overlaps');
+  });
+
+  it('are checked against their own week when dated outside the one shown', async () => {
+    await setUpMember();
+    const previousWeek = shiftWeek(weekStart, -1);
+    await store().addEntry(hull, { startTime: at(9, 0, previousWeek), endTime: at(11, 0, previousWeek) });
+    expect(store().entries).toEqual([]);
+
+    await expect(
+      store().addEntry(deck, { startTime: at(10, 0, previousWeek), endTime: at(12, 0, previousWeek) })
+    ).rejects.toThrow('overlaps');
+  });
+
+  it('are checked against the week they move to, which is audited too', async () => {
+    await setUpMember();
+    const previousWeek = shiftWeek(weekStart, -1);
+    await store().addEntry(hull, { startTime: at(9, 0, previousWeek), endTime: at(11, 0, previousWeek) });
+    await store().addEntry(deck, { startTime: at(9), endTime: at(10) });
+
+    await expect(
+      store().updateEntry(store().entries[0], deck, { startTime: at(10, 0, previousWeek), endTime: at(12, 0, previousWeek) })
+    ).rejects.toThrow('overlaps');
+
+    await store().updateEntry(store().entries[0], deck, { startTime: at(13, 0, previousWeek), endTime: at(14, 0, previousWeek) });
+    expect(store().entries).toEqual([]);
+    expect(store().audit.find(record => record.action === 'edited')?.note).toBe(`Moved to the week of ${previousWeek}`);
+
+    await store().fetchWeek(previousWeek);
+    expect(store().entries.map(row => [row.taskId, row.entry.duration])).toEqual([
+      ['t1', 120],
+      ['t2', 60],
+    ]);
+    expect(store().audit.find(record => record.action === 'edited')?.note).toBe(`Moved from the week of ${weekStart}`);
+  });
+});
+
+describe('submitting a week', () => {
+  it('locks the week until an approver rejects it', async () => {
+    const member = await setUpMember();
+    await store().addEntry(hull, { startTime: at(9), endTime: at(11) });
+    await store().submitWeek();
+    expect(store().timesheet).toMatchObject({ status: 'submitted', totalMinutes: 120 });
+    expect(store().entries[0].entry.submitted).toBe(true);
+
+    await expect(store().deleteEntry(store().entries[0])).rejects.toThrow('submitted');
+    await expect(
+      store().reviewTimesheet(getTimesheetId(member.id, weekStart), 'approved')
+    ).rejects.toThrow();
+
+    await signInAs('admin', 'admin');
+    await store().fetchSubmittedTimesheets();
+    expect(store().submittedTimesheets).toEqual([expect.objectContaining({ userId: member.id })]);
+    await expect(store().reviewTimesheet(store().submittedTimesheets[0].id, 'rejected')).rejects.toThrow('reason');
+    await store().reviewTimesheet(store().submittedTimesheets[0].id, 'rejected', 'Hull time is too high');
+
+    await signInAs('member');
+    await store().fetchWeek(weekStart);
+    expect(store().entries[0].entry.submitted).toBe(false);
+    await store().updateEntry(store().entries[0], hull, { startTime: at(9), endTime: at(10) });
+    await store().submitWeek();
+    expect(store().timesheet).toMatchObject({ status: 'submitted', totalMinutes: 60 });
+  });
+
+  it('locks the submitted entries once approved', async () => {
+    const member = await setUpMember();
+    await store().addEntry(hull, { startTime: at(9), endTime: at(11) });
+    await store().submitWeek();
+
+    await signInAs('admin', 'admin');
+    await store().reviewTimesheet(getTimesheetId(member.id, weekStart), 'approved');
+
+    await signInAs('member');
+    await store().fetchWeek(weekStart);
+    expect(store().timesheet?.status).toBe('approved');
+    expect(store().entries[0].entry.locked).toBe(true);
+    await expect(store().addEntry(deck, { startTime: at(14), endTime: at(15) })).rejects.toThrow('submitted');
+  });
+});
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useWorkFromStore } from '../../src/store/workfromhomestore';
+import { resetEmulator, signInAs } from './emulator';
+
+const store = () => useWorkFromStore.getState();
+
+beforeEach(async () => {
+  await resetEmulator();
+  useWorkFromStore.setState({ workFromRequests: [], allWorkFromRequests: [] });
+});
+
+describe('work from home requests', () => {
+  it('are filed for the signed-in user', async () => {
+    const member = await signInAs('member');
+
+    await store().requestWorkFrom('2026-04-06', '2026-04-07');
+
+    expect(store().workFromRequests).toEqual([
+      expect.objectContaining({ userId: member.id, startDate: '2026-04-06', status: 'pending' }),
+    ]);
+  });
+
+  it('need a signed-in user', async () => {
+    await expect(store().requestWorkFrom('2026-04-06', '2026-04-07'))
+      .rejects.toThrow('User not authenticated');
+  });
+
+  it('are approved by an admin', async () => {
+    await signInAs('member');
+    await store().requestWorkFrom('2026-04-06', '2026-04-07');
+    const [request] = store().workFromRequests;
+
+    await signInAs('admin', 'admin');
+    await store().updateWorkFromStatus(request.id, 'approved');
+
+    expect(store().allWorkFromRequests).toEqual([
+      expect.objectContaining({ id: request.id, status: 'approved' }),
+    ]);
+  });
+});
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from "path";
 import react from "@vitejs/plugin-react";
 import { defineConfig } from "vite";
@@ -12,4 +13,15 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    // Every suite shares one emulator, so files must not run side by side
+    fileParallelism: false,
+    env: {
+      VITE_USE_FIREBASE_EMULATOR: "true",
+      VITE_FIREBASE_PROJECT_ID: "demo-shiptech",
+      VITE_FIREBASE_API_KEY: "demo-api-key",
+    },
+  },
 });